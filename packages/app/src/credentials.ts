@@ -0,0 +1,66 @@
+import { safeStorage } from 'electron';
+import * as fs from 'fs';
+
+/**
+ * 敏感凭据存储：内容通过 safeStorage 用系统凭据（macOS钥匙串、Windows DPAPI、Linux密钥环）加密后写入文件，
+ * 数据库和设置中不保存明文。safeStorage 需要在 app ready 之后使用
+ */
+export class CredentialStore {
+  constructor(private filePath: string) {}
+
+  isAvailable(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  has(name: string): boolean {
+    return name in this.readEntries();
+  }
+
+  get(name: string): string | null {
+    const encrypted = this.readEntries()[name];
+    if (!encrypted || !this.isAvailable()) {
+      return null;
+    }
+    try {
+      return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+    } catch (error) {
+      // 系统凭据变化（如换了用户或重装系统）后无法解密
+      console.error('解密凭据失败:', name, error);
+      return null;
+    }
+  }
+
+  set(name: string, value: string): void {
+    if (!this.isAvailable()) {
+      throw new Error('系统凭据存储不可用，无法安全保存');
+    }
+    const entries = this.readEntries();
+    entries[name] = safeStorage.encryptString(value).toString('base64');
+    this.writeEntries(entries);
+  }
+
+  delete(name: string): void {
+    const entries = this.readEntries();
+    if (name in entries) {
+      delete entries[name];
+      this.writeEntries(entries);
+    }
+  }
+
+  private readEntries(): Record<string, string> {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      }
+    } catch (error) {
+      console.error('读取凭据文件失败:', error);
+    }
+    return {};
+  }
+
+  private writeEntries(entries: Record<string, string>): void {
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2), { encoding: 'utf8', mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -1,7 +1,9 @@
-import { app, BrowserWindow, globalShortcut, ipcMain, Menu, Tray, nativeImage } from 'electron';
+import { app, BrowserWindow, dialog, globalShortcut, ipcMain, IpcMainInvokeEvent, Menu, Tray, nativeImage, Notification, shell } from 'electron';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
-import { FlowpadDB, ContextCapture, AIService, CreateNoteInput, AIConfig } from '../../core/dist/index';
+import { FlowpadDB, Note, ContextCapture, AIService, CreateNoteInput, AIConfig, AIConfigSummary, AIStreamOptions, AIStreamEvent, AIProgress, AICancelledError, AIRequestError, DailyDigest, DigestTodo, DigestPeriod, formatDigestMarkdown, getDigestScopeLabel, DigestSchedule, parseDigestSchedule, validateDigestSchedule, getNextDigestRun, getMissedDigestRuns, formatLocalDate, SemanticIndex, LocalEmbeddingModel, EmbeddingModel, EmbeddingSource, SemanticIndexStatus, AssistantContext, AssistantHistory, AssistantAction, AssistantActionRunner, ChatMessage, AssistantActionError, AssistantTools, getAIProvider, getAIProviders, getAIProviderInfo, recordFixtures, NoteSearchFilters, RevisionSource, NoteScheduleInput, parseDueDate, AttachmentStore, AttachmentInput, VaultSync, VaultStatus, ImportFormat, ImportOptions, ImportError, getImporter, getImporters, readImportFiles, buildImportPreview, BackupService, validateDatabaseBuffer, DatabaseCipher, PassphraseError, DatabaseLockState, getEncryptedDatabasePath, ENCRYPTED_FILE_SUFFIX, LATEST_SCHEMA_VERSION, PRE_MIGRATION_BACKUP_PREFIX } from '../../core/dist/index';
+import { CredentialStore } from './credentials';
 
 // 加载.env文件（如果存在）
 dotenv.config({ path: path.join(__dirname, '../../../.env') });
@@ -104,13 +106,89 @@ class SafeLogger {
 
 const safeLogger = new SafeLogger();
 
+// 回收站默认保留天数
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 附件缩略图的大小上限，超过时只显示文件图标
+const MAX_PREVIEW_SIZE = 5 * 1024 * 1024;
+
+// 待办提醒的检查间隔
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+
+// 笔记或文件变化后延迟同步，合并短时间内的多次修改
+const VAULT_SYNC_DEBOUNCE_MS = 1500;
+// 监听可能漏掉事件（如网络盘），定时做一次完整同步
+const VAULT_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// 界面上保留的冲突记录数
+const MAX_VAULT_CONFLICTS = 50;
+
+// 笔记变化后延迟计算向量，连续输入时只在停顿后计算一次
+const EMBEDDING_INDEX_DEBOUNCE_MS = 3000;
+const EMBEDDING_SOURCES: EmbeddingSource[] = ['local', 'ai', 'off'];
+// 每次助手对话前检索的相关笔记数，实际提供给模型的数量还受长度限制
+const ASSISTANT_RETRIEVAL_LIMIT = 12;
+
+// 检查是否需要生成定期快照的间隔
+const BACKUP_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// 启动时最多补做几天前错过的自动总结
+const DIGEST_CATCH_UP_DAYS = 7;
+
+// 加密数据库在内存中打开，界面请求和后台任务修改后立即写回；此间隔的定期检查兜底其他修改
+const ENCRYPTED_SAVE_INTERVAL_MS = 5 * 1000;
+
+// API密钥按AI服务分别保存在凭据存储中
+const getApiKeyCredential = (provider: string) => `ai_api_key.${provider}`;
+
+// 只支持单一服务时期保存密钥的凭据名称
+const LEGACY_AI_API_KEY_CREDENTIAL = 'ai_api_key';
+
+// 流式生成时向界面推送进度的最小间隔，避免每个token都发送一次完整文本
+const AI_STREAM_THROTTLE_MS = 50;
+
+// AI请求失败时附带错误类型，界面据此提示检查密钥、稍后重试等
+const getAIErrorResult = (error: unknown) => ({
+  success: false,
+  error: error instanceof Error ? error.message : String(error),
+  errorKind: error instanceof AIRequestError ? error.kind : undefined,
+});
+
+// 进行中的流式AI请求
+interface AIRequestState {
+  controller: AbortController;
+  timer: NodeJS.Timeout | null;
+}
+
 class FlowpadApp {
   private mainWindow: BrowserWindow | null = null;
   private floatingWindow: BrowserWindow | null = null;
-  private db: FlowpadDB;
+  // 加密数据库在用户输入密码解锁前不会打开
+  private db!: FlowpadDB;
+  private dbPath: string;
+  private encryptedDbPath: string;
+  private backupDir: string;
+  private backupService!: BackupService;
+  private databaseCipher: DatabaseCipher | null = null;
+  private persistedChangeCount = 0;
+  private credentialStore: CredentialStore;
+  private attachmentStore: AttachmentStore;
   private contextCapture: ContextCapture;
   private aiService: AIService | null = null;
+  // 按界面生成的请求ID记录进行中的AI请求，用于取消
+  private aiRequests = new Map<string, AIRequestState>();
   private tray: Tray | null = null;
+  private vaultSync: VaultSync | null = null;
+  private vaultWatcher: fs.FSWatcher | null = null;
+  private vaultSyncTimer: NodeJS.Timeout | null = null;
+  private vaultSyncInterval: NodeJS.Timeout | null = null;
+  private digestScheduleTimer: NodeJS.Timeout | null = null;
+  // 语义搜索索引，关闭语义搜索或AI服务不支持向量接口时为空
+  private semanticIndex: SemanticIndex | null = null;
+  private semanticIndexError: string | null = null;
+  private embeddingIndexTimer: NodeJS.Timeout | null = null;
+  // AI助手操作的确认和撤销记录，随数据库重新打开而清空
+  private assistantActions: AssistantActionRunner | null = null;
+  private vaultStatus: VaultStatus = { path: null, conflicts: [] };
 
   // 应用状态管理
   private appState = {
@@ -121,17 +199,71 @@ class FlowpadApp {
 
   constructor() {
     // 初始化数据库
-    const dbPath = path.join(app.getPath('userData'), 'flowpad.db');
-    this.db = new FlowpadDB({ path: dbPath });
+    this.dbPath = path.join(app.getPath('userData'), 'flowpad.db');
+    // 定期快照和迁移前备份统一放在 backups 目录
+    this.backupDir = path.join(app.getPath('userData'), 'backups');
+    // 启用加密后数据库只以加密文件的形式保存
+    this.encryptedDbPath = getEncryptedDatabasePath(this.dbPath);
+
+    // API密钥等凭据通过系统凭据存储加密保存
+    this.credentialStore = new CredentialStore(path.join(app.getPath('userData'), 'credentials.json'));
+
+    // 附件按内容哈希保存在用户数据目录下
+    this.attachmentStore = new AttachmentStore(path.join(app.getPath('userData'), 'attachments'));
 
     // 初始化上下文捕获
     this.contextCapture = new ContextCapture();
+  }
+
+  private isDatabaseLocked(): boolean {
+    return !this.db;
+  }
+
+  /**
+   * 打开数据库并启动依赖数据库的服务，加密数据库在解锁后调用
+   * @param cipher 解锁得到的密钥，未加密时为空
+   * @param data 解密后的数据库内容
+   */
+  private openDatabase(cipher: DatabaseCipher | null = null, data?: Buffer): void {
+    try {
+      this.db = new FlowpadDB({ path: this.dbPath, backupDir: this.backupDir, data });
+      this.persistedChangeCount = 0;
+    } catch (error) {
+      // 迁移失败时停止启动，避免在不完整的schema上继续读写
+      const message = error instanceof Error ? error.message : String(error);
+      safeLogger.error('数据库初始化失败，停止启动:', error);
+      dialog.showErrorBox('Flowpad 无法启动', `数据库初始化失败：\n${message}`);
+      app.exit(1);
+      throw error;
+    }
+
+    this.databaseCipher = cipher;
+    this.backupService = new BackupService(this.dbPath, this.backupDir, cipher);
+    this.assistantActions = new AssistantActionRunner(this.db);
 
     // 初始化AI服务（如果有配置）
     this.initAIService();
 
+    // 在后台为尚未计算向量的笔记建立语义索引
+    this.initSemanticIndex();
+
     // 启动时清理已完成的旧笔记
     this.setupCleanupTasks();
+
+    // 定时检查到期的待办提醒
+    this.setupReminderTasks();
+
+    // 按设置定时生成每日总结，并补做错过的总结
+    this.setupDigestSchedule();
+
+    // 已配置同步目录时开始双向同步
+    this.startVaultSync();
+
+    // 每天和每周自动生成数据库快照
+    this.setupBackupTasks();
+
+    // 定期检查是否还有未写回加密数据库的修改
+    setInterval(() => this.persistEncryptedDatabase(), ENCRYPTED_SAVE_INTERVAL_MS);
   }
 
   // 状态管理方法
@@ -234,6 +366,11 @@ class FlowpadApp {
     // 等待应用准备就绪
     await app.whenReady();
 
+    // 数据库已加密时等待用户在主窗口输入密码后再打开
+    if (!fs.existsSync(this.encryptedDbPath)) {
+      this.openDatabase();
+    }
+
     // 创建主窗口
     this.createMainWindow();
 
@@ -303,6 +440,11 @@ class FlowpadApp {
   }
 
   private createFloatingWindow(): void {
+    // 数据库解锁前无法记录，解锁后再创建浮窗
+    if (this.isDatabaseLocked()) {
+      return;
+    }
+
     // 创建一个小的浮窗，只包含按钮，不覆盖整个屏幕
     this.floatingWindow = new BrowserWindow({
       width: 60,  // 足够容纳按钮的宽度
@@ -664,6 +806,12 @@ class FlowpadApp {
 
     safeMethodLog('showFloatingWindow: 开始显示浮窗');
 
+    // 数据库未解锁时改为显示主窗口的解锁界面
+    if (this.isDatabaseLocked()) {
+      this.showMainWindow();
+      return;
+    }
+
     // TEMPORARY: 强制销毁现有浮窗以清除缓存问题
     if (this.floatingWindow && !this.floatingWindow.isDestroyed()) {
       safeMethodLog('showFloatingWindow: 强制销毁现有浮窗以清除缓存');
@@ -763,8 +911,22 @@ class FlowpadApp {
     if (process.env.NODE_ENV === 'development') {
       ipcMain.removeAllListeners();
     }
+
+    // 请求处理期间修改了加密数据库时立即写回磁盘，界面收到结果时修改已经保存；只读的请求不写回
+    const handle = (channel: string, listener: (event: IpcMainInvokeEvent, ...args: any[]) => unknown) => {
+      ipcMain.handle(channel, async (event, ...args) => {
+        const changesBefore = this.getEncryptedChangeCount();
+        try {
+          return await listener(event, ...args);
+        } finally {
+          if (changesBefore !== null && this.getEncryptedChangeCount() !== changesBefore) {
+            this.persistEncryptedDatabase();
+          }
+        }
+      });
+    };
     // 创建笔记
-    ipcMain.handle('create-note', async (_, input: CreateNoteInput) => {
+    handle('create-note', async (_, input: CreateNoteInput) => {
       try {
         // 获取当前上下文
         const context = await this.contextCapture.getCurrentContext();
@@ -772,15 +934,11 @@ class FlowpadApp {
 
         // 保存到数据库
         const note = this.db.createNote(noteInput);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
 
         // 通知主窗口有新笔记创建
-        if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
-          try {
-            this.mainWindow.webContents.send('note-created', note);
-          } catch (error) {
-            safeLogger.warn('Failed to send note-created event to main window:', error);
-          }
-        }
+        this.notifyNoteCreated(note);
 
         return { success: true, data: note };
       } catch (error) {
@@ -790,7 +948,7 @@ class FlowpadApp {
     });
 
     // 获取笔记列表
-    ipcMain.handle('get-notes', async (_, limit?: number, offset?: number) => {
+    handle('get-notes', async (_, limit?: number, offset?: number) => {
       try {
         const notes = this.db.getNotes(limit, offset);
         return { success: true, data: notes };
@@ -800,8 +958,18 @@ class FlowpadApp {
       }
     });
 
+    // 按ID获取笔记，如打开助手回答中引用的笔记
+    handle('get-note', async (_, id: string) => {
+      try {
+        return { success: true, data: this.db.getNoteById(id) };
+      } catch (error) {
+        safeLogger.error('Failed to get note:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
     // 获取今日笔记
-    ipcMain.handle('get-today-notes', async () => {
+    handle('get-today-notes', async () => {
       try {
         const notes = this.db.getTodayNotes();
         return { success: true, data: notes };
@@ -811,481 +979,2087 @@ class FlowpadApp {
       }
     });
 
-    // 删除笔记
-    ipcMain.handle('delete-note', async (_, id: string) => {
+    // 全文搜索笔记
+    handle('search-notes', async (_, query: string, filters?: NoteSearchFilters) => {
       try {
-        const success = this.db.deleteNote(id);
-        return { success, data: success };
+        const results = this.db.searchNotes(query, filters);
+        return { success: true, data: results };
       } catch (error) {
-        safeLogger.error('Failed to delete note:', error);
+        safeLogger.error('Failed to search notes:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 更新笔记
-    ipcMain.handle('update-note', async (_, id: string, text: string) => {
+    // 按语义相似度搜索笔记
+    handle('semantic-search', async (_, query: string, k?: number, filters?: NoteSearchFilters) => {
       try {
-        const success = this.db.updateNote(id, text);
-        return { success, data: success };
+        if (!this.semanticIndex) {
+          throw new Error(this.semanticIndexError || '语义搜索未开启');
+        }
+        const results = await this.semanticIndex.semanticSearch(query, k, filters);
+        return { success: true, data: results };
       } catch (error) {
-        safeLogger.error('Failed to update note:', error);
+        safeLogger.error('Failed to run semantic search:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 更新笔记标签
-    ipcMain.handle('update-note-tags', async (_, id: string, tags: string[]) => {
+    // 混合搜索：合并关键词和语义搜索的结果，语义搜索不可用时只返回关键词结果
+    handle('hybrid-search', async (_, query: string, filters?: NoteSearchFilters) => {
       try {
-        const success = this.db.updateNoteTags(id, tags);
-        return { success, data: success };
+        const results = this.semanticIndex
+          ? await this.semanticIndex.hybridSearch(query, filters)
+          : this.db.searchNotes(query, filters);
+        return { success: true, data: results };
       } catch (error) {
-        safeLogger.error('Failed to update note tags:', error);
+        safeLogger.error('Failed to run hybrid search:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 更新笔记状态
-    ipcMain.handle('update-note-status', async (_, id: string, status: string) => {
+    // 获取语义索引的状态
+    handle('get-semantic-index-status', async () => {
       try {
-        const success = this.db.updateNoteStatus(id, status);
-        return { success, data: success };
+        return { success: true, data: this.getSemanticIndexStatus() };
       } catch (error) {
-        safeLogger.error('Failed to update note status:', error);
+        safeLogger.error('Failed to get semantic index status:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // AI内容优化
-    ipcMain.handle('optimize-content', async (_, rawContent: string) => {
+    // 设置向量的计算方式，更换后重新建立索引
+    handle('set-embedding-source', async (_, source: EmbeddingSource) => {
       try {
-        if (!this.aiService) {
-          throw new Error('AI服务未配置，请先设置API密钥');
+        if (!EMBEDDING_SOURCES.includes(source)) {
+          throw new Error(`未知的向量来源: ${source}`);
         }
-
-        const optimizedContent = await this.aiService.optimizeContent(rawContent);
-        return { success: true, data: optimizedContent };
+        this.db.setSetting('embedding_source', source);
+        this.initSemanticIndex();
+        return { success: true, data: this.getSemanticIndexStatus() };
       } catch (error) {
-        safeLogger.error('Failed to optimize content:', error);
+        safeLogger.error('Failed to set embedding source:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 生成每日总结
-    ipcMain.handle('generate-daily-digest', async () => {
+    // 删除笔记（移入回收站）
+    handle('delete-note', async (_, id: string) => {
       try {
-        if (!this.aiService) {
-          throw new Error('AI服务未配置，请先设置API密钥');
-        }
+        const success = this.db.deleteNote(id);
+        this.scheduleVaultSync();
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to delete note:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        const notes = this.db.getTodayNotes();
-        const digest = await this.aiService.generateDailyDigest(notes);
+    // 获取回收站笔记
+    handle('get-trashed-notes', async () => {
+      try {
+        const notes = this.db.getTrashedNotes();
+        return { success: true, data: notes };
+      } catch (error) {
+        safeLogger.error('Failed to get trashed notes:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        return { success: true, data: digest };
+    // 从回收站恢复笔记
+    handle('restore-note', async (_, id: string) => {
+      try {
+        const success = this.db.restoreNote(id);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+        return { success, data: success };
       } catch (error) {
-        safeLogger.error('Failed to generate daily digest:', error);
+        safeLogger.error('Failed to restore note:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 设置AI配置
-    ipcMain.handle('set-ai-config', async (_, config: AIConfig) => {
+    // 永久删除笔记
+    handle('permanently-delete-note', async (_, id: string) => {
       try {
-        // 保存到数据库
-        this.db.setSetting('ai_provider', config.provider);
-        this.db.setSetting('ai_api_key', config.api_key);
-        if (config.model) {
-          this.db.setSetting('ai_model', config.model);
+        const success = this.db.permanentlyDeleteNote(id);
+        if (success) {
+          this.cleanupAttachmentFiles();
         }
-
-        // 重新初始化AI服务
-        this.aiService = new AIService(config);
-
-        // 验证配置
-        const isValid = await this.aiService.validateConfig();
-
-        return { success: true, data: isValid };
+        return { success, data: success };
       } catch (error) {
-        safeLogger.error('Failed to set AI config:', error);
+        safeLogger.error('Failed to permanently delete note:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 获取AI配置
-    ipcMain.handle('get-ai-config', async () => {
+    // 清空回收站
+    handle('empty-trash', async () => {
       try {
-        const provider = this.db.getSetting('ai_provider');
-        const api_key = this.db.getSetting('ai_api_key');
-        const model = this.db.getSetting('ai_model');
-
-        if (!provider || !api_key) {
-          return { success: true, data: null };
+        const deletedCount = this.db.emptyTrash();
+        if (deletedCount > 0) {
+          this.cleanupAttachmentFiles();
         }
+        return { success: true, data: deletedCount };
+      } catch (error) {
+        safeLogger.error('Failed to empty trash:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        return {
-          success: true,
-          data: { provider, api_key, model } as AIConfig
-        };
+    // 获取回收站保留天数
+    handle('get-trash-retention-days', async () => {
+      try {
+        return { success: true, data: this.getTrashRetentionDays() };
       } catch (error) {
-        safeLogger.error('Failed to get AI config:', error);
+        safeLogger.error('Failed to get trash retention days:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 隐藏浮窗
-    ipcMain.handle('hide-floating-window', () => {
-      this.floatingWindow?.hide();
-      // 更新数据库设置
-      this.safeDatabaseSet('floating_window_enabled', 'false');
-      // 通知主窗口浮窗状态已改变
-      if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
-        try {
-          this.mainWindow.webContents.send('floating-window-state-changed', false);
-        } catch (error) {
-          safeLogger.warn('Failed to send floating window state change to main window:', error);
+    // 设置回收站保留天数
+    handle('set-trash-retention-days', async (_, days: number) => {
+      try {
+        if (!Number.isInteger(days) || days < 1) {
+          throw new Error('保留天数必须为正整数');
         }
+        this.db.setSetting('trash_retention_days', String(days));
+        return { success: true, data: days };
+      } catch (error) {
+        safeLogger.error('Failed to set trash retention days:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 显示主窗口
-    ipcMain.handle('show-main-window', () => {
-      this.showMainWindow();
+    // 获取定时总结设置
+    handle('get-digest-schedule', async () => {
+      try {
+        return { success: true, data: parseDigestSchedule(this.db.getSetting('digest_schedule')) };
+      } catch (error) {
+        safeLogger.error('Failed to get digest schedule:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
     });
 
-    // 获取浮窗启用状态
-    ipcMain.handle('get-floating-window-enabled', () => {
+    // 设置定时总结，保存后立即按新设置重新安排
+    handle('set-digest-schedule', async (_, schedule: DigestSchedule) => {
       try {
-        // 检查浮窗是否实际可见和未被销毁
-        const windowExists = !!this.floatingWindow;
-        const windowNotDestroyed = windowExists && !this.floatingWindow!.isDestroyed();
-        const windowIsVisible = windowNotDestroyed && this.floatingWindow!.isVisible();
+        const validated = validateDigestSchedule(schedule);
+        const previous = parseDigestSchedule(this.db.getSetting('digest_schedule'));
+        // 刚开启时从现在算起，不补做开启之前的总结
+        if (validated.enabled && !previous.enabled) {
+          this.db.setSetting('digest_schedule_last_run', new Date().toISOString());
+        }
+        this.db.setSetting('digest_schedule', JSON.stringify(validated));
+        this.setupDigestSchedule();
+        return { success: true, data: validated };
+      } catch (error) {
+        safeLogger.error('Failed to set digest schedule:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        safeLogger.log('Floating window status check:', {
-          windowExists,
-          windowNotDestroyed,
-          windowIsVisible
-        });
+    // 更新笔记
+    handle('update-note', async (_, id: string, text: string, source?: RevisionSource) => {
+      try {
+        const success = this.db.updateNote(id, text, source);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to update note:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 获取数据库中的设置
-        const enabledInDb = this.db.getSetting('floating_window_enabled');
-        const shouldBeEnabled = enabledInDb !== 'false';
+    // 获取笔记的出链和反向链接
+    handle('get-note-links', async (_, noteId: string) => {
+      try {
+        const links = this.db.getNoteLinks(noteId);
+        return { success: true, data: links };
+      } catch (error) {
+        safeLogger.error('Failed to get note links:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        safeLogger.log('Database setting:', { enabledInDb, shouldBeEnabled });
+    // 为笔记添加附件
+    handle('add-attachments', async (_, noteId: string, inputs: AttachmentInput[]) => {
+      try {
+        if (!this.db.getNoteById(noteId)) {
+          throw new Error('笔记不存在');
+        }
 
-        // 如果浮窗应该启用但不可见，创建并显示它
-        if (shouldBeEnabled && !windowIsVisible) {
-          if (!windowExists || !windowNotDestroyed) {
-            this.createFloatingWindow();
-          } else {
-            this.floatingWindow?.show();
+        const attachments = [];
+        const errors: string[] = [];
+        for (const input of inputs) {
+          try {
+            const file = this.attachmentStore.store(input);
+            attachments.push(this.db.addAttachment(noteId, file));
+          } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
           }
-          return {
-            success: true,
-            data: true
-          };
         }
 
-        // 返回实际可见状态
-        const actuallyEnabled = windowIsVisible && shouldBeEnabled;
-
-        safeLogger.log('Returning floating window status:', actuallyEnabled);
-
-        return {
-          success: true,
-          data: actuallyEnabled
-        };
+        if (attachments.length === 0 && errors.length > 0) {
+          return { success: false, error: errors.join('\n') };
+        }
+        return { success: true, data: attachments, error: errors.length > 0 ? errors.join('\n') : undefined };
       } catch (error) {
-        safeLogger.error('Failed to get floating window setting:', error);
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error)
-        };
+        safeLogger.error('Failed to add attachments:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 设置浮窗启用状态
-    ipcMain.handle('set-floating-window-enabled', (_, enabled: boolean) => {
+    // 获取笔记的附件
+    handle('get-attachments', async (_, noteId: string) => {
       try {
-        this.safeDatabaseSet('floating_window_enabled', String(enabled));
+        const attachments = this.db.getAttachments(noteId);
+        return { success: true, data: attachments };
+      } catch (error) {
+        safeLogger.error('Failed to get attachments:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 立即应用设置
-        if (enabled) {
-          // 如果浮窗不存在或已被销毁，重新创建
-          if (!this.floatingWindow || this.floatingWindow.isDestroyed()) {
-            this.createFloatingWindow();
-          } else {
-            this.floatingWindow.show();
-          }
-        } else {
-          // 确保浮窗真正关闭
-          if (this.floatingWindow && !this.floatingWindow.isDestroyed()) {
-            this.floatingWindow.hide();
-            safeLogger.log('Floating window hidden via set-floating-window-enabled');
-          }
+    // 删除附件，文件不再被引用时一并删除
+    handle('delete-attachment', async (_, id: string) => {
+      try {
+        const success = this.db.deleteAttachment(id);
+        if (success) {
+          this.cleanupAttachmentFiles();
         }
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to delete attachment:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 通知主窗口浮窗状态已改变
-        if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
-          try {
-            this.mainWindow.webContents.send('floating-window-state-changed', enabled);
-          } catch (error) {
-            safeLogger.warn('Failed to send floating window state change to main window:', error);
-          }
+    // 用系统默认程序打开附件
+    handle('open-attachment', async (_, id: string) => {
+      try {
+        const attachment = this.db.getAttachmentById(id);
+        if (!attachment) {
+          throw new Error('附件不存在');
         }
+        const errorMessage = await shell.openPath(this.attachmentStore.getFilePath(attachment.hash, attachment.file_name));
+        if (errorMessage) {
+          throw new Error(errorMessage);
+        }
+        return { success: true, data: true };
+      } catch (error) {
+        safeLogger.error('Failed to open attachment:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        return { success: true, data: enabled };
+    // 获取图片附件的缩略图（data URL）
+    handle('get-attachment-preview', async (_, id: string) => {
+      try {
+        const attachment = this.db.getAttachmentById(id);
+        if (!attachment || !attachment.mime_type.startsWith('image/') || attachment.size > MAX_PREVIEW_SIZE) {
+          return { success: true, data: null };
+        }
+        const data = this.attachmentStore.read(attachment.hash, attachment.file_name);
+        return { success: true, data: `data:${attachment.mime_type};base64,${data.toString('base64')}` };
       } catch (error) {
-        safeLogger.error('Failed to set floating window setting:', error);
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error)
-        };
+        safeLogger.error('Failed to get attachment preview:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 调整浮窗大小
-    ipcMain.handle('resize-floating-window', (_, width: number, height: number) => {
-      safeLogger.log(`FloatingWindow: 收到窗口大小调整请求: ${width}x${height}`);
-      if (this.floatingWindow) {
-        try {
-          // 如果是展开状态(大窗口)，先隐藏主窗口，然后强制置顶浮窗
-          if (width > 100 && height > 100) {
-            safeLogger.log('FloatingWindow: 展开状态 - 隐藏主窗口并强制置顶浮窗');
-            if (this.mainWindow) {
-              this.mainWindow.minimize();
-            }
-            // 强制浮窗置顶并获得焦点
-            this.floatingWindow.setAlwaysOnTop(true, 'screen-saver');
-            this.floatingWindow.focus();
-            this.floatingWindow.moveTop();
-          } else {
-            safeLogger.log('FloatingWindow: 收起状态 - 恢复正常层级');
-            this.floatingWindow.setAlwaysOnTop(true, 'normal');
-            if (this.mainWindow && this.mainWindow.isMinimized()) {
-              this.mainWindow.restore();
-            }
-          }
+    // 获取Markdown同步目录的状态
+    handle('get-vault-status', async () => {
+      return { success: true, data: this.vaultStatus };
+    });
 
-          this.floatingWindow.setSize(width, height);
-          const [currentWidth, currentHeight] = this.floatingWindow.getSize();
-          safeLogger.log(`FloatingWindow: 窗口大小已调整为: ${currentWidth}x${currentHeight}`);
-        } catch (error) {
-          safeLogger.error('FloatingWindow: 调整窗口大小失败:', error);
+    // 选择同步目录并立即同步
+    handle('select-vault-folder', async () => {
+      try {
+        const parent = this.mainWindow && !this.mainWindow.isDestroyed() ? this.mainWindow : undefined;
+        const options: Electron.OpenDialogOptions = {
+          title: '选择Markdown同步目录',
+          properties: ['openDirectory', 'createDirectory'],
+        };
+        const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+        if (result.canceled || result.filePaths.length === 0) {
+          return { success: true, data: this.vaultStatus };
         }
-      } else {
-        safeLogger.error('FloatingWindow: 浮窗对象不存在，无法调整大小');
+
+        const vaultPath = result.filePaths[0];
+        if (vaultPath !== this.db.getSetting('vault_path')) {
+          // 换了目录后按新目录重新建立对应关系
+          this.db.clearVaultFileStates();
+          this.db.setSetting('vault_path', vaultPath);
+          this.vaultStatus = { path: vaultPath, conflicts: [] };
+        }
+        this.startVaultSync();
+        return { success: true, data: this.vaultStatus };
+      } catch (error) {
+        safeLogger.error('Failed to select vault folder:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
+    // 停用目录同步，已导出的文件保留
+    handle('disable-vault', async () => {
+      try {
+        this.stopVaultSync();
+        this.db.setSetting('vault_path', '');
+        this.db.clearVaultFileStates();
+        this.vaultStatus = { path: null, conflicts: [] };
+        return { success: true, data: this.vaultStatus };
+      } catch (error) {
+        safeLogger.error('Failed to disable vault:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-    // AI助手对话处理
-    ipcMain.handle('process-assistant-chat', async (_, userInput: string) => {
+    // 立即同步
+    handle('sync-vault-now', async () => {
       try {
-        if (!this.aiService) {
-          throw new Error('AI服务未配置，请先设置API密钥');
+        if (!this.vaultSync) {
+          throw new Error('尚未设置同步目录');
         }
+        this.runVaultSync();
+        return { success: true, data: this.vaultStatus };
+      } catch (error) {
+        safeLogger.error('Failed to sync vault:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 获取所有笔记作为上下文
-        const notes = this.db.getNotes();
+    // 在文件管理器中打开同步目录
+    handle('open-vault-folder', async () => {
+      try {
+        if (!this.vaultStatus.path) {
+          throw new Error('尚未设置同步目录');
+        }
+        const error = await shell.openPath(this.vaultStatus.path);
+        if (error) {
+          throw new Error(error);
+        }
+        return { success: true, data: true };
+      } catch (error) {
+        safeLogger.error('Failed to open vault folder:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 处理AI助手对话
-        const response = await this.aiService.processAssistantChat(userInput, notes);
+    // 获取支持的导入格式
+    handle('get-importers', async () => {
+      const importers = getImporters().map(({ format, name, extensions, directory }) => ({ format, name, extensions, directory: !!directory }));
+      return { success: true, data: importers };
+    });
 
-        return { success: true, data: response };
+    // 选择要导入的文件或目录
+    handle('select-import-source', async (_, format: ImportFormat) => {
+      try {
+        const importer = getImporter(format);
+        const options: Electron.OpenDialogOptions = importer.directory
+          ? { title: `导入${importer.name}`, properties: ['openDirectory'] }
+          : {
+            title: `导入${importer.name}`,
+            properties: ['openFile'],
+            filters: [{ name: importer.name, extensions: importer.extensions.map(ext => ext.slice(1)) }],
+          };
+        const parent = this.mainWindow && !this.mainWindow.isDestroyed() ? this.mainWindow : undefined;
+        const result = parent ? await dialog.showOpenDialog(parent, options) : await dialog.showOpenDialog(options);
+        return { success: true, data: result.canceled ? null : result.filePaths[0] || null };
       } catch (error) {
-        safeLogger.error('Failed to process assistant chat:', error);
+        safeLogger.error('Failed to select import source:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 保存每日总结到历史记录
-    ipcMain.handle('save-digest-to-history', async (_, date: string, summary: string) => {
+    // 预览导入：解析全部记录并标记重复，不写入数据库
+    handle('preview-import', async (_, format: ImportFormat, sourcePath: string, options: ImportOptions = {}) => {
       try {
-        const savedDigest = this.db.saveDigest(date, summary);
-        return { success: true, data: savedDigest };
+        const files = readImportFiles(sourcePath, getImporter(format));
+        const preview = buildImportPreview(format, files, options, this.db.getNotes());
+        return { success: true, data: preview };
       } catch (error) {
-        safeLogger.error('Failed to save digest to history:', error);
+        safeLogger.error('Failed to preview import:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 获取历史总结列表
-    ipcMain.handle('get-saved-digests', async () => {
+    // 执行导入：重新解析导入源，跳过重复记录
+    handle('run-import', async (_, format: ImportFormat, sourcePath: string, options: ImportOptions = {}) => {
       try {
-        const savedDigests = this.db.getSavedDigests();
-        return { success: true, data: savedDigests };
+        const files = readImportFiles(sourcePath, getImporter(format));
+        const preview = buildImportPreview(format, files, options, this.db.getNotes());
+        const records = preview.records.filter(record => !record.duplicate);
+        const { notes, errors } = this.db.createNotes(records.map(record => record.input));
+
+        const importErrors: ImportError[] = [
+          ...preview.errors,
+          ...errors.map(({ index, message }) => ({ source: records[index].source, message })),
+        ];
+        safeLogger.log(`导入完成：${notes.length} 条记录，跳过重复 ${preview.duplicateCount} 条，失败 ${importErrors.length} 条`);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+
+        return {
+          success: true,
+          data: { imported: notes.length, skippedDuplicates: preview.duplicateCount, errors: importErrors },
+        };
       } catch (error) {
-        safeLogger.error('Failed to get saved digests:', error);
+        safeLogger.error('Failed to import notes:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 根据日期获取保存的总结
-    ipcMain.handle('get-saved-digest-by-date', async (_, date: string) => {
+    // 获取数据库快照列表
+    handle('get-backups', async () => {
       try {
-        const savedDigest = this.db.getSavedDigestByDate(date);
-        return { success: true, data: savedDigest };
+        return { success: true, data: this.backupService.listSnapshots() };
       } catch (error) {
-        safeLogger.error('Failed to get saved digest by date:', error);
+        safeLogger.error('Failed to get backups:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 删除保存的总结
-    ipcMain.handle('delete-saved-digest', async (_, id: string) => {
+    // 立即生成一份快照
+    handle('create-backup', async () => {
       try {
-        const result = this.db.deleteSavedDigest(id);
-        return { success: true, data: result };
+        const snapshot = await this.backupService.createSnapshot(this.db, 'manual');
+        return { success: true, data: snapshot };
       } catch (error) {
-        safeLogger.error('Failed to delete saved digest:', error);
+        safeLogger.error('Failed to create backup:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    // 自定义标签管理 IPC 接口
-    ipcMain.handle('create-custom-tag', async (_, name: string, color?: string) => {
+    // 删除快照
+    handle('delete-backup', async (_, id: string) => {
       try {
-        const result = this.db.createCustomTag(name, color);
-        return result;
+        const success = this.backupService.deleteSnapshot(id);
+        return { success, data: success };
       } catch (error) {
-        safeLogger.error('Failed to create custom tag:', error);
+        safeLogger.error('Failed to delete backup:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    ipcMain.handle('get-custom-tags', async () => {
+    // 从快照恢复数据库
+    handle('restore-backup', async (_, id: string) => {
       try {
-        const tags = this.db.getCustomTags();
-        return { success: true, data: tags };
+        await this.restoreFromSnapshot(id);
+        return { success: true, data: true };
       } catch (error) {
-        safeLogger.error('Failed to get custom tags:', error);
+        safeLogger.error('Failed to restore backup:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    ipcMain.handle('delete-custom-tag', async (_, id: string) => {
+    // 在文件管理器中打开备份目录
+    handle('open-backup-folder', async () => {
       try {
-        const success = this.db.deleteCustomTag(id);
-        return { success, data: success };
+        const error = await shell.openPath(this.backupDir);
+        if (error) {
+          throw new Error(error);
+        }
+        return { success: true, data: true };
       } catch (error) {
-        safeLogger.error('Failed to delete custom tag:', error);
+        safeLogger.error('Failed to open backup folder:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    ipcMain.handle('check-tag-exists', async (_, name: string) => {
+    // 获取数据库加密和解锁状态
+    handle('get-database-lock-state', async () => {
       try {
-        const exists = this.db.tagExists(name);
-        return { success: true, data: exists };
+        const state: DatabaseLockState = {
+          encrypted: this.isDatabaseLocked() ? fs.existsSync(this.encryptedDbPath) : !!this.databaseCipher,
+          locked: this.isDatabaseLocked(),
+        };
+        return { success: true, data: state };
       } catch (error) {
-        safeLogger.error('Failed to check tag exists:', error);
+        safeLogger.error('Failed to get database lock state:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
-  }
 
-  private initAIService(): void {
-    try {
-      // 优先使用数据库中的配置
-      let provider = this.db.getSetting('ai_provider') as 'openai' | 'qwen';
-      let api_key = this.db.getSetting('ai_api_key');
-      let model = this.db.getSetting('ai_model');
+    // 输入密码解锁数据库
+    handle('unlock-database', async (_, passphrase: string) => {
+      try {
+        if (this.isDatabaseLocked()) {
+          this.unlockDatabase(passphrase);
+        }
+        return { success: true, data: true };
+      } catch (error) {
+        // 密码错误是正常情况，不记录为错误
+        if (!(error instanceof PassphraseError)) {
+          safeLogger.error('Failed to unlock database:', error);
+        }
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 启用数据库加密
+    handle('enable-database-encryption', async (_, passphrase: string) => {
+      try {
+        this.enableDatabaseEncryption(passphrase);
+        return { success: true, data: true };
+      } catch (error) {
+        safeLogger.error('Failed to enable database encryption:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 关闭数据库加密
+    handle('disable-database-encryption', async (_, passphrase: string) => {
+      try {
+        this.disableDatabaseEncryption(passphrase);
+        return { success: true, data: true };
+      } catch (error) {
+        if (!(error instanceof PassphraseError)) {
+          safeLogger.error('Failed to disable database encryption:', error);
+        }
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 更换数据库密码
+    handle('change-database-passphrase', async (_, currentPassphrase: string, newPassphrase: string) => {
+      try {
+        this.changeDatabasePassphrase(currentPassphrase, newPassphrase);
+        return { success: true, data: true };
+      } catch (error) {
+        if (!(error instanceof PassphraseError)) {
+          safeLogger.error('Failed to change database passphrase:', error);
+        }
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 获取笔记修订历史
+    handle('get-note-revisions', async (_, noteId: string) => {
+      try {
+        const revisions = this.db.getNoteRevisions(noteId);
+        return { success: true, data: revisions };
+      } catch (error) {
+        safeLogger.error('Failed to get note revisions:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-      // 如果数据库中没有配置，尝试从环境变量读取
-      if (!provider || !api_key) {
-        provider = (process.env.DEFAULT_AI_PROVIDER as 'openai' | 'qwen') || 'qwen';
-        model = process.env.DEFAULT_AI_MODEL || 'qwen-max';
+    // 对比修订内容
+    handle('get-note-revision-diff', async (_, revisionId: string) => {
+      try {
+        const diff = this.db.getNoteRevisionDiff(revisionId);
+        return { success: true, data: diff };
+      } catch (error) {
+        safeLogger.error('Failed to get note revision diff:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        if (provider === 'qwen' && process.env.QWEN_API_KEY) {
-          api_key = process.env.QWEN_API_KEY;
-        } else if (provider === 'openai' && process.env.OPENAI_API_KEY) {
-          api_key = process.env.OPENAI_API_KEY;
+    // 恢复到历史修订
+    handle('restore-note-revision', async (_, revisionId: string) => {
+      try {
+        const note = this.db.restoreNoteRevision(revisionId);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+        if (!note) {
+          return { success: false, error: '修订记录不存在或恢复失败' };
         }
+        return { success: true, data: note };
+      } catch (error) {
+        safeLogger.error('Failed to restore note revision:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 更新笔记标签
+    handle('update-note-tags', async (_, id: string, tags: string[]) => {
+      try {
+        const success = this.db.updateNoteTags(id, tags);
+        this.scheduleVaultSync();
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to update note tags:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-        // 如果从环境变量读取到了配置，保存到数据库中
-        if (provider && api_key) {
-          this.db.setSetting('ai_provider', provider);
-          this.db.setSetting('ai_api_key', api_key);
-          if (model) {
-            this.db.setSetting('ai_model', model);
+    // 更新笔记状态
+    handle('update-note-status', async (_, id: string, status: string) => {
+      try {
+        const success = this.db.updateNoteStatus(id, status);
+        this.scheduleVaultSync();
+
+        // 重复待办完成后会自动生成下一次
+        if (success && status === 'closed') {
+          const nextNote = this.db.getNextRecurrence(id);
+          if (nextNote) {
+            this.notifyNoteCreated(nextNote);
+            this.scheduleEmbeddingIndex();
           }
-          safeLogger.log(`AI配置已从环境变量加载: ${provider} (${model})`);
         }
+
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to update note status:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
+    });
 
-      if (provider && api_key) {
-        this.aiService = new AIService({ provider, api_key, model: model || undefined });
+    // 更新待办的截止时间、优先级和提醒
+    handle('update-note-schedule', async (_, id: string, schedule: NoteScheduleInput) => {
+      try {
+        const success = this.db.updateNoteSchedule(id, schedule);
+        return { success, data: success ? this.db.getNoteById(id) : null };
+      } catch (error) {
+        safeLogger.error('Failed to update note schedule:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
-    } catch (error) {
-      safeLogger.error('Failed to initialize AI service:', error);
-    }
-  }
+    });
 
-  private handleAppEvents(): void {
-    // 当所有窗口都关闭时
-    app.on('window-all-closed', () => {
-      // 在macOS上，保持应用运行直到用户明确退出
-      if (process.platform !== 'darwin') {
-        app.quit();
+    // 获取已逾期的待办
+    handle('get-overdue-todos', async () => {
+      try {
+        const notes = this.db.getOverdueTodos();
+        return { success: true, data: notes };
+      } catch (error) {
+        safeLogger.error('Failed to get overdue todos:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
       }
     });
 
-    app.on('activate', () => {
-      // 在macOS上，当应用图标被点击时，显示主窗口
-      this.showMainWindow();
+    // 获取即将到期的待办
+    handle('get-upcoming-todos', async (_, days?: number) => {
+      try {
+        const notes = this.db.getUpcomingTodos(days);
+        return { success: true, data: notes };
+      } catch (error) {
+        safeLogger.error('Failed to get upcoming todos:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
     });
 
-    // 应用即将退出时清理资源
-    app.on('before-quit', () => {
-      globalShortcut.unregisterAll();
-      this.db.close();
+    // 解析文本中的截止时间（如"明天下午3点"）
+    handle('parse-due-date', async (_, text: string) => {
+      try {
+        return { success: true, data: parseDueDate(text) };
+      } catch (error) {
+        safeLogger.error('Failed to parse due date:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
     });
-  }
 
-  // 设置清理任务
-  private setupCleanupTasks(): void {
-    try {
-      // 立即执行一次清理
-      const result = this.db.cleanupCompletedNotes();
-      if (result.success && result.deletedCount > 0) {
-        safeLogger.log(`启动清理完成：删除了 ${result.deletedCount} 条已完成的旧笔记`);
+    // AI内容优化
+    handle('optimize-content', async (event, rawContent: string, requestId?: string) => {
+      try {
+        if (!this.aiService) {
+          throw new Error('AI服务未配置，请先设置API密钥');
+        }
+
+        const optimizedContent = await this.aiService.optimizeContent(rawContent, this.startAIRequest(event.sender, requestId));
+        return { success: true, data: optimizedContent };
+      } catch (error) {
+        if (error instanceof AICancelledError) {
+          return { success: false, cancelled: true, error: error.message };
+        }
+        safeLogger.error('Failed to optimize content:', error);
+        return getAIErrorResult(error);
+      } finally {
+        this.finishAIRequest(requestId);
       }
+    });
 
-      // 设置每24小时执行一次清理（在每天凌晨2点执行）
-      const scheduleNextCleanup = () => {
-        const now = new Date();
-        const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 2, 0, 0); // 明天凌晨2点
-        const msUntilNextCleanup = tomorrow.getTime() - now.getTime();
+    // 生成每日总结
+    handle('generate-daily-digest', async (event, requestId?: string) => {
+      try {
+        if (!this.aiService) {
+          throw new Error('AI服务未配置，请先设置API密钥');
+        }
 
-        setTimeout(() => {
-          try {
-            const result = this.db.cleanupCompletedNotes();
-            if (result.success && result.deletedCount > 0) {
-              safeLogger.log(`定时清理完成：删除了 ${result.deletedCount} 条已完成的旧笔记`);
-            }
-          } catch (error) {
-            safeLogger.error('定时清理失败:', error);
-          }
+        const notes = this.db.getTodayNotes();
+        const today = formatLocalDate(new Date());
+        const digest = await this.aiService.generateDailyDigest(notes, today, this.startAIRequest(event.sender, requestId));
 
-          // 设置下一次清理（24小时后）
-          setInterval(() => {
-            try {
-              const result = this.db.cleanupCompletedNotes();
-              if (result.success && result.deletedCount > 0) {
-                safeLogger.log(`定时清理完成：删除了 ${result.deletedCount} 条已完成的旧笔记`);
-              }
-            } catch (error) {
-              safeLogger.error('定时清理失败:', error);
-            }
-          }, 24 * 60 * 60 * 1000); // 24小时
-        }, msUntilNextCleanup);
-      };
+        return { success: true, data: digest };
+      } catch (error) {
+        if (error instanceof AICancelledError) {
+          return { success: false, cancelled: true, error: error.message };
+        }
+        safeLogger.error('Failed to generate daily digest:', error);
+        return getAIErrorResult(error);
+      } finally {
+        this.finishAIRequest(requestId);
+      }
+    });
 
-      scheduleNextCleanup();
-      safeLogger.log('已完成笔记自动清理任务设置完成（保留期：7天）');
+    // 生成周期总结：周、月或任意日期范围，已保存的每日总结优先于原始笔记
+    handle('generate-digest', async (event, period: DigestPeriod, requestId?: string) => {
+      try {
+        if (!this.aiService) {
+          throw new Error('AI服务未配置，请先设置API密钥');
+        }
+        if (period.from > period.to) {
+          throw new Error('开始日期不能晚于结束日期');
+        }
 
-    } catch (error) {
-      safeLogger.error('设置清理任务失败:', error);
-    }
+        const options = this.startAIRequest(event.sender, requestId);
+        const notes = this.db.getNotesInRange(period.from, period.to);
+        const digest = period.granularity === 'day'
+          ? await this.aiService.generateDailyDigest(notes, period.from, options)
+          : await this.aiService.generatePeriodDigest(period, notes, this.db.getDailyDigestsInRange(period.from, period.to), options);
+
+        return { success: true, data: digest };
+      } catch (error) {
+        if (error instanceof AICancelledError) {
+          return { success: false, cancelled: true, error: error.message };
+        }
+        safeLogger.error('Failed to generate digest:', error);
+        return getAIErrorResult(error);
+      } finally {
+        this.finishAIRequest(requestId);
+      }
+    });
+
+    // 取消进行中的流式AI请求
+    handle('cancel-ai-request', async (_, requestId: string) => {
+      try {
+        const request = this.aiRequests.get(requestId);
+        request?.controller.abort();
+        return { success: true, data: Boolean(request) };
+      } catch (error) {
+        safeLogger.error('Failed to cancel AI request:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 设置AI配置
+    handle('set-ai-config', async (_, config: AIConfig) => {
+      try {
+        const provider = getAIProvider(config.provider);
+
+        // 密钥留空表示沿用该服务已保存的密钥
+        const api_key = config.api_key || this.getStoredApiKey(provider.id) || undefined;
+        if (!api_key && provider.apiKey === 'required') {
+          throw new Error('请输入API密钥');
+        }
+        if (config.api_key) {
+          this.saveApiKey(provider.id, config.api_key);
+        }
+
+        // 其余配置保存到数据库，模型留空时使用服务的默认模型
+        this.db.setSetting('ai_provider', provider.id);
+        if (config.model) {
+          this.db.setSetting('ai_model', config.model);
+        } else {
+          this.db.deleteSetting('ai_model');
+        }
+        this.db.setSetting('ai_provider_options', JSON.stringify(config.options || {}));
+        this.saveOptionalNumberSetting('ai_timeout_seconds', config.timeout_seconds);
+        this.saveOptionalNumberSetting('ai_max_retries', config.max_retries);
+
+        // 重新初始化AI服务
+        this.aiService = this.createAIService({ ...config, api_key });
+        if (this.getEmbeddingSource() === 'ai') {
+          this.initSemanticIndex();
+        }
+
+        // 验证配置，连接失败时返回错误类型，此时设置已经保存
+        const isValid = await this.aiService.validateConfig();
+
+        return { success: true, data: isValid };
+      } catch (error) {
+        safeLogger.error('Failed to set AI config:', error);
+        return getAIErrorResult(error);
+      }
+    });
+
+    // 获取已注册的AI服务及其配置项声明
+    handle('get-ai-providers', async () => {
+      try {
+        // 离线回放等调试用的服务只在开发环境显示
+        const providers = getAIProviders().filter(provider => !app.isPackaged || !provider.developmentOnly);
+        return { success: true, data: providers.map(getAIProviderInfo) };
+      } catch (error) {
+        safeLogger.error('Failed to get AI providers:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 获取AI配置
+    handle('get-ai-config', async () => {
+      try {
+        const provider = this.db.getSetting('ai_provider');
+        if (!provider) {
+          return { success: true, data: null };
+        }
+        const api_key = this.getStoredApiKey(provider);
+        const model = this.db.getSetting('ai_model');
+
+        // 只返回密钥末尾几位，明文密钥不离开主进程
+        const summary: AIConfigSummary = {
+          provider,
+          model: model || undefined,
+          options: this.getAIProviderOptions(),
+          has_api_key: !!api_key,
+          api_key_hint: api_key && api_key.length > 8 ? api_key.slice(-4) : undefined,
+          api_key_providers: getAIProviders().filter(item => this.getStoredApiKey(item.id)).map(item => item.id),
+          api_key_encrypted: this.credentialStore.isAvailable(),
+          ...this.getAIRequestSettings(),
+        };
+        return { success: true, data: summary };
+      } catch (error) {
+        safeLogger.error('Failed to get AI config:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 隐藏浮窗
+    handle('hide-floating-window', () => {
+      this.floatingWindow?.hide();
+      // 更新数据库设置
+      this.safeDatabaseSet('floating_window_enabled', 'false');
+      // 通知主窗口浮窗状态已改变
+      if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
+        try {
+          this.mainWindow.webContents.send('floating-window-state-changed', false);
+        } catch (error) {
+          safeLogger.warn('Failed to send floating window state change to main window:', error);
+        }
+      }
+    });
+
+    // 显示主窗口
+    handle('show-main-window', () => {
+      this.showMainWindow();
+    });
+
+    // 获取浮窗启用状态
+    handle('get-floating-window-enabled', () => {
+      try {
+        // 检查浮窗是否实际可见和未被销毁
+        const windowExists = !!this.floatingWindow;
+        const windowNotDestroyed = windowExists && !this.floatingWindow!.isDestroyed();
+        const windowIsVisible = windowNotDestroyed && this.floatingWindow!.isVisible();
+
+        safeLogger.log('Floating window status check:', {
+          windowExists,
+          windowNotDestroyed,
+          windowIsVisible
+        });
+
+        // 获取数据库中的设置
+        const enabledInDb = this.db.getSetting('floating_window_enabled');
+        const shouldBeEnabled = enabledInDb !== 'false';
+
+        safeLogger.log('Database setting:', { enabledInDb, shouldBeEnabled });
+
+        // 如果浮窗应该启用但不可见，创建并显示它
+        if (shouldBeEnabled && !windowIsVisible) {
+          if (!windowExists || !windowNotDestroyed) {
+            this.createFloatingWindow();
+          } else {
+            this.floatingWindow?.show();
+          }
+          return {
+            success: true,
+            data: true
+          };
+        }
+
+        // 返回实际可见状态
+        const actuallyEnabled = windowIsVisible && shouldBeEnabled;
+
+        safeLogger.log('Returning floating window status:', actuallyEnabled);
+
+        return {
+          success: true,
+          data: actuallyEnabled
+        };
+      } catch (error) {
+        safeLogger.error('Failed to get floating window setting:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    });
+
+    // 设置浮窗启用状态
+    handle('set-floating-window-enabled', (_, enabled: boolean) => {
+      try {
+        this.safeDatabaseSet('floating_window_enabled', String(enabled));
+
+        // 立即应用设置
+        if (enabled) {
+          // 如果浮窗不存在或已被销毁，重新创建
+          if (!this.floatingWindow || this.floatingWindow.isDestroyed()) {
+            this.createFloatingWindow();
+          } else {
+            this.floatingWindow.show();
+          }
+        } else {
+          // 确保浮窗真正关闭
+          if (this.floatingWindow && !this.floatingWindow.isDestroyed()) {
+            this.floatingWindow.hide();
+            safeLogger.log('Floating window hidden via set-floating-window-enabled');
+          }
+        }
+
+        // 通知主窗口浮窗状态已改变
+        if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
+          try {
+            this.mainWindow.webContents.send('floating-window-state-changed', enabled);
+          } catch (error) {
+            safeLogger.warn('Failed to send floating window state change to main window:', error);
+          }
+        }
+
+        return { success: true, data: enabled };
+      } catch (error) {
+        safeLogger.error('Failed to set floating window setting:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    });
+
+    // 调整浮窗大小
+    handle('resize-floating-window', (_, width: number, height: number) => {
+      safeLogger.log(`FloatingWindow: 收到窗口大小调整请求: ${width}x${height}`);
+      if (this.floatingWindow) {
+        try {
+          // 如果是展开状态(大窗口)，先隐藏主窗口，然后强制置顶浮窗
+          if (width > 100 && height > 100) {
+            safeLogger.log('FloatingWindow: 展开状态 - 隐藏主窗口并强制置顶浮窗');
+            if (this.mainWindow) {
+              this.mainWindow.minimize();
+            }
+            // 强制浮窗置顶并获得焦点
+            this.floatingWindow.setAlwaysOnTop(true, 'screen-saver');
+            this.floatingWindow.focus();
+            this.floatingWindow.moveTop();
+          } else {
+            safeLogger.log('FloatingWindow: 收起状态 - 恢复正常层级');
+            this.floatingWindow.setAlwaysOnTop(true, 'normal');
+            if (this.mainWindow && this.mainWindow.isMinimized()) {
+              this.mainWindow.restore();
+            }
+          }
+
+          this.floatingWindow.setSize(width, height);
+          const [currentWidth, currentHeight] = this.floatingWindow.getSize();
+          safeLogger.log(`FloatingWindow: 窗口大小已调整为: ${currentWidth}x${currentHeight}`);
+        } catch (error) {
+          safeLogger.error('FloatingWindow: 调整窗口大小失败:', error);
+        }
+      } else {
+        safeLogger.error('FloatingWindow: 浮窗对象不存在，无法调整大小');
+      }
+    });
+
+
+    // AI助手对话处理
+    // conversationId 为保存的对话，messageId 为本轮用户消息，只有它之前的消息作为历史
+    handle('process-assistant-chat', async (event, userInput: string, requestId?: string, conversationId?: string, messageId?: string) => {
+      try {
+        if (!this.aiService) {
+          throw new Error('AI服务未配置，请先设置API密钥');
+        }
+        const options = this.startAIRequest(event.sender, requestId);
+
+        // 同一对话中之前的轮次，过长时较早的部分会先合并为摘要
+        let history: AssistantHistory | undefined;
+        const conversation = conversationId ? this.db.getConversation(conversationId) : null;
+        if (conversation) {
+          const messages = this.db.getConversationMessages(conversation.id);
+          const current = messages.findIndex(message => message.id === messageId);
+          const prepared = await this.aiService.prepareAssistantHistory(
+            current >= 0 ? messages.slice(0, current) : messages,
+            conversation.summary,
+            conversation.summarized_count,
+            { signal: options.signal }
+          );
+          if (prepared.summarizedCount !== conversation.summarized_count) {
+            this.db.setConversationSummary(conversation.id, prepared.history.summary || '', prepared.summarizedCount);
+          }
+          history = prepared.history;
+        }
+
+        // 按问题检索相关笔记，连同最近的笔记作为上下文
+        const notes = this.db.getNotes();
+        const relevant = this.semanticIndex
+          ? await this.semanticIndex.retrieve(userInput, ASSISTANT_RETRIEVAL_LIMIT)
+          : this.db.searchNotesByAnyTerm(userInput, { limit: ASSISTANT_RETRIEVAL_LIMIT });
+        const context: AssistantContext = {
+          relevantNotes: relevant.map(result => result.note),
+          recentNotes: notes,
+          totalNotes: notes.length,
+          history,
+        };
+
+        // 处理AI助手对话，支持工具调用的服务可以先搜索、总结再回答，修改笔记的操作仍交给界面确认
+        const tools = new AssistantTools(this.db, { aiService: this.aiService, semanticIndex: this.semanticIndex });
+        const response = await this.aiService.processAssistantChat(userInput, context, options, tools);
+
+        return { success: true, data: response };
+      } catch (error) {
+        if (error instanceof AICancelledError) {
+          return { success: false, cancelled: true, error: error.message };
+        }
+        safeLogger.error('Failed to process assistant chat:', error);
+        return getAIErrorResult(error);
+      } finally {
+        this.finishAIRequest(requestId);
+      }
+    });
+
+    // 获取保存的助手对话列表
+    handle('get-assistant-conversations', async () => {
+      try {
+        return { success: true, data: this.db.getConversations() };
+      } catch (error) {
+        safeLogger.error('Failed to get assistant conversations:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 获取对话中的消息，用于继续之前的对话
+    handle('get-assistant-messages', async (_, conversationId: string) => {
+      try {
+        return { success: true, data: this.db.getConversationMessages(conversationId) };
+      } catch (error) {
+        safeLogger.error('Failed to get assistant messages:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('create-assistant-conversation', async (_, title: string) => {
+      try {
+        return { success: true, data: this.db.createConversation(title.trim().slice(0, 100) || '新对话') };
+      } catch (error) {
+        safeLogger.error('Failed to create assistant conversation:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 保存新消息或消息状态的变化（如操作已确认、已撤销）
+    handle('save-assistant-message', async (_, conversationId: string, message: ChatMessage) => {
+      try {
+        if (!this.db.saveConversationMessage(conversationId, message)) {
+          throw new Error('对话不存在');
+        }
+        return { success: true };
+      } catch (error) {
+        safeLogger.error('Failed to save assistant message:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('rename-assistant-conversation', async (_, conversationId: string, title: string) => {
+      try {
+        if (!title.trim()) {
+          throw new Error('对话名称不能为空');
+        }
+        return { success: true, data: this.db.renameConversation(conversationId, title.trim().slice(0, 100)) };
+      } catch (error) {
+        safeLogger.error('Failed to rename assistant conversation:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('delete-assistant-conversation', async (_, conversationId: string) => {
+      try {
+        return { success: true, data: this.db.deleteConversation(conversationId) };
+      } catch (error) {
+        safeLogger.error('Failed to delete assistant conversation:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 校验AI助手返回的操作并生成预览
+    handle('prepare-assistant-actions', async (_, actions: AssistantAction[]) => {
+      try {
+        return { success: true, data: this.getAssistantActions().prepare(actions) };
+      } catch (error) {
+        safeLogger.error('Failed to prepare assistant actions:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 执行预览过的操作，删除和修改在界面确认后才会调用
+    handle('execute-assistant-actions', async (_, planId: string) => {
+      try {
+        const batch = await this.getAssistantActions().execute(planId, {
+          aiService: this.aiService,
+          semanticIndex: this.semanticIndex,
+        });
+        batch.results
+          .filter(result => result.success && result.type === 'create')
+          .forEach(result => result.notes?.forEach(note => this.notifyNoteCreated(note)));
+        if (batch.undoable) {
+          this.scheduleVaultSync();
+          this.scheduleEmbeddingIndex();
+        }
+        return { success: true, data: batch };
+      } catch (error) {
+        if (!(error instanceof AssistantActionError)) {
+          safeLogger.error('Failed to execute assistant actions:', error);
+        }
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 放弃未确认的操作
+    handle('cancel-assistant-actions', async (_, planId: string) => {
+      try {
+        return { success: true, data: this.getAssistantActions().cancel(planId) };
+      } catch (error) {
+        safeLogger.error('Failed to cancel assistant actions:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 撤销一批已执行的操作
+    handle('undo-assistant-actions', async (_, batchId: string) => {
+      try {
+        const count = this.getAssistantActions().undo(batchId);
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+        return { success: true, data: count };
+      } catch (error) {
+        if (!(error instanceof AssistantActionError)) {
+          safeLogger.error('Failed to undo assistant actions:', error);
+        }
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 保存每日总结到历史记录
+    handle('save-digest-to-history', async (_, date: string, digest: DailyDigest, period?: DigestPeriod) => {
+      try {
+        const savedDigest = this.db.saveDigest(date, formatDigestMarkdown(digest, getDigestScopeLabel(period?.granularity || 'day')), digest, period);
+        return { success: true, data: savedDigest };
+      } catch (error) {
+        safeLogger.error('Failed to save digest to history:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 把总结中的一条待办转为待办记录，已保存的总结同时记下对应的记录
+    handle('create-digest-todo', async (_, todo: DigestTodo, digestId?: string, position?: number) => {
+      try {
+        const note = this.db.createNote({
+          text: todo.text,
+          type_hint: 'todo',
+          project_tag: todo.project,
+          priority: todo.priority,
+        });
+        if (digestId && position !== undefined) {
+          this.db.setDigestTodoNote(digestId, position, note.id);
+        }
+        this.scheduleVaultSync();
+        this.scheduleEmbeddingIndex();
+        this.notifyNoteCreated(note);
+        return { success: true, data: note };
+      } catch (error) {
+        safeLogger.error('Failed to create todo from digest:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 获取历史总结列表
+    handle('get-saved-digests', async () => {
+      try {
+        const savedDigests = this.db.getSavedDigests();
+        return { success: true, data: savedDigests };
+      } catch (error) {
+        safeLogger.error('Failed to get saved digests:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 根据日期获取保存的总结
+    handle('get-saved-digest-by-date', async (_, date: string) => {
+      try {
+        const savedDigest = this.db.getSavedDigestByDate(date);
+        return { success: true, data: savedDigest };
+      } catch (error) {
+        safeLogger.error('Failed to get saved digest by date:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 删除保存的总结
+    handle('delete-saved-digest', async (_, id: string) => {
+      try {
+        const result = this.db.deleteSavedDigest(id);
+        return { success: true, data: result };
+      } catch (error) {
+        safeLogger.error('Failed to delete saved digest:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // 自定义标签管理 IPC 接口
+    handle('create-custom-tag', async (_, name: string, color?: string) => {
+      try {
+        const result = this.db.createCustomTag(name, color);
+        return result;
+      } catch (error) {
+        safeLogger.error('Failed to create custom tag:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('get-custom-tags', async () => {
+      try {
+        const tags = this.db.getCustomTags();
+        return { success: true, data: tags };
+      } catch (error) {
+        safeLogger.error('Failed to get custom tags:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('delete-custom-tag', async (_, id: string) => {
+      try {
+        const success = this.db.deleteCustomTag(id);
+        return { success, data: success };
+      } catch (error) {
+        safeLogger.error('Failed to delete custom tag:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    handle('check-tag-exists', async (_, name: string) => {
+      try {
+        const exists = this.db.tagExists(name);
+        return { success: true, data: exists };
+      } catch (error) {
+        safeLogger.error('Failed to check tag exists:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+  }
+
+  private initAIService(): void {
+    try {
+      // 优先使用数据库中的配置
+      this.migrateLegacyApiKey();
+
+      const savedProvider = this.db.getSetting('ai_provider');
+      let provider = savedProvider ? getAIProvider(savedProvider) : null;
+      let api_key = provider ? this.getStoredApiKey(provider.id) : null;
+      let model = this.db.getSetting('ai_model');
+      let options = this.getAIProviderOptions();
+
+      // 如果没有保存配置，尝试从环境变量读取；密钥只在内存中使用，不再写入设置
+      if (!provider || (!api_key && provider.apiKey === 'required')) {
+        provider = getAIProvider(process.env.DEFAULT_AI_PROVIDER || 'qwen');
+        model = process.env.DEFAULT_AI_MODEL || null;
+        api_key = provider.apiKeyEnv ? process.env[provider.apiKeyEnv] || null : null;
+        options = {};
+
+        if (api_key) {
+          safeLogger.log(`AI配置已从环境变量加载: ${provider.id} (${model || provider.defaultModel})`);
+        }
+      }
+
+      if (api_key || provider.apiKey !== 'required') {
+        this.aiService = this.createAIService({
+          provider: provider.id,
+          api_key: api_key || undefined,
+          model: model || undefined,
+          options,
+          ...this.getAIRequestSettings(),
+        });
+      }
+    } catch (error) {
+      safeLogger.error('Failed to initialize AI service:', error);
+    }
+  }
+
+  /**
+   * 登记一次AI请求并返回流式选项，生成进度通过 ai-stream 事件推送给发起请求的窗口
+   * 未传请求ID时不流式，请求完成后一次性返回结果
+   */
+  private startAIRequest(sender: Electron.WebContents, requestId?: string): AIStreamOptions {
+    if (!requestId) {
+      return {};
+    }
+
+    const request: AIRequestState = { controller: new AbortController(), timer: null };
+    this.aiRequests.set(requestId, request);
+    let latestText = '';
+    let latestProgress: AIProgress | undefined;
+    const flush = () => {
+      if (request.timer) {
+        clearTimeout(request.timer);
+        request.timer = null;
+      }
+      if (!sender.isDestroyed()) {
+        const streamEvent: AIStreamEvent = { requestId, text: latestText, progress: latestProgress };
+        sender.send('ai-stream', streamEvent);
+      }
+    };
+
+    return {
+      signal: request.controller.signal,
+      onText: text => {
+        latestText = text;
+        if (!request.timer) {
+          request.timer = setTimeout(flush, AI_STREAM_THROTTLE_MS);
+        }
+      },
+      // 阶段变化不多，立即发送
+      onProgress: progress => {
+        latestProgress = progress;
+        flush();
+      },
+    };
+  }
+
+  // 请求结束后结果随IPC返回值送达，未发出的进度直接丢弃
+  private finishAIRequest(requestId?: string): void {
+    const request = requestId ? this.aiRequests.get(requestId) : undefined;
+    if (!request) {
+      return;
+    }
+    if (request.timer) {
+      clearTimeout(request.timer);
+    }
+    this.aiRequests.delete(requestId!);
+  }
+
+  // 设置 FLOWPAD_AI_RECORD_DIR 时录制真实的请求和响应，供离线回放服务使用
+  private createAIService(config: AIConfig): AIService {
+    const recordDir = process.env.FLOWPAD_AI_RECORD_DIR;
+    if (recordDir && config.provider !== 'mock') {
+      safeLogger.log(`AI请求录制已开启: ${recordDir}`);
+      return new AIService(config, recordFixtures(getAIProvider(config.provider), recordDir));
+    }
+    return new AIService(config);
+  }
+
+  // 旧版本把API密钥明文保存在设置表中或不区分服务保存，迁移为当前服务的密钥
+  private migrateLegacyApiKey(): void {
+    const provider = this.db.getSetting('ai_provider') || 'qwen';
+    const legacyCredential = this.credentialStore.get(LEGACY_AI_API_KEY_CREDENTIAL);
+    if (legacyCredential) {
+      this.credentialStore.set(getApiKeyCredential(provider), legacyCredential);
+      this.credentialStore.delete(LEGACY_AI_API_KEY_CREDENTIAL);
+    }
+
+    const legacyKey = this.db.getSetting('ai_api_key');
+    if (!legacyKey) {
+      return;
+    }
+    if (!this.credentialStore.isAvailable()) {
+      safeLogger.warn('系统凭据存储不可用，API密钥暂时保留在设置中');
+      return;
+    }
+    this.credentialStore.set(getApiKeyCredential(provider), legacyKey);
+    this.db.deleteSetting('ai_api_key');
+    safeLogger.log('API密钥已迁移到系统凭据存储');
+  }
+
+  // 凭据存储不可用时按旧版本的方式保存在设置中，凭据存储可用后启动时会自动迁移
+  private saveApiKey(provider: string, apiKey: string): void {
+    if (this.credentialStore.isAvailable()) {
+      this.credentialStore.set(getApiKeyCredential(provider), apiKey);
+      return;
+    }
+    safeLogger.warn('系统凭据存储不可用，API密钥暂时明文保存在设置中');
+    this.db.setSetting('ai_api_key', apiKey);
+  }
+
+  // 凭据存储不可用时回退到尚未迁移的旧设置，旧设置只属于当时配置的服务
+  private getStoredApiKey(provider: string): string | null {
+    const stored = this.credentialStore.get(getApiKeyCredential(provider));
+    if (stored) {
+      return stored;
+    }
+    return (this.db.getSetting('ai_provider') || 'qwen') === provider ? this.db.getSetting('ai_api_key') : null;
+  }
+
+  // 当前AI服务的其他配置项，如接口地址
+  private getAIProviderOptions(): Record<string, string> {
+    try {
+      return JSON.parse(this.db.getSetting('ai_provider_options') || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  // 请求超时和重试次数，未设置时由AI服务使用默认值
+  private getAIRequestSettings(): Pick<AIConfig, 'timeout_seconds' | 'max_retries'> {
+    const timeoutSeconds = Number(this.db.getSetting('ai_timeout_seconds'));
+    const savedRetries = this.db.getSetting('ai_max_retries');
+    const maxRetries = savedRetries === null ? NaN : Number(savedRetries);
+    return {
+      timeout_seconds: timeoutSeconds > 0 ? timeoutSeconds : undefined,
+      max_retries: maxRetries >= 0 ? maxRetries : undefined,
+    };
+  }
+
+  private saveOptionalNumberSetting(key: string, value?: number): void {
+    if (value === undefined || !Number.isFinite(value)) {
+      this.db.deleteSetting(key);
+    } else {
+      this.db.setSetting(key, String(value));
+    }
+  }
+
+  private handleAppEvents(): void {
+    // 当所有窗口都关闭时
+    app.on('window-all-closed', () => {
+      // 在macOS上，保持应用运行直到用户明确退出
+      if (process.platform !== 'darwin') {
+        app.quit();
+      }
+    });
+
+    app.on('activate', () => {
+      // 在macOS上，当应用图标被点击时，显示主窗口
+      this.showMainWindow();
+    });
+
+    // 应用即将退出时清理资源
+    app.on('before-quit', () => {
+      globalShortcut.unregisterAll();
+      if (this.isDatabaseLocked()) {
+        return;
+      }
+      this.stopVaultSync();
+      this.persistEncryptedDatabase();
+      this.db.close();
+    });
+  }
+
+  // 回收站保留天数，超过后永久删除
+  private getTrashRetentionDays(): number {
+    const value = Number(this.db.getSetting('trash_retention_days'));
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  // 将已完成的旧笔记移入回收站，并清除超过保留期的回收站笔记
+  private runCleanupTasks(trigger: string): void {
+    const result = this.db.cleanupCompletedNotes();
+    if (result.success && result.deletedCount > 0) {
+      safeLogger.log(`${trigger}完成：${result.deletedCount} 条已完成的旧笔记已移入回收站`);
+    }
+
+    const purgeResult = this.db.purgeTrash(this.getTrashRetentionDays());
+    if (purgeResult.success && purgeResult.deletedCount > 0) {
+      safeLogger.log(`${trigger}完成：永久删除了 ${purgeResult.deletedCount} 条过期的回收站笔记`);
+    }
+
+    this.cleanupAttachmentFiles();
+    this.persistEncryptedDatabase();
+  }
+
+  // 删除不再被任何笔记引用的附件文件
+  private cleanupAttachmentFiles(): void {
+    try {
+      const removed = this.attachmentStore.removeUnreferenced(this.db.getReferencedAttachmentHashes());
+      if (removed > 0) {
+        safeLogger.log(`附件清理完成：删除了 ${removed} 个不再被引用的文件`);
+      }
+    } catch (error) {
+      safeLogger.error('清理附件文件失败:', error);
+    }
+  }
+
+  // 设置清理任务
+  private setupCleanupTasks(): void {
+    try {
+      // 立即执行一次清理
+      this.runCleanupTasks('启动清理');
+
+      // 设置每24小时执行一次清理（在每天凌晨2点执行）
+      const scheduleNextCleanup = () => {
+        const now = new Date();
+        const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 2, 0, 0); // 明天凌晨2点
+        const msUntilNextCleanup = tomorrow.getTime() - now.getTime();
+
+        setTimeout(() => {
+          try {
+            this.runCleanupTasks('定时清理');
+          } catch (error) {
+            safeLogger.error('定时清理失败:', error);
+          }
+
+          // 设置下一次清理（24小时后）
+          setInterval(() => {
+            try {
+              this.runCleanupTasks('定时清理');
+            } catch (error) {
+              safeLogger.error('定时清理失败:', error);
+            }
+          }, 24 * 60 * 60 * 1000); // 24小时
+        }, msUntilNextCleanup);
+      };
+
+      scheduleNextCleanup();
+      safeLogger.log(`已完成笔记自动清理任务设置完成（已完成笔记保留期：7天，回收站保留期：${this.getTrashRetentionDays()}天）`);
+
+    } catch (error) {
+      safeLogger.error('设置清理任务失败:', error);
+    }
+  }
+
+  // 通知主窗口有新笔记创建
+  private notifyNoteCreated(note: Note): void {
+    if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
+      try {
+        this.mainWindow.webContents.send('note-created', note);
+      } catch (error) {
+        safeLogger.warn('Failed to send note-created event to main window:', error);
+      }
+    }
+  }
+
+  // 为提醒时间已到的待办发送系统通知
+  private checkDueReminders(): void {
+    const reminders = this.db.getDueReminders();
+    for (const note of reminders) {
+      // 先标记，避免通知失败时每次检查都重复提醒
+      this.db.markReminderSent(note.id);
+
+      if (!Notification.isSupported()) {
+        continue;
+      }
+
+      const dueText = note.due_at
+        ? `截止：${new Date(note.due_at).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+        : '待办提醒';
+      const notification = new Notification({
+        title: dueText,
+        body: note.text.length > 100 ? note.text.slice(0, 100) + '...' : note.text,
+      });
+      notification.on('click', () => this.showMainWindow());
+      notification.show();
+    }
+
+    if (reminders.length > 0) {
+      safeLogger.log(`已发送 ${reminders.length} 条待办提醒`);
+      this.persistEncryptedDatabase();
+    }
+  }
+
+  // 设置待办提醒任务
+  private setupReminderTasks(): void {
+    try {
+      // 启动时补发错过的提醒
+      this.checkDueReminders();
+
+      setInterval(() => {
+        try {
+          this.checkDueReminders();
+        } catch (error) {
+          safeLogger.error('检查待办提醒失败:', error);
+        }
+      }, REMINDER_CHECK_INTERVAL_MS);
+    } catch (error) {
+      safeLogger.error('设置待办提醒任务失败:', error);
+    }
+  }
+
+  // 设置定时总结任务：先补做错过的总结，再安排下一次
+  private setupDigestSchedule(): void {
+    try {
+      if (this.digestScheduleTimer) {
+        clearTimeout(this.digestScheduleTimer);
+        this.digestScheduleTimer = null;
+      }
+
+      const schedule = parseDigestSchedule(this.db.getSetting('digest_schedule'));
+      if (!schedule.enabled) {
+        return;
+      }
+
+      const lastRun = this.db.getSetting('digest_schedule_last_run');
+      const missed = getMissedDigestRuns(schedule, lastRun ? new Date(lastRun) : null, new Date(), DIGEST_CATCH_UP_DAYS);
+      const scheduleNextDigest = () => {
+        const nextRun = getNextDigestRun(schedule, new Date());
+        if (!nextRun) {
+          return;
+        }
+        this.digestScheduleTimer = setTimeout(async () => {
+          this.digestScheduleTimer = null;
+          await this.runScheduledDigest(nextRun);
+          scheduleNextDigest();
+        }, nextRun.getTime() - Date.now());
+      };
+
+      (async () => {
+        for (const runAt of missed) {
+          await this.runScheduledDigest(runAt, true);
+        }
+        scheduleNextDigest();
+      })();
+      safeLogger.log(`定时总结任务设置完成（${schedule.time}，待补做 ${missed.length} 次）`);
+    } catch (error) {
+      safeLogger.error('设置定时总结任务失败:', error);
+    }
+  }
+
+  /**
+   * 生成并保存 runAt 当天的总结，完成后发送通知
+   *
+   * 当天已手动保存过总结或没有记录时跳过并记为已运行；AI服务未配置或生成失败时不记为已运行，
+   * 下次启动时在补做范围内重试
+   */
+  private async runScheduledDigest(runAt: Date, catchUp = false): Promise<void> {
+    // 设置在等待期间被修改后，旧的调度可能已经运行过这一次
+    const lastRun = this.db.getSetting('digest_schedule_last_run');
+    if (lastRun && new Date(lastRun) >= runAt) {
+      return;
+    }
+
+    const date = formatLocalDate(runAt);
+    const markAsRun = () => {
+      this.db.setSetting('digest_schedule_last_run', runAt.toISOString());
+      this.persistEncryptedDatabase();
+    };
+    try {
+      if (this.db.getSavedDigestByDate(date)) {
+        safeLogger.log(`${date} 已有保存的总结，跳过自动总结`);
+        markAsRun();
+        return;
+      }
+      if (!this.aiService) {
+        safeLogger.warn('AI服务未配置，跳过自动总结');
+        return;
+      }
+
+      const notes = this.db.getNotesInRange(date, date);
+      if (notes.length === 0) {
+        safeLogger.log(`${date} 没有记录，跳过自动总结`);
+        markAsRun();
+        return;
+      }
+
+      const digest = await this.aiService.generateDailyDigest(notes, date);
+      this.db.saveDigest(date, formatDigestMarkdown(digest), digest);
+      markAsRun();
+      safeLogger.log(`已自动生成 ${date} 的总结`);
+      this.showDigestNotification(
+        catchUp ? `已补生成 ${date} 的总结` : '今日总结已生成',
+        digest.summary || `共整理 ${notes.length} 条记录`,
+        catchUp ? date : undefined
+      );
+    } catch (error) {
+      safeLogger.error(`自动生成 ${date} 的总结失败:`, error);
+      this.showDigestNotification('自动生成总结失败', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // 总结相关的系统通知，点击打开今日总结页面；指定 date 时打开历史总结中这一天的总结
+  private showDigestNotification(title: string, body: string, date?: string): void {
+    if (!Notification.isSupported()) {
+      return;
+    }
+    const notification = new Notification({
+      title,
+      body: body.length > 100 ? body.slice(0, 100) + '...' : body,
+    });
+    notification.on('click', () => this.showTodayDigest(date));
+    notification.show();
+  }
+
+  // 设置定期快照任务
+  private setupBackupTasks(): void {
+    const runScheduled = async () => {
+      try {
+        const created = await this.backupService.runScheduledSnapshots(this.db);
+        for (const snapshot of created) {
+          safeLogger.log(`已生成数据库快照：${snapshot.file_name}`);
+        }
+      } catch (error) {
+        safeLogger.error('生成数据库快照失败:', error);
+      }
+    };
+
+    runScheduled();
+    setInterval(runScheduled, BACKUP_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * 用快照替换当前数据库：先校验快照并备份当前数据库，替换后重新打开
+   */
+  private async restoreFromSnapshot(id: string): Promise<void> {
+    const snapshot = this.backupService.listSnapshots().find(item => item.id === id);
+    if (!snapshot) {
+      throw new Error('快照不存在');
+    }
+    const validation = this.backupService.validateSnapshot(snapshot);
+    if (!validation.valid) {
+      throw new Error(`快照无法使用：${validation.error}`);
+    }
+
+    // 恢复前保留当前数据库，恢复失败或选错快照时可以找回
+    const preRestore = await this.backupService.createSnapshot(this.db, 'pre-restore');
+
+    this.stopVaultSync();
+    this.db.close();
+    try {
+      this.backupService.replaceDatabase(snapshot);
+      this.reopenDatabase();
+    } catch (error) {
+      safeLogger.error('恢复快照失败，正在还原当前数据库:', error);
+      this.backupService.replaceDatabase(preRestore);
+      this.reopenDatabase();
+      this.startVaultSync();
+      throw error;
+    }
+
+    // 同步记录属于快照时的状态，清空后按冲突规则重新关联，避免目录中较新的文件覆盖恢复的内容
+    this.db.clearVaultFileStates();
+    this.aiService = null;
+    this.initAIService();
+    this.initSemanticIndex();
+    // 自动总结按恢复后数据库中的设置和上次运行时间重新安排
+    this.setupDigestSchedule();
+    this.startVaultSync();
+    safeLogger.log(`已从快照恢复数据库：${snapshot.file_name}`);
+
+    // 重新加载界面以读取恢复后的数据
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.reload();
+    }
+  }
+
+  // 按当前加密状态重新打开磁盘上的数据库，调用前需关闭旧连接
+  private reopenDatabase(): void {
+    const data = this.databaseCipher ? this.databaseCipher.readFile(this.encryptedDbPath) : undefined;
+    this.db = new FlowpadDB({ path: this.dbPath, backupDir: this.backupDir, data });
+    this.persistedChangeCount = 0;
+    this.assistantActions = new AssistantActionRunner(this.db);
+  }
+
+  // 加密数据库的累计修改行数，未加密或未解锁时返回 null
+  private getEncryptedChangeCount(): number | null {
+    return this.databaseCipher && !this.isDatabaseLocked() ? this.db.getChangeCount() : null;
+  }
+
+  // 加密数据库有未保存的修改时加密写回磁盘
+  private persistEncryptedDatabase(): void {
+    if (!this.databaseCipher || this.isDatabaseLocked()) {
+      return;
+    }
+
+    try {
+      const changeCount = this.db.getChangeCount();
+      if (changeCount === this.persistedChangeCount) {
+        return;
+      }
+      this.databaseCipher.writeFile(this.encryptedDbPath, this.db.serialize());
+      this.persistedChangeCount = changeCount;
+    } catch (error) {
+      safeLogger.error('保存加密数据库失败:', error);
+    }
+  }
+
+  /**
+   * 用密码解锁加密数据库
+   * @throws PassphraseError 密码错误时
+   */
+  private unlockDatabase(passphrase: string): void {
+    const { cipher, data } = DatabaseCipher.unlock(this.encryptedDbPath, passphrase);
+
+    // 内存数据库迁移时不会自动备份，先把旧版本的加密文件复制为迁移前快照
+    const validation = validateDatabaseBuffer(data);
+    if (validation.valid && validation.schema_version < LATEST_SCHEMA_VERSION) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      fs.mkdirSync(this.backupDir, { recursive: true });
+      fs.copyFileSync(
+        this.encryptedDbPath,
+        path.join(this.backupDir, `${PRE_MIGRATION_BACKUP_PREFIX}-v${validation.schema_version}-${timestamp}.db${ENCRYPTED_FILE_SUFFIX}`)
+      );
+    }
+
+    this.openDatabase(cipher, data);
+    this.createFloatingWindow();
+    safeLogger.log('数据库已解锁');
+  }
+
+  /**
+   * 启用数据库加密：写入加密文件后删除明文数据库和明文备份，快照同时转为加密保存
+   */
+  private enableDatabaseEncryption(passphrase: string): void {
+    if (this.databaseCipher) {
+      throw new Error('数据库已加密');
+    }
+    const cipher = DatabaseCipher.create(passphrase);
+
+    this.stopVaultSync();
+    cipher.writeFile(this.encryptedDbPath, this.db.serialize());
+    this.db.close();
+    try {
+      this.databaseCipher = cipher;
+      this.reopenDatabase();
+    } catch (error) {
+      safeLogger.error('打开加密数据库失败，保留明文数据库:', error);
+      this.databaseCipher = null;
+      fs.unlinkSync(this.encryptedDbPath);
+      this.reopenDatabase();
+      this.startVaultSync();
+      throw error;
+    }
+
+    for (const suffix of ['', '-journal', '-wal', '-shm']) {
+      if (fs.existsSync(`${this.dbPath}${suffix}`)) {
+        fs.unlinkSync(`${this.dbPath}${suffix}`);
+      }
+    }
+    this.removePlaintextMigrationBackups();
+    this.backupService.setCipher(cipher);
+    this.startVaultSync();
+    safeLogger.log('数据库加密已启用');
+  }
+
+  // 早期版本在数据库旁保存的迁移前备份（.bak）是明文副本，启用加密时一并删除
+  private removePlaintextMigrationBackups(): void {
+    const dir = path.dirname(this.dbPath);
+    const prefix = `${path.basename(this.dbPath)}.v`;
+    for (const fileName of fs.readdirSync(dir)) {
+      if (fileName.startsWith(prefix) && fileName.endsWith('.bak')) {
+        fs.unlinkSync(path.join(dir, fileName));
+        safeLogger.log(`已删除明文的迁移前备份: ${fileName}`);
+      }
+    }
+  }
+
+  // 关闭数据库加密，恢复为普通数据库文件
+  private disableDatabaseEncryption(passphrase: string): void {
+    if (!this.databaseCipher) {
+      throw new Error('数据库未加密');
+    }
+    if (!this.databaseCipher.matches(passphrase)) {
+      throw new PassphraseError('密码错误');
+    }
+
+    this.stopVaultSync();
+    const tempPath = `${this.dbPath}.tmp`;
+    fs.writeFileSync(tempPath, this.db.serialize());
+    fs.renameSync(tempPath, this.dbPath);
+    this.db.close();
+    this.databaseCipher = null;
+    this.reopenDatabase();
+
+    fs.unlinkSync(this.encryptedDbPath);
+    this.backupService.setCipher(null);
+    this.startVaultSync();
+    safeLogger.log('数据库加密已关闭');
+  }
+
+  // 更换加密密码，数据库和快照都用新密码重新加密
+  private changeDatabasePassphrase(currentPassphrase: string, newPassphrase: string): void {
+    if (!this.databaseCipher) {
+      throw new Error('数据库未加密');
+    }
+    if (!this.databaseCipher.matches(currentPassphrase)) {
+      throw new PassphraseError('当前密码错误');
+    }
+
+    const cipher = DatabaseCipher.create(newPassphrase);
+    const changeCount = this.db.getChangeCount();
+    cipher.writeFile(this.encryptedDbPath, this.db.serialize());
+    this.persistedChangeCount = changeCount;
+    this.databaseCipher = cipher;
+    this.backupService.setCipher(cipher);
+    safeLogger.log('数据库密码已更换');
+  }
+
+  // 根据设置启动Markdown目录同步：先完整同步一次，再监听目录变化
+  private startVaultSync(): void {
+    this.stopVaultSync();
+
+    const vaultPath = this.db.getSetting('vault_path');
+    if (!vaultPath) {
+      return;
+    }
+
+    try {
+      this.vaultSync = new VaultSync(this.db, vaultPath);
+      this.vaultStatus = { ...this.vaultStatus, path: vaultPath };
+      this.runVaultSync();
+
+      // Linux上不支持递归监听，只同步目录第一层的 .md 文件
+      this.vaultWatcher = fs.watch(vaultPath, (_, fileName) => {
+        if (!fileName || fileName.toString().toLowerCase().endsWith('.md')) {
+          this.scheduleVaultSync();
+        }
+      });
+      this.vaultWatcher.on('error', (error) => {
+        safeLogger.warn('同步目录监听失败，改为仅定时同步:', error);
+        this.vaultWatcher?.close();
+        this.vaultWatcher = null;
+      });
+
+      this.vaultSyncInterval = setInterval(() => this.runVaultSync(), VAULT_SYNC_INTERVAL_MS);
+      safeLogger.log(`Markdown目录同步已启动: ${vaultPath}`);
+    } catch (error) {
+      safeLogger.error('启动Markdown目录同步失败:', error);
+      this.stopVaultSync();
+    }
+  }
+
+  private stopVaultSync(): void {
+    this.vaultWatcher?.close();
+    this.vaultWatcher = null;
+    if (this.vaultSyncTimer) {
+      clearTimeout(this.vaultSyncTimer);
+      this.vaultSyncTimer = null;
+    }
+    if (this.vaultSyncInterval) {
+      clearInterval(this.vaultSyncInterval);
+      this.vaultSyncInterval = null;
+    }
+    this.vaultSync = null;
+  }
+
+  // 笔记或文件变化后延迟同步
+  private scheduleVaultSync(): void {
+    if (!this.vaultSync) {
+      return;
+    }
+    if (this.vaultSyncTimer) {
+      clearTimeout(this.vaultSyncTimer);
+    }
+    this.vaultSyncTimer = setTimeout(() => {
+      this.vaultSyncTimer = null;
+      this.runVaultSync();
+    }, VAULT_SYNC_DEBOUNCE_MS);
+  }
+
+  private runVaultSync(): void {
+    if (!this.vaultSync) {
+      return;
+    }
+
+    try {
+      const result = this.vaultSync.sync();
+      this.vaultStatus = {
+        ...this.vaultStatus,
+        last_synced_at: new Date().toISOString(),
+        last_result: result,
+        conflicts: [...result.conflicts, ...this.vaultStatus.conflicts].slice(0, MAX_VAULT_CONFLICTS),
+      };
+
+      if (result.conflicts.length > 0) {
+        safeLogger.warn(`Markdown目录同步发现 ${result.conflicts.length} 个冲突，外部修改已另存为冲突文件`);
+      }
+      if (result.errors.length > 0) {
+        safeLogger.warn('Markdown目录同步部分失败:', result.errors);
+      }
+
+      if (result.imported + result.created > 0) {
+        this.scheduleEmbeddingIndex();
+      }
+      this.persistEncryptedDatabase();
+
+      // 外部修改写回了数据库时通知主窗口刷新
+      if (result.imported + result.created + result.trashed > 0
+        && this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
+        this.mainWindow.webContents.send('vault-synced', result);
+      }
+    } catch (error) {
+      safeLogger.error('Markdown目录同步失败:', error);
+    }
+  }
+
+  private getAssistantActions(): AssistantActionRunner {
+    if (!this.assistantActions) {
+      throw new Error('数据库未解锁');
+    }
+    return this.assistantActions;
+  }
+
+  private getEmbeddingSource(): EmbeddingSource {
+    const source = this.db.getSetting('embedding_source') as EmbeddingSource | null;
+    // 默认关闭，本地模型需要下载模型文件，由用户在设置页中开启
+    return source && EMBEDDING_SOURCES.includes(source) ? source : 'off';
+  }
+
+  // 按设置创建语义索引并在后台计算缺少的向量；使用AI服务时需要服务支持向量接口
+  private initSemanticIndex(): void {
+    if (this.embeddingIndexTimer) {
+      clearTimeout(this.embeddingIndexTimer);
+      this.embeddingIndexTimer = null;
+    }
+    this.semanticIndex = null;
+    this.semanticIndexError = null;
+
+    let model: EmbeddingModel;
+    try {
+      const source = this.getEmbeddingSource();
+      if (source === 'off') {
+        return;
+      }
+      if (source === 'ai') {
+        if (!this.aiService) {
+          throw new Error('AI服务未配置');
+        }
+        model = this.aiService.createEmbeddingModel();
+      } else {
+        // 模型文件下载后缓存在用户数据目录，之后离线可用
+        model = new LocalEmbeddingModel(path.join(app.getPath('userData'), 'models'));
+      }
+    } catch (error) {
+      this.semanticIndexError = error instanceof Error ? error.message : String(error);
+      safeLogger.warn('语义搜索不可用:', this.semanticIndexError);
+      return;
+    }
+
+    this.semanticIndex = new SemanticIndex(this.db, model);
+    this.scheduleEmbeddingIndex();
+  }
+
+  // 笔记变化后延迟计算向量
+  private scheduleEmbeddingIndex(): void {
+    if (!this.semanticIndex) {
+      return;
+    }
+    if (this.embeddingIndexTimer) {
+      clearTimeout(this.embeddingIndexTimer);
+    }
+    this.embeddingIndexTimer = setTimeout(() => {
+      this.embeddingIndexTimer = null;
+      this.runEmbeddingIndex();
+    }, EMBEDDING_INDEX_DEBOUNCE_MS);
+  }
+
+  private async runEmbeddingIndex(): Promise<void> {
+    const index = this.semanticIndex;
+    if (!index) {
+      return;
+    }
+
+    try {
+      const count = await index.indexPending();
+      if (count > 0) {
+        safeLogger.log(`已为 ${count} 条笔记计算向量 (${index.model.id})`);
+        this.persistEncryptedDatabase();
+      }
+    } catch (error) {
+      safeLogger.warn('计算笔记向量失败:', error);
+    }
+  }
+
+  private getSemanticIndexStatus(): SemanticIndexStatus {
+    const source = this.getEmbeddingSource();
+    if (!this.semanticIndex) {
+      return { source, indexed: 0, total: 0, error: this.semanticIndexError || undefined };
+    }
+    return {
+      source,
+      model: this.semanticIndex.model.id,
+      ...this.semanticIndex.getProgress(),
+      error: this.semanticIndex.lastError,
+    };
   }
 
   // 安全设置数据库的辅助方法
@@ -1329,13 +3103,14 @@ class FlowpadApp {
     }
   }
 
-  private showTodayDigest(): void {
+  // 显示今日总结页面，指定 date 时改为显示历史总结中这一天的总结
+  private showTodayDigest(date?: string): void {
     if (this.mainWindow && this.isInFullScreenEnvironment()) {
       safeLogger.log('showTodayDigest: 检测到全屏环境，只导航不显示以保持全屏体验');
       // 直接发送导航消息，不显示窗口
       if (!this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
         try {
-          this.mainWindow.webContents.send('navigate-to-digest');
+          this.mainWindow.webContents.send('navigate-to-digest', date);
           safeLogger.log('今日总结页面导航完成（全屏模式）');
         } catch (error) {
           safeLogger.warn('Failed to navigate to digest in fullscreen mode:', error);
@@ -1349,7 +3124,7 @@ class FlowpadApp {
     // 向主窗口发送消息，切换到今日总结页面
     if (this.mainWindow && !this.mainWindow.isDestroyed() && !this.mainWindow.webContents.isDestroyed()) {
       try {
-        this.mainWindow.webContents.send('navigate-to-digest');
+        this.mainWindow.webContents.send('navigate-to-digest', date);
       } catch (error) {
         safeLogger.warn('Failed to navigate to digest:', error);
       }
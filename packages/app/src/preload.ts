@@ -1,31 +1,111 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { CreateNoteInput, Note, AIConfig, SavedDigest } from '../../core/dist/index';
+import { CreateNoteInput, Note, AIConfig, SavedDigest, DailyDigest, DigestTodo, DigestPeriod, DigestSchedule, NoteSearchFilters, NoteSearchResult, SemanticSearchResult, SemanticIndexStatus, EmbeddingSource, NoteRevision, NoteRevisionDiff, RevisionSource, NoteScheduleInput, ParsedDueDate, NoteLinks, Attachment, AttachmentInput, VaultStatus, ImportFormat, ImportOptions, ImportPreview, ImportResult, BackupSnapshot, AIConfigSummary, AIProviderInfo, DatabaseLockState, AIStreamEvent, AIErrorKind, AssistantAction, AssistantActionPlan, AssistantActionBatch, AssistantConversation, ChatMessage } from '../../core/dist/index';
 
 // 为渲染进程暴露安全的API
 contextBridge.exposeInMainWorld('electronAPI', {
   // 笔记相关API
   createNote: (input: CreateNoteInput) => ipcRenderer.invoke('create-note', input),
   getNotes: (limit?: number, offset?: number) => ipcRenderer.invoke('get-notes', limit, offset),
+  getNote: (id: string) => ipcRenderer.invoke('get-note', id),
   getTodayNotes: () => ipcRenderer.invoke('get-today-notes'),
+  searchNotes: (query: string, filters?: NoteSearchFilters) => ipcRenderer.invoke('search-notes', query, filters),
+  semanticSearch: (query: string, k?: number, filters?: NoteSearchFilters) => ipcRenderer.invoke('semantic-search', query, k, filters),
+  hybridSearch: (query: string, filters?: NoteSearchFilters) => ipcRenderer.invoke('hybrid-search', query, filters),
+  getSemanticIndexStatus: () => ipcRenderer.invoke('get-semantic-index-status'),
+  setEmbeddingSource: (source: EmbeddingSource) => ipcRenderer.invoke('set-embedding-source', source),
   deleteNote: (id: string) => ipcRenderer.invoke('delete-note', id),
-  updateNote: (id: string, text: string) => ipcRenderer.invoke('update-note', id, text),
+  updateNote: (id: string, text: string, source?: RevisionSource) => ipcRenderer.invoke('update-note', id, text, source),
   updateNoteTags: (id: string, tags: string[]) => ipcRenderer.invoke('update-note-tags', id, tags),
   updateNoteStatus: (id: string, status: string) => ipcRenderer.invoke('update-note-status', id, status),
 
+  // 待办截止与提醒API
+  updateNoteSchedule: (id: string, schedule: NoteScheduleInput) => ipcRenderer.invoke('update-note-schedule', id, schedule),
+  getOverdueTodos: () => ipcRenderer.invoke('get-overdue-todos'),
+  getUpcomingTodos: (days?: number) => ipcRenderer.invoke('get-upcoming-todos', days),
+  parseDueDate: (text: string) => ipcRenderer.invoke('parse-due-date', text),
+
+  // 回收站API
+  getTrashedNotes: () => ipcRenderer.invoke('get-trashed-notes'),
+  restoreNote: (id: string) => ipcRenderer.invoke('restore-note', id),
+  permanentlyDeleteNote: (id: string) => ipcRenderer.invoke('permanently-delete-note', id),
+  emptyTrash: () => ipcRenderer.invoke('empty-trash'),
+  getTrashRetentionDays: () => ipcRenderer.invoke('get-trash-retention-days'),
+  setTrashRetentionDays: (days: number) => ipcRenderer.invoke('set-trash-retention-days', days),
+  getDigestSchedule: () => ipcRenderer.invoke('get-digest-schedule'),
+  setDigestSchedule: (schedule: DigestSchedule) => ipcRenderer.invoke('set-digest-schedule', schedule),
+
+  // 笔记链接API
+  getNoteLinks: (noteId: string) => ipcRenderer.invoke('get-note-links', noteId),
+
+  // 附件API
+  addAttachments: (noteId: string, inputs: AttachmentInput[]) => ipcRenderer.invoke('add-attachments', noteId, inputs),
+  getAttachments: (noteId: string) => ipcRenderer.invoke('get-attachments', noteId),
+  deleteAttachment: (id: string) => ipcRenderer.invoke('delete-attachment', id),
+  openAttachment: (id: string) => ipcRenderer.invoke('open-attachment', id),
+  getAttachmentPreview: (id: string) => ipcRenderer.invoke('get-attachment-preview', id),
+
+  // Markdown目录同步API
+  getVaultStatus: () => ipcRenderer.invoke('get-vault-status'),
+  selectVaultFolder: () => ipcRenderer.invoke('select-vault-folder'),
+  disableVault: () => ipcRenderer.invoke('disable-vault'),
+  syncVaultNow: () => ipcRenderer.invoke('sync-vault-now'),
+  openVaultFolder: () => ipcRenderer.invoke('open-vault-folder'),
+
+  // 导入API
+  getImporters: () => ipcRenderer.invoke('get-importers'),
+  selectImportSource: (format: ImportFormat) => ipcRenderer.invoke('select-import-source', format),
+  previewImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => ipcRenderer.invoke('preview-import', format, sourcePath, options),
+  runImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => ipcRenderer.invoke('run-import', format, sourcePath, options),
+
+  // 数据库备份API
+  getBackups: () => ipcRenderer.invoke('get-backups'),
+  createBackup: () => ipcRenderer.invoke('create-backup'),
+  deleteBackup: (id: string) => ipcRenderer.invoke('delete-backup', id),
+  restoreBackup: (id: string) => ipcRenderer.invoke('restore-backup', id),
+  openBackupFolder: () => ipcRenderer.invoke('open-backup-folder'),
+
+  // 数据库加密
+  getDatabaseLockState: () => ipcRenderer.invoke('get-database-lock-state'),
+  unlockDatabase: (passphrase: string) => ipcRenderer.invoke('unlock-database', passphrase),
+  enableDatabaseEncryption: (passphrase: string) => ipcRenderer.invoke('enable-database-encryption', passphrase),
+  disableDatabaseEncryption: (passphrase: string) => ipcRenderer.invoke('disable-database-encryption', passphrase),
+  changeDatabasePassphrase: (currentPassphrase: string, newPassphrase: string) =>
+    ipcRenderer.invoke('change-database-passphrase', currentPassphrase, newPassphrase),
+
+  // 笔记修订历史API
+  getNoteRevisions: (noteId: string) => ipcRenderer.invoke('get-note-revisions', noteId),
+  getNoteRevisionDiff: (revisionId: string) => ipcRenderer.invoke('get-note-revision-diff', revisionId),
+  restoreNoteRevision: (revisionId: string) => ipcRenderer.invoke('restore-note-revision', revisionId),
+
   // 自定义标签相关API
   createCustomTag: (name: string, color?: string) => ipcRenderer.invoke('create-custom-tag', name, color),
   getCustomTags: () => ipcRenderer.invoke('get-custom-tags'),
   deleteCustomTag: (id: string) => ipcRenderer.invoke('delete-custom-tag', id),
 
   // AI相关API
-  optimizeContent: (rawContent: string) => ipcRenderer.invoke('optimize-content', rawContent),
-  generateDailyDigest: () => ipcRenderer.invoke('generate-daily-digest'),
+  // 传入 requestId 时通过 onAIStream 接收生成进度，并可用 cancelAIRequest 取消
+  optimizeContent: (rawContent: string, requestId?: string) => ipcRenderer.invoke('optimize-content', rawContent, requestId),
+  generateDailyDigest: (requestId?: string) => ipcRenderer.invoke('generate-daily-digest', requestId),
   setAIConfig: (config: AIConfig) => ipcRenderer.invoke('set-ai-config', config),
   getAIConfig: () => ipcRenderer.invoke('get-ai-config'),
-  processAssistantChat: (userInput: string) => ipcRenderer.invoke('process-assistant-chat', userInput),
+  getAIProviders: () => ipcRenderer.invoke('get-ai-providers'),
+  processAssistantChat: (userInput: string, requestId?: string, conversationId?: string, messageId?: string) => ipcRenderer.invoke('process-assistant-chat', userInput, requestId, conversationId, messageId),
+  prepareAssistantActions: (actions: AssistantAction[]) => ipcRenderer.invoke('prepare-assistant-actions', actions),
+  executeAssistantActions: (planId: string) => ipcRenderer.invoke('execute-assistant-actions', planId),
+  cancelAssistantActions: (planId: string) => ipcRenderer.invoke('cancel-assistant-actions', planId),
+  undoAssistantActions: (batchId: string) => ipcRenderer.invoke('undo-assistant-actions', batchId),
+  getAssistantConversations: () => ipcRenderer.invoke('get-assistant-conversations'),
+  getAssistantMessages: (conversationId: string) => ipcRenderer.invoke('get-assistant-messages', conversationId),
+  createAssistantConversation: (title: string) => ipcRenderer.invoke('create-assistant-conversation', title),
+  saveAssistantMessage: (conversationId: string, message: ChatMessage) => ipcRenderer.invoke('save-assistant-message', conversationId, message),
+  renameAssistantConversation: (conversationId: string, title: string) => ipcRenderer.invoke('rename-assistant-conversation', conversationId, title),
+  deleteAssistantConversation: (conversationId: string) => ipcRenderer.invoke('delete-assistant-conversation', conversationId),
+  cancelAIRequest: (requestId: string) => ipcRenderer.invoke('cancel-ai-request', requestId),
 
   // 历史总结API
-  saveDigestToHistory: (date: string, summary: string) => ipcRenderer.invoke('save-digest-to-history', date, summary),
+  generateDigest: (period: DigestPeriod, requestId?: string) => ipcRenderer.invoke('generate-digest', period, requestId),
+  saveDigestToHistory: (date: string, digest: DailyDigest, period?: DigestPeriod) => ipcRenderer.invoke('save-digest-to-history', date, digest, period),
+  createDigestTodo: (todo: DigestTodo, digestId?: string, position?: number) => ipcRenderer.invoke('create-digest-todo', todo, digestId, position),
   getSavedDigests: () => ipcRenderer.invoke('get-saved-digests'),
   getSavedDigestByDate: (date: string) => ipcRenderer.invoke('get-saved-digest-by-date', date),
   deleteSavedDigest: (id: string) => ipcRenderer.invoke('delete-saved-digest', id),
@@ -78,6 +158,42 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.removeAllListeners('note-created');
     }
   },
+  onVaultSynced: (callback: (result: any) => void) => {
+    const handler = (_: any, result: any) => callback(result);
+    ipcRenderer.on('vault-synced', handler);
+    return handler;
+  },
+  removeVaultSyncedListener: (handler?: any) => {
+    if (handler) {
+      ipcRenderer.removeListener('vault-synced', handler);
+    } else {
+      ipcRenderer.removeAllListeners('vault-synced');
+    }
+  },
+  onNavigateToDigest: (callback: (date?: string) => void) => {
+    const handler = (_: any, date?: string) => callback(date);
+    ipcRenderer.on('navigate-to-digest', handler);
+    return handler;
+  },
+  removeNavigateToDigestListener: (handler?: any) => {
+    if (handler) {
+      ipcRenderer.removeListener('navigate-to-digest', handler);
+    } else {
+      ipcRenderer.removeAllListeners('navigate-to-digest');
+    }
+  },
+  onAIStream: (callback: (event: AIStreamEvent) => void) => {
+    const handler = (_: any, event: AIStreamEvent) => callback(event);
+    ipcRenderer.on('ai-stream', handler);
+    return handler;
+  },
+  removeAIStreamListener: (handler?: any) => {
+    if (handler) {
+      ipcRenderer.removeListener('ai-stream', handler);
+    } else {
+      ipcRenderer.removeAllListeners('ai-stream');
+    }
+  },
 });
 
 // 类型声明，供TypeScript使用
@@ -86,18 +202,78 @@ declare global {
     electronAPI: {
       createNote: (input: CreateNoteInput) => Promise<{success: boolean; data?: Note; error?: string}>;
       getNotes: (limit?: number, offset?: number) => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      getNote: (id: string) => Promise<{success: boolean; data?: Note | null; error?: string}>;
       getTodayNotes: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      searchNotes: (query: string, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: NoteSearchResult[]; error?: string}>;
+      semanticSearch: (query: string, k?: number, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: SemanticSearchResult[]; error?: string}>;
+      hybridSearch: (query: string, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: NoteSearchResult[]; error?: string}>;
+      getSemanticIndexStatus: () => Promise<{success: boolean; data?: SemanticIndexStatus; error?: string}>;
+      setEmbeddingSource: (source: EmbeddingSource) => Promise<{success: boolean; data?: SemanticIndexStatus; error?: string}>;
       deleteNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      updateNote: (id: string, text: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      updateNote: (id: string, text: string, source?: RevisionSource) => Promise<{success: boolean; data?: boolean; error?: string}>;
       updateNoteStatus: (id: string, status: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      updateNoteSchedule: (id: string, schedule: NoteScheduleInput) => Promise<{success: boolean; data?: Note | null; error?: string}>;
+      getOverdueTodos: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      getUpcomingTodos: (days?: number) => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      parseDueDate: (text: string) => Promise<{success: boolean; data?: ParsedDueDate | null; error?: string}>;
+      getTrashedNotes: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      restoreNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      permanentlyDeleteNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      emptyTrash: () => Promise<{success: boolean; data?: number; error?: string}>;
+      getTrashRetentionDays: () => Promise<{success: boolean; data?: number; error?: string}>;
+      setTrashRetentionDays: (days: number) => Promise<{success: boolean; data?: number; error?: string}>;
+      getDigestSchedule: () => Promise<{success: boolean; data?: DigestSchedule; error?: string}>;
+      setDigestSchedule: (schedule: DigestSchedule) => Promise<{success: boolean; data?: DigestSchedule; error?: string}>;
+      getNoteLinks: (noteId: string) => Promise<{success: boolean; data?: NoteLinks; error?: string}>;
+      addAttachments: (noteId: string, inputs: AttachmentInput[]) => Promise<{success: boolean; data?: Attachment[]; error?: string}>;
+      getAttachments: (noteId: string) => Promise<{success: boolean; data?: Attachment[]; error?: string}>;
+      deleteAttachment: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      openAttachment: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getAttachmentPreview: (id: string) => Promise<{success: boolean; data?: string | null; error?: string}>;
+      getVaultStatus: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      selectVaultFolder: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      disableVault: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      syncVaultNow: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      openVaultFolder: () => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getImporters: () => Promise<{success: boolean; data?: Array<{format: ImportFormat; name: string; extensions: string[]; directory: boolean}>; error?: string}>;
+      selectImportSource: (format: ImportFormat) => Promise<{success: boolean; data?: string | null; error?: string}>;
+      previewImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => Promise<{success: boolean; data?: ImportPreview; error?: string}>;
+      runImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => Promise<{success: boolean; data?: ImportResult; error?: string}>;
+      getBackups: () => Promise<{success: boolean; data?: BackupSnapshot[]; error?: string}>;
+      createBackup: () => Promise<{success: boolean; data?: BackupSnapshot; error?: string}>;
+      deleteBackup: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      restoreBackup: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      openBackupFolder: () => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getDatabaseLockState: () => Promise<{success: boolean; data?: DatabaseLockState; error?: string}>;
+      unlockDatabase: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      enableDatabaseEncryption: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      disableDatabaseEncryption: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      changeDatabasePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getNoteRevisions: (noteId: string) => Promise<{success: boolean; data?: NoteRevision[]; error?: string}>;
+      getNoteRevisionDiff: (revisionId: string) => Promise<{success: boolean; data?: NoteRevisionDiff | null; error?: string}>;
+      restoreNoteRevision: (revisionId: string) => Promise<{success: boolean; data?: Note; error?: string}>;
       createCustomTag: (name: string, color?: string) => Promise<{success: boolean; data?: any; error?: string}>;
       getCustomTags: () => Promise<{success: boolean; data?: any[]; error?: string}>;
       deleteCustomTag: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      generateDailyDigest: () => Promise<{success: boolean; data?: string; error?: string}>;
-      setAIConfig: (config: AIConfig) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      getAIConfig: () => Promise<{success: boolean; data?: AIConfig | null; error?: string}>;
-      processAssistantChat: (userInput: string) => Promise<{success: boolean; data?: any; error?: string}>;
-      saveDigestToHistory: (date: string, summary: string) => Promise<{success: boolean; data?: SavedDigest; error?: string}>;
+      generateDailyDigest: (requestId?: string) => Promise<{success: boolean; data?: DailyDigest; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      setAIConfig: (config: AIConfig) => Promise<{success: boolean; data?: boolean; error?: string; errorKind?: AIErrorKind}>;
+      getAIConfig: () => Promise<{success: boolean; data?: AIConfigSummary | null; error?: string}>;
+      getAIProviders: () => Promise<{success: boolean; data?: AIProviderInfo[]; error?: string}>;
+      processAssistantChat: (userInput: string, requestId?: string, conversationId?: string, messageId?: string) => Promise<{success: boolean; data?: any; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      prepareAssistantActions: (actions: AssistantAction[]) => Promise<{success: boolean; data?: AssistantActionPlan; error?: string}>;
+      executeAssistantActions: (planId: string) => Promise<{success: boolean; data?: AssistantActionBatch; error?: string}>;
+      cancelAssistantActions: (planId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      undoAssistantActions: (batchId: string) => Promise<{success: boolean; data?: number; error?: string}>;
+      getAssistantConversations: () => Promise<{success: boolean; data?: AssistantConversation[]; error?: string}>;
+      getAssistantMessages: (conversationId: string) => Promise<{success: boolean; data?: ChatMessage[]; error?: string}>;
+      createAssistantConversation: (title: string) => Promise<{success: boolean; data?: AssistantConversation; error?: string}>;
+      saveAssistantMessage: (conversationId: string, message: ChatMessage) => Promise<{success: boolean; error?: string}>;
+      renameAssistantConversation: (conversationId: string, title: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      deleteAssistantConversation: (conversationId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      cancelAIRequest: (requestId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      generateDigest: (period: DigestPeriod, requestId?: string) => Promise<{success: boolean; data?: DailyDigest; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      saveDigestToHistory: (date: string, digest: DailyDigest, period?: DigestPeriod) => Promise<{success: boolean; data?: SavedDigest; error?: string}>;
+      createDigestTodo: (todo: DigestTodo, digestId?: string, position?: number) => Promise<{success: boolean; data?: Note; error?: string}>;
       getSavedDigests: () => Promise<{success: boolean; data?: SavedDigest[]; error?: string}>;
       getSavedDigestByDate: (date: string) => Promise<{success: boolean; data?: SavedDigest | null; error?: string}>;
       deleteSavedDigest: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
@@ -112,6 +288,12 @@ declare global {
       removeFloatingWindowStateListener: (handler?: any) => void;
       onNoteCreated: (callback: (note: any) => void) => any;
       removeNoteCreatedListener: (handler?: any) => void;
+      onVaultSynced: (callback: (result: any) => void) => any;
+      removeVaultSyncedListener: (handler?: any) => void;
+      onNavigateToDigest: (callback: (date?: string) => void) => any;
+      removeNavigateToDigestListener: (handler?: any) => void;
+      onAIStream: (callback: (event: AIStreamEvent) => void) => any;
+      removeAIStreamListener: (handler?: any) => void;
     };
   }
 }
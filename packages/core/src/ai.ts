@@ -1,167 +1,570 @@
-import { Note, AIConfig, DailyDigest, ProjectSummary, AssistantResponse } from './types';
+import {
+  Note,
+  AIConfig,
+  DailyDigest,
+  DigestPeriod,
+  SavedDigest,
+  ProjectSummary,
+  AssistantResponse,
+  AssistantCitation,
+  AssistantContext,
+  AssistantHistory,
+  AssistantAction,
+  AssistantToolbox,
+  AssistantToolStep,
+  AIStreamOptions,
+  ChatMessage,
+  ChatRequest,
+  LLMMessage,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
+} from './types';
+import { AIProvider, getAIProvider, getModelContextWindow } from './providers';
+import { AICancelledError, AIRequestError } from './aiErrors';
+import { ProviderEmbeddingModel } from './embeddings';
+import { getNoteTitle } from './links';
+import { formatLocalDate } from './digestSchedule';
+import {
+  DAILY_DIGEST_SCHEMA,
+  DigestFormatError,
+  DigestNote,
+  describeDigestPeriod,
+  estimateTokens,
+  groupTextsByBudget,
+  parseDailyDigest,
+  planDigestChunks,
+  toDigestNote,
+} from './digest';
+
+// callLLM 的内部选项：json 为 true 时在服务支持的情况下要求只输出JSON
+interface LLMCallOptions extends AIStreamOptions {
+  json?: boolean;
+}
+
+const MAX_OUTPUT_TOKENS = 2000;
+// token数只是估算，输入只用到剩余窗口的八成
+const INPUT_BUDGET_RATIO = 0.8;
+
+const DAILY_DIGEST_INSTRUCTIONS = `请根据以下要求生成总结：
+
+1. 按项目/主题分组，总结：
+   - 今日进展：完成了什么工作
+   - 问题与风险：遇到的困难或需要关注的问题
+   - 关键想法：记录的灵感或决策
+
+2. 提取明确的待办清单：
+   - 只包括面向未来的具体行动项
+   - 每个待办要包含足够的上下文信息
+   - 按优先级排序
+
+3. 生成简短的复盘反思：
+   - 基于情绪和感受类的记录
+   - 关于工作节奏、心态、关注点的总结
+   - 保持支持性和中性的语调
+
+输出格式：只输出一个JSON对象，不要使用Markdown代码块，也不要附加其他说明文字，结构如下：
+
+${DAILY_DIGEST_SCHEMA}
+
+请保持总结简洁、实用，重点关注可操作的信息。`;
+
+const PERIOD_DIGEST_INSTRUCTIONS = `请根据以下要求生成这段时间的总结：
+
+1. 按项目/主题汇总，总结：
+   - 进展：这段时间完成了哪些工作，突出阶段性成果
+   - 问题与风险：反复出现或仍未解决的问题
+   - 关键想法：重要的灵感和决策
+
+2. 提取仍需跟进的待办清单：
+   - 只保留尚未完成的具体行动项，后续记录中已经完成的不要列出
+   - 每个待办要包含足够的上下文信息
+   - 按优先级排序
+
+3. 生成复盘反思：
+   - 关注这段时间的工作节奏、状态变化和趋势
+   - 保持支持性和中性的语调
+
+输出格式：只输出一个JSON对象，不要使用Markdown代码块，也不要附加其他说明文字，结构如下（其中的"今天"指整个时间段）：
+
+${DAILY_DIGEST_SCHEMA}
+
+请保持总结简洁、实用，重点关注可操作的信息。`;
+
+// 提供给助手的相关笔记总长度上限（估算token），超出的笔记不再提供
+const ASSISTANT_CONTEXT_TOKENS = 6000;
+// 助手上下文中列出的最近笔记数
+const ASSISTANT_RECENT_NOTES = 10;
+// 一次回答中调用工具的最多轮数，之后要求模型直接回答
+const MAX_ASSISTANT_TOOL_STEPS = 5;
+// 对话历史中未摘要部分的长度上限（估算token），超出时较早的消息合并进摘要，只保留约一半
+const ASSISTANT_HISTORY_TOKENS = 3000;
+// 生成摘要时每条消息最多使用的字数
+const MAX_SUMMARY_MESSAGE_CHARS = 2000;
+
+// 不支持工具调用的服务：操作和引用都写在JSON响应中
+const ASSISTANT_JSON_GUIDE = `回答问题的要求：
+- 只根据上面提供的笔记回答，笔记中没有的信息要如实说明，不要编造
+- 用到某条相关笔记的内容时，在句末用方括号标注它的编号，如 [1]，多条用 [1][3]
+- 把引用过的笔记id按编号顺序列在 citations 中
+
+响应格式要求：
+请以JSON格式返回，包含以下字段：
+{
+  "message": "对用户的回复消息",
+  "citations": ["引用的笔记id"],
+  "actions": [
+    {
+      "type": "create|search|delete|update|analyze",
+      "params": {
+        // 根据操作类型包含相应参数
+        // create: { text, type_hint?, tags? }
+        // search: { query, type_hint?, tags? }
+        // delete: { noteIds }
+        // update: { noteId, text?, tags?, status?(new|ongoing|closed), type_hint? }
+        // analyze: { noteIds, question? }
+      }
+    }
+  ]
+}
+
+操作中的笔记id只能使用上面列出的笔记id。删除和修改会先请用户确认，回复中说明将要做什么，不要说已经完成。`;
+
+// 支持工具调用的服务：通过工具查询和修改笔记，回复直接是给用户的文字
+const ASSISTANT_TOOL_GUIDE = `回答问题的要求：
+- 只根据上面提供的笔记和工具返回的结果回答，没有的信息要如实说明，不要编造
+- 上面的笔记不足以回答时，先调用 searchNotes 搜索；问到某段时间的工作情况时可以调用 generateDigest
+- 用到某条笔记的内容时，在句末用方括号标注它的编号，如 [1]，多条用 [1][3]；搜索结果中的笔记也带有编号
+
+操作笔记的要求：
+- 新建、修改状态、修改标签和删除都通过调用对应的工具完成，笔记id只能使用上面或搜索结果中出现过的id
+- 修改和删除会先请用户确认，回复中说明将要做什么，不要说已经完成
+- 工具调用失败时根据失败原因更正参数重试，或向用户说明
+
+直接用纯文本回复用户，不要输出JSON。`;
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * 从尚未生成完的助手JSON响应中取出 message 字段已生成的部分，用于流式显示
+ */
+export function extractPartialAssistantMessage(raw: string): string {
+  const fieldMatch = raw.match(/"message"\s*:\s*"/);
+  if (!fieldMatch || fieldMatch.index === undefined) {
+    // 还没出现 message 字段：纯文本回复直接显示，JSON回复先不显示
+    return /^\s*(```|\{)/.test(raw) ? '' : raw;
+  }
+
+  let message = '';
+  for (let i = fieldMatch.index + fieldMatch[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      message += char;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) {
+      break;
+    }
+    if (next === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        break;
+      }
+      message += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    message += JSON_ESCAPES[next] ?? next;
+    i++;
+  }
+  return message;
+}
+
+// 按相关程度取笔记，直到用完上下文预算；第一条笔记过长时截断
+function selectAssistantSources(notes: Note[]): Note[] {
+  const sources: Note[] = [];
+  let remaining = ASSISTANT_CONTEXT_TOKENS;
+  for (const note of notes) {
+    const tokens = estimateTokens(note.text);
+    if (tokens > remaining) {
+      if (sources.length === 0) {
+        sources.push({ ...note, text: note.text.slice(0, Math.floor(note.text.length * remaining / tokens)) + '…（已截断）' });
+      }
+      break;
+    }
+    sources.push(note);
+    remaining -= tokens;
+  }
+  return sources;
+}
+
+function formatAssistantSource(note: Note, index: number): string {
+  const meta = [
+    `id: ${note.id}`,
+    note.type_hint || 'note',
+    note.created_at,
+    note.project_tag && `项目: ${note.project_tag}`,
+    note.tags && note.tags.length > 0 && `标签: ${note.tags.join(', ')}`,
+  ].filter(Boolean).join(' | ');
+  return `[${index}] (${meta})\n${note.text}`;
+}
+
+// 工具查到的笔记接着已提供的笔记编号，已提供过的笔记沿用原编号
+function appendToolSources(notes: Note[], sources: Note[]): string[] {
+  return selectAssistantSources(notes).map(note => {
+    let index = sources.findIndex(source => source.id === note.id);
+    if (index < 0) {
+      sources.push(note);
+      index = sources.length - 1;
+    }
+    return formatAssistantSource(note, index + 1);
+  });
+}
+
+function formatAssistantHistory(messages: Array<Pick<LLMMessage, 'role' | 'content'>>, maxChars?: number): string {
+  return messages
+    .map(message => `${message.role === 'user' ? '用户' : '助手'}：${maxChars ? message.content.slice(0, maxChars) : message.content}`)
+    .join('\n\n');
+}
+
+function parseToolArguments(text: string): unknown {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    throw new Error(`参数不是有效的JSON：${text}`);
+  }
+}
+
+/**
+ * 把模型给出的引用对应到提供的笔记
+ *
+ * 优先使用 citations 中的笔记id，模型漏填时按回答中的 [n] 标记补齐，不在提供范围内的id忽略
+ */
+function resolveCitations(message: string, citedIds: unknown, sources: Note[]): AssistantCitation[] {
+  const indexes = new Set<number>();
+  if (Array.isArray(citedIds)) {
+    citedIds.forEach(id => {
+      const index = sources.findIndex(note => note.id === id);
+      if (index >= 0) {
+        indexes.add(index + 1);
+      }
+    });
+  }
+  for (const match of message.matchAll(/\[(\d+)\]/g)) {
+    const index = Number(match[1]);
+    if (index >= 1 && index <= sources.length) {
+      indexes.add(index);
+    }
+  }
+
+  return Array.from(indexes)
+    .sort((a, b) => a - b)
+    .map(index => ({
+      note_id: sources[index - 1].id,
+      index,
+      title: getNoteTitle(sources[index - 1].text),
+    }));
+}
 
 export class AIService {
   private config: AIConfig;
+  private provider?: AIProvider;
 
-  constructor(config: AIConfig) {
+  /**
+   * @param provider 指定调用的服务实现，如录制模式的包装；默认按 config.provider 从注册表获取
+   */
+  constructor(config: AIConfig, provider?: AIProvider) {
     this.config = config;
+    this.provider = provider;
   }
 
   /**
    * 生成每日总结
+   *
+   * 笔记超出模型的输入预算时自动改为分段总结，并通过 onProgress 报告每个阶段的进度。
+   * 模型按 DAILY_DIGEST_SCHEMA 输出JSON，onText 收到的是尚未解析的原始文本
+   * @param date 总结对应的日期（YYYY-MM-DD）
+   * @throws DigestFormatError 修复后仍不符合格式时
    */
-  async generateDailyDigest(notes: Note[]): Promise<string> {
+  async generateDailyDigest(notes: Note[], date: string, options: AIStreamOptions = {}): Promise<DailyDigest> {
     if (notes.length === 0) {
-      return '今日暂无记录';
+      return { date, summary: '今日暂无记录', projects: [], todos: [], reflections: [] };
     }
 
     const prompt = this.buildDailyDigestPrompt(notes);
+    const inputBudget = this.getInputBudget();
+    const response = estimateTokens(prompt) <= inputBudget
+      ? await this.callLLM(prompt, { ...options, json: true })
+      : await this.generateDigestInChunks(notes, inputBudget, options);
+    return this.parseDigestResponse(response, date, options.signal);
+  }
+
+  /**
+   * 生成周期总结（周、月或任意日期范围）
+   *
+   * 已保存每日总结的日期直接汇总每日总结，其余日期使用原始笔记；
+   * 超出输入预算时与每日总结一样先分段整理再合并
+   * @param dailyDigests 范围内已保存的每日总结，每天至多一份
+   */
+  async generatePeriodDigest(
+    period: DigestPeriod,
+    notes: Note[],
+    dailyDigests: SavedDigest[],
+    options: AIStreamOptions = {}
+  ): Promise<DailyDigest> {
+    // 每日总结的日期是本地日期，created_at 是UTC时间，需要换算后再比较
+    const coveredDates = new Set(dailyDigests.map(digest => digest.date));
+    const rawNotes = notes
+      .filter(note => !coveredDates.has(formatLocalDate(new Date(note.created_at))))
+      .map(toDigestNote);
+    if (dailyDigests.length === 0 && rawNotes.length === 0) {
+      return { date: period.from, summary: '这段时间暂无记录', projects: [], todos: [], reflections: [] };
+    }
 
+    const scope = describeDigestPeriod(period);
+    const summaries = dailyDigests.map(digest => `### ${digest.date} 的每日总结\n${digest.summary}`);
+    const prompt = this.buildPeriodDigestPrompt(scope, summaries, rawNotes);
+    const inputBudget = this.getInputBudget();
+
+    let response: string;
+    if (estimateTokens(prompt) <= inputBudget) {
+      response = await this.callLLM(prompt, { ...options, json: true });
+    } else {
+      const partials = await this.summarizeNotesInChunks(rawNotes, inputBudget, scope, options);
+      const merged = await this.mergeSummaries([...summaries, ...partials], inputBudget, scope, options);
+      options.onProgress?.({ stage: 'reduce', completed: 0, total: 1, label: '最终总结' });
+      response = await this.callLLM(this.buildPeriodDigestPrompt(scope, merged, []), {
+        signal: options.signal,
+        onText: options.onText,
+        json: true,
+      });
+    }
+    return this.parseDigestResponse(response, period.from, options.signal);
+  }
+
+  /**
+   * 解析总结JSON，不符合格式时把具体问题交给模型修复一次
+   */
+  private async parseDigestResponse(response: string, date: string, signal?: AbortSignal): Promise<DailyDigest> {
     try {
-      const response = await this.callLLM(prompt);
-      return response;
+      return parseDailyDigest(response, date);
     } catch (error) {
-      console.error('Failed to generate daily digest:', error);
-      return '生成总结时出现错误，请稍后重试';
+      if (!(error instanceof DigestFormatError)) {
+        throw error;
+      }
+      console.warn('Digest JSON is invalid, requesting repair:', error.errors);
+      const repaired = await this.callLLM(this.buildDigestRepairPrompt(response, error.errors), { signal, json: true });
+      return parseDailyDigest(repaired, date);
+    }
+  }
+
+  private buildDigestRepairPrompt(response: string, errors: string[]): string {
+    return `下面是一份总结的JSON，但它不符合要求的格式。
+
+存在的问题：
+${errors.map(error => `- ${error}`).join('\n')}
+
+要求的格式：
+${DAILY_DIGEST_SCHEMA}
+
+原始内容：
+${response}
+
+请修正上述问题，保留原有内容，只输出修正后的JSON对象，不要附加任何说明。`;
+  }
+
+  /**
+   * 分段总结：先按项目分段生成局部总结，再合并为最终总结
+   */
+  private async generateDigestInChunks(notes: Note[], inputBudget: number, options: AIStreamOptions): Promise<string> {
+    const partials = await this.summarizeNotesInChunks(notes.map(toDigestNote), inputBudget, '今天', options);
+    const summaries = await this.mergeSummaries(partials, inputBudget, '今天', options);
+
+    options.onProgress?.({ stage: 'reduce', completed: 0, total: 1, label: '最终总结' });
+    return this.callLLM(this.buildMergeDigestPrompt(summaries, true), { signal: options.signal, onText: options.onText, json: true });
+  }
+
+  // 按项目把笔记分段，逐段生成局部总结
+  private async summarizeNotesInChunks(
+    notes: DigestNote[],
+    inputBudget: number,
+    scope: string,
+    { onProgress, signal }: AIStreamOptions
+  ): Promise<string[]> {
+    const chunks = planDigestChunks(notes, inputBudget - estimateTokens(this.buildPartialDigestPrompt([], scope)));
+    const summaries: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      onProgress?.({ stage: 'map', completed: index, total: chunks.length, label: chunk.projects.join('、') });
+      summaries.push(await this.callLLM(this.buildPartialDigestPrompt(chunk.notes, scope), { signal }));
+    }
+    return summaries;
+  }
+
+  /**
+   * 局部总结合起来超出预算时逐层合并，直到能放进一次请求
+   */
+  private async mergeSummaries(
+    summaries: string[],
+    inputBudget: number,
+    scope: string,
+    { onProgress, signal }: AIStreamOptions
+  ): Promise<string[]> {
+    const mergeBudget = inputBudget - estimateTokens(this.buildMergeDigestPrompt([], false, scope));
+    while (summaries.length > 1 && estimateTokens(summaries.join('\n\n')) > mergeBudget) {
+      const groups = groupTextsByBudget(summaries, mergeBudget);
+      // 每段单独都已超出预算时无法继续合并，交给最后一步
+      if (groups.length === summaries.length) {
+        break;
+      }
+      const merged: string[] = [];
+      for (const [index, group] of groups.entries()) {
+        onProgress?.({ stage: 'reduce', completed: index, total: groups.length });
+        merged.push(group.length === 1 ? group[0] : await this.callLLM(this.buildMergeDigestPrompt(group, false, scope), { signal }));
+      }
+      summaries = merged;
     }
+    return summaries;
+  }
+
+  // 一次请求中留给输入的token数：上下文窗口减去输出长度，再留出估算误差
+  private getInputBudget(): number {
+    const provider = this.provider || getAIProvider(this.config.provider);
+    const contextWindow = getModelContextWindow(provider, this.config.model || provider.defaultModel);
+    return Math.floor((contextWindow - MAX_OUTPUT_TOKENS) * INPUT_BUDGET_RATIO);
   }
 
   /**
    * 构建每日总结的提示词
    */
   private buildDailyDigestPrompt(notes: Note[]): string {
-    const notesData = notes.map(note => ({
-      text: note.text,
-      created_at: note.created_at,
-      app_name: note.app_name,
-      window_title: note.window_title,
-      project_hint: note.project_hint,
-      type_hint: note.type_hint,
-    }));
+    const notesData = notes.map(toDigestNote);
 
     return `你是一个智能助手，帮助知识工作者总结一天的笔记和想法。
 
 输入数据：
 ${JSON.stringify(notesData, null, 2)}
 
-请根据以下要求生成总结：
+${DAILY_DIGEST_INSTRUCTIONS}`;
+  }
 
-1. 按项目/主题分组，总结：
-   - 今日进展：完成了什么工作
-   - 问题与风险：遇到的困难或需要关注的问题
-   - 关键想法：记录的灵感或决策
+  /**
+   * 分段总结第一步：总结一部分笔记，保留合并时需要的细节
+   * @param scope 笔记所属的时间范围，如"今天"
+   */
+  private buildPartialDigestPrompt(notes: DigestNote[], scope: string): string {
+    return `你是一个智能助手，帮助知识工作者总结笔记和想法。
+${scope}的记录较多，下面只是其中一部分，请先为这部分生成局部总结，稍后会与其他部分合并。
 
-2. 提取明确的待办清单：
-   - 只包括面向未来的具体行动项
-   - 每个待办要包含足够的上下文信息
-   - 按优先级排序
+输入数据：
+${JSON.stringify(notes, null, 2)}
 
-3. 生成简短的复盘反思：
-   - 基于情绪和感受类的记录
-   - 关于工作节奏、心态、关注点的总结
-   - 保持支持性和中性的语调
+要求：
+1. 按项目/主题分组，每组列出进展、问题与风险、关键想法
+2. 列出所有面向未来的具体行动项，保留足够的上下文
+3. 单独列出情绪和感受类的记录要点
+4. 只依据输入内容，不要编造；用Markdown输出，简洁但不要遗漏项目`;
+  }
 
-输出格式（Markdown，简洁明了）：
+  /**
+   * 分段总结的合并步骤
+   * @param final 为 true 时按每日总结的最终格式输出，否则输出更大范围的局部总结
+   */
+  private buildMergeDigestPrompt(summaries: string[], final: boolean, scope = '今天'): string {
+    const parts = summaries.map((summary, index) => `### 第${index + 1}部分\n${summary}`).join('\n\n');
 
-# 今日项目概览
+    if (!final) {
+      return `下面是${scope}记录的若干局部总结，请把它们合并成一份局部总结：
+同一项目的内容合并到一起，待办和感受要点全部保留，不要编造，用Markdown输出。
 
-## [项目/主题名]
-- **今日进展**：...
-- **问题与风险**：...
-- **关键想法**：...
+${parts}`;
+    }
 
-# 待办清单
-- [ ] [项目] 具体行动项
-- [ ] [项目] 具体行动项
+    return `你是一个智能助手，帮助知识工作者总结一天的笔记和想法。
+今天的记录较多，已经分段整理成以下局部总结，请把它们合并成完整的每日总结：同一项目的内容合并到一起，待办去重。
 
-# 今日复盘
-- 关于工作节奏的观察...
-- 关于心态调整的建议...
+${parts}
 
-请保持总结简洁、实用，重点关注可操作的信息。`;
+${DAILY_DIGEST_INSTRUCTIONS}`;
   }
 
   /**
-   * 调用大语言模型API
+   * 构建周期总结的提示词
+   * @param summaries 已有的每日总结或局部总结
+   * @param notes 没有每日总结的日期的原始笔记
    */
-  private async callLLM(prompt: string): Promise<string> {
-    const { provider, api_key, model } = this.config;
-
-    if (provider === 'openai') {
-      return this.callOpenAI(prompt, api_key, model || 'gpt-4');
-    } else if (provider === 'qwen') {
-      return this.callQwen(prompt, api_key, model || 'qwen-max');
+  private buildPeriodDigestPrompt(scope: string, summaries: string[], notes: DigestNote[]): string {
+    const sections = [`你是一个智能助手，帮助知识工作者回顾${scope}的工作和想法。`];
+    if (summaries.length > 0) {
+      sections.push(`已有的总结：\n\n${summaries.join('\n\n')}`);
     }
-
-    throw new Error(`Unsupported AI provider: ${provider}`);
+    if (notes.length > 0) {
+      sections.push(`其余日期的原始记录：\n${JSON.stringify(notes, null, 2)}`);
+    }
+    sections.push(PERIOD_DIGEST_INSTRUCTIONS);
+    return sections.join('\n\n');
   }
 
   /**
-   * 调用OpenAI API
+   * 调用大语言模型API，具体请求由配置的AI服务实现
+   *
+   * 传入 onText 时优先流式生成；服务不支持流式时在完成后一次性回调完整文本
+   * @throws AICancelledError 通过 signal 取消时；AIRequestError 请求失败时
    */
-  private async callOpenAI(prompt: string, apiKey: string, model: string): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
-    });
+  private async callLLM(prompt: string, options: LLMCallOptions = {}): Promise<string> {
+    const provider = this.provider || getAIProvider(this.config.provider);
+    const request: ChatRequest = {
+      messages: [{ role: 'user', content: prompt }],
+      model: this.config.model || provider.defaultModel,
+      temperature: 0.7,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      jsonMode: options.json && provider.capabilities.jsonMode,
+      signal: options.signal,
+      timeoutMs: this.config.timeout_seconds ? this.config.timeout_seconds * 1000 : undefined,
+      maxRetries: this.config.max_retries,
+    };
+    const { onText } = options;
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+    try {
+      let response: string;
+      if (onText && provider.stream) {
+        let text = '';
+        response = await provider.stream(request, this.config, delta => {
+          text += delta;
+          onText(text);
+        });
+      } else {
+        response = await provider.chat(request, this.config);
+        onText?.(response);
+      }
+      return response || '生成总结失败';
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new AICancelledError();
+      }
+      throw error;
     }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '生成总结失败';
   }
 
   /**
-   * 调用阿里千问API
+   * 使用当前服务的向量接口计算笔记向量
+   * @throws Error 服务不支持向量接口时
    */
-  private async callQwen(prompt: string, apiKey: string, model: string): Promise<string> {
-    const response = await fetch('https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'X-DashScope-SSE': 'disable',
-      },
-      body: JSON.stringify({
-        model,
-        input: {
-          messages: [
-            { role: 'user', content: prompt }
-          ]
-        },
-        parameters: {
-          temperature: 0.7,
-          max_tokens: 2000,
-          result_format: 'message'
-        }
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Qwen API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.output?.choices?.[0]?.message?.content || '生成总结失败';
+  createEmbeddingModel(): ProviderEmbeddingModel {
+    return new ProviderEmbeddingModel(this.provider || getAIProvider(this.config.provider), this.config);
   }
 
   /**
    * 更新AI配置
    */
   updateConfig(config: Partial<AIConfig>): void {
+    // 更换服务后不再使用构造时指定的实现
+    if (config.provider && config.provider !== this.config.provider) {
+      this.provider = undefined;
+    }
     this.config = { ...this.config, ...config };
   }
 
@@ -174,6 +577,10 @@ ${JSON.stringify(notesData, null, 2)}
       const response = await this.callLLM(testPrompt);
       return response.includes('配置正常') || response.includes('正常');
     } catch (error) {
+      // 密钥无效、网络不通等明确的错误交给调用方展示
+      if (error instanceof AIRequestError) {
+        throw error;
+      }
       console.error('AI config validation failed:', error);
       return false;
     }
@@ -181,18 +588,41 @@ ${JSON.stringify(notesData, null, 2)}
 
   /**
    * AI助手对话 - 处理用户输入并执行笔记操作
+   *
+   * 相关笔记按编号完整提供给模型，回答中用 [n] 标注引用，解析后返回对应的笔记
    */
-  async processAssistantChat(userInput: string, notes: Note[]): Promise<AssistantResponse> {
+  async processAssistantChat(
+    userInput: string,
+    context: AssistantContext,
+    options: AIStreamOptions = {},
+    toolbox?: AssistantToolbox
+  ): Promise<AssistantResponse> {
     try {
+      const sources = selectAssistantSources(context.relevantNotes);
+      // 服务支持原生工具调用时由模型调用工具完成操作，否则按提示词约定返回JSON
+      const provider = this.provider || getAIProvider(this.config.provider);
+      if (toolbox && provider.chatWithTools) {
+        return await this.runAssistantWithTools(provider, userInput, context, sources, toolbox, options);
+      }
+
       // 构建系统提示词，包含笔记操作能力
-      const systemPrompt = this.buildAssistantSystemPrompt(notes);
-      const userPrompt = `用户输入：${userInput}`;
+      const systemPrompt = this.buildAssistantSystemPrompt(context, sources);
+      const transcript = formatAssistantHistory(context.history?.messages || []);
+      const userPrompt = transcript ? `之前的对话：\n${transcript}\n\n用户输入：${userInput}` : `用户输入：${userInput}`;
 
-      const response = await this.callLLM(`${systemPrompt}\n\n${userPrompt}`);
+      // 响应是JSON，流式显示时只转发 message 字段的内容
+      const { onText } = options;
+      const response = await this.callLLM(`${systemPrompt}\n\n${userPrompt}`, {
+        signal: options.signal,
+        onText: onText && (text => onText(extractPartialAssistantMessage(text))),
+      });
 
       // 解析AI返回的结构化响应
-      return this.parseAssistantResponse(response);
+      return this.parseAssistantResponse(response, sources);
     } catch (error) {
+      if (error instanceof AICancelledError || error instanceof AIRequestError) {
+        throw error;
+      }
       console.error('Assistant chat error:', error);
       return {
         message: '抱歉，我现在无法处理您的请求，请稍后再试。',
@@ -201,11 +631,145 @@ ${JSON.stringify(notesData, null, 2)}
     }
   }
 
+  /**
+   * 整理对话中之前的消息，作为下一轮回答的上下文
+   *
+   * 未摘要的消息超出预算时，保留最近的消息，把更早的消息与已有摘要合并成新的摘要
+   * @param messages 对话中之前的消息，按发送顺序排列
+   * @param summarizedCount 已有摘要覆盖的消息数
+   * @returns 发送给模型的历史和新的摘要覆盖数，覆盖数变化时调用方负责保存摘要
+   */
+  async prepareAssistantHistory(
+    messages: ChatMessage[],
+    summary: string | undefined,
+    summarizedCount: number,
+    options: AIStreamOptions = {}
+  ): Promise<{ history: AssistantHistory; summarizedCount: number }> {
+    let pending = messages.slice(summarizedCount).filter(message => message.content.trim());
+    const total = pending.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+    if (total > ASSISTANT_HISTORY_TOKENS) {
+      let remaining = ASSISTANT_HISTORY_TOKENS / 2;
+      let keep = pending.length;
+      while (keep > 0 && estimateTokens(pending[keep - 1].content) <= remaining) {
+        remaining -= estimateTokens(pending[keep - 1].content);
+        keep--;
+      }
+      const older = pending.slice(0, keep);
+      summary = (await this.callLLM(this.buildConversationSummaryPrompt(older, summary), { signal: options.signal })).trim();
+      // 覆盖数按全部消息计，包括被跳过的空消息
+      summarizedCount = messages.indexOf(older[older.length - 1]) + 1;
+      pending = pending.slice(keep);
+    }
+
+    return {
+      history: { summary, messages: pending.map(message => ({ role: message.role, content: message.content })) },
+      summarizedCount,
+    };
+  }
+
+  // 把较早的对话压缩为摘要，已有摘要时一并合并
+  private buildConversationSummaryPrompt(messages: ChatMessage[], summary?: string): string {
+    return `下面是用户与笔记助手之前的对话${summary ? '，以及更早对话的摘要' : ''}。请把它们压缩成一段简洁的摘要，供之后继续对话时参考：
+保留用户的目标和偏好、提到的记录（连同记录id）、已经执行或取消的操作以及尚未解决的问题，不超过300字，只输出摘要。
+${summary ? `\n更早对话的摘要：\n${summary}\n` : ''}
+对话：
+${formatAssistantHistory(messages, MAX_SUMMARY_MESSAGE_CHARS)}`;
+  }
+
+  /**
+   * 工具调用循环：模型可以多次调用工具并读取结果，直到给出回答
+   *
+   * 工具结果中的笔记接着相关笔记编号，回答中同样可以引用；
+   * 达到轮数上限后不再提供工具，模型只能根据已有结果回答
+   */
+  private async runAssistantWithTools(
+    provider: AIProvider,
+    userInput: string,
+    context: AssistantContext,
+    sources: Note[],
+    toolbox: AssistantToolbox,
+    options: AIStreamOptions
+  ): Promise<AssistantResponse> {
+    const citable = [...sources];
+    const actions: AssistantAction[] = [];
+    const steps: AssistantToolStep[] = [];
+    const messages: ToolChatMessage[] = [
+      { role: 'system', content: this.buildAssistantSystemPrompt(context, sources, true) },
+      ...(context.history?.messages || []),
+      { role: 'user', content: userInput },
+    ];
+
+    for (let round = 0; ; round++) {
+      const tools = round < MAX_ASSISTANT_TOOL_STEPS ? toolbox.definitions : [];
+      const response = await this.callLLMWithTools(provider, messages, tools, options.signal);
+      if (response.tool_calls.length === 0 || tools.length === 0) {
+        const message = response.content.trim() || '抱歉，我没能得出回答，请换个说法再试。';
+        options.onText?.(message);
+        return { message, actions, citations: resolveCitations(message, undefined, citable), tool_steps: steps };
+      }
+
+      messages.push({ role: 'assistant', content: response.content, tool_calls: response.tool_calls });
+      for (const call of response.tool_calls) {
+        let args: unknown;
+        let content: string;
+        let success = true;
+        try {
+          args = parseToolArguments(call.arguments);
+          const result = await toolbox.execute(call.name, args, options.signal);
+          actions.push(...(result.actions || []));
+          content = [result.content, ...appendToolSources(result.notes || [], citable)].join('\n\n');
+        } catch (error) {
+          if (error instanceof AICancelledError || options.signal?.aborted) {
+            throw new AICancelledError();
+          }
+          // 参数无效等原因返回给模型，由模型更正后重试或向用户说明
+          success = false;
+          content = `调用失败：${error instanceof Error ? error.message : String(error)}`;
+        }
+        steps.push({ name: call.name, description: toolbox.describe(call.name, args), success });
+        messages.push({ role: 'tool', tool_call_id: call.id, name: call.name, content });
+      }
+    }
+  }
+
+  // 原生工具调用的一轮对话，tools 为空时模型只能直接回答
+  private async callLLMWithTools(
+    provider: AIProvider,
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<ToolChatResponse> {
+    try {
+      return await provider.chatWithTools!({
+        messages,
+        tools,
+        model: this.config.model || provider.defaultModel,
+        temperature: 0.7,
+        maxTokens: MAX_OUTPUT_TOKENS,
+        signal,
+        timeoutMs: this.config.timeout_seconds ? this.config.timeout_seconds * 1000 : undefined,
+        maxRetries: this.config.max_retries,
+      }, this.config);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AICancelledError();
+      }
+      throw error;
+    }
+  }
+
   /**
    * 构建AI助手的系统提示词
+   * @param useTools 为 true 时通过原生工具调用完成操作，否则要求按JSON格式返回操作
    */
-  private buildAssistantSystemPrompt(notes: Note[]): string {
-    const recentNotes = notes.slice(0, 20); // 只包含最近20条笔记作为上下文
+  private buildAssistantSystemPrompt(context: AssistantContext, sources: Note[], useTools = false): string {
+    const recentNotes = context.recentNotes.slice(0, ASSISTANT_RECENT_NOTES);
+    const sourceText = sources.length > 0
+      ? sources.map((note, index) => formatAssistantSource(note, index + 1)).join('\n\n')
+      : '（没有找到与问题相关的笔记）';
+    const guide = useTools ? ASSISTANT_TOOL_GUIDE : ASSISTANT_JSON_GUIDE;
+    const summary = context.history?.summary ? `\n\n之前对话的摘要：\n${context.history.summary}` : '';
 
     return `你是Flowpad记事本的AI助手。你可以帮助用户管理笔记，包括：
 1. 创建新笔记（支持分类：待办、问题、想法、感受、笔记）
@@ -213,12 +777,19 @@ ${JSON.stringify(notesData, null, 2)}
 3. 删除笔记
 4. 分类和整理笔记
 5. 总结和分析笔记内容
+6. 根据笔记内容回答问题
+
+今天是 ${formatLocalDate(new Date())}。${summary}
 
 当前笔记库概览：
-- 总计：${notes.length}条笔记
-- 最近笔记：${recentNotes.map(note =>
-  `[${note.type_hint || '笔记'}] ${note.text.slice(0, 50)}...`
-).join('\n- ')}
+- 总计：${context.totalNotes}条笔记
+- 最近笔记：
+${recentNotes.map(note =>
+  `- (id: ${note.id}) [${note.type_hint || '笔记'}] ${getNoteTitle(note.text)}`
+).join('\n')}
+
+与用户输入相关的笔记（按相关程度排列，编号用于引用）：
+${sourceText}
 
 分类说明：
 - todo: 待办事项
@@ -229,46 +800,34 @@ ${JSON.stringify(notesData, null, 2)}
 
 项目标签：可以为笔记添加项目标签进行分组管理。
 
-响应格式要求：
-请以JSON格式返回，包含以下字段：
-{
-  "message": "对用户的回复消息",
-  "actions": [
-    {
-      "type": "create|search|delete|update|analyze",
-      "params": {
-        // 根据操作类型包含相应参数
-        // create: { text, type_hint?, tags? }
-        // search: { query, type_hint?, tags? }
-        // delete: { noteIds }
-        // analyze: { noteIds }
-      }
-    }
-  ]
-}
+${guide}
 
 请用友好、专业的语调与用户交流，理解用户意图并提供有用的建议。`;
   }
 
   /**
    * 解析AI助手的响应
+   * @param sources 提供给模型的相关笔记，引用只能指向其中的笔记
    */
-  private parseAssistantResponse(response: string): AssistantResponse {
+  private parseAssistantResponse(response: string, sources: Note[] = []): AssistantResponse {
     try {
       // 尝试提取JSON部分
       const jsonMatch = response.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
+        const message = parsed.message || response;
         return {
-          message: parsed.message || response,
-          actions: parsed.actions || []
+          message,
+          actions: parsed.actions || [],
+          citations: resolveCitations(message, parsed.citations, sources),
         };
       }
 
       // 如果没有找到JSON格式，返回纯文本响应
       return {
         message: response,
-        actions: []
+        actions: [],
+        citations: resolveCitations(response, undefined, sources),
       };
     } catch (error) {
       console.error('Failed to parse assistant response:', error);
@@ -279,10 +838,23 @@ ${JSON.stringify(notesData, null, 2)}
     }
   }
 
+  /**
+   * 分析指定的笔记，如找出共同问题、总结进展或回答关于这些笔记的问题
+   */
+  async analyzeNotes(notes: Note[], question?: string, options?: AIStreamOptions): Promise<string> {
+    const noteText = notes.map((note, index) => formatAssistantSource(note, index + 1)).join('\n\n');
+    const prompt = `请分析以下 ${notes.length} 条笔记。${question ? `分析要求：${question}` : '总结其中的要点、共同的问题和值得跟进的事项。'}
+
+回答使用简洁的中文纯文本，不要编造笔记中没有的信息。
+
+${noteText}`;
+    return (await this.callLLM(prompt, options)).trim();
+  }
+
   /**
    * AI内容优化 - 将随意输入的内容整理成有层次的文本格式
    */
-  async optimizeContent(rawContent: string): Promise<string> {
+  async optimizeContent(rawContent: string, options?: AIStreamOptions): Promise<string> {
     try {
       const systemPrompt = `你是一个专业的内容编辑助手。你的任务是将用户随意输入的内容整理成结构清晰、层次分明的纯文本格式。
 
@@ -317,7 +889,7 @@ ${JSON.stringify(notesData, null, 2)}
 
       const userPrompt = `原始内容：\n${rawContent}`;
 
-      const response = await this.callLLM(`${systemPrompt}\n\n${userPrompt}`);
+      const response = await this.callLLM(`${systemPrompt}\n\n${userPrompt}`, options);
 
       // 移除可能的引号包裹
       let cleanResponse = response.replace(/^["']|["']$/g, '').trim();
@@ -342,6 +914,9 @@ ${JSON.stringify(notesData, null, 2)}
 
       return cleanResponse;
     } catch (error) {
+      if (error instanceof AICancelledError || error instanceof AIRequestError) {
+        throw error;
+      }
       console.error('Content optimization error:', error);
       // 如果AI处理失败，返回原内容
       return rawContent;
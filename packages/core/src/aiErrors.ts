@@ -0,0 +1,44 @@
+// AI请求失败的类型，界面据此给出对应的处理建议
+export type AIErrorKind = 'auth' | 'rate_limit' | 'quota' | 'network' | 'timeout' | 'server' | 'invalid_request';
+
+const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: 'API密钥无效或没有访问权限，请在设置中检查',
+  rate_limit: '请求过于频繁，请稍后再试',
+  quota: '账户额度不足或已超出配额',
+  network: '无法连接到AI服务，请检查网络或服务地址',
+  timeout: 'AI服务响应超时，可在设置中调整超时时间',
+  server: 'AI服务暂时不可用，请稍后再试',
+  invalid_request: '请求被AI服务拒绝，请检查模型名称等配置',
+};
+
+// 用户取消生成时抛出，调用方据此区分取消和失败
+export class AICancelledError extends Error {
+  constructor(message = '已取消生成') {
+    super(message);
+    this.name = 'AICancelledError';
+  }
+}
+
+/**
+ * AI服务请求失败，message 是可以直接展示给用户的说明
+ */
+export class AIRequestError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+  // 服务端通过 Retry-After 要求的等待时间
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AIErrorKind, label: string, options: { status?: number; detail?: string; retryAfterMs?: number } = {}) {
+    const reason = [options.status, options.detail].filter(Boolean).join(' ');
+    super(`${label}：${AI_ERROR_MESSAGES[kind]}${reason ? `（${reason}）` : ''}`);
+    this.name = 'AIRequestError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // 限流、服务端错误和网络错误可以重试，其余重试也不会成功
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
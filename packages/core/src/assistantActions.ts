@@ -0,0 +1,649 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FlowpadDB } from './db';
+import { AIService } from './ai';
+import { SemanticIndex } from './embeddings';
+import { getNoteTitle } from './links';
+import { formatDigestMarkdown, getDigestScopeLabel } from './digest';
+import {
+  Note,
+  DigestPeriod,
+  ToolDefinition,
+  AssistantAction,
+  AssistantToolbox,
+  AssistantToolResult,
+  AssistantActionType,
+  AssistantActionPlan,
+  AssistantActionPreview,
+  AssistantActionResult,
+  AssistantActionBatch,
+} from './types';
+
+const ACTION_TYPES: AssistantActionType[] = ['create', 'search', 'delete', 'update', 'analyze'];
+const NOTE_TYPES = ['todo', 'issue', 'idea', 'feeling', 'note'];
+const NOTE_STATUSES = ['new', 'ongoing', 'closed'];
+const NOTE_TYPE_NAMES: Record<string, string> = { todo: '待办', issue: '问题', idea: '想法', feeling: '感受', note: '笔记' };
+
+// 一次回复中最多执行的操作数和单个操作涉及的笔记数
+const MAX_ACTIONS = 10;
+const MAX_ACTION_NOTES = 50;
+const SEARCH_RESULT_LIMIT = 10;
+// 保留撤销记录的批次数，更早的批次不能再撤销
+const MAX_UNDO_BATCHES = 20;
+// 工具搜索返回的记录数上限和一次总结的最长天数
+const TOOL_SEARCH_LIMIT = 20;
+const TOOL_SEARCH_DEFAULT_LIMIT = 8;
+const MAX_DIGEST_DAYS = 93;
+const TAG_MODES = ['add', 'remove', 'replace'];
+const NOTE_STATUS_NAMES: Record<string, string> = { new: '新增', ongoing: '进行中', closed: '已完成' };
+
+export class AssistantActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssistantActionError';
+  }
+}
+
+// 校验后的操作，笔记ID已经解析为笔记
+type ValidatedAction =
+  | { type: 'create'; text: string; type_hint?: string; tags?: string[] }
+  | { type: 'search'; query: string; type_hint?: string; tags?: string[] }
+  | { type: 'delete'; notes: Note[] }
+  | { type: 'update'; note: Note; changes: NonNullable<AssistantActionPreview['changes']> }
+  | { type: 'analyze'; notes: Note[]; question?: string };
+
+// 撤销一个操作所需的信息
+type UndoStep =
+  | { type: 'create'; noteId: string }
+  | { type: 'delete'; noteIds: string[] }
+  // recurrenceId：完成重复待办时生成的下一次，撤销时一并删除
+  | { type: 'update'; previous: Note; changes: NonNullable<AssistantActionPreview['changes']>; recurrenceId?: string };
+
+// 执行时使用的服务，随设置变化，每次执行时传入
+export interface AssistantActionServices {
+  aiService?: AIService | null;
+  semanticIndex?: SemanticIndex | null;
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AssistantActionError(`缺少${field}`);
+  }
+  return value.trim();
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// 标签可以是数组或逗号分隔的字符串
+function optionalTags(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,，]/) : null;
+  if (!items) {
+    throw new AssistantActionError('标签格式无效');
+  }
+  return Array.from(new Set(items.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean)));
+}
+
+function optionalEnum(value: unknown, allowed: string[], field: string): string | undefined {
+  const text = optionalString(value);
+  if (text && !allowed.includes(text)) {
+    throw new AssistantActionError(`${field}无效：${text}`);
+  }
+  return text;
+}
+
+// 解析 noteIds（也接受单个ID），笔记必须存在且不在回收站中
+function resolveNotes(db: FlowpadDB, params: Record<string, unknown>): Note[] {
+  const raw = params.noteIds ?? params.noteId;
+  const ids = (Array.isArray(raw) ? raw : [raw]).filter((id): id is string => typeof id === 'string' && id.trim() !== '');
+  if (ids.length === 0) {
+    throw new AssistantActionError('缺少笔记ID');
+  }
+  if (ids.length > MAX_ACTION_NOTES) {
+    throw new AssistantActionError(`一次最多处理 ${MAX_ACTION_NOTES} 条记录`);
+  }
+
+  return Array.from(new Set(ids)).map(id => {
+    const note = db.getNoteById(id.trim());
+    if (!note || note.deleted_at) {
+      throw new AssistantActionError(`记录不存在：${id}`);
+    }
+    return note;
+  });
+}
+
+function requireDate(value: unknown, field: string): string {
+  const text = requireString(value, field);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text))) {
+    throw new AssistantActionError(`${field}格式应为YYYY-MM-DD：${text}`);
+  }
+  return text;
+}
+
+// 描述中显示的笔记标题，过长时截断
+function shortTitle(text: string): string {
+  const title = getNoteTitle(text);
+  return title.length > 20 ? `${title.slice(0, 20)}…` : title || '（无标题）';
+}
+
+function describeAction(action: ValidatedAction): string {
+  switch (action.type) {
+    case 'create':
+      return `新建${NOTE_TYPE_NAMES[action.type_hint || 'note']}"${shortTitle(action.text)}"`;
+    case 'search':
+      return `搜索"${action.query}"`;
+    case 'delete':
+      return `将 ${action.notes.length} 条记录移入回收站`;
+    case 'update':
+      return `修改记录"${shortTitle(action.note.text)}"`;
+    case 'analyze':
+      return `分析 ${action.notes.length} 条记录`;
+  }
+}
+
+/**
+ * 执行AI助手返回的笔记操作
+ *
+ * 操作先经 prepare 校验并生成预览，删除和修改需要界面确认后再 execute；
+ * 执行过的修改记录在内存中，可按批次撤销
+ */
+export class AssistantActionRunner {
+  private plans = new Map<string, Array<{ index: number; action: ValidatedAction }>>();
+  private undoLogs = new Map<string, UndoStep[]>();
+
+  constructor(private db: FlowpadDB) {}
+
+  /**
+   * 校验操作参数并生成预览，未知类型的操作忽略，参数无效的操作在预览中标出原因
+   */
+  prepare(rawActions: unknown): AssistantActionPlan {
+    const actions: Array<{ index: number; action: ValidatedAction }> = [];
+    const previews: AssistantActionPreview[] = [];
+
+    (Array.isArray(rawActions) ? rawActions.slice(0, MAX_ACTIONS) : []).forEach((raw, index) => {
+      const type = raw?.type as AssistantActionType;
+      if (!ACTION_TYPES.includes(type)) {
+        return;
+      }
+      try {
+        const action = this.validate(type, raw.params || {});
+        actions.push({ index, action });
+        previews.push({
+          index,
+          type,
+          description: describeAction(action),
+          destructive: action.type === 'delete' || action.type === 'update',
+          notes: action.type === 'update' ? [action.note] : 'notes' in action ? action.notes : [],
+          changes: action.type === 'update' ? action.changes : undefined,
+        });
+      } catch (error) {
+        previews.push({
+          index,
+          type,
+          description: `无法执行的操作（${type}）`,
+          destructive: false,
+          notes: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    const plan: AssistantActionPlan = {
+      id: uuidv4(),
+      previews,
+      requires_confirmation: previews.some(preview => preview.destructive && !preview.error),
+    };
+    if (actions.length > 0) {
+      this.plans.set(plan.id, actions);
+    }
+    return plan;
+  }
+
+  // 放弃未确认的操作
+  cancel(planId: string): boolean {
+    return this.plans.delete(planId);
+  }
+
+  /**
+   * 执行预览过的操作，单个操作失败不影响其余操作
+   * @throws AssistantActionError 操作不存在或已经执行过时
+   */
+  async execute(planId: string, services: AssistantActionServices = {}): Promise<AssistantActionBatch> {
+    const actions = this.plans.get(planId);
+    if (!actions) {
+      throw new AssistantActionError('操作已执行或已过期，请重新发送请求');
+    }
+    this.plans.delete(planId);
+
+    const undoSteps: UndoStep[] = [];
+    const results: AssistantActionResult[] = [];
+    for (const { index, action } of actions) {
+      try {
+        results.push({ index, type: action.type, success: true, ...await this.run(action, undoSteps, services) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        results.push({ index, type: action.type, success: false, message: `${describeAction(action)}失败：${message}` });
+      }
+    }
+
+    const batch: AssistantActionBatch = { id: uuidv4(), results, undoable: undoSteps.length > 0 };
+    if (batch.undoable) {
+      this.undoLogs.set(batch.id, undoSteps);
+      // Map按插入顺序遍历，超出时丢弃最早的批次
+      while (this.undoLogs.size > MAX_UNDO_BATCHES) {
+        this.undoLogs.delete(this.undoLogs.keys().next().value as string);
+      }
+    }
+    return batch;
+  }
+
+  /**
+   * 按相反顺序撤销一批操作中的修改，返回撤销的操作数
+   * @throws AssistantActionError 批次不存在或已经撤销过时
+   */
+  undo(batchId: string): number {
+    const steps = this.undoLogs.get(batchId);
+    if (!steps) {
+      throw new AssistantActionError('这些操作已经撤销或无法再撤销');
+    }
+    this.undoLogs.delete(batchId);
+
+    for (const step of [...steps].reverse()) {
+      switch (step.type) {
+        case 'create':
+          // 永久删除只处理回收站中的笔记，先移入回收站
+          this.db.deleteNote(step.noteId);
+          this.db.permanentlyDeleteNote(step.noteId);
+          break;
+        case 'delete':
+          step.noteIds.forEach(id => this.db.restoreNote(id));
+          break;
+        case 'update': {
+          const { previous, changes } = step;
+          if (changes.text !== undefined) {
+            this.db.updateNote(previous.id, previous.text, 'assistant');
+          }
+          if (changes.tags !== undefined) {
+            this.db.updateNoteTags(previous.id, previous.tags || [], 'assistant');
+          }
+          if (changes.status !== undefined) {
+            this.db.updateNoteStatus(previous.id, previous.status || 'new');
+          }
+          if (step.recurrenceId) {
+            this.db.deleteNote(step.recurrenceId);
+            this.db.permanentlyDeleteNote(step.recurrenceId);
+          }
+          if (changes.type_hint !== undefined) {
+            this.db.updateNoteClassification(previous.id, previous.type_hint, previous.project_tag);
+          }
+          break;
+        }
+      }
+    }
+    return steps.length;
+  }
+
+  private validate(type: AssistantActionType, params: Record<string, unknown>): ValidatedAction {
+    switch (type) {
+      case 'create':
+        return {
+          type,
+          text: requireString(params.text, '记录内容'),
+          type_hint: optionalEnum(params.type_hint, NOTE_TYPES, '分类'),
+          tags: optionalTags(params.tags),
+        };
+      case 'search':
+        return {
+          type,
+          query: requireString(params.query, '搜索内容'),
+          type_hint: optionalEnum(params.type_hint, NOTE_TYPES, '分类'),
+          tags: optionalTags(params.tags),
+        };
+      case 'delete':
+        return { type, notes: resolveNotes(this.db, params) };
+      case 'update': {
+        const [note] = resolveNotes(this.db, { noteIds: params.noteId ?? params.noteIds });
+        const changes = {
+          text: optionalString(params.text),
+          tags: optionalTags(params.tags),
+          status: optionalEnum(params.status, NOTE_STATUSES, '状态'),
+          type_hint: optionalEnum(params.type_hint, NOTE_TYPES, '分类'),
+        };
+        if (Object.values(changes).every(value => value === undefined)) {
+          throw new AssistantActionError('没有要修改的内容');
+        }
+        return { type, note, changes };
+      }
+      case 'analyze':
+        return { type, notes: resolveNotes(this.db, params), question: optionalString(params.question) };
+    }
+  }
+
+  private async run(action: ValidatedAction, undoSteps: UndoStep[], services: AssistantActionServices): Promise<Pick<AssistantActionResult, 'message' | 'notes' | 'analysis'>> {
+    switch (action.type) {
+      case 'create': {
+        const note = this.db.createNote({ text: action.text, type_hint: action.type_hint, tags: action.tags });
+        undoSteps.push({ type: 'create', noteId: note.id });
+        return { message: `已${describeAction(action)}`, notes: [note] };
+      }
+      case 'search': {
+        const filters = { type_hint: action.type_hint, tags: action.tags, limit: SEARCH_RESULT_LIMIT };
+        let results = services.semanticIndex
+          ? await services.semanticIndex.hybridSearch(action.query, filters)
+          : this.db.searchNotes(action.query, filters);
+        if (results.length === 0) {
+          results = this.db.searchNotesByAnyTerm(action.query, filters);
+        }
+        const notes = results.map(result => result.note);
+        return {
+          message: notes.length > 0 ? `搜索"${action.query}"找到 ${notes.length} 条记录` : `没有找到与"${action.query}"相关的记录`,
+          notes,
+        };
+      }
+      case 'delete': {
+        const deleted = action.notes.filter(note => this.db.deleteNote(note.id));
+        if (deleted.length === 0) {
+          throw new AssistantActionError('记录已经不存在');
+        }
+        undoSteps.push({ type: 'delete', noteIds: deleted.map(note => note.id) });
+        return { message: `已将 ${deleted.length} 条记录移入回收站`, notes: deleted };
+      }
+      case 'update': {
+        // 以执行时的内容为准，预览之后用户可能又修改过
+        const previous = this.db.getNoteById(action.note.id);
+        if (!previous || previous.deleted_at) {
+          throw new AssistantActionError('记录已经不存在');
+        }
+        const { text, tags, status, type_hint } = action.changes;
+        if (text !== undefined) {
+          this.db.updateNote(previous.id, text, 'assistant');
+        }
+        if (tags !== undefined) {
+          this.db.updateNoteTags(previous.id, tags, 'assistant');
+        }
+        let recurrenceId: string | undefined;
+        if (status !== undefined) {
+          // 完成重复待办时会生成下一次，之前已经生成过的不属于这次操作
+          const hadNext = this.db.getNextRecurrence(previous.id) !== null;
+          this.db.updateNoteStatus(previous.id, status);
+          if (!hadNext) {
+            recurrenceId = this.db.getNextRecurrence(previous.id)?.id;
+          }
+        }
+        if (type_hint !== undefined) {
+          this.db.updateNoteClassification(previous.id, type_hint, previous.project_tag);
+        }
+        undoSteps.push({ type: 'update', previous, changes: action.changes, recurrenceId });
+        const updated = this.db.getNoteById(previous.id);
+        return { message: `已${describeAction(action)}`, notes: updated ? [updated] : [] };
+      }
+      case 'analyze': {
+        if (!services.aiService) {
+          throw new AssistantActionError('AI服务未配置');
+        }
+        const analysis = await services.aiService.analyzeNotes(action.notes, action.question);
+        return { message: `已${describeAction(action)}`, notes: action.notes, analysis };
+      }
+    }
+  }
+}
+
+const NOTE_IDS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string' },
+  minItems: 1,
+  description: '记录的id，只能使用上下文或搜索结果中出现过的id',
+};
+
+// 提供给模型的工具，参数说明用中文，与提示词保持一致
+const ASSISTANT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'createNote',
+    description: '新建一条记录。用户要求记下、添加或提醒某件事时调用，会在回复后自动创建',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: '记录内容' },
+        type_hint: { type: 'string', enum: NOTE_TYPES, description: '分类：todo待办、issue问题、idea想法、feeling感受、note普通笔记' },
+        tags: { type: 'array', items: { type: 'string' }, description: '标签' },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'searchNotes',
+    description: '按关键词和语义搜索记录，返回记录全文。上下文中没有回答所需的记录时调用',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '搜索内容' },
+        type_hint: { type: 'string', enum: NOTE_TYPES, description: '只搜索该分类' },
+        status: { type: 'string', enum: NOTE_STATUSES, description: '只搜索该状态' },
+        from: { type: 'string', format: 'date', description: '创建日期不早于，YYYY-MM-DD' },
+        to: { type: 'string', format: 'date', description: '创建日期不晚于，YYYY-MM-DD' },
+        limit: { type: 'integer', minimum: 1, maximum: TOOL_SEARCH_LIMIT, description: `返回的记录数，默认 ${TOOL_SEARCH_DEFAULT_LIMIT}` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'updateStatus',
+    description: '修改记录的状态，如把待办标记为已完成。需要用户确认后才会执行',
+    parameters: {
+      type: 'object',
+      properties: {
+        noteIds: NOTE_IDS_SCHEMA,
+        status: { type: 'string', enum: NOTE_STATUSES, description: 'new新增、ongoing进行中、closed已完成' },
+      },
+      required: ['noteIds', 'status'],
+    },
+  },
+  {
+    name: 'tagNotes',
+    description: '为记录添加、移除或替换标签。需要用户确认后才会执行',
+    parameters: {
+      type: 'object',
+      properties: {
+        noteIds: NOTE_IDS_SCHEMA,
+        tags: { type: 'array', items: { type: 'string' }, description: '标签' },
+        mode: { type: 'string', enum: TAG_MODES, description: 'add添加（默认）、remove移除、replace替换全部标签' },
+      },
+      required: ['noteIds', 'tags'],
+    },
+  },
+  {
+    name: 'deleteNotes',
+    description: '把记录移入回收站，之后可以恢复。需要用户确认后才会执行',
+    parameters: {
+      type: 'object',
+      properties: { noteIds: NOTE_IDS_SCHEMA },
+      required: ['noteIds'],
+    },
+  },
+  {
+    name: 'generateDigest',
+    description: '总结一段时间的记录，返回Markdown格式的总结。from 和 to 相同时生成当天的每日总结',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', format: 'date', description: '开始日期，YYYY-MM-DD' },
+        to: { type: 'string', format: 'date', description: '结束日期，YYYY-MM-DD，默认与开始日期相同' },
+      },
+      required: ['from'],
+    },
+  },
+];
+
+// 工具参数必须是JSON对象
+function toToolParams(args: unknown): Record<string, unknown> {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    throw new AssistantActionError('参数应为JSON对象');
+  }
+  return args as Record<string, unknown>;
+}
+
+/**
+ * AI助手通过原生工具调用使用的工具
+ *
+ * 搜索和总结直接执行并把结果返回给模型；新建、修改和删除只生成操作，
+ * 回复后交给 AssistantActionRunner，与其他操作一样需要确认并可以撤销。
+ * 每次对话创建一个实例，累计生成的操作数不超过一次可执行的上限
+ */
+export class AssistantTools implements AssistantToolbox {
+  readonly definitions = ASSISTANT_TOOLS;
+  private actionCount = 0;
+
+  constructor(private db: FlowpadDB, private services: AssistantActionServices = {}) {}
+
+  describe(name: string, args: unknown): string {
+    const params = args && typeof args === 'object' ? args as Record<string, unknown> : {};
+    const list = (value: unknown) => Array.isArray(value) ? value.join('、') : String(value ?? '');
+    switch (name) {
+      case 'createNote':
+        return `新建记录：${shortTitle(String(params.text ?? ''))}`;
+      case 'searchNotes':
+        return `搜索记录：${String(params.query ?? '')}`;
+      case 'updateStatus':
+        return `修改状态为${NOTE_STATUS_NAMES[String(params.status)] || String(params.status ?? '')}`;
+      case 'tagNotes':
+        return `修改标签：${list(params.tags)}`;
+      case 'deleteNotes':
+        return `删除 ${Array.isArray(params.noteIds) ? params.noteIds.length : 1} 条记录`;
+      case 'generateDigest':
+        return `总结记录：${params.to && params.to !== params.from ? `${String(params.from)} 至 ${String(params.to)}` : String(params.from ?? '')}`;
+      default:
+        return `调用 ${name}`;
+    }
+  }
+
+  /**
+   * @throws AssistantActionError 工具不存在或参数无效时，原因返回给模型以便更正
+   */
+  async execute(name: string, args: unknown, signal?: AbortSignal): Promise<AssistantToolResult> {
+    const params = toToolParams(args);
+    switch (name) {
+      case 'createNote':
+        return this.submit([{
+          type: 'create',
+          params: {
+            text: requireString(params.text, '记录内容'),
+            type_hint: optionalEnum(params.type_hint, NOTE_TYPES, '分类'),
+            tags: optionalTags(params.tags),
+          },
+        }], '已提交新建记录，回复后自动创建');
+      case 'searchNotes':
+        return this.searchNotes(params);
+      case 'updateStatus': {
+        const notes = resolveNotes(this.db, params);
+        const status = optionalEnum(params.status, NOTE_STATUSES, '状态');
+        if (!status) {
+          throw new AssistantActionError('缺少状态');
+        }
+        const changed = notes.filter(note => (note.status || 'new') !== status);
+        if (changed.length === 0) {
+          return { content: `这些记录的状态已经是${NOTE_STATUS_NAMES[status]}，不需要修改` };
+        }
+        return this.submit(
+          changed.map(note => ({ type: 'update', params: { noteId: note.id, status } })),
+          `已提交修改 ${changed.length} 条记录的状态，需要用户确认后才会执行`
+        );
+      }
+      case 'tagNotes': {
+        const notes = resolveNotes(this.db, params);
+        const tags = optionalTags(params.tags) || [];
+        const mode = optionalEnum(params.mode, TAG_MODES, '修改方式') || 'add';
+        if (tags.length === 0 && mode !== 'replace') {
+          throw new AssistantActionError('缺少标签');
+        }
+        const actions: AssistantAction[] = notes.flatMap(note => {
+          const current = note.tags || [];
+          const next = mode === 'replace'
+            ? tags
+            : mode === 'remove'
+              ? current.filter(tag => !tags.includes(tag))
+              : Array.from(new Set([...current, ...tags]));
+          const unchanged = next.length === current.length && next.every(tag => current.includes(tag));
+          return unchanged ? [] : [{ type: 'update' as const, params: { noteId: note.id, tags: next } }];
+        });
+        if (actions.length === 0) {
+          return { content: '这些记录的标签已经符合要求，不需要修改' };
+        }
+        return this.submit(actions, `已提交修改 ${actions.length} 条记录的标签，需要用户确认后才会执行`);
+      }
+      case 'deleteNotes': {
+        const notes = resolveNotes(this.db, params);
+        return this.submit(
+          [{ type: 'delete', params: { noteIds: notes.map(note => note.id) } }],
+          `已提交删除 ${notes.length} 条记录，需要用户确认后才会执行`
+        );
+      }
+      case 'generateDigest':
+        return this.generateDigest(params, signal);
+      default:
+        throw new AssistantActionError(`没有名为 ${name} 的工具`);
+    }
+  }
+
+  // 生成的操作交给回复后的操作流程，超出一次可执行的数量时拒绝
+  private submit(actions: AssistantAction[], content: string): AssistantToolResult {
+    if (this.actionCount + actions.length > MAX_ACTIONS) {
+      throw new AssistantActionError(`一次回复最多执行 ${MAX_ACTIONS} 个操作，请让用户分批处理`);
+    }
+    this.actionCount += actions.length;
+    return { content, actions };
+  }
+
+  private async searchNotes(params: Record<string, unknown>): Promise<AssistantToolResult> {
+    const query = requireString(params.query, '搜索内容');
+    const limit = typeof params.limit === 'number' && params.limit >= 1
+      ? Math.min(Math.floor(params.limit), TOOL_SEARCH_LIMIT)
+      : TOOL_SEARCH_DEFAULT_LIMIT;
+    const filters = {
+      type_hint: optionalEnum(params.type_hint, NOTE_TYPES, '分类'),
+      status: optionalEnum(params.status, NOTE_STATUSES, '状态'),
+      from: params.from === undefined ? undefined : requireDate(params.from, '开始日期'),
+      to: params.to === undefined ? undefined : requireDate(params.to, '结束日期'),
+      limit,
+    };
+
+    let results = this.services.semanticIndex
+      ? await this.services.semanticIndex.hybridSearch(query, filters)
+      : this.db.searchNotes(query, filters);
+    if (results.length === 0) {
+      results = this.db.searchNotesByAnyTerm(query, filters);
+    }
+    const notes = results.map(result => result.note);
+    return {
+      content: notes.length > 0 ? `找到 ${notes.length} 条记录：` : `没有找到与"${query}"相关的记录`,
+      notes,
+    };
+  }
+
+  private async generateDigest(params: Record<string, unknown>, signal?: AbortSignal): Promise<AssistantToolResult> {
+    const { aiService } = this.services;
+    if (!aiService) {
+      throw new AssistantActionError('AI服务未配置');
+    }
+    const from = requireDate(params.from, '开始日期');
+    const to = params.to === undefined ? from : requireDate(params.to, '结束日期');
+    if (from > to) {
+      throw new AssistantActionError('开始日期不能晚于结束日期');
+    }
+    if ((Date.parse(to) - Date.parse(from)) / 86400000 + 1 > MAX_DIGEST_DAYS) {
+      throw new AssistantActionError(`一次最多总结 ${MAX_DIGEST_DAYS} 天的记录`);
+    }
+
+    const notes = this.db.getNotesInRange(from, to);
+    if (notes.length === 0) {
+      return { content: from === to ? `${from} 没有记录` : `${from} 至 ${to} 没有记录` };
+    }
+    const period: DigestPeriod = { granularity: from === to ? 'day' : 'custom', from, to };
+    const digest = period.granularity === 'day'
+      ? await aiService.generateDailyDigest(notes, from, { signal })
+      : await aiService.generatePeriodDigest(period, notes, this.db.getDailyDigestsInRange(from, to), { signal });
+    return { content: formatDigestMarkdown(digest, getDigestScopeLabel(period.granularity)) };
+  }
+}
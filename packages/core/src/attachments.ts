@@ -0,0 +1,118 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttachmentInput } from './types';
+
+// 单个附件的大小上限
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.zip': 'application/zip',
+};
+
+export interface StoredFile {
+  hash: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+}
+
+export function getMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * 按内容寻址的附件存储：文件以 SHA-256 命名，相同内容只保存一份
+ */
+export class AttachmentStore {
+  constructor(private rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  // 文件路径为 <根目录>/<哈希前两位>/<哈希><扩展名>，保留扩展名便于系统打开
+  getFilePath(hash: string, fileName: string): string {
+    const ext = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    return path.join(this.rootDir, hash.slice(0, 2), `${hash}${ext}`);
+  }
+
+  // 复制文件到存储目录，已存在相同内容时直接复用
+  store(input: AttachmentInput): StoredFile {
+    let data: Buffer;
+    if (input.data) {
+      data = Buffer.from(input.data);
+    } else if (input.path) {
+      const stat = fs.statSync(input.path);
+      if (!stat.isFile()) {
+        throw new Error(`不是文件：${input.path}`);
+      }
+      if (stat.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`文件超过 ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB：${input.file_name}`);
+      }
+      data = fs.readFileSync(input.path);
+    } else {
+      throw new Error(`附件缺少内容：${input.file_name}`);
+    }
+
+    if (data.length > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`文件超过 ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB：${input.file_name}`);
+    }
+
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const filePath = this.getFilePath(hash, input.file_name);
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // 先写临时文件再重命名，避免中断时留下不完整的文件
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, data);
+      fs.renameSync(tempPath, filePath);
+    }
+
+    return {
+      hash,
+      file_name: path.basename(input.file_name),
+      mime_type: getMimeType(input.file_name),
+      size: data.length,
+    };
+  }
+
+  read(hash: string, fileName: string): Buffer {
+    return fs.readFileSync(this.getFilePath(hash, fileName));
+  }
+
+  // 删除不再被任何附件记录引用的文件，返回删除的文件数
+  removeUnreferenced(referencedHashes: Set<string>): number {
+    let removed = 0;
+    for (const dir of fs.readdirSync(this.rootDir)) {
+      const dirPath = path.join(this.rootDir, dir);
+      if (!fs.statSync(dirPath).isDirectory()) {
+        continue;
+      }
+
+      for (const file of fs.readdirSync(dirPath)) {
+        const hash = file.split('.')[0];
+        if (!referencedHashes.has(hash)) {
+          fs.unlinkSync(path.join(dirPath, file));
+          removed++;
+        }
+      }
+
+      if (fs.readdirSync(dirPath).length === 0) {
+        fs.rmdirSync(dirPath);
+      }
+    }
+    return removed;
+  }
+}
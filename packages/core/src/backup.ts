@@ -0,0 +1,356 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { FlowpadDB } from './db';
+import { DatabaseCipher, ENCRYPTED_FILE_SUFFIX, getEncryptedDatabasePath } from './encryption';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { BackupKind, BackupSnapshot, DatabaseValidation } from './types';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// 每种快照保留的数量，超出后删除最旧的
+const RETENTION: Record<BackupKind, number> = {
+  daily: 7,
+  weekly: 4,
+  manual: 10,
+  'pre-migration': 5,
+  'pre-restore': 3,
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 校验数据库文件：能以只读方式打开、完整性检查通过、包含笔记表且版本不高于当前应用
+ */
+export function validateDatabaseFile(filePath: string): DatabaseValidation {
+  return validateDatabase(() => new Database(filePath, { readonly: true, fileMustExist: true }));
+}
+
+// 校验解密后的数据库内容，规则与 validateDatabaseFile 相同
+export function validateDatabaseBuffer(data: Buffer): DatabaseValidation {
+  return validateDatabase(() => new Database(data));
+}
+
+function validateDatabase(open: () => Database.Database): DatabaseValidation {
+  let db: Database.Database | undefined;
+  try {
+    db = open();
+    const integrity = db.pragma('integrity_check', { simple: true });
+    if (integrity !== 'ok') {
+      return { valid: false, error: `完整性检查失败：${integrity}`, schema_version: 0, note_count: 0 };
+    }
+
+    const tables = new Set((db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map(row => row.name));
+    if (!tables.has('notes')) {
+      return { valid: false, error: '不是Flowpad数据库（缺少notes表）', schema_version: 0, note_count: 0 };
+    }
+
+    const schemaVersion = tables.has('schema_version')
+      ? ((db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null }).version || 0)
+      : 0;
+    const noteCount = (db.prepare('SELECT COUNT(*) AS count FROM notes').get() as { count: number }).count;
+    if (schemaVersion > LATEST_SCHEMA_VERSION) {
+      return {
+        valid: false,
+        error: `数据库版本 v${schemaVersion} 高于当前应用支持的 v${LATEST_SCHEMA_VERSION}`,
+        schema_version: schemaVersion,
+        note_count: noteCount,
+      };
+    }
+
+    return { valid: true, schema_version: schemaVersion, note_count: noteCount };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error), schema_version: 0, note_count: 0 };
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * 数据库快照管理：定期快照、手动快照和恢复
+ *
+ * 快照保存在 backupDir 中，manifest.json 记录每个快照的类型和校验信息；
+ * 迁移前由 runMigrations 写入的备份文件在加载清单时自动登记。
+ * 数据库加密时快照同样加密保存（.db.enc），切换加密状态时通过 setCipher 统一转换
+ */
+export class BackupService {
+  private snapshots: BackupSnapshot[] = [];
+
+  constructor(private dbPath: string, private backupDir: string, private cipher: DatabaseCipher | null = null) {
+    fs.mkdirSync(backupDir, { recursive: true });
+    this.loadManifest();
+  }
+
+  // 最新的快照在前
+  listSnapshots(): BackupSnapshot[] {
+    return [...this.snapshots].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  getSnapshotPath(snapshot: BackupSnapshot): string {
+    return path.join(this.backupDir, snapshot.file_name);
+  }
+
+  async createSnapshot(db: FlowpadDB, kind: BackupKind): Promise<BackupSnapshot> {
+    const now = new Date();
+    const fileName = `${kind}-${now.toISOString().replace(/[:.]/g, '-')}.db${this.cipher ? ENCRYPTED_FILE_SUFFIX : ''}`;
+    const filePath = path.join(this.backupDir, fileName);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      let validation: DatabaseValidation;
+      if (this.cipher) {
+        // 加密模式下明文不落盘，直接在内存中校验后加密写入
+        const data = db.serialize();
+        validation = validateDatabaseBuffer(data);
+        if (!validation.valid) {
+          throw new Error(`快照校验失败：${validation.error}`);
+        }
+        this.cipher.writeFile(filePath, data);
+      } else {
+        await db.backup(tempPath);
+        validation = validateDatabaseFile(tempPath);
+        if (!validation.valid) {
+          throw new Error(`快照校验失败：${validation.error}`);
+        }
+        fs.renameSync(tempPath, filePath);
+      }
+
+      const snapshot: BackupSnapshot = {
+        id: uuidv4(),
+        kind,
+        file_name: fileName,
+        created_at: now.toISOString(),
+        size: fs.statSync(filePath).size,
+        schema_version: validation.schema_version,
+        note_count: validation.note_count,
+      };
+      this.snapshots.push(snapshot);
+      this.rotate(kind);
+      this.saveManifest();
+      return snapshot;
+    } finally {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+    }
+  }
+
+  /**
+   * 按计划生成快照：当天还没有日快照时生成一份，最近7天没有周快照时生成一份
+   * @returns 本次生成的快照
+   */
+  async runScheduledSnapshots(db: FlowpadDB, now: Date = new Date()): Promise<BackupSnapshot[]> {
+    const created: BackupSnapshot[] = [];
+    const latest = (kind: BackupKind) => this.listSnapshots().find(snapshot => snapshot.kind === kind);
+
+    const lastDaily = latest('daily');
+    if (!lastDaily || new Date(lastDaily.created_at).toDateString() !== now.toDateString()) {
+      created.push(await this.createSnapshot(db, 'daily'));
+    }
+
+    const lastWeekly = latest('weekly');
+    if (!lastWeekly || now.getTime() - new Date(lastWeekly.created_at).getTime() >= WEEK_MS) {
+      created.push(await this.createSnapshot(db, 'weekly'));
+    }
+    return created;
+  }
+
+  deleteSnapshot(id: string): boolean {
+    const snapshot = this.snapshots.find(item => item.id === id);
+    if (!snapshot) {
+      return false;
+    }
+    this.removeSnapshotFile(snapshot);
+    this.snapshots = this.snapshots.filter(item => item.id !== id);
+    this.saveManifest();
+    return true;
+  }
+
+  validateSnapshot(snapshot: BackupSnapshot): DatabaseValidation {
+    return this.validateSnapshotFile(snapshot.file_name);
+  }
+
+  /**
+   * 用快照替换数据库文件，调用前必须关闭数据库连接
+   */
+  replaceDatabase(snapshot: BackupSnapshot): void {
+    const validation = this.validateSnapshotFile(snapshot.file_name);
+    if (!validation.valid) {
+      throw new Error(`快照无法使用：${validation.error}`);
+    }
+
+    if (this.cipher) {
+      this.cipher.writeFile(getEncryptedDatabasePath(this.dbPath), this.readSnapshotFile(snapshot.file_name));
+      return;
+    }
+
+    const snapshotPath = this.getSnapshotPath(snapshot);
+
+    // 先复制到同一目录再重命名，保证替换是原子的
+    const tempPath = `${this.dbPath}.restoring`;
+    fs.copyFileSync(snapshotPath, tempPath);
+    fs.renameSync(tempPath, this.dbPath);
+    // 旧连接遗留的日志文件属于被替换的数据库
+    for (const suffix of ['-journal', '-wal', '-shm']) {
+      if (fs.existsSync(`${this.dbPath}${suffix}`)) {
+        fs.unlinkSync(`${this.dbPath}${suffix}`);
+      }
+    }
+  }
+
+  /**
+   * 切换快照的加密方式：传入新的密钥时全部重新加密，传入 null 时解密为普通文件
+   * 无法转换的快照会从清单中移除；启用加密时清单之外的明文备份先登记再加密，无法登记的直接删除
+   */
+  setCipher(next: DatabaseCipher | null): void {
+    const enabling = !this.cipher && next !== null;
+    if (enabling) {
+      this.adoptUntrackedFiles();
+      this.rotate('pre-migration');
+    }
+
+    const converted: BackupSnapshot[] = [];
+    for (const snapshot of this.snapshots) {
+      try {
+        const data = this.readSnapshotFile(snapshot.file_name);
+        const baseName = snapshot.file_name.endsWith(ENCRYPTED_FILE_SUFFIX)
+          ? snapshot.file_name.slice(0, -ENCRYPTED_FILE_SUFFIX.length)
+          : snapshot.file_name;
+        const fileName = next ? `${baseName}${ENCRYPTED_FILE_SUFFIX}` : baseName;
+        const filePath = path.join(this.backupDir, fileName);
+
+        if (next) {
+          next.writeFile(filePath, data);
+        } else {
+          fs.writeFileSync(`${filePath}.tmp`, data);
+          fs.renameSync(`${filePath}.tmp`, filePath);
+        }
+        if (fileName !== snapshot.file_name) {
+          this.removeSnapshotFile(snapshot);
+        }
+        converted.push({ ...snapshot, file_name: fileName, size: fs.statSync(filePath).size });
+      } catch (error) {
+        console.error('转换快照失败:', snapshot.file_name, error);
+      }
+    }
+
+    this.cipher = next;
+    this.snapshots = converted;
+    this.saveManifest();
+    if (enabling) {
+      this.removePlaintextFiles();
+    }
+  }
+
+  // 读取快照内容，加密快照会先解密
+  private readSnapshotFile(fileName: string): Buffer {
+    const filePath = path.join(this.backupDir, fileName);
+    if (fileName.endsWith(ENCRYPTED_FILE_SUFFIX)) {
+      if (!this.cipher) {
+        throw new Error('数据库未加密，无法读取加密快照');
+      }
+      return this.cipher.readFile(filePath);
+    }
+    return fs.readFileSync(filePath);
+  }
+
+  private validateSnapshotFile(fileName: string): DatabaseValidation {
+    if (!fileName.endsWith(ENCRYPTED_FILE_SUFFIX)) {
+      return validateDatabaseFile(path.join(this.backupDir, fileName));
+    }
+    try {
+      return validateDatabaseBuffer(this.readSnapshotFile(fileName));
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error), schema_version: 0, note_count: 0 };
+    }
+  }
+
+  private loadManifest(): void {
+    const manifestPath = path.join(this.backupDir, MANIFEST_FILE);
+    try {
+      if (fs.existsSync(manifestPath)) {
+        const data = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        this.snapshots = Array.isArray(data.snapshots) ? data.snapshots : [];
+      }
+    } catch (error) {
+      // 清单损坏时根据目录中的文件重建
+      console.error('读取备份清单失败，将重新生成:', error);
+      this.snapshots = [];
+    }
+
+    const before = JSON.stringify(this.snapshots);
+    // 去掉文件已不存在的记录
+    this.snapshots = this.snapshots.filter(snapshot => fs.existsSync(this.getSnapshotPath(snapshot)));
+    this.adoptUntrackedFiles();
+    this.rotate('pre-migration');
+    if (JSON.stringify(this.snapshots) !== before) {
+      this.saveManifest();
+    }
+  }
+
+  // 登记清单之外的备份文件，如迁移前自动生成的备份；只登记与当前加密状态一致的文件
+  private adoptUntrackedFiles(): void {
+    const tracked = new Set(this.snapshots.map(snapshot => snapshot.file_name));
+    const extension = this.cipher ? `.db${ENCRYPTED_FILE_SUFFIX}` : '.db';
+    for (const fileName of fs.readdirSync(this.backupDir)) {
+      if (!fileName.endsWith(extension) || tracked.has(fileName)) {
+        continue;
+      }
+
+      const kind = (Object.keys(RETENTION) as BackupKind[])
+        .sort((a, b) => b.length - a.length)
+        .find(candidate => fileName.startsWith(`${candidate}-`));
+      if (!kind) {
+        continue;
+      }
+
+      const filePath = path.join(this.backupDir, fileName);
+      const validation = this.validateSnapshotFile(fileName);
+      if (!validation.valid) {
+        continue;
+      }
+      this.snapshots.push({
+        id: uuidv4(),
+        kind,
+        file_name: fileName,
+        created_at: fs.statSync(filePath).mtime.toISOString(),
+        size: fs.statSync(filePath).size,
+        schema_version: validation.schema_version,
+        note_count: validation.note_count,
+      });
+    }
+  }
+
+  // 删除备份目录中剩余的明文数据库文件，包括无法识别的备份和写入中断留下的临时文件
+  private removePlaintextFiles(): void {
+    for (const fileName of fs.readdirSync(this.backupDir)) {
+      if (fileName.endsWith('.db') || fileName.endsWith('.db.tmp')) {
+        fs.unlinkSync(path.join(this.backupDir, fileName));
+      }
+    }
+  }
+
+  private rotate(kind: BackupKind): void {
+    const expired = this.listSnapshots().filter(snapshot => snapshot.kind === kind).slice(RETENTION[kind]);
+    for (const snapshot of expired) {
+      this.removeSnapshotFile(snapshot);
+    }
+    const expiredIds = new Set(expired.map(snapshot => snapshot.id));
+    this.snapshots = this.snapshots.filter(snapshot => !expiredIds.has(snapshot.id));
+  }
+
+  private removeSnapshotFile(snapshot: BackupSnapshot): void {
+    const filePath = this.getSnapshotPath(snapshot);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  private saveManifest(): void {
+    const manifestPath = path.join(this.backupDir, MANIFEST_FILE);
+    const tempPath = `${manifestPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ snapshots: this.snapshots }, null, 2), 'utf8');
+    fs.renameSync(tempPath, manifestPath);
+  }
+}
@@ -1,16 +1,61 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import { Note, Settings, CreateNoteInput, Context, DatabaseConfig, SavedDigest } from './types';
+import { runMigrations } from './migrations';
+import { diffLines } from './diff';
+import { parseRecurrenceRule, formatRecurrenceRule, getNextOccurrence } from './recurrence';
+import { getNoteTitle, normalizeLinkTarget, parseWikiLinks, renameWikiLinkTarget } from './links';
+import { formatLocalDate } from './digestSchedule';
+import { StoredFile } from './attachments';
+import { Note, Settings, CreateNoteInput, Context, DatabaseConfig, SavedDigest, DailyDigest, DigestTodo, DigestPeriod, ProjectSummary, NoteSearchFilters, NoteScheduleInput, NoteSearchResult, NoteRevision, NoteRevisionDiff, RevisionSource, NoteLinks, Attachment, VaultFileState, AssistantConversation, ChatMessage } from './types';
+
+// 搜索结果片段中的高亮标记
+const HIGHLIGHT_START = '<mark>';
+const HIGHLIGHT_END = '</mark>';
+
+// 按问题检索笔记时最多使用的关键词数
+const MAX_RETRIEVAL_TERMS = 40;
+
+// 待办排序：高优先级在前，未设置优先级的排在最后
+const PRIORITY_ORDER_SQL = "CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 WHEN 'low' THEN 2 ELSE 3 END";
+
+/**
+ * 从自然语言问题中提取用于全文检索的词
+ *
+ * 中文没有空格分词，连续的汉字按3个字一组滑动切分，与trigram分词器的匹配方式一致；
+ * 少于3个字符的词无法用全文索引匹配，直接忽略
+ */
+function extractRetrievalTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const token of query.toLowerCase().match(/[\p{L}\p{N}_-]+/gu) || []) {
+    const chars = Array.from(token);
+    if (chars.length < 3) {
+      continue;
+    }
+    if (/\p{Script=Han}/u.test(token) && chars.length > 3) {
+      for (let i = 0; i + 3 <= chars.length; i++) {
+        terms.add(chars.slice(i, i + 3).join(''));
+      }
+    } else {
+      terms.add(token);
+    }
+  }
+  return Array.from(terms).slice(0, MAX_RETRIEVAL_TERMS);
+}
 
 export class FlowpadDB {
   private db: Database.Database;
 
   constructor(config: DatabaseConfig) {
+    let db: Database.Database | undefined;
     try {
-      this.db = new Database(config.path);
-      this.initialize();
+      db = new Database(config.data ?? config.path);
+      this.db = db;
+      this.initialize(config);
     } catch (error) {
       console.error('数据库初始化失败:', error);
+      if (db?.open) {
+        db.close();
+      }
       throw error;
     }
   }
@@ -24,92 +69,18 @@ export class FlowpadDB {
     }
   }
 
-  private initialize(): void {
-    // 创建notes表
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS notes (
-        id TEXT PRIMARY KEY,
-        text TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        app_name TEXT,
-        window_title TEXT,
-        url TEXT,
-        project_hint TEXT,
-        type_hint TEXT,
-        tags TEXT,
-        project_tag TEXT,
-        status TEXT DEFAULT 'new'
-      );
-    `);
-
-    // 为现有的notes表添加tags列（如果不存在）
-    try {
-      this.db.exec(`ALTER TABLE notes ADD COLUMN tags TEXT;`);
-    } catch (error) {
-      // 列已存在，忽略错误
+  private initialize(config: DatabaseConfig): void {
+    // 按版本顺序执行未应用的schema迁移，失败时会抛出MigrationError中止启动
+    const result = runMigrations(this.db, { path: config.path, backupDir: config.backupDir });
+    if (result.applied.length > 0) {
+      console.log(`数据库已从 v${result.fromVersion} 升级到 v${result.toVersion}`);
     }
-
-    // 为现有的notes表添加project_tag列（如果不存在）
-    try {
-      this.db.exec(`ALTER TABLE notes ADD COLUMN project_tag TEXT;`);
-    } catch (error) {
-      // 列已存在，忽略错误
-    }
-
-    // 为现有的notes表添加status列（如果不存在）
-    try {
-      this.db.exec(`ALTER TABLE notes ADD COLUMN status TEXT DEFAULT 'new';`);
-    } catch (error) {
-      // 列已存在，忽略错误
-    }
-
-    // 创建settings表
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
-    `);
-
-    // 创建saved_digests表
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS saved_digests (
-        id TEXT PRIMARY KEY,
-        date TEXT NOT NULL,
-        summary TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        saved_at TEXT NOT NULL
-      );
-    `);
-
-    // 创建自定义标签表
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS custom_tags (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE,
-        color TEXT,
-        created_at TEXT NOT NULL,
-        used_count INTEGER DEFAULT 0
-      );
-    `);
-
-    // 创建索引以提高查询性能 - 优化版本
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes(created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_notes_project_hint ON notes(project_hint);
-      CREATE INDEX IF NOT EXISTS idx_notes_type_hint ON notes(type_hint);
-      CREATE INDEX IF NOT EXISTS idx_notes_app_name ON notes(app_name);
-      CREATE INDEX IF NOT EXISTS idx_notes_date_created ON notes(date(created_at));
-      CREATE INDEX IF NOT EXISTS idx_notes_composite ON notes(project_hint, created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_saved_digests_date ON saved_digests(date);
-      CREATE INDEX IF NOT EXISTS idx_saved_digests_saved_at ON saved_digests(saved_at DESC);
-    `);
   }
 
   // 创建笔记 - 优化版本
   createNote(input: CreateNoteInput): Note {
     const id = uuidv4();
-    const created_at = new Date().toISOString();
+    const created_at = input.created_at || new Date().toISOString();
     const project_hint = undefined; // 不再自动生成项目提示，完全依赖用户标签
     const type_hint = input.type_hint || this.inferTypeHint(input.text);
     const tags = input.tags || [];
@@ -118,6 +89,9 @@ export class FlowpadDB {
     // 使用传入的项目标签，如果没有则为null
     const project_tag = input.project_tag || null;
 
+    // 重复规则统一保存为规范格式，无效规则会抛出RecurrenceRuleError
+    const recurrence = input.recurrence ? formatRecurrenceRule(parseRecurrenceRule(input.recurrence)) : undefined;
+
     const note: Note = {
       id,
       text: input.text,
@@ -129,12 +103,17 @@ export class FlowpadDB {
       type_hint,
       tags,
       project_tag: project_tag || undefined,
-      status: 'new',
+      status: input.status || 'new',
+      due_at: input.due_at,
+      priority: input.priority,
+      remind_at: input.remind_at,
+      recurrence,
+      recurrence_index: 0,
     };
 
     const stmt = this.getOrCreateStatement(
       'createNote',
-      'INSERT INTO notes (id, text, created_at, app_name, window_title, url, project_hint, type_hint, tags, project_tag, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      'INSERT INTO notes (id, text, created_at, app_name, window_title, url, project_hint, type_hint, tags, project_tag, status, due_at, priority, remind_at, recurrence) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
     );
 
     stmt.run(
@@ -148,12 +127,36 @@ export class FlowpadDB {
       note.type_hint,
       tagsJson,
       project_tag,
-      note.status
+      note.status,
+      note.due_at || null,
+      note.priority || null,
+      note.remind_at || null,
+      note.recurrence || null
     );
 
+    this.syncNoteLinks(note.id, note.text);
+    this.resolvePendingLinks(note.id, note.text);
+
     return note;
   }
 
+  // 批量创建笔记（用于导入），在同一事务中执行；单条失败时记录错误并继续
+  createNotes(inputs: CreateNoteInput[]): { notes: Note[]; errors: Array<{ index: number; message: string }> } {
+    const notes: Note[] = [];
+    const errors: Array<{ index: number; message: string }> = [];
+    const transaction = this.db.transaction(() => {
+      inputs.forEach((input, index) => {
+        try {
+          notes.push(this.createNote(input));
+        } catch (error) {
+          errors.push({ index, message: error instanceof Error ? error.message : String(error) });
+        }
+      });
+    });
+    transaction();
+    return { notes, errors };
+  }
+
   // 缓存预编译语句以提高性能
   private preparedStatements: Map<string, Database.Statement> = new Map();
 
@@ -171,19 +174,19 @@ export class FlowpadDB {
     if (limit && offset) {
       const stmt = this.getOrCreateStatement(
         'getNotes_limit_offset',
-        'SELECT * FROM notes ORDER BY created_at DESC LIMIT ? OFFSET ?'
+        'SELECT * FROM notes WHERE deleted_at IS NULL ORDER BY created_at DESC LIMIT ? OFFSET ?'
       );
       rows = stmt.all(limit, offset);
     } else if (limit) {
       const stmt = this.getOrCreateStatement(
         'getNotes_limit',
-        'SELECT * FROM notes ORDER BY created_at DESC LIMIT ?'
+        'SELECT * FROM notes WHERE deleted_at IS NULL ORDER BY created_at DESC LIMIT ?'
       );
       rows = stmt.all(limit);
     } else {
       const stmt = this.getOrCreateStatement(
         'getNotes_all',
-        'SELECT * FROM notes ORDER BY created_at DESC'
+        'SELECT * FROM notes WHERE deleted_at IS NULL ORDER BY created_at DESC'
       );
       rows = stmt.all();
     }
@@ -191,87 +194,474 @@ export class FlowpadDB {
     return rows.map(row => this.parseNoteRow(row));
   }
 
+  // 根据ID获取单条笔记
+  getNoteById(id: string): Note | null {
+    const stmt = this.getOrCreateStatement(
+      'getNoteById',
+      'SELECT * FROM notes WHERE id = ?'
+    );
+    const row = stmt.get(id);
+    return row ? this.parseNoteRow(row) : null;
+  }
+
   // 解析数据库行为Note对象
   private parseNoteRow(row: any): Note {
     return {
       ...row,
       tags: row.tags ? JSON.parse(row.tags) : [],
       project_tag: row.project_tag || undefined,
-      status: row.status || 'new'
+      status: row.status || 'new',
+      deleted_at: row.deleted_at || undefined,
+      due_at: row.due_at || undefined,
+      priority: row.priority || undefined,
+      remind_at: row.remind_at || undefined,
+      reminded_at: row.reminded_at || undefined,
+      recurrence: row.recurrence || undefined,
+      recurrence_parent_id: row.recurrence_parent_id || undefined,
+      recurrence_index: row.recurrence_index || 0
     };
   }
 
   // 获取今天的笔记 - 优化版本
   getTodayNotes(): Note[] {
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+    const today = formatLocalDate(new Date());
     const stmt = this.getOrCreateStatement(
       'getTodayNotes',
-      'SELECT * FROM notes WHERE date(created_at) = ? ORDER BY created_at DESC'
+      "SELECT * FROM notes WHERE date(created_at, 'localtime') = ? AND deleted_at IS NULL ORDER BY created_at DESC"
     );
     const rows = stmt.all(today);
     return rows.map(row => this.parseNoteRow(row));
   }
 
+  /**
+   * 获取日期范围内的笔记，from 和 to 都包含在内（YYYY-MM-DD）
+   *
+   * 日期按本地时间理解，与界面和定时总结使用的日期一致；created_at 保存的是UTC时间
+   */
+  getNotesInRange(from: string, to: string): Note[] {
+    const stmt = this.getOrCreateStatement(
+      'getNotesInRange',
+      "SELECT * FROM notes WHERE date(created_at, 'localtime') BETWEEN ? AND ? AND deleted_at IS NULL ORDER BY created_at ASC"
+    );
+    const rows = stmt.all(from, to);
+    return rows.map(row => this.parseNoteRow(row));
+  }
+
   // 根据项目获取笔记 - 优化版本
   getNotesByProject(project: string): Note[] {
     const stmt = this.getOrCreateStatement(
       'getNotesByProject',
-      'SELECT * FROM notes WHERE project_hint = ? ORDER BY created_at DESC'
+      'SELECT * FROM notes WHERE project_hint = ? AND deleted_at IS NULL ORDER BY created_at DESC'
     );
     const rows = stmt.all(project);
     return rows.map(row => this.parseNoteRow(row));
   }
 
-  // 删除笔记 - 优化版本
+  // 全文搜索笔记，按相关度排序并返回高亮片段
+  searchNotes(query: string, filters: NoteSearchFilters = {}): NoteSearchResult[] {
+    const terms = query.trim().split(/\s+/).filter(term => term.length > 0);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+    const { clauses, params, signature } = this.buildSearchFilterClauses(filters);
+
+    // trigram分词器要求每个词至少3个字符，更短的词回退到LIKE匹配
+    const useFullText = terms.every(term => Array.from(term).length >= 3);
+
+    if (useFullText) {
+      const matchExpression = terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' ');
+      const stmt = this.getOrCreateStatement(
+        `searchNotes_fts_${signature}`,
+        `SELECT notes.*,
+                snippet(notes_fts, -1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 24) AS search_snippet,
+                bm25(notes_fts, 4.0, 2.0, 1.0, 2.0) AS search_rank
+         FROM notes_fts
+         JOIN notes ON notes.rowid = notes_fts.rowid
+         WHERE notes_fts MATCH ? AND notes.deleted_at IS NULL${clauses}
+         ORDER BY search_rank
+         LIMIT ? OFFSET ?`
+      );
+      const rows = stmt.all(matchExpression, ...params, limit, offset) as any[];
+      return rows.map(row => {
+        const { search_snippet, search_rank, ...noteRow } = row;
+        return {
+          note: this.parseNoteRow(noteRow),
+          snippet: search_snippet || '',
+          // bm25越小越相关，取反后分数越高越相关
+          rank: -search_rank,
+        };
+      });
+    }
+
+    const likeClause = terms.map(() =>
+      `(notes.text LIKE ? ESCAPE '\\' OR notes.window_title LIKE ? ESCAPE '\\' OR notes.url LIKE ? ESCAPE '\\' OR notes.tags LIKE ? ESCAPE '\\')`
+    ).join(' AND ');
+    const likeParams = terms.flatMap(term => {
+      const pattern = `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      return [pattern, pattern, pattern, pattern];
+    });
+
+    const stmt = this.getOrCreateStatement(
+      `searchNotes_like_${terms.length}_${signature}`,
+      `SELECT notes.* FROM notes
+       WHERE notes.deleted_at IS NULL AND ${likeClause}${clauses}
+       ORDER BY notes.created_at DESC
+       LIMIT ? OFFSET ?`
+    );
+    const rows = stmt.all(...likeParams, ...params, limit, offset) as any[];
+    return rows.map(row => {
+      const note = this.parseNoteRow(row);
+      return { note, snippet: this.buildSnippet(note.text, terms), rank: 0 };
+    });
+  }
+
+  /**
+   * 按问题检索相关笔记：包含任意一个关键词即可，命中越多、越集中的排在越前
+   *
+   * 与 searchNotes 要求包含全部关键词不同，适合为AI助手查找回答问题所需的笔记
+   */
+  searchNotesByAnyTerm(query: string, filters: NoteSearchFilters = {}): NoteSearchResult[] {
+    const terms = extractRetrievalTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const { clauses, params, signature } = this.buildSearchFilterClauses(filters);
+    const stmt = this.getOrCreateStatement(
+      `searchNotesByAnyTerm_${signature}`,
+      `SELECT notes.*,
+              snippet(notes_fts, -1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 24) AS search_snippet,
+              bm25(notes_fts, 4.0, 2.0, 1.0, 2.0) AS search_rank
+       FROM notes_fts
+       JOIN notes ON notes.rowid = notes_fts.rowid
+       WHERE notes_fts MATCH ? AND notes.deleted_at IS NULL${clauses}
+       ORDER BY search_rank
+       LIMIT ? OFFSET ?`
+    );
+    const matchExpression = terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+    const rows = stmt.all(matchExpression, ...params, filters.limit || 50, filters.offset || 0) as any[];
+    return rows.map(row => {
+      const { search_snippet, search_rank, ...noteRow } = row;
+      return {
+        note: this.parseNoteRow(noteRow),
+        snippet: search_snippet || '',
+        rank: -search_rank,
+      };
+    });
+  }
+
+  // ==================== 语义搜索向量 ====================
+
+  // 所有未删除笔记及其当前模型的向量对应的文本哈希，没有向量时为 null
+  getEmbeddingCandidates(model: string): Array<{ id: string; text: string; content_hash: string | null }> {
+    const stmt = this.getOrCreateStatement(
+      'getEmbeddingCandidates',
+      `SELECT notes.id, notes.text, e.content_hash
+       FROM notes
+       LEFT JOIN note_embeddings e ON e.note_id = notes.id AND e.model = ?
+       WHERE notes.deleted_at IS NULL
+       ORDER BY notes.created_at DESC`
+    );
+    return stmt.all(model) as Array<{ id: string; text: string; content_hash: string | null }>;
+  }
+
+  saveNoteEmbedding(noteId: string, model: string, vector: Float32Array, contentHash: string): void {
+    this.getOrCreateStatement(
+      'saveNoteEmbedding',
+      `INSERT OR REPLACE INTO note_embeddings (note_id, model, dimensions, vector, content_hash, embedded_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(noteId, model, vector.length, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), contentHash, new Date().toISOString());
+  }
+
+  /**
+   * 读取当前模型下未删除笔记的向量，可按搜索过滤条件筛选
+   */
+  getNoteEmbeddings(model: string, filters: NoteSearchFilters = {}): Array<{ note_id: string; vector: Float32Array }> {
+    const { clauses, params, signature } = this.buildSearchFilterClauses(filters);
+    const stmt = this.getOrCreateStatement(
+      `getNoteEmbeddings_${signature}`,
+      `SELECT e.note_id, e.vector
+       FROM note_embeddings e
+       JOIN notes ON notes.id = e.note_id
+       WHERE e.model = ? AND notes.deleted_at IS NULL${clauses}`
+    );
+    const rows = stmt.all(model, ...params) as Array<{ note_id: string; vector: Buffer }>;
+    return rows.map(row => ({
+      note_id: row.note_id,
+      // 复制一份对齐的内存，Buffer 可能来自共享的内存池
+      vector: new Float32Array(row.vector.buffer.slice(row.vector.byteOffset, row.vector.byteOffset + row.vector.byteLength)),
+    }));
+  }
+
+  countNoteEmbeddings(model: string): number {
+    const row = this.getOrCreateStatement(
+      'countNoteEmbeddings',
+      `SELECT COUNT(*) AS count FROM note_embeddings e
+       JOIN notes ON notes.id = e.note_id
+       WHERE e.model = ? AND notes.deleted_at IS NULL`
+    ).get(model) as { count: number };
+    return row.count;
+  }
+
+  // 删除其他模型的旧向量，更换模型后调用
+  deleteNoteEmbeddingsExcept(model: string): number {
+    return this.getOrCreateStatement(
+      'deleteNoteEmbeddingsExcept',
+      'DELETE FROM note_embeddings WHERE model != ?'
+    ).run(model).changes;
+  }
+
+  // 将搜索过滤条件转换为SQL片段，signature用于缓存预编译语句
+  private buildSearchFilterClauses(filters: NoteSearchFilters): { clauses: string; params: any[]; signature: string } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const keys: string[] = [];
+
+    if (filters.type_hint) {
+      conditions.push('notes.type_hint = ?');
+      params.push(filters.type_hint);
+      keys.push('type');
+    }
+    if (filters.project_tag) {
+      conditions.push('notes.project_tag = ?');
+      params.push(filters.project_tag);
+      keys.push('project');
+    }
+    if (filters.status) {
+      conditions.push("COALESCE(notes.status, 'new') = ?");
+      params.push(filters.status);
+      keys.push('status');
+    }
+    // 按本地日期比较，结束日期当天的笔记也包含在内
+    if (filters.from) {
+      conditions.push("date(notes.created_at, 'localtime') >= ?");
+      params.push(filters.from);
+      keys.push('from');
+    }
+    if (filters.to) {
+      conditions.push("date(notes.created_at, 'localtime') <= ?");
+      params.push(filters.to);
+      keys.push('to');
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      for (const tag of filters.tags) {
+        // 标签按JSON字符串整体匹配，其中的 % 和 _ 按普通字符处理
+        conditions.push("notes.tags LIKE ? ESCAPE '\\'");
+        params.push(`%${JSON.stringify(tag).replace(/[\\%_]/g, char => `\\${char}`)}%`);
+      }
+      keys.push(`tags${filters.tags.length}`);
+    }
+
+    return {
+      clauses: conditions.map(condition => ` AND ${condition}`).join(''),
+      params,
+      signature: keys.join('_') || 'none',
+    };
+  }
+
+  // 为LIKE匹配结果生成带高亮的片段
+  private buildSnippet(text: string, terms: string[]): string {
+    const lowerText = text.toLowerCase();
+    const firstHit = terms
+      .map(term => lowerText.indexOf(term.toLowerCase()))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0];
+
+    const start = firstHit === undefined ? 0 : Math.max(0, firstHit - 20);
+    let snippet = text.slice(start, start + 80);
+    for (const term of terms) {
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      snippet = snippet.replace(new RegExp(escaped, 'gi'), match => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`);
+    }
+
+    return `${start > 0 ? '…' : ''}${snippet}${start + 80 < text.length ? '…' : ''}`;
+  }
+
+  // 删除笔记 - 移入回收站（软删除）
   deleteNote(id: string): boolean {
     const stmt = this.getOrCreateStatement(
       'deleteNote',
-      'DELETE FROM notes WHERE id = ?'
+      'UPDATE notes SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
     );
-    const result = stmt.run(id);
+    const result = stmt.run(new Date().toISOString(), id);
     return result.changes > 0;
   }
 
-  // 更新笔记 - 优化版本
-  updateNote(id: string, text: string): boolean {
+  // ==================== 回收站 ====================
+
+  // 获取回收站中的笔记（最近删除的在前）
+  getTrashedNotes(): Note[] {
     const stmt = this.getOrCreateStatement(
-      'updateNote',
-      'UPDATE notes SET text = ? WHERE id = ?'
+      'getTrashedNotes',
+      'SELECT * FROM notes WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
     );
-    const result = stmt.run(text, id);
-    return result.changes > 0;
+    const rows = stmt.all();
+    return rows.map(row => this.parseNoteRow(row));
   }
 
-  // 更新笔记标签
-  updateNoteTags(id: string, tags: string[]): boolean {
+  // 从回收站恢复笔记
+  restoreNote(id: string): boolean {
     const stmt = this.getOrCreateStatement(
-      'updateNoteTags',
-      'UPDATE notes SET tags = ? WHERE id = ?'
+      'restoreNote',
+      'UPDATE notes SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL'
     );
-    const tagsJson = JSON.stringify(tags);
-    const result = stmt.run(tagsJson, id);
+    const result = stmt.run(id);
     return result.changes > 0;
   }
 
-  // 更新笔记状态
+  // 永久删除回收站中的笔记及其修订历史
+  permanentlyDeleteNote(id: string): boolean {
+    const transaction = this.db.transaction(() => {
+      const result = this.getOrCreateStatement(
+        'permanentlyDeleteNote',
+        'DELETE FROM notes WHERE id = ? AND deleted_at IS NOT NULL'
+      ).run(id);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      this.getOrCreateStatement(
+        'deleteNoteRevisions',
+        'DELETE FROM note_revisions WHERE note_id = ?'
+      ).run(id);
+      this.getOrCreateStatement(
+        'deleteNoteEmbedding',
+        'DELETE FROM note_embeddings WHERE note_id = ?'
+      ).run(id);
+      // 删除该笔记发出的链接，指向它的链接变为未解析
+      this.getOrCreateStatement(
+        'deleteOutgoingLinks',
+        'DELETE FROM note_links WHERE source_id = ?'
+      ).run(id);
+      this.getOrCreateStatement(
+        'detachIncomingLinks',
+        'UPDATE note_links SET target_id = NULL WHERE target_id = ?'
+      ).run(id);
+      // 附件文件由调用方根据 getReferencedAttachmentHashes 清理
+      this.getOrCreateStatement(
+        'deleteNoteAttachments',
+        'DELETE FROM attachments WHERE note_id = ?'
+      ).run(id);
+      return true;
+    });
+    return transaction();
+  }
+
+  // 清空回收站
+  emptyTrash(): number {
+    const trashed = this.getOrCreateStatement(
+      'getTrashedNoteIds',
+      'SELECT id FROM notes WHERE deleted_at IS NOT NULL'
+    ).all() as { id: string }[];
+
+    let deletedCount = 0;
+    for (const note of trashed) {
+      if (this.permanentlyDeleteNote(note.id)) {
+        deletedCount++;
+      }
+    }
+    return deletedCount;
+  }
+
+  // 永久删除在回收站中超过保留天数的笔记
+  purgeTrash(retentionDays: number): { success: boolean; deletedCount: number; error?: string } {
+    try {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - retentionDays);
+
+      const expired = this.getOrCreateStatement(
+        'findExpiredTrash',
+        'SELECT id FROM notes WHERE deleted_at IS NOT NULL AND deleted_at < ?'
+      ).all(cutoff.toISOString()) as { id: string }[];
+
+      let deletedCount = 0;
+      for (const note of expired) {
+        if (this.permanentlyDeleteNote(note.id)) {
+          deletedCount++;
+        }
+      }
+
+      if (deletedCount > 0) {
+        console.log(`回收站清理完成：永久删除了 ${deletedCount} 条超过 ${retentionDays} 天的笔记`);
+      }
+      return { success: true, deletedCount };
+    } catch (error) {
+      console.error('清理回收站失败:', error);
+      return {
+        success: false,
+        deletedCount: 0,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // 更新笔记 - 优化版本
+  updateNote(id: string, text: string, source: RevisionSource = 'user'): boolean {
+    const transaction = this.db.transaction(() => {
+      const previous = this.getNoteById(id);
+      this.recordRevision(id, source, text);
+      const stmt = this.getOrCreateStatement(
+        'updateNote',
+        'UPDATE notes SET text = ? WHERE id = ?'
+      );
+      const updated = stmt.run(text, id).changes > 0;
+      if (updated && previous) {
+        this.handleTextChanged(id, previous.text, text);
+      }
+      return updated;
+    });
+    return transaction();
+  }
+
+  // 更新笔记标签
+  updateNoteTags(id: string, tags: string[], source: RevisionSource = 'user'): boolean {
+    const transaction = this.db.transaction(() => {
+      this.recordRevision(id, source, undefined, tags);
+      const stmt = this.getOrCreateStatement(
+        'updateNoteTags',
+        'UPDATE notes SET tags = ? WHERE id = ?'
+      );
+      const tagsJson = JSON.stringify(tags);
+      return stmt.run(tagsJson, id).changes > 0;
+    });
+    return transaction();
+  }
+
+  // 更新笔记状态，重复待办完成时自动生成下一次
   updateNoteStatus(id: string, status: string): boolean {
-    const stmt = this.getOrCreateStatement(
-      'updateNoteStatus',
-      'UPDATE notes SET status = ? WHERE id = ?'
-    );
-    const result = stmt.run(status, id);
-    return result.changes > 0;
+    const transaction = this.db.transaction(() => {
+      const stmt = this.getOrCreateStatement(
+        'updateNoteStatus',
+        'UPDATE notes SET status = ? WHERE id = ?'
+      );
+      const result = stmt.run(status, id);
+
+      if (result.changes > 0 && status === 'closed') {
+        this.createNextRecurrence(id);
+      }
+      return result.changes > 0;
+    });
+    return transaction();
   }
 
   // 更新笔记文本和标签
-  updateNoteWithTags(id: string, text: string, tags?: string[]): boolean {
+  updateNoteWithTags(id: string, text: string, tags?: string[], source: RevisionSource = 'user'): boolean {
     const transaction = this.db.transaction(() => {
+      const previous = this.getNoteById(id);
+      this.recordRevision(id, source, text, tags);
+
       // 更新文本
       const textStmt = this.getOrCreateStatement(
         'updateNoteText',
         'UPDATE notes SET text = ? WHERE id = ?'
       );
       textStmt.run(text, id);
+      if (previous) {
+        this.handleTextChanged(id, previous.text, text);
+      }
 
       // 如果提供了标签，也更新标签
       if (tags !== undefined) {
@@ -293,6 +683,447 @@ export class FlowpadDB {
     }
   }
 
+  // ==================== 待办截止与提醒 ====================
+
+  // 更新待办的截止时间、优先级和提醒时间，只修改传入的字段
+  updateNoteSchedule(id: string, schedule: NoteScheduleInput): boolean {
+    const fields = (['due_at', 'priority', 'remind_at', 'recurrence'] as const).filter(field => schedule[field] !== undefined);
+    if (fields.length === 0) {
+      return false;
+    }
+
+    const values: NoteScheduleInput = { ...schedule };
+    if (values.recurrence) {
+      values.recurrence = formatRecurrenceRule(parseRecurrenceRule(values.recurrence));
+    }
+
+    const assignments = fields.map(field => `${field} = ?`);
+    // 提醒时间变化后需要重新提醒
+    if (fields.includes('remind_at')) {
+      assignments.push('reminded_at = NULL');
+    }
+
+    const stmt = this.getOrCreateStatement(
+      `updateNoteSchedule_${fields.join('_')}`,
+      `UPDATE notes SET ${assignments.join(', ')} WHERE id = ?`
+    );
+    const result = stmt.run(...fields.map(field => values[field] || null), id);
+    return result.changes > 0;
+  }
+
+  // ==================== 重复待办 ====================
+
+  // 为已完成的重复待办生成下一次，已生成过或重复已结束时返回null
+  private createNextRecurrence(noteId: string): Note | null {
+    const note = this.getNoteById(noteId);
+    if (!note || !note.recurrence || note.deleted_at) {
+      return null;
+    }
+
+    // 反复切换完成状态时不重复生成
+    if (this.getNextRecurrence(noteId)) {
+      return null;
+    }
+
+    const current = note.due_at ? new Date(note.due_at) : new Date();
+    const index = note.recurrence_index || 0;
+    const next = getNextOccurrence(parseRecurrenceRule(note.recurrence), current, index);
+    if (!next) {
+      return null;
+    }
+
+    // 提醒时间与截止时间保持相同的间隔
+    let remind_at: string | undefined;
+    if (note.remind_at && note.due_at) {
+      const offset = new Date(note.due_at).getTime() - new Date(note.remind_at).getTime();
+      remind_at = new Date(next.getTime() - offset).toISOString();
+    }
+
+    const nextNote = this.createNote({
+      text: note.text,
+      type_hint: note.type_hint,
+      tags: note.tags,
+      project_tag: note.project_tag,
+      priority: note.priority,
+      due_at: next.toISOString(),
+      remind_at,
+      recurrence: note.recurrence,
+    });
+
+    const stmt = this.getOrCreateStatement(
+      'linkRecurrence',
+      'UPDATE notes SET recurrence_parent_id = ?, recurrence_index = ? WHERE id = ?'
+    );
+    stmt.run(note.id, index + 1, nextNote.id);
+
+    return { ...nextNote, recurrence_parent_id: note.id, recurrence_index: index + 1 };
+  }
+
+  // 获取由某条重复待办生成的下一次
+  getNextRecurrence(noteId: string): Note | null {
+    const stmt = this.getOrCreateStatement(
+      'getNextRecurrence',
+      'SELECT * FROM notes WHERE recurrence_parent_id = ? AND deleted_at IS NULL LIMIT 1'
+    );
+    const row = stmt.get(noteId);
+    return row ? this.parseNoteRow(row) : null;
+  }
+
+  // 获取已过截止时间但未完成的待办
+  getOverdueTodos(now: Date = new Date()): Note[] {
+    const stmt = this.getOrCreateStatement(
+      'getOverdueTodos',
+      `SELECT * FROM notes
+       WHERE type_hint = 'todo' AND COALESCE(status, 'new') != 'closed' AND deleted_at IS NULL
+       AND due_at IS NOT NULL AND due_at < ?
+       ORDER BY ${PRIORITY_ORDER_SQL}, due_at ASC`
+    );
+    const rows = stmt.all(now.toISOString());
+    return rows.map(row => this.parseNoteRow(row));
+  }
+
+  // 获取未来若干天内到期的待办
+  getUpcomingTodos(days: number = 7, now: Date = new Date()): Note[] {
+    const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+    const stmt = this.getOrCreateStatement(
+      'getUpcomingTodos',
+      `SELECT * FROM notes
+       WHERE type_hint = 'todo' AND COALESCE(status, 'new') != 'closed' AND deleted_at IS NULL
+       AND due_at >= ? AND due_at <= ?
+       ORDER BY due_at ASC, ${PRIORITY_ORDER_SQL}`
+    );
+    const rows = stmt.all(now.toISOString(), until.toISOString());
+    return rows.map(row => this.parseNoteRow(row));
+  }
+
+  // 获取提醒时间已到但尚未提醒的笔记
+  getDueReminders(now: Date = new Date()): Note[] {
+    const stmt = this.getOrCreateStatement(
+      'getDueReminders',
+      `SELECT * FROM notes
+       WHERE remind_at IS NOT NULL AND remind_at <= ? AND reminded_at IS NULL
+       AND COALESCE(status, 'new') != 'closed' AND deleted_at IS NULL
+       ORDER BY remind_at ASC`
+    );
+    const rows = stmt.all(now.toISOString());
+    return rows.map(row => this.parseNoteRow(row));
+  }
+
+  // 标记提醒已发出
+  markReminderSent(id: string): boolean {
+    const stmt = this.getOrCreateStatement(
+      'markReminderSent',
+      'UPDATE notes SET reminded_at = ? WHERE id = ?'
+    );
+    const result = stmt.run(new Date().toISOString(), id);
+    return result.changes > 0;
+  }
+
+  // ==================== 笔记链接 ====================
+
+  // 根据ID或标题查找链接目标，同名标题取最新的笔记
+  private resolveLinkTarget(target: string, sourceId: string): string | null {
+    const byId = this.getOrCreateStatement(
+      'resolveLinkById',
+      'SELECT id FROM notes WHERE id = ? AND deleted_at IS NULL'
+    ).get(target) as { id: string } | undefined;
+    if (byId) {
+      return byId.id === sourceId ? null : byId.id;
+    }
+
+    const key = normalizeLinkTarget(target);
+    const candidates = this.getOrCreateStatement(
+      'resolveLinkByTitle',
+      `SELECT id, text FROM notes
+       WHERE deleted_at IS NULL AND id != ? AND instr(lower(text), ?) > 0
+       ORDER BY created_at DESC`
+    ).all(sourceId, key) as { id: string; text: string }[];
+    const match = candidates.find(candidate => normalizeLinkTarget(getNoteTitle(candidate.text)) === key);
+    return match ? match.id : null;
+  }
+
+  // 重新解析笔记中的 [[链接]] 并写入 note_links
+  private syncNoteLinks(noteId: string, text: string): void {
+    this.getOrCreateStatement(
+      'deleteOutgoingLinks',
+      'DELETE FROM note_links WHERE source_id = ?'
+    ).run(noteId);
+
+    const insert = this.getOrCreateStatement(
+      'insertNoteLink',
+      'INSERT OR IGNORE INTO note_links (source_id, target_id, target_text) VALUES (?, ?, ?)'
+    );
+    for (const target of parseWikiLinks(text)) {
+      insert.run(noteId, this.resolveLinkTarget(target, noteId), target);
+    }
+  }
+
+  // 新标题出现后，之前指向该标题但未找到目标的链接指向这条笔记
+  private resolvePendingLinks(noteId: string, text: string): void {
+    const title = getNoteTitle(text);
+    if (!title) {
+      return;
+    }
+    this.getOrCreateStatement(
+      'resolvePendingLinks',
+      `UPDATE note_links SET target_id = ?
+       WHERE target_id IS NULL AND lower(target_text) = ? AND source_id != ?`
+    ).run(noteId, normalizeLinkTarget(title), noteId);
+  }
+
+  // 笔记内容变化后同步链接；标题变化时更新其他笔记中按旧标题引用的链接
+  private handleTextChanged(noteId: string, previousText: string, nextText: string): void {
+    this.syncNoteLinks(noteId, nextText);
+
+    const oldTitle = getNoteTitle(previousText);
+    const newTitle = getNoteTitle(nextText);
+    if (normalizeLinkTarget(oldTitle) === normalizeLinkTarget(newTitle)) {
+      return;
+    }
+
+    if (oldTitle && newTitle) {
+      const sources = this.getOrCreateStatement(
+        'getLinksByTitle',
+        `SELECT note_links.source_id, notes.text FROM note_links
+         JOIN notes ON notes.id = note_links.source_id
+         WHERE note_links.target_id = ? AND lower(note_links.target_text) = ?`
+      ).all(noteId, normalizeLinkTarget(oldTitle)) as { source_id: string; text: string }[];
+
+      for (const source of sources) {
+        const renamed = renameWikiLinkTarget(source.text, oldTitle, newTitle);
+        if (renamed !== source.text) {
+          this.recordRevision(source.source_id, 'link_update', renamed);
+          this.getOrCreateStatement(
+            'updateNote',
+            'UPDATE notes SET text = ? WHERE id = ?'
+          ).run(renamed, source.source_id);
+          this.syncNoteLinks(source.source_id, renamed);
+        }
+      }
+    }
+
+    this.resolvePendingLinks(noteId, nextText);
+  }
+
+  // 获取笔记的出链和反向链接，回收站中的笔记不计入
+  getNoteLinks(noteId: string): NoteLinks {
+    const outgoingRows = this.getOrCreateStatement(
+      'getOutgoingLinks',
+      `SELECT note_links.target_text, notes.* FROM note_links
+       LEFT JOIN notes ON notes.id = note_links.target_id AND notes.deleted_at IS NULL
+       WHERE note_links.source_id = ?`
+    ).all(noteId) as any[];
+
+    const backlinkRows = this.getOrCreateStatement(
+      'getBacklinks',
+      `SELECT DISTINCT notes.* FROM note_links
+       JOIN notes ON notes.id = note_links.source_id
+       WHERE note_links.target_id = ? AND notes.deleted_at IS NULL
+       ORDER BY notes.created_at DESC`
+    ).all(noteId);
+
+    return {
+      outgoing: outgoingRows.map(row => {
+        const { target_text, ...noteRow } = row;
+        return { target_text, note: noteRow.id ? this.parseNoteRow(noteRow) : undefined };
+      }),
+      backlinks: backlinkRows.map(row => this.parseNoteRow(row)),
+    };
+  }
+
+  // ==================== 附件 ====================
+
+  // 为笔记添加一条附件记录，文件需已保存到附件存储中
+  addAttachment(noteId: string, file: StoredFile): Attachment {
+    const attachment: Attachment = {
+      id: uuidv4(),
+      note_id: noteId,
+      hash: file.hash,
+      file_name: file.file_name,
+      mime_type: file.mime_type,
+      size: file.size,
+      created_at: new Date().toISOString(),
+    };
+
+    this.getOrCreateStatement(
+      'addAttachment',
+      'INSERT INTO attachments (id, note_id, hash, file_name, mime_type, size, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(
+      attachment.id,
+      attachment.note_id,
+      attachment.hash,
+      attachment.file_name,
+      attachment.mime_type,
+      attachment.size,
+      attachment.created_at
+    );
+
+    return attachment;
+  }
+
+  // 获取笔记的附件（按添加顺序）
+  getAttachments(noteId: string): Attachment[] {
+    const stmt = this.getOrCreateStatement(
+      'getAttachments',
+      'SELECT * FROM attachments WHERE note_id = ? ORDER BY created_at ASC'
+    );
+    return stmt.all(noteId) as Attachment[];
+  }
+
+  getAttachmentById(id: string): Attachment | null {
+    const stmt = this.getOrCreateStatement(
+      'getAttachmentById',
+      'SELECT * FROM attachments WHERE id = ?'
+    );
+    return (stmt.get(id) as Attachment | undefined) || null;
+  }
+
+  // 删除附件记录，文件由调用方根据引用情况清理
+  deleteAttachment(id: string): boolean {
+    const stmt = this.getOrCreateStatement(
+      'deleteAttachment',
+      'DELETE FROM attachments WHERE id = ?'
+    );
+    return stmt.run(id).changes > 0;
+  }
+
+  // 仍被附件记录引用的文件哈希（包括回收站中的笔记，以便恢复）
+  getReferencedAttachmentHashes(): Set<string> {
+    const rows = this.getOrCreateStatement(
+      'getReferencedAttachmentHashes',
+      'SELECT DISTINCT hash FROM attachments'
+    ).all() as { hash: string }[];
+    return new Set(rows.map(row => row.hash));
+  }
+
+  // ==================== Markdown目录同步 ====================
+
+  // 更新笔记类型和项目标签（来自外部编辑的元数据）
+  updateNoteClassification(id: string, typeHint: string | undefined, projectTag: string | undefined): boolean {
+    const stmt = this.getOrCreateStatement(
+      'updateNoteClassification',
+      'UPDATE notes SET type_hint = ?, project_tag = ? WHERE id = ?'
+    );
+    return stmt.run(typeHint || null, projectTag || null, id).changes > 0;
+  }
+
+  getVaultFileStates(): VaultFileState[] {
+    const stmt = this.getOrCreateStatement(
+      'getVaultFileStates',
+      'SELECT * FROM vault_files'
+    );
+    return stmt.all() as VaultFileState[];
+  }
+
+  // 记录笔记对应的文件及本次同步后的内容哈希
+  setVaultFileState(noteId: string, fileName: string, syncedHash: string): void {
+    const stmt = this.getOrCreateStatement(
+      'setVaultFileState',
+      'INSERT OR REPLACE INTO vault_files (note_id, file_name, synced_hash, synced_at) VALUES (?, ?, ?, ?)'
+    );
+    stmt.run(noteId, fileName, syncedHash, new Date().toISOString());
+  }
+
+  deleteVaultFileState(noteId: string): void {
+    const stmt = this.getOrCreateStatement(
+      'deleteVaultFileState',
+      'DELETE FROM vault_files WHERE note_id = ?'
+    );
+    stmt.run(noteId);
+  }
+
+  // 更换同步目录时清空同步记录
+  clearVaultFileStates(): void {
+    this.getOrCreateStatement('clearVaultFileStates', 'DELETE FROM vault_files').run();
+  }
+
+  // ==================== 笔记修订历史 ====================
+
+  // 在覆盖前保存笔记当前内容，内容未变化时不记录
+  private recordRevision(noteId: string, source: RevisionSource, nextText?: string, nextTags?: string[]): void {
+    const current = this.getOrCreateStatement(
+      'getNoteForRevision',
+      'SELECT text, tags FROM notes WHERE id = ?'
+    ).get(noteId) as { text: string; tags: string | null } | undefined;
+    if (!current) {
+      return;
+    }
+
+    const currentTags: string[] = current.tags ? JSON.parse(current.tags) : [];
+    const textChanged = nextText !== undefined && nextText !== current.text;
+    const tagsChanged = nextTags !== undefined && JSON.stringify(nextTags) !== JSON.stringify(currentTags);
+    if (!textChanged && !tagsChanged) {
+      return;
+    }
+
+    const stmt = this.getOrCreateStatement(
+      'insertNoteRevision',
+      'INSERT INTO note_revisions (id, note_id, text, tags, source, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    stmt.run(uuidv4(), noteId, current.text, current.tags, source, new Date().toISOString());
+  }
+
+  private parseRevisionRow(row: any): NoteRevision {
+    return {
+      ...row,
+      tags: row.tags ? JSON.parse(row.tags) : [],
+    };
+  }
+
+  // 获取笔记的修订历史（最新的在前）
+  getNoteRevisions(noteId: string): NoteRevision[] {
+    const stmt = this.getOrCreateStatement(
+      'getNoteRevisions',
+      'SELECT * FROM note_revisions WHERE note_id = ? ORDER BY created_at DESC'
+    );
+    const rows = stmt.all(noteId);
+    return rows.map(row => this.parseRevisionRow(row));
+  }
+
+  // 对比某条修订与其后一个版本的内容
+  getNoteRevisionDiff(revisionId: string): NoteRevisionDiff | null {
+    const row = this.getOrCreateStatement(
+      'getNoteRevision',
+      'SELECT * FROM note_revisions WHERE id = ?'
+    ).get(revisionId);
+    if (!row) {
+      return null;
+    }
+    const revision = this.parseRevisionRow(row);
+
+    // 后一个版本是下一条修订保存的内容；没有下一条修订时即为笔记当前内容
+    const nextRevision = this.getOrCreateStatement(
+      'getNextNoteRevision',
+      'SELECT text FROM note_revisions WHERE note_id = ? AND created_at > ? ORDER BY created_at ASC LIMIT 1'
+    ).get(revision.note_id, revision.created_at) as { text: string } | undefined;
+    const currentNote = this.getOrCreateStatement(
+      'getNoteTextById',
+      'SELECT text FROM notes WHERE id = ?'
+    ).get(revision.note_id) as { text: string } | undefined;
+
+    const after = nextRevision?.text ?? currentNote?.text ?? '';
+    return { revision, after, lines: diffLines(revision.text, after) };
+  }
+
+  // 将笔记恢复到某条修订的内容，恢复前的内容同样会记录为一条修订
+  restoreNoteRevision(revisionId: string): Note | null {
+    const row = this.getOrCreateStatement(
+      'getNoteRevision',
+      'SELECT * FROM note_revisions WHERE id = ?'
+    ).get(revisionId);
+    if (!row) {
+      return null;
+    }
+    const revision = this.parseRevisionRow(row);
+
+    const restored = this.updateNoteWithTags(revision.note_id, revision.text, revision.tags, 'restore');
+    if (!restored) {
+      return null;
+    }
+
+    return this.getNoteById(revision.note_id);
+  }
+
   // 设置配置 - 优化版本，添加连接检查
   setSetting(key: string, value: string): void {
     if (!this.isConnectionOpen()) {
@@ -331,6 +1162,14 @@ export class FlowpadDB {
     }
   }
 
+  deleteSetting(key: string): void {
+    const stmt = this.getOrCreateStatement(
+      'deleteSetting',
+      'DELETE FROM settings WHERE key = ?'
+    );
+    stmt.run(key);
+  }
+
   // 推断项目提示 - 简化版，不自动分类
   private inferProjectHint(_text: string, _context?: Context): string {
     // 默认为通用分类，不再进行自动项目推断
@@ -365,33 +1204,129 @@ export class FlowpadDB {
     return 'note';
   }
 
-  // 保存每日总结到历史记录
-  saveDigest(date: string, summary: string): SavedDigest {
+  /**
+   * 保存总结到历史记录，提供结构化内容时同时写入各明细表
+   * @param period 周期总结的范围，不传时为 date 当天的每日总结
+   */
+  saveDigest(date: string, summary: string, digest?: DailyDigest, period?: DigestPeriod): SavedDigest {
     const id = uuidv4();
     const saved_at = new Date().toISOString();
+    const range: DigestPeriod = period || { granularity: 'day', from: date, to: date };
 
     const savedDigest: SavedDigest = {
       id,
-      date,
+      date: range.from,
       summary,
-      created_at: date, // 使用总结对应的日期作为创建时间
-      saved_at
+      created_at: range.from, // 使用总结对应的日期作为创建时间
+      saved_at,
+      granularity: range.granularity,
+      range_start: range.from,
+      range_end: range.to,
+      digest: digest ? { ...digest, date: range.from } : undefined,
     };
 
-    const stmt = this.getOrCreateStatement(
-      'saveDigest',
-      'INSERT INTO saved_digests (id, date, summary, created_at, saved_at) VALUES (?, ?, ?, ?, ?)'
+    const transaction = this.db.transaction(() => {
+      this.getOrCreateStatement(
+        'saveDigest',
+        'INSERT INTO saved_digests (id, date, summary, created_at, saved_at, overview, granularity, range_start, range_end) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).run(
+        savedDigest.id,
+        savedDigest.date,
+        savedDigest.summary,
+        savedDigest.created_at,
+        savedDigest.saved_at,
+        digest ? digest.summary : null,
+        savedDigest.granularity,
+        savedDigest.range_start,
+        savedDigest.range_end
+      );
+      if (digest) {
+        this.insertDigestDetails(id, digest);
+      }
+    });
+    transaction();
+
+    return savedDigest;
+  }
+
+  private insertDigestDetails(digestId: string, digest: DailyDigest): void {
+    const insertProject = this.getOrCreateStatement(
+      'insertDigestProject',
+      'INSERT INTO digest_projects (id, digest_id, position, name, progress) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertProjectItem = this.getOrCreateStatement(
+      'insertDigestProjectItem',
+      'INSERT INTO digest_project_items (project_id, kind, position, text) VALUES (?, ?, ?, ?)'
+    );
+    const insertTodo = this.getOrCreateStatement(
+      'insertDigestTodo',
+      'INSERT INTO digest_todos (digest_id, position, text, project, priority, note_id) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertReflection = this.getOrCreateStatement(
+      'insertDigestReflection',
+      'INSERT INTO digest_reflections (digest_id, position, text) VALUES (?, ?, ?)'
     );
 
-    stmt.run(
-      savedDigest.id,
-      savedDigest.date,
-      savedDigest.summary,
-      savedDigest.created_at,
-      savedDigest.saved_at
+    digest.projects.forEach((project, position) => {
+      const projectId = uuidv4();
+      insertProject.run(projectId, digestId, position, project.name, project.progress);
+      project.issues.forEach((text, index) => insertProjectItem.run(projectId, 'issue', index, text));
+      project.ideas.forEach((text, index) => insertProjectItem.run(projectId, 'idea', index, text));
+    });
+    digest.todos.forEach((todo, position) => {
+      insertTodo.run(digestId, position, todo.text, todo.project ?? null, todo.priority ?? null, todo.note_id ?? null);
+    });
+    digest.reflections.forEach((text, position) => insertReflection.run(digestId, position, text));
+  }
+
+  // 从明细表还原结构化总结，早期只有Markdown的总结返回 undefined
+  private loadDigestDetails(row: SavedDigest & { overview: string | null }): DailyDigest | undefined {
+    if (row.overview === null) {
+      return undefined;
+    }
+
+    const projects = this.getOrCreateStatement(
+      'getDigestProjects',
+      'SELECT id, name, progress FROM digest_projects WHERE digest_id = ? ORDER BY position'
+    ).all(row.id) as Array<{ id: string; name: string; progress: string }>;
+    const getItems = this.getOrCreateStatement(
+      'getDigestProjectItems',
+      'SELECT kind, text FROM digest_project_items WHERE project_id = ? ORDER BY kind, position'
     );
+    const todos = this.getOrCreateStatement(
+      'getDigestTodos',
+      'SELECT text, project, priority, note_id FROM digest_todos WHERE digest_id = ? ORDER BY position'
+    ).all(row.id) as Array<{ text: string; project: string | null; priority: DigestTodo['priority'] | null; note_id: string | null }>;
+    const reflections = this.getOrCreateStatement(
+      'getDigestReflections',
+      'SELECT text FROM digest_reflections WHERE digest_id = ? ORDER BY position'
+    ).all(row.id) as Array<{ text: string }>;
 
-    return savedDigest;
+    return {
+      date: row.date,
+      summary: row.overview,
+      projects: projects.map((project): ProjectSummary => {
+        const items = getItems.all(project.id) as Array<{ kind: 'issue' | 'idea'; text: string }>;
+        return {
+          name: project.name,
+          progress: project.progress,
+          issues: items.filter(item => item.kind === 'issue').map(item => item.text),
+          ideas: items.filter(item => item.kind === 'idea').map(item => item.text),
+        };
+      }),
+      todos: todos.map(todo => ({
+        text: todo.text,
+        project: todo.project ?? undefined,
+        priority: todo.priority ?? undefined,
+        note_id: todo.note_id ?? undefined,
+      })),
+      reflections: reflections.map(reflection => reflection.text),
+    };
+  }
+
+  private toSavedDigest(row: SavedDigest & { overview: string | null }): SavedDigest {
+    const { overview: _overview, ...savedDigest } = row;
+    return { ...savedDigest, digest: this.loadDigestDetails(row) };
   }
 
   // 获取所有保存的总结
@@ -400,30 +1335,188 @@ export class FlowpadDB {
       'getSavedDigests',
       'SELECT * FROM saved_digests ORDER BY date DESC, saved_at DESC'
     );
-    const rows = stmt.all();
-    return rows as SavedDigest[];
+    const rows = stmt.all() as Array<SavedDigest & { overview: string | null }>;
+    return rows.map(row => this.toSavedDigest(row));
   }
 
-  // 根据日期获取保存的总结
+  // 根据日期获取保存的每日总结
   getSavedDigestByDate(date: string): SavedDigest | null {
     const stmt = this.getOrCreateStatement(
       'getSavedDigestByDate',
-      'SELECT * FROM saved_digests WHERE date = ? ORDER BY saved_at DESC LIMIT 1'
+      "SELECT * FROM saved_digests WHERE date = ? AND granularity = 'day' ORDER BY saved_at DESC LIMIT 1"
     );
-    const result = stmt.get(date);
-    return result as SavedDigest | null;
+    const result = stmt.get(date) as (SavedDigest & { overview: string | null }) | undefined;
+    return result ? this.toSavedDigest(result) : null;
   }
 
-  // 删除保存的总结
+  // 获取日期范围内每天最后保存的每日总结，按日期升序
+  getDailyDigestsInRange(from: string, to: string): SavedDigest[] {
+    const stmt = this.getOrCreateStatement(
+      'getDailyDigestsInRange',
+      `SELECT * FROM saved_digests s
+       WHERE granularity = 'day' AND date BETWEEN ? AND ?
+         AND saved_at = (SELECT MAX(saved_at) FROM saved_digests WHERE granularity = 'day' AND date = s.date)
+       ORDER BY date ASC`
+    );
+    const rows = stmt.all(from, to) as Array<SavedDigest & { overview: string | null }>;
+    return rows.map(row => this.toSavedDigest(row));
+  }
+
+  // 记录总结中的待办已转为哪条待办记录
+  setDigestTodoNote(digestId: string, position: number, noteId: string): boolean {
+    const result = this.getOrCreateStatement(
+      'setDigestTodoNote',
+      'UPDATE digest_todos SET note_id = ? WHERE digest_id = ? AND position = ?'
+    ).run(noteId, digestId, position);
+    return result.changes > 0;
+  }
+
+  // 删除保存的总结及其明细
   deleteSavedDigest(id: string): boolean {
+    const transaction = this.db.transaction(() => {
+      const result = this.getOrCreateStatement(
+        'deleteSavedDigest',
+        'DELETE FROM saved_digests WHERE id = ?'
+      ).run(id);
+      this.getOrCreateStatement(
+        'deleteDigestProjectItems',
+        'DELETE FROM digest_project_items WHERE project_id IN (SELECT id FROM digest_projects WHERE digest_id = ?)'
+      ).run(id);
+      this.getOrCreateStatement(
+        'deleteDigestProjects',
+        'DELETE FROM digest_projects WHERE digest_id = ?'
+      ).run(id);
+      this.getOrCreateStatement(
+        'deleteDigestTodos',
+        'DELETE FROM digest_todos WHERE digest_id = ?'
+      ).run(id);
+      this.getOrCreateStatement(
+        'deleteDigestReflections',
+        'DELETE FROM digest_reflections WHERE digest_id = ?'
+      ).run(id);
+      return result.changes > 0;
+    });
+    return transaction();
+  }
+
+  // ==================== AI助手对话 ====================
+
+  private toConversation(row: Omit<AssistantConversation, 'summary'> & { summary: string | null }): AssistantConversation {
+    return { ...row, summary: row.summary ?? undefined };
+  }
+
+  // 新建对话
+  createConversation(title: string): AssistantConversation {
+    const now = new Date().toISOString();
+    const conversation: AssistantConversation = {
+      id: uuidv4(),
+      title,
+      created_at: now,
+      updated_at: now,
+      message_count: 0,
+      summarized_count: 0,
+    };
+    this.getOrCreateStatement(
+      'createConversation',
+      'INSERT INTO assistant_conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)'
+    ).run(conversation.id, title, now, now);
+    return conversation;
+  }
+
+  // 获取所有对话，最近有消息的在前
+  getConversations(): AssistantConversation[] {
     const stmt = this.getOrCreateStatement(
-      'deleteSavedDigest',
-      'DELETE FROM saved_digests WHERE id = ?'
+      'getConversations',
+      `SELECT c.*, (SELECT COUNT(*) FROM assistant_messages m WHERE m.conversation_id = c.id) AS message_count
+       FROM assistant_conversations c ORDER BY c.updated_at DESC`
     );
-    const result = stmt.run(id);
+    const rows = stmt.all() as Array<Omit<AssistantConversation, 'summary'> & { summary: string | null }>;
+    return rows.map(row => this.toConversation(row));
+  }
+
+  getConversation(id: string): AssistantConversation | null {
+    const stmt = this.getOrCreateStatement(
+      'getConversation',
+      `SELECT c.*, (SELECT COUNT(*) FROM assistant_messages m WHERE m.conversation_id = c.id) AS message_count
+       FROM assistant_conversations c WHERE c.id = ?`
+    );
+    const row = stmt.get(id) as (Omit<AssistantConversation, 'summary'> & { summary: string | null }) | undefined;
+    return row ? this.toConversation(row) : null;
+  }
+
+  // 获取对话中的消息，按发送顺序排列
+  getConversationMessages(conversationId: string): ChatMessage[] {
+    const stmt = this.getOrCreateStatement(
+      'getConversationMessages',
+      'SELECT id, role, content, created_at, data FROM assistant_messages WHERE conversation_id = ? ORDER BY position ASC'
+    );
+    const rows = stmt.all(conversationId) as Array<{ id: string; role: ChatMessage['role']; content: string; created_at: string; data: string | null }>;
+    return rows.map(row => ({
+      ...(row.data ? JSON.parse(row.data) : {}),
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      timestamp: row.created_at,
+    }));
+  }
+
+  /**
+   * 保存对话中的消息，已保存过的消息更新内容和附加信息，位置不变
+   * @returns 对话不存在时为 false
+   */
+  saveConversationMessage(conversationId: string, message: ChatMessage): boolean {
+    const { id, role, content, timestamp, ...data } = message;
+    const transaction = this.db.transaction(() => {
+      const result = this.getOrCreateStatement(
+        'touchConversation',
+        'UPDATE assistant_conversations SET updated_at = ? WHERE id = ?'
+      ).run(new Date().toISOString(), conversationId);
+      if (result.changes === 0) {
+        return false;
+      }
+      this.getOrCreateStatement(
+        'saveConversationMessage',
+        `INSERT INTO assistant_messages (id, conversation_id, position, role, content, created_at, data)
+         VALUES (?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM assistant_messages WHERE conversation_id = ?), ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET content = excluded.content, data = excluded.data`
+      ).run(id, conversationId, conversationId, role, content, timestamp, Object.keys(data).length > 0 ? JSON.stringify(data) : null);
+      return true;
+    });
+    return transaction();
+  }
+
+  renameConversation(id: string, title: string): boolean {
+    const result = this.getOrCreateStatement(
+      'renameConversation',
+      'UPDATE assistant_conversations SET title = ? WHERE id = ?'
+    ).run(title, id);
     return result.changes > 0;
   }
 
+  // 保存较早消息的摘要，summarizedCount 为摘要覆盖的消息数
+  setConversationSummary(id: string, summary: string, summarizedCount: number): void {
+    this.getOrCreateStatement(
+      'setConversationSummary',
+      'UPDATE assistant_conversations SET summary = ?, summarized_count = ? WHERE id = ?'
+    ).run(summary, summarizedCount, id);
+  }
+
+  // 删除对话及其消息
+  deleteConversation(id: string): boolean {
+    const transaction = this.db.transaction(() => {
+      this.getOrCreateStatement(
+        'deleteConversationMessages',
+        'DELETE FROM assistant_messages WHERE conversation_id = ?'
+      ).run(id);
+      const result = this.getOrCreateStatement(
+        'deleteConversation',
+        'DELETE FROM assistant_conversations WHERE id = ?'
+      ).run(id);
+      return result.changes > 0;
+    });
+    return transaction();
+  }
+
   // ==================== 自定义标签管理 ====================
 
   // 创建自定义标签
@@ -494,7 +1587,7 @@ export class FlowpadDB {
     return result.count > 0;
   }
 
-  // 清理7天前标记为完成的笔记
+  // 将7天前标记为完成的笔记移入回收站
   cleanupCompletedNotes(): { success: boolean; deletedCount: number; error?: string } {
     try {
       // 计算7天前的日期
@@ -507,7 +1600,8 @@ export class FlowpadDB {
         'findCompletedNotes',
         `SELECT id FROM notes
          WHERE created_at < ?
-         AND status = 'closed'`
+         AND status = 'closed'
+         AND deleted_at IS NULL`
       );
       const completedNotes = findStmt.all(cutoffDate) as { id: string }[];
 
@@ -515,21 +1609,15 @@ export class FlowpadDB {
         return { success: true, deletedCount: 0 };
       }
 
-      // 删除这些笔记
-      const deleteStmt = this.getOrCreateStatement(
-        'deleteCompletedNotes',
-        'DELETE FROM notes WHERE id = ?'
-      );
-
+      // 移入回收站，在保留期内仍可恢复
       let deletedCount = 0;
       for (const note of completedNotes) {
-        const result = deleteStmt.run(note.id);
-        if (result.changes > 0) {
+        if (this.deleteNote(note.id)) {
           deletedCount++;
         }
       }
 
-      console.log(`清理完成：删除了 ${deletedCount} 条7天前的已完成笔记`);
+      console.log(`清理完成：${deletedCount} 条7天前的已完成笔记已移入回收站`);
       return { success: true, deletedCount };
 
     } catch (error) {
@@ -542,6 +1630,21 @@ export class FlowpadDB {
     }
   }
 
+  // 使用SQLite在线备份API生成一致的数据库副本，备份期间不阻塞读写
+  async backup(destPath: string): Promise<void> {
+    await this.db.backup(destPath);
+  }
+
+  // 导出整个数据库的内容，用于加密保存
+  serialize(): Buffer {
+    return this.db.serialize();
+  }
+
+  // 连接打开以来的累计修改行数，用于判断是否需要重新保存
+  getChangeCount(): number {
+    return (this.db.prepare('SELECT total_changes() AS count').get() as { count: number }).count;
+  }
+
   // 关闭数据库连接 - 优化版本
   close(): void {
     // 清理预编译语句缓存（better-sqlite3会自动清理语句）
@@ -0,0 +1,339 @@
+import { DailyDigest, DigestPeriod, DigestTodo, Note, NotePriority, ProjectSummary } from './types';
+
+// 总结时发送给模型的笔记字段
+export interface DigestNote {
+  text: string;
+  created_at: string;
+  app_name?: string;
+  window_title?: string;
+  project_hint?: string;
+  project_tag?: string;
+  type_hint?: string;
+}
+
+// 分段总结中的一段：若干完整项目或一个大项目的一部分
+export interface DigestChunk {
+  projects: string[];
+  notes: DigestNote[];
+}
+
+// 没有项目标记的笔记归入同一组
+export const UNGROUPED_PROJECT = '未分类';
+
+const TRUNCATED_SUFFIX = '…（内容过长已截断）';
+
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * 粗略估算文本的token数
+ *
+ * 不依赖具体模型的分词器：中日韩字符按每字1.5个token，其余按每4个字符1个token，宁可高估
+ */
+export function estimateTokens(text: string): number {
+  const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+  return Math.ceil(cjkCount * 1.5 + (text.length - cjkCount) / 4);
+}
+
+export function toDigestNote(note: Note): DigestNote {
+  return {
+    text: note.text,
+    created_at: note.created_at,
+    app_name: note.app_name,
+    window_title: note.window_title,
+    project_hint: note.project_hint,
+    project_tag: note.project_tag,
+    type_hint: note.type_hint,
+  };
+}
+
+function estimateNoteTokens(note: DigestNote): number {
+  return estimateTokens(JSON.stringify(note, null, 2));
+}
+
+// 单条笔记超出预算时截断正文
+function fitNoteToBudget(note: DigestNote, budget: number): DigestNote {
+  if (estimateNoteTokens(note) <= budget) {
+    return note;
+  }
+  let length = note.text.length;
+  let fitted = note;
+  while (length > 0 && estimateNoteTokens(fitted) > budget) {
+    length = Math.floor(length * 0.8);
+    fitted = { ...note, text: note.text.slice(0, length) + TRUNCATED_SUFFIX };
+  }
+  return fitted;
+}
+
+// 用于提示词的时间范围描述
+export function describeDigestPeriod(period: DigestPeriod): string {
+  if (period.from === period.to) {
+    return `${period.from} 这一天`;
+  }
+  switch (period.granularity) {
+    case 'week':
+      return `${period.from} 至 ${period.to} 这一周`;
+    case 'month':
+      return `${period.from.slice(0, 7)} 这个月`;
+    default:
+      return `${period.from} 至 ${period.to} 这段时间`;
+  }
+}
+
+/**
+ * 把一天的笔记按项目分段，每段的估算token数不超过 budget
+ *
+ * 同一项目的笔记尽量放在同一段，小项目合并到一段以减少请求次数，
+ * 超出预算的大项目拆成多段
+ */
+export function planDigestChunks(notes: DigestNote[], budget: number): DigestChunk[] {
+  const projects = new Map<string, DigestNote[]>();
+  for (const note of notes) {
+    const project = note.project_tag || note.project_hint || UNGROUPED_PROJECT;
+    projects.set(project, [...(projects.get(project) || []), note]);
+  }
+
+  const chunks: DigestChunk[] = [];
+  let current: DigestChunk = { projects: [], notes: [] };
+  let currentTokens = 0;
+
+  for (const [project, projectNotes] of projects) {
+    for (const original of projectNotes) {
+      const note = fitNoteToBudget(original, budget);
+      const tokens = estimateNoteTokens(note);
+      if (current.notes.length > 0 && currentTokens + tokens > budget) {
+        chunks.push(current);
+        current = { projects: [], notes: [] };
+        currentTokens = 0;
+      }
+      if (!current.projects.includes(project)) {
+        current.projects.push(project);
+      }
+      current.notes.push(note);
+      currentTokens += tokens;
+    }
+  }
+  if (current.notes.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * 把局部总结按预算分组，用于逐层合并
+ */
+export function groupTextsByBudget(texts: string[], budget: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+// ==================== 结构化总结 ====================
+
+// 写入提示词的输出格式说明，字段与 DailyDigest 对应
+export const DAILY_DIGEST_SCHEMA = `{
+  "summary": "用一两句话概括今天",
+  "projects": [
+    {
+      "name": "项目/主题名",
+      "progress": "今日进展：完成了什么工作",
+      "issues": ["问题与风险"],
+      "ideas": ["关键想法或决策"]
+    }
+  ],
+  "todos": [
+    { "text": "具体行动项，包含足够的上下文", "project": "所属项目，可省略", "priority": "high | medium | low，可省略" }
+  ],
+  "reflections": ["复盘反思"]
+}`;
+
+const PRIORITIES: NotePriority[] = ['high', 'medium', 'low'];
+
+// 模型输出不符合格式要求时抛出，errors 列出每一处问题，用于修复请求
+export class DigestFormatError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`总结格式无效：${errors.slice(0, 3).join('；')}`);
+    this.name = 'DigestFormatError';
+  }
+}
+
+// 取出回复中的JSON对象，兼容代码块包裹和前后多余的说明文字
+function extractJsonObject(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : raw;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new DigestFormatError(['回复中没有JSON对象']);
+  }
+  return text.slice(start, end + 1);
+}
+
+function readStringList(value: unknown, path: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    errors.push(`${path} 必须是字符串数组`);
+    return [];
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+}
+
+function readProject(value: any, path: string, errors: string[]): ProjectSummary | null {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} 必须是对象`);
+    return null;
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${path}.name 必须是非空字符串`);
+  }
+  if (typeof value.progress !== 'string') {
+    errors.push(`${path}.progress 必须是字符串`);
+  }
+  return {
+    name: String(value.name ?? '').trim(),
+    progress: String(value.progress ?? '').trim(),
+    issues: readStringList(value.issues, `${path}.issues`, errors),
+    ideas: readStringList(value.ideas, `${path}.ideas`, errors),
+  };
+}
+
+function readTodo(value: any, path: string, errors: string[]): DigestTodo | null {
+  // 允许模型直接给出字符串形式的待办
+  if (typeof value === 'string') {
+    return value.trim() ? { text: value.trim() } : null;
+  }
+  if (!value || typeof value !== 'object' || typeof value.text !== 'string' || !value.text.trim()) {
+    errors.push(`${path}.text 必须是非空字符串`);
+    return null;
+  }
+  if (value.project !== undefined && value.project !== null && typeof value.project !== 'string') {
+    errors.push(`${path}.project 必须是字符串`);
+  }
+  if (value.priority !== undefined && value.priority !== null && !PRIORITIES.includes(value.priority)) {
+    errors.push(`${path}.priority 必须是 high、medium 或 low`);
+  }
+  return {
+    text: value.text.trim(),
+    project: typeof value.project === 'string' && value.project.trim() ? value.project.trim() : undefined,
+    priority: PRIORITIES.includes(value.priority) ? value.priority : undefined,
+  };
+}
+
+/**
+ * 校验对象是否符合 DAILY_DIGEST_SCHEMA 并转换为 DailyDigest
+ * @throws DigestFormatError 不符合时，列出所有问题
+ */
+export function validateDailyDigest(data: unknown, date: string): DailyDigest {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new DigestFormatError(['顶层必须是JSON对象']);
+  }
+  const value = data as Record<string, unknown>;
+
+  if (typeof value.summary !== 'string') {
+    errors.push('summary 必须是字符串');
+  }
+  const readArray = (key: string): unknown[] => {
+    if (!Array.isArray(value[key])) {
+      errors.push(`${key} 必须是数组`);
+      return [];
+    }
+    return value[key] as unknown[];
+  };
+
+  const digest: DailyDigest = {
+    date,
+    summary: typeof value.summary === 'string' ? value.summary.trim() : '',
+    projects: readArray('projects')
+      .map((item, index) => readProject(item, `projects[${index}]`, errors))
+      .filter((item): item is ProjectSummary => item !== null),
+    todos: readArray('todos')
+      .map((item, index) => readTodo(item, `todos[${index}]`, errors))
+      .filter((item): item is DigestTodo => item !== null),
+    reflections: readStringList(readArray('reflections'), 'reflections', errors),
+  };
+
+  if (errors.length > 0) {
+    throw new DigestFormatError(errors);
+  }
+  return digest;
+}
+
+/**
+ * 解析模型返回的总结JSON
+ * @throws DigestFormatError 无法解析或不符合格式时
+ */
+export function parseDailyDigest(raw: string, date: string): DailyDigest {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonObject(raw));
+  } catch (error) {
+    if (error instanceof DigestFormatError) {
+      throw error;
+    }
+    throw new DigestFormatError([`JSON语法错误：${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return validateDailyDigest(data, date);
+}
+
+// 总结标题中的时间范围
+export function getDigestScopeLabel(granularity: DigestPeriod['granularity']): string {
+  switch (granularity) {
+    case 'week': return '本周';
+    case 'month': return '本月';
+    case 'custom': return '本期';
+    default: return '今日';
+  }
+}
+
+/**
+ * 把结构化总结转为Markdown，用于历史记录和导出
+ * @param scope 标题中的时间范围，如"今日"、"本周"
+ */
+export function formatDigestMarkdown(digest: DailyDigest, scope = '今日'): string {
+  const lines: string[] = [];
+  if (digest.summary) {
+    lines.push(digest.summary, '');
+  }
+
+  lines.push(`# ${scope}项目概览`, '');
+  for (const project of digest.projects) {
+    lines.push(`## ${project.name}`);
+    lines.push(`- **进展**：${project.progress || '无'}`);
+    if (project.issues.length > 0) {
+      lines.push(`- **问题与风险**：${project.issues.join('；')}`);
+    }
+    if (project.ideas.length > 0) {
+      lines.push(`- **关键想法**：${project.ideas.join('；')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('# 待办清单');
+  for (const todo of digest.todos) {
+    lines.push(`- [ ] ${todo.project ? `[${todo.project}] ` : ''}${todo.text}`);
+  }
+  lines.push('');
+
+  lines.push(`# ${scope}复盘`);
+  for (const reflection of digest.reflections) {
+    lines.push(`- ${reflection}`);
+  }
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,88 @@
+import { DigestSchedule } from './types';
+
+// 默认工作日 18:30 生成，需要用户手动开启
+export const DEFAULT_DIGEST_SCHEDULE: DigestSchedule = {
+  enabled: false,
+  time: '18:30',
+  weekdays: [1, 2, 3, 4, 5],
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * 校验并规范化定时总结设置
+ * @throws Error 时间格式不正确或没有选择任何一天时
+ */
+export function validateDigestSchedule(schedule: DigestSchedule): DigestSchedule {
+  if (!TIME_PATTERN.test(schedule.time)) {
+    throw new Error('生成时间格式应为 HH:mm');
+  }
+  const weekdays = Array.from(new Set(schedule.weekdays))
+    .filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    .sort((a, b) => a - b);
+  if (schedule.enabled && weekdays.length === 0) {
+    throw new Error('请至少选择一天');
+  }
+  return { enabled: Boolean(schedule.enabled), time: schedule.time, weekdays };
+}
+
+// 读取保存的设置，缺失或损坏时使用默认值
+export function parseDigestSchedule(value: string | null): DigestSchedule {
+  if (!value) {
+    return DEFAULT_DIGEST_SCHEDULE;
+  }
+  try {
+    return validateDigestSchedule({ ...DEFAULT_DIGEST_SCHEDULE, ...JSON.parse(value) });
+  } catch {
+    return DEFAULT_DIGEST_SCHEDULE;
+  }
+}
+
+// date 当天的生成时间（本地时间）
+function getRunAt(schedule: DigestSchedule, date: Date): Date {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0, 0);
+}
+
+/**
+ * 计算 after 之后的下一次生成时间，未开启时返回 null
+ */
+export function getNextDigestRun(schedule: DigestSchedule, after: Date): Date | null {
+  if (!schedule.enabled || schedule.weekdays.length === 0) {
+    return null;
+  }
+  // 所选的星期每周都会出现，最多向后找一周
+  for (let offset = 0; offset <= 7; offset++) {
+    const runAt = getRunAt(schedule, new Date(after.getFullYear(), after.getMonth(), after.getDate() + offset));
+    if (runAt > after && schedule.weekdays.includes(runAt.getDay())) {
+      return runAt;
+    }
+  }
+  return null;
+}
+
+/**
+ * 列出上次运行之后、now 之前错过的生成时间，按时间升序
+ *
+ * 从未运行过时不补做；最多回溯 maxDays 天，避免长时间未打开应用后一次生成过多总结
+ */
+export function getMissedDigestRuns(schedule: DigestSchedule, lastRun: Date | null, now: Date, maxDays: number): Date[] {
+  if (!schedule.enabled || !lastRun) {
+    return [];
+  }
+  const earliest = new Date(now.getFullYear(), now.getMonth(), now.getDate() - maxDays);
+  const missed: Date[] = [];
+  let runAt = getNextDigestRun(schedule, lastRun > earliest ? lastRun : earliest);
+  while (runAt && runAt <= now) {
+    missed.push(runAt);
+    runAt = getNextDigestRun(schedule, runAt);
+  }
+  return missed;
+}
+
+// 本地日期（YYYY-MM-DD），与界面保存总结时使用的日期一致
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
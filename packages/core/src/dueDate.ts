@@ -0,0 +1,228 @@
+import { ParsedDueDate } from './types';
+
+// 仅给出日期时默认的截止时间（当天下午6点）
+const DEFAULT_HOUR = 18;
+
+const CHINESE_DIGITS: Record<string, number> = {
+  '零': 0, '〇': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4,
+  '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  '日': 0, '天': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6,
+};
+
+const NUMBER = '[0-9零〇一二两三四五六七八九十]+';
+
+// 将阿拉伯数字或中文数字（最多到九十九）转换为数值
+function parseNumber(text: string): number | null {
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  if (text.includes('十')) {
+    const [tens, ones] = text.split('十');
+    const tensValue = tens ? CHINESE_DIGITS[tens] : 1;
+    const onesValue = ones ? CHINESE_DIGITS[ones] : 0;
+    if (tensValue === undefined || onesValue === undefined) {
+      return null;
+    }
+    return tensValue * 10 + onesValue;
+  }
+
+  let value = 0;
+  for (const char of text) {
+    const digit = CHINESE_DIGITS[char];
+    if (digit === undefined) {
+      return null;
+    }
+    value = value * 10 + digit;
+  }
+  return value;
+}
+
+interface DatePart {
+  date: Date;
+  matched: string;
+}
+
+interface TimePart {
+  hour: number;
+  minute: number;
+  matched: string;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function matchDate(text: string, now: Date): DatePart | null {
+  const today = startOfDay(now);
+
+  const relativeDays: Array<[RegExp, number]> = [
+    [/大后天/, 3],
+    [/后天/, 2],
+    [/明天|明日/, 1],
+    [/今天|今日|今晚/, 0],
+  ];
+  for (const [pattern, days] of relativeDays) {
+    const match = text.match(pattern);
+    if (match) {
+      return { date: addDays(today, days), matched: match[0] };
+    }
+  }
+
+  const inDays = text.match(new RegExp(`(${NUMBER})天(后|之后|以后)`));
+  if (inDays) {
+    const days = parseNumber(inDays[1]);
+    if (days !== null) {
+      return { date: addDays(today, days), matched: inDays[0] };
+    }
+  }
+
+  // 周五 / 星期五 / 下周一 / 下星期天
+  const weekday = text.match(/(下下|下)?(?:周|星期|礼拜)([一二三四五六日天])/);
+  if (weekday) {
+    const target = WEEKDAYS[weekday[2]];
+    const current = today.getDay();
+    // 以周一为一周的开始计算本周的目标日期
+    const offsetInWeek = ((target + 6) % 7) - ((current + 6) % 7);
+    let days = offsetInWeek;
+    if (weekday[1] === '下') {
+      days += 7;
+    } else if (weekday[1] === '下下') {
+      days += 14;
+    } else if (days < 0) {
+      // "周一"已过去时指下周一
+      days += 7;
+    }
+    return { date: addDays(today, days), matched: weekday[0] };
+  }
+
+  const isoDate = text.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (isoDate) {
+    const date = new Date(parseInt(isoDate[1], 10), parseInt(isoDate[2], 10) - 1, parseInt(isoDate[3], 10));
+    return { date, matched: isoDate[0] };
+  }
+
+  const monthDay = text.match(new RegExp(`(${NUMBER})月(${NUMBER})[日号]?`));
+  if (monthDay) {
+    const month = parseNumber(monthDay[1]);
+    const day = parseNumber(monthDay[2]);
+    if (month !== null && day !== null && month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      let date = new Date(today.getFullYear(), month - 1, day);
+      // 已经过去的日期指明年
+      if (date < today) {
+        date = new Date(today.getFullYear() + 1, month - 1, day);
+      }
+      return { date, matched: monthDay[0] };
+    }
+  }
+
+  const dayOnly = text.match(new RegExp(`(${NUMBER})[号日]`));
+  if (dayOnly) {
+    const day = parseNumber(dayOnly[1]);
+    if (day !== null && day >= 1 && day <= 31) {
+      let date = new Date(today.getFullYear(), today.getMonth(), day);
+      if (date < today) {
+        date = new Date(today.getFullYear(), today.getMonth() + 1, day);
+      }
+      return { date, matched: dayOnly[0] };
+    }
+  }
+
+  return null;
+}
+
+function matchTime(text: string): TimePart | null {
+  const clock = text.match(/(\d{1,2})[:：](\d{2})/);
+  if (clock) {
+    const hour = parseInt(clock[1], 10);
+    const minute = parseInt(clock[2], 10);
+    if (hour < 24 && minute < 60) {
+      return { hour, minute, matched: clock[0] };
+    }
+  }
+
+  const pattern = new RegExp(
+    `(凌晨|早上|早晨|上午|中午|下午|傍晚|晚上|今晚)?\\s*(${NUMBER})[点时](半|一刻|三刻|(${NUMBER})分?)?`
+  );
+  const match = text.match(pattern);
+  if (!match) {
+    const period = text.match(/(早上|上午|中午|下午|晚上|今晚)/);
+    if (period) {
+      const defaults: Record<string, number> = { '早上': 9, '上午': 10, '中午': 12, '下午': 15, '晚上': 20, '今晚': 20 };
+      return { hour: defaults[period[1]], minute: 0, matched: period[0] };
+    }
+    return null;
+  }
+
+  let hour = parseNumber(match[2]);
+  if (hour === null || hour > 24) {
+    return null;
+  }
+
+  let minute = 0;
+  if (match[3] === '半') {
+    minute = 30;
+  } else if (match[3] === '一刻') {
+    minute = 15;
+  } else if (match[3] === '三刻') {
+    minute = 45;
+  } else if (match[4]) {
+    minute = parseNumber(match[4]) ?? 0;
+  }
+
+  const period = match[1];
+  if ((period === '下午' || period === '傍晚' || period === '晚上' || period === '今晚') && hour < 12) {
+    hour += 12;
+  } else if (period === '中午' && hour < 6) {
+    hour += 12;
+  }
+
+  return { hour: hour % 24, minute: Math.min(minute, 59), matched: match[0] };
+}
+
+/**
+ * 从自然语言文本中解析截止时间，如"明天下午3点"、"周五前"、"10月1日 14:30"
+ */
+export function parseDueDate(text: string, now: Date = new Date()): ParsedDueDate | null {
+  const relativeHours = text.match(new RegExp(`(${NUMBER})(个)?小时(后|之后|以后)`));
+  if (relativeHours) {
+    const hours = parseNumber(relativeHours[1]);
+    if (hours !== null) {
+      return {
+        due_at: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString(),
+        has_time: true,
+        matched_text: relativeHours[0],
+      };
+    }
+  }
+
+  const datePart = matchDate(text, now);
+  const timePart = matchTime(text);
+  if (!datePart && !timePart) {
+    return null;
+  }
+
+  let date = datePart ? datePart.date : startOfDay(now);
+  const hour = timePart ? timePart.hour : DEFAULT_HOUR;
+  const minute = timePart ? timePart.minute : 0;
+  let due = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+
+  // 只说了时间且已经过去时，指第二天的这个时间
+  if (!datePart && due <= now) {
+    date = addDays(date, 1);
+    due = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+  }
+
+  return {
+    due_at: due.toISOString(),
+    has_time: !!timePart,
+    matched_text: [datePart?.matched, timePart?.matched].filter(Boolean).join(''),
+  };
+}
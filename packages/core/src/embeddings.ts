@@ -0,0 +1,283 @@
+import * as crypto from 'crypto';
+import { FlowpadDB } from './db';
+import { AIProvider } from './providers';
+import { AICancelledError } from './aiErrors';
+import { AIConfig, NoteSearchFilters, NoteSearchResult, SemanticSearchResult } from './types';
+
+// 本机CPU运行的多语言句向量模型（支持中文），首次使用时下载到缓存目录
+export const LOCAL_EMBEDDING_MODEL = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2';
+
+// 每次请求计算的笔记数，部分服务（如千问）单次最多10条
+const EMBEDDING_BATCH_SIZE = 10;
+// 只取笔记开头计算向量，句向量模型本身也只看前几百个token
+const MAX_EMBEDDING_CHARS = 2000;
+// 低于此相似度的语义结果视为不相关
+const MIN_SEMANTIC_SCORE = 0.3;
+// 混合搜索时两路各取的候选数量
+const HYBRID_CANDIDATES = 50;
+// 倒数排名融合的平滑常数，越大越不偏向排名靠前的结果
+const RRF_K = 60;
+
+/**
+ * 计算文本向量的模型
+ */
+export interface EmbeddingModel {
+  // 写入向量表的模型标识，更换模型后旧向量不再使用
+  readonly id: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+  // 模型是否已可以立即计算，未就绪时搜索不等待模型加载
+  isReady(): boolean;
+}
+
+type TransformersModule = typeof import('@xenova/transformers');
+// feature-extraction 管道的调用形式，库自带的类型是所有任务的联合，无法直接调用
+type FeatureExtractor = (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>;
+
+// @xenova/transformers 只提供ES模块，用 import() 加载，避免被编译为 require
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<TransformersModule>;
+
+/**
+ * 本机CPU运行的向量模型，数据不离开本机
+ *
+ * 模型在第一次计算时加载，文件缓存在 cacheDir
+ */
+export class LocalEmbeddingModel implements EmbeddingModel {
+  readonly id: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+  private loaded = false;
+
+  constructor(private cacheDir: string, private model: string = LOCAL_EMBEDDING_MODEL) {
+    this.id = `local:${model}`;
+  }
+
+  private load(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = importModule('@xenova/transformers').then(({ pipeline, env }) => {
+        env.cacheDir = this.cacheDir;
+        return pipeline('feature-extraction', this.model, { quantized: true }) as unknown as Promise<FeatureExtractor>;
+      });
+      // 下载失败等情况下允许下次重新加载
+      this.extractor.then(() => {
+        this.loaded = true;
+      }, () => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const extractor = await this.load();
+    if (signal?.aborted) {
+      throw new AICancelledError();
+    }
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  // 首次使用时需要下载和加载模型，加载完成前为 false
+  isReady(): boolean {
+    return this.loaded;
+  }
+}
+
+/**
+ * 使用AI服务的向量接口
+ */
+export class ProviderEmbeddingModel implements EmbeddingModel {
+  readonly id: string;
+  private model: string;
+
+  /**
+   * @throws Error 服务不支持向量接口时
+   */
+  constructor(private provider: AIProvider, private config: AIConfig, model?: string) {
+    const embeddingModel = model || provider.defaultEmbeddingModel;
+    if (!provider.capabilities.embeddings || !provider.embed || !embeddingModel) {
+      throw new Error(`${provider.name}不支持向量接口，请改用本地模型`);
+    }
+    this.model = embeddingModel;
+    this.id = `${provider.id}:${embeddingModel}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return this.provider.embed!({
+      input: texts,
+      model: this.model,
+      signal,
+      timeoutMs: this.config.timeout_seconds ? this.config.timeout_seconds * 1000 : undefined,
+      maxRetries: this.config.max_retries,
+    }, this.config);
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+}
+
+function toEmbeddingText(text: string): string {
+  return text.trim().slice(0, MAX_EMBEDDING_CHARS);
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 笔记的语义索引：为新建和修改过的笔记计算向量，并按向量相似度搜索
+ *
+ * 向量保存在 note_embeddings 表，按文本哈希判断是否需要重新计算，
+ * 因此任何修改笔记的途径（编辑、导入、目录同步）之后调用 indexPending 即可
+ */
+export class SemanticIndex {
+  private indexing: Promise<number> = Promise.resolve(0);
+  // 最近一次建立索引失败的原因，成功后清除
+  lastError?: string;
+
+  constructor(private db: FlowpadDB, readonly model: EmbeddingModel) {}
+
+  /**
+   * 为没有向量或文本已变化的笔记计算向量，返回本次计算的数量
+   *
+   * 多次调用会依次执行，不会同时计算同一批笔记
+   */
+  indexPending(signal?: AbortSignal): Promise<number> {
+    this.indexing = this.indexing.catch(() => 0).then(() => this.runIndex(signal));
+    return this.indexing;
+  }
+
+  private async runIndex(signal?: AbortSignal): Promise<number> {
+    // 每条笔记只保留一个向量，更换模型后旧向量无法与新向量比较
+    this.db.deleteNoteEmbeddingsExcept(this.model.id);
+    const pending = this.db.getEmbeddingCandidates(this.model.id)
+      .map(candidate => ({ ...candidate, text: toEmbeddingText(candidate.text) }))
+      .filter(candidate => candidate.text && candidate.content_hash !== hashText(candidate.text));
+
+    try {
+      for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        if (signal?.aborted) {
+          throw new AICancelledError();
+        }
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const vectors = await this.model.embed(batch.map(item => item.text), signal);
+        batch.forEach((item, index) => {
+          if (vectors[index]) {
+            this.db.saveNoteEmbedding(item.id, this.model.id, Float32Array.from(vectors[index]), hashText(item.text));
+          }
+        });
+      }
+      this.lastError = undefined;
+      return pending.length;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  // 已计算向量的笔记数和笔记总数（不含回收站）
+  getProgress(): { indexed: number; total: number } {
+    return {
+      indexed: this.db.countNoteEmbeddings(this.model.id),
+      total: this.db.getEmbeddingCandidates(this.model.id).length,
+    };
+  }
+
+  /**
+   * 按语义相似度搜索笔记，返回最相关的 k 条
+   */
+  async semanticSearch(query: string, k = 10, filters: NoteSearchFilters = {}): Promise<SemanticSearchResult[]> {
+    const text = toEmbeddingText(query);
+    if (!text) {
+      return [];
+    }
+    const [queryVector] = await this.model.embed([text]);
+    if (!queryVector) {
+      return [];
+    }
+
+    const ranked = this.db.getNoteEmbeddings(this.model.id, filters)
+      .map(item => ({ note_id: item.note_id, score: cosineSimilarity(queryVector, item.vector) }))
+      .filter(item => item.score >= MIN_SEMANTIC_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+
+    return ranked.flatMap(item => {
+      const note = this.db.getNoteById(item.note_id);
+      return note ? [{ note, score: item.score }] : [];
+    });
+  }
+
+  /**
+   * 混合搜索：关键词和语义两路结果按倒数排名融合
+   *
+   * 模型尚未加载完成时只返回关键词结果；语义搜索失败时同样只返回关键词结果，原因记录在 lastError
+   */
+  async hybridSearch(query: string, filters: NoteSearchFilters = {}): Promise<NoteSearchResult[]> {
+    const candidateFilters = { ...filters, limit: HYBRID_CANDIDATES, offset: 0 };
+    const keywordResults = this.db.searchNotes(query, candidateFilters);
+    const semanticResults = await this.trySemanticSearch(query, candidateFilters);
+    return fuseSearchResults(keywordResults, semanticResults, filters.limit || 50);
+  }
+
+  /**
+   * 为回答问题检索相关笔记：包含问题中任意一个关键词即可，再与语义结果融合
+   */
+  async retrieve(question: string, limit: number): Promise<NoteSearchResult[]> {
+    const candidateFilters = { limit: HYBRID_CANDIDATES };
+    const keywordResults = this.db.searchNotesByAnyTerm(question, candidateFilters);
+    const semanticResults = await this.trySemanticSearch(question, candidateFilters);
+    return fuseSearchResults(keywordResults, semanticResults, limit);
+  }
+
+  private async trySemanticSearch(query: string, filters: NoteSearchFilters): Promise<SemanticSearchResult[]> {
+    // 本地模型首次下载和加载可能需要几分钟，期间不等待，由后台建立索引时完成加载
+    if (!this.model.isReady()) {
+      return [];
+    }
+    try {
+      return await this.semanticSearch(query, HYBRID_CANDIDATES, filters);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return [];
+    }
+  }
+}
+
+/**
+ * 按倒数排名融合关键词和语义两路结果，两路都命中的排在前面
+ */
+export function fuseSearchResults(keywordResults: NoteSearchResult[], semanticResults: SemanticSearchResult[], limit: number): NoteSearchResult[] {
+  const fused = new Map<string, NoteSearchResult>();
+  keywordResults.forEach((result, index) => {
+    fused.set(result.note.id, { ...result, rank: 1 / (RRF_K + index + 1), match: 'keyword' });
+  });
+  semanticResults.forEach((result, index) => {
+    const score = 1 / (RRF_K + index + 1);
+    const existing = fused.get(result.note.id);
+    if (existing) {
+      existing.rank += score;
+      existing.match = 'both';
+    } else {
+      fused.set(result.note.id, { note: result.note, snippet: '', rank: score, match: 'semantic' });
+    }
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit);
+}
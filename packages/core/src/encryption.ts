@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// 加密文件格式：魔数 + 盐 + IV + 认证标签 + AES-256-GCM密文
+const MAGIC = Buffer.from('FPENC001', 'ascii');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+const KEY_LENGTH = 32;
+
+// scrypt参数：N=2^15 约需32MB内存，解锁耗时在百毫秒级
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export const ENCRYPTED_FILE_SUFFIX = '.enc';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// 密码错误或文件被篡改时抛出（GCM认证失败无法区分这两种情况）
+export class PassphraseError extends Error {
+  constructor(message = '密码错误或加密文件已损坏') {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+export function getEncryptedDatabasePath(dbPath: string): string {
+  return `${dbPath}${ENCRYPTED_FILE_SUFFIX}`;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase.normalize('NFC'), salt, KEY_LENGTH, SCRYPT_OPTIONS);
+}
+
+function readHeader(payload: Buffer): { salt: Buffer; iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  if (payload.length < HEADER_LENGTH || !payload.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('不是Flowpad加密文件');
+  }
+  let offset = MAGIC.length;
+  const salt = payload.subarray(offset, offset += SALT_LENGTH);
+  const iv = payload.subarray(offset, offset += IV_LENGTH);
+  const tag = payload.subarray(offset, offset += TAG_LENGTH);
+  return { salt, iv, tag, ciphertext: payload.subarray(offset) };
+}
+
+/**
+ * 基于密码的文件加密，用于数据库文件和加密快照
+ *
+ * 同一个实例加密的文件共用一个盐，因此只需派生一次密钥；
+ * 更换密码时创建新实例并重新加密所有文件
+ */
+export class DatabaseCipher {
+  private constructor(private key: Buffer, private salt: Buffer) {}
+
+  // 用新密码创建，生成新的盐
+  static create(passphrase: string): DatabaseCipher {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`密码至少需要${MIN_PASSPHRASE_LENGTH}个字符`);
+    }
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    return new DatabaseCipher(deriveKey(passphrase, salt), salt);
+  }
+
+  /**
+   * 用密码解锁加密文件
+   * @returns 密钥实例和解密后的内容
+   * @throws PassphraseError 密码错误时
+   */
+  static unlock(filePath: string, passphrase: string): { cipher: DatabaseCipher; data: Buffer } {
+    const { salt } = readHeader(fs.readFileSync(filePath));
+    const cipher = new DatabaseCipher(deriveKey(passphrase, salt), Buffer.from(salt));
+    return { cipher, data: cipher.readFile(filePath) };
+  }
+
+  // 校验密码是否与当前密钥一致
+  matches(passphrase: string): boolean {
+    return crypto.timingSafeEqual(deriveKey(passphrase, this.salt), this.key);
+  }
+
+  encrypt(data: Buffer): Buffer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([MAGIC, this.salt, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  decrypt(payload: Buffer): Buffer {
+    const { salt, iv, tag, ciphertext } = readHeader(payload);
+    if (!salt.equals(this.salt)) {
+      throw new PassphraseError('文件使用其他密码加密');
+    }
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    } catch {
+      throw new PassphraseError();
+    }
+  }
+
+  readFile(filePath: string): Buffer {
+    return this.decrypt(fs.readFileSync(filePath));
+  }
+
+  // 先写临时文件再重命名，避免写入中断损坏已有文件
+  writeFile(filePath: string, data: Buffer): void {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, this.encrypt(data));
+    fs.renameSync(tempPath, filePath);
+  }
+}
@@ -0,0 +1,187 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIProvider, registerAIProvider } from './providers';
+import { AIConfig, ChatRequest, EmbeddingRequest, ToolChatRequest, ToolChatResponse } from './types';
+
+interface FixtureBase {
+  key: string;
+  provider: string;
+  model: string;
+  recorded_at: string;
+}
+
+// 录制文件内容：请求、响应和录制时使用的服务；kind 缺省为普通对话（含流式）
+export type LLMFixture =
+  | FixtureBase & { kind?: 'chat'; request: Pick<ChatRequest, 'messages' | 'temperature' | 'maxTokens'>; response: string }
+  | FixtureBase & { kind: 'tools'; request: Pick<ToolChatRequest, 'messages' | 'tools' | 'temperature' | 'maxTokens'>; response: ToolChatResponse }
+  | FixtureBase & { kind: 'embed'; request: Pick<EmbeddingRequest, 'input'>; response: number[][] };
+
+function hashCanonical(value: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+/**
+ * 计算请求的录制键：只取消息和采样参数，不含模型，
+ * 这样同一份录制可以在切换模型后继续回放
+ */
+export function getFixtureKey(request: ChatRequest): string {
+  return hashCanonical({
+    messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+  });
+}
+
+// 工具调用的每一轮单独录制，消息中包含之前各轮的调用和结果
+export function getToolFixtureKey(request: ToolChatRequest): string {
+  return hashCanonical({
+    kind: 'tools',
+    messages: request.messages,
+    tools: request.tools,
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+  });
+}
+
+export function getEmbeddingFixtureKey(request: EmbeddingRequest): string {
+  return hashCanonical({ kind: 'embed', input: request.input });
+}
+
+export function getFixturePath(fixturesDir: string, request: ChatRequest): string {
+  return path.join(fixturesDir, `${getFixtureKey(request)}.json`);
+}
+
+function readFixtureByKey(fixturesDir: string, key: string): LLMFixture | null {
+  const filePath = path.join(fixturesDir, `${key}.json`);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+export function readFixture(fixturesDir: string, request: ChatRequest): LLMFixture | null {
+  return readFixtureByKey(fixturesDir, getFixtureKey(request));
+}
+
+export function writeFixture(fixturesDir: string, fixture: LLMFixture): void {
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  const filePath = path.join(fixturesDir, `${fixture.key}.json`);
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(fixture, null, 2), 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * 录制模式：包装真实的AI服务，每次调用后把请求和响应保存为录制文件
+ *
+ * 对话、流式、工具调用和向量接口都会录制，服务未实现的接口保持未实现
+ */
+export function recordFixtures(provider: AIProvider, fixturesDir: string): AIProvider {
+  const record = (request: ChatRequest, response: string) => {
+    writeFixture(fixturesDir, {
+      key: getFixtureKey(request),
+      provider: provider.id,
+      model: request.model,
+      request: { messages: request.messages, temperature: request.temperature, maxTokens: request.maxTokens },
+      response,
+      recorded_at: new Date().toISOString(),
+    });
+  };
+
+  const recorder: AIProvider = {
+    ...provider,
+    async chat(request, config) {
+      const response = await provider.chat(request, config);
+      record(request, response);
+      return response;
+    },
+  };
+  // 流式请求录制完整响应，回放时不区分是否流式
+  if (provider.stream) {
+    const stream = provider.stream.bind(provider);
+    recorder.stream = async (request, config, onDelta) => {
+      const response = await stream(request, config, onDelta);
+      record(request, response);
+      return response;
+    };
+  }
+  if (provider.chatWithTools) {
+    const chatWithTools = provider.chatWithTools.bind(provider);
+    recorder.chatWithTools = async (request, config) => {
+      const response = await chatWithTools(request, config);
+      writeFixture(fixturesDir, {
+        key: getToolFixtureKey(request),
+        kind: 'tools',
+        provider: provider.id,
+        model: request.model,
+        request: { messages: request.messages, tools: request.tools, temperature: request.temperature, maxTokens: request.maxTokens },
+        response,
+        recorded_at: new Date().toISOString(),
+      });
+      return response;
+    };
+  }
+  if (provider.embed) {
+    const embed = provider.embed.bind(provider);
+    recorder.embed = async (request, config) => {
+      const response = await embed(request, config);
+      writeFixture(fixturesDir, {
+        key: getEmbeddingFixtureKey(request),
+        kind: 'embed',
+        provider: provider.id,
+        model: request.model,
+        request: { input: request.input },
+        response,
+        recorded_at: new Date().toISOString(),
+      });
+      return response;
+    };
+  }
+  return recorder;
+}
+
+interface FixtureResponses {
+  chat: string;
+  tools: ToolChatResponse;
+  embed: number[][];
+}
+
+// 读取回放用的录制，类型不符时与没有录制同样处理
+function replayFixture<K extends keyof FixtureResponses>(config: AIConfig, key: string, kind: K): FixtureResponses[K] {
+  const fixturesDir = config.options?.fixtures_dir?.trim();
+  if (!fixturesDir) {
+    throw new Error('离线回放缺少配置：录制目录');
+  }
+  const fixture = readFixtureByKey(fixturesDir, key);
+  if (!fixture || (fixture.kind ?? 'chat') !== kind) {
+    throw new Error(`没有找到匹配的录制结果（${key}），请先在录制模式下运行一次`);
+  }
+  return fixture.response as FixtureResponses[K];
+}
+
+// 回放录制结果的离线服务，没有匹配的录制时直接报错，保证结果确定
+registerAIProvider({
+  id: 'mock',
+  name: '离线回放',
+  description: '回放录制的请求和响应，用于离线开发调试',
+  apiKey: 'none',
+  defaultModel: 'mock',
+  models: [],
+  fields: [
+    { key: 'fixtures_dir', label: '录制目录', type: 'text', required: true, placeholder: '/path/to/fixtures' },
+  ],
+  // 工具调用和向量接口只能回放用支持它们的服务录制的结果
+  capabilities: { streaming: false, jsonMode: false, toolCalling: true, embeddings: true },
+  defaultEmbeddingModel: 'mock',
+  developmentOnly: true,
+  async chat(request, config) {
+    return replayFixture(config, getFixtureKey(request), 'chat');
+  },
+  async chatWithTools(request, config) {
+    return replayFixture(config, getToolFixtureKey(request), 'tools');
+  },
+  async embed(request, config) {
+    return replayFixture(config, getEmbeddingFixtureKey(request), 'embed');
+  },
+});
@@ -0,0 +1,502 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseMarkdownNote } from './vault';
+import {
+  CreateNoteInput, CsvColumnMapping, ImportError, ImportFile, ImportFormat, ImportOptions, ImportPreview, ImportRecord, Note, NotePriority,
+} from './types';
+
+export interface ImportParseResult {
+  records: ImportRecord[];
+  errors: ImportError[];
+  csvHeaders?: string[];
+  csvMapping?: CsvColumnMapping;
+}
+
+/**
+ * 导入解析器：把某种外部格式的文件转换为 CreateNoteInput
+ */
+export interface NoteImporter {
+  format: ImportFormat;
+  name: string;
+  // 可选择的文件扩展名；directory 为 true 时选择目录并读取其中的这些文件
+  extensions: string[];
+  directory?: boolean;
+  parse(files: ImportFile[], options: ImportOptions): ImportParseResult;
+}
+
+const importers = new Map<ImportFormat, NoteImporter>();
+
+export function registerImporter(importer: NoteImporter): void {
+  importers.set(importer.format, importer);
+}
+
+export function getImporter(format: ImportFormat): NoteImporter {
+  const importer = importers.get(format);
+  if (!importer) {
+    throw new Error(`不支持的导入格式：${format}`);
+  }
+  return importer;
+}
+
+export function getImporters(): NoteImporter[] {
+  return Array.from(importers.values());
+}
+
+// ==================== 通用工具 ====================
+
+/**
+ * 解析外部数据中的时间，支持ISO、"2024-01-02 10:30"、"2024/1/2"、ENEX的 20240102T103000Z 以及Unix时间戳
+ */
+export function parseImportDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (typeof value === 'number' || /^\d{10}(\d{3})?$/.test(String(value).trim())) {
+    const timestamp = Number(value);
+    // 10位为秒，13位为毫秒
+    const date = new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  const text = String(value).trim();
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+  if (compact) {
+    const [, year, month, day, hour, minute, second, utc] = compact;
+    const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+    return (utc ? new Date(Date.UTC(...parts)) : new Date(...parts)).toISOString();
+  }
+
+  const local = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour || 0), Number(minute || 0), Number(second || 0));
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// 标签可以用逗号、分号、顿号或竖线分隔，去掉开头的 #
+function splitTags(value: string): string[] {
+  return value
+    .split(/[,;，；、|]/)
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(tag => tag.length > 0);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * 去重依据：正文（忽略首尾空白）加创建时间（精确到分钟）；没有创建时间时只比较正文
+ */
+export function getImportFingerprint(text: string, createdAt?: string): string {
+  return createdAt ? `${text.trim()}\u0000${createdAt.slice(0, 16)}` : text.trim();
+}
+
+/**
+ * 标记与已有笔记或本次导入中前面记录重复的记录，返回重复数量
+ */
+export function markDuplicateRecords(records: ImportRecord[], existingNotes: Note[]): number {
+  const withTime = new Set(existingNotes.map(note => getImportFingerprint(note.text, note.created_at)));
+  const textOnly = new Set(existingNotes.map(note => getImportFingerprint(note.text)));
+  let count = 0;
+
+  for (const record of records) {
+    const { text, created_at } = record.input;
+    const key = getImportFingerprint(text, created_at);
+    record.duplicate = created_at ? withTime.has(key) : textOnly.has(key);
+    if (record.duplicate) {
+      count++;
+    }
+    if (created_at) {
+      withTime.add(key);
+    }
+    textOnly.add(getImportFingerprint(text));
+  }
+  return count;
+}
+
+/**
+ * 读取导入源：目录时递归读取其中符合扩展名的文件，否则读取单个文件
+ */
+export function readImportFiles(sourcePath: string, importer: NoteImporter): ImportFile[] {
+  const stat = fs.statSync(sourcePath);
+  if (!stat.isDirectory()) {
+    return [{ name: path.basename(sourcePath), content: fs.readFileSync(sourcePath, 'utf8'), modified_at: stat.mtime.toISOString() }];
+  }
+
+  const files: ImportFile[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      // 跳过 .git、.obsidian 等隐藏目录
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (importer.extensions.includes(path.extname(entry.name).toLowerCase())) {
+        files.push({
+          name: path.relative(sourcePath, fullPath),
+          content: fs.readFileSync(fullPath, 'utf8'),
+          modified_at: fs.statSync(fullPath).mtime.toISOString(),
+        });
+      }
+    }
+  };
+  walk(sourcePath);
+  return files;
+}
+
+/**
+ * 解析导入源并标记重复，供导入向导预览和实际导入共用
+ */
+export function buildImportPreview(format: ImportFormat, files: ImportFile[], options: ImportOptions, existingNotes: Note[]): ImportPreview {
+  const result = getImporter(format).parse(files, options);
+  const duplicateCount = markDuplicateRecords(result.records, existingNotes);
+  return { format, ...result, duplicateCount };
+}
+
+// ==================== Markdown ====================
+
+const markdownImporter: NoteImporter = {
+  format: 'markdown',
+  name: 'Markdown文件夹',
+  extensions: ['.md', '.markdown'],
+  directory: true,
+  parse(files) {
+    const records: ImportRecord[] = [];
+    const errors: ImportError[] = [];
+
+    for (const file of files) {
+      const { frontMatter, body } = parseMarkdownNote(file.content);
+      if (!body.trim()) {
+        errors.push({ source: file.name, message: '内容为空' });
+        continue;
+      }
+      records.push({
+        source: file.name,
+        input: {
+          text: body,
+          created_at: parseImportDate(frontMatter.created_at) || file.modified_at,
+          type_hint: frontMatter.type_hint,
+          tags: frontMatter.tags,
+          project_tag: frontMatter.project_tag,
+          status: frontMatter.status,
+          context: { app_name: frontMatter.app_name, url: frontMatter.url },
+        },
+      });
+    }
+    return { records, errors };
+  },
+};
+
+// ==================== Flowpad JSON ====================
+
+const PRIORITIES: NotePriority[] = ['high', 'medium', 'low'];
+
+const jsonImporter: NoteImporter = {
+  format: 'json',
+  name: 'Flowpad JSON',
+  extensions: ['.json'],
+  parse(files) {
+    const records: ImportRecord[] = [];
+    const errors: ImportError[] = [];
+
+    for (const file of files) {
+      let items: unknown[];
+      try {
+        const data = JSON.parse(file.content);
+        // 支持笔记数组或 { notes: [...] }
+        items = Array.isArray(data) ? data : data?.notes;
+        if (!Array.isArray(items)) {
+          throw new Error('缺少 notes 数组');
+        }
+      } catch (error) {
+        errors.push({ source: file.name, message: `无法解析JSON：${error instanceof Error ? error.message : String(error)}` });
+        continue;
+      }
+
+      items.forEach((item: any, index) => {
+        const source = `${file.name} 第${index + 1}条`;
+        if (!item || typeof item.text !== 'string' || !item.text.trim()) {
+          errors.push({ source, message: '缺少 text 字段' });
+          return;
+        }
+        if (item.created_at !== undefined && !parseImportDate(item.created_at)) {
+          errors.push({ source, message: `无效的创建时间：${item.created_at}` });
+          return;
+        }
+
+        const input: CreateNoteInput = {
+          text: item.text,
+          created_at: parseImportDate(item.created_at),
+          type_hint: optionalString(item.type_hint),
+          tags: Array.isArray(item.tags) ? item.tags.filter((tag: unknown) => typeof tag === 'string') : undefined,
+          project_tag: optionalString(item.project_tag),
+          status: optionalString(item.status),
+          due_at: parseImportDate(item.due_at),
+          priority: PRIORITIES.includes(item.priority) ? item.priority : undefined,
+          remind_at: parseImportDate(item.remind_at),
+          recurrence: optionalString(item.recurrence),
+          context: {
+            app_name: optionalString(item.app_name),
+            window_title: optionalString(item.window_title),
+            url: optionalString(item.url),
+          },
+        };
+        records.push({ source, input });
+      });
+    }
+    return { records, errors };
+  },
+};
+
+// ==================== CSV ====================
+
+/**
+ * 解析CSV（RFC 4180）：支持引号内的逗号、换行和 "" 转义，自动识别逗号/分号/制表符分隔
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', '\t', ';']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// 常见表头与字段的对应关系，用于自动猜测列映射
+const CSV_HEADER_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  text: ['text', 'content', 'body', 'note', '内容', '正文', '笔记'],
+  title: ['title', 'subject', '标题'],
+  created_at: ['created_at', 'created', 'date', 'time', 'timestamp', '创建时间', '时间', '日期'],
+  tags: ['tags', 'tag', 'labels', '标签'],
+  type_hint: ['type', 'type_hint', 'category', '类型', '分类'],
+  project_tag: ['project', 'project_tag', '项目'],
+  status: ['status', 'state', '状态'],
+  url: ['url', 'link', '链接'],
+};
+
+export function guessCsvMapping(headers: string[]): CsvColumnMapping | undefined {
+  const mapping: Partial<CsvColumnMapping> = {};
+  for (const [field, aliases] of Object.entries(CSV_HEADER_ALIASES) as Array<[keyof CsvColumnMapping, string[]]>) {
+    const header = headers.find(item => aliases.includes(item.trim().toLowerCase()));
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping.text ? mapping as CsvColumnMapping : undefined;
+}
+
+const csvImporter: NoteImporter = {
+  format: 'csv',
+  name: 'CSV表格',
+  extensions: ['.csv', '.tsv'],
+  parse(files, options) {
+    const records: ImportRecord[] = [];
+    const errors: ImportError[] = [];
+    let csvHeaders: string[] | undefined;
+    let csvMapping: CsvColumnMapping | undefined;
+
+    for (const file of files) {
+      const [headers, ...rows] = parseCsv(file.content);
+      if (!headers || headers.every(header => header.trim() === '')) {
+        errors.push({ source: file.name, message: '文件为空' });
+        continue;
+      }
+
+      csvHeaders = headers;
+      csvMapping = options.csvMapping || guessCsvMapping(headers);
+      if (!csvMapping) {
+        errors.push({ source: file.name, message: '请选择作为内容的列' });
+        continue;
+      }
+
+      const mapping = csvMapping;
+      const columnIndex = (field: keyof CsvColumnMapping) => (mapping[field] ? headers.indexOf(mapping[field]!) : -1);
+      const cell = (cells: string[], field: keyof CsvColumnMapping) => {
+        const index = columnIndex(field);
+        return index >= 0 ? (cells[index] || '').trim() : '';
+      };
+
+      if (columnIndex('text') < 0) {
+        errors.push({ source: file.name, message: `找不到列"${mapping.text}"` });
+        continue;
+      }
+
+      rows.forEach((cells, index) => {
+        // 跳过空行
+        if (cells.every(value => value.trim() === '')) {
+          return;
+        }
+        // 表头为第1行
+        const source = `${file.name} 第${index + 2}行`;
+        const title = cell(cells, 'title');
+        const body = cell(cells, 'text');
+        const text = title && body ? `${title}\n\n${body}` : title || body;
+        if (!text) {
+          errors.push({ source, message: '内容为空' });
+          return;
+        }
+
+        const createdAtText = cell(cells, 'created_at');
+        const created_at = parseImportDate(createdAtText);
+        if (createdAtText && !created_at) {
+          errors.push({ source, message: `无效的日期：${createdAtText}` });
+          return;
+        }
+
+        const tags = cell(cells, 'tags');
+        records.push({
+          source,
+          input: {
+            text,
+            created_at,
+            tags: tags ? splitTags(tags) : undefined,
+            type_hint: cell(cells, 'type_hint') || undefined,
+            project_tag: cell(cells, 'project_tag') || undefined,
+            status: cell(cells, 'status') || undefined,
+            context: { url: cell(cells, 'url') || undefined },
+          },
+        });
+      });
+    }
+    return { records, errors, csvHeaders, csvMapping };
+  },
+};
+
+// ==================== Evernote ENEX ====================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? whole;
+  });
+}
+
+// 取出元素内容，兼容CDATA
+function getXmlElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  if (!match) {
+    return undefined;
+  }
+  const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return cdata ? cdata[1] : decodeXmlEntities(match[1]);
+}
+
+/**
+ * 将Evernote的ENML正文转换为纯文本，保留段落、换行、列表和待办勾选框
+ */
+export function enmlToText(enml: string): string {
+  return decodeXmlEntities(
+    enml
+      .replace(/<\?xml[^>]*>|<!DOCTYPE[^>]*>/gi, '')
+      .replace(/<en-todo[^>]*checked="true"[^>]*\/?>/gi, '[x] ')
+      .replace(/<en-todo[^>]*\/?>/gi, '[ ] ')
+      .replace(/<en-media[^>]*\/?>/gi, '')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li|h[1-6]|tr|blockquote|pre)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const enexImporter: NoteImporter = {
+  format: 'enex',
+  name: 'Evernote (.enex)',
+  extensions: ['.enex'],
+  parse(files) {
+    const records: ImportRecord[] = [];
+    const errors: ImportError[] = [];
+
+    for (const file of files) {
+      const notes = file.content.match(/<note>[\s\S]*?<\/note>/g) || [];
+      if (notes.length === 0) {
+        errors.push({ source: file.name, message: '没有找到笔记' });
+        continue;
+      }
+
+      notes.forEach((noteXml, index) => {
+        const title = getXmlElement(noteXml, 'title')?.trim() || '';
+        const source = `${file.name} 第${index + 1}条${title ? `（${title}）` : ''}`;
+        const body = enmlToText(getXmlElement(noteXml, 'content') || '');
+        const text = title && body ? `${title}\n\n${body}` : title || body;
+        if (!text) {
+          errors.push({ source, message: '内容为空' });
+          return;
+        }
+
+        const tags = Array.from(noteXml.matchAll(/<tag>([\s\S]*?)<\/tag>/g), match => decodeXmlEntities(match[1]).trim()).filter(Boolean);
+        records.push({
+          source,
+          input: {
+            text,
+            created_at: parseImportDate(getXmlElement(noteXml, 'created')),
+            tags: tags.length > 0 ? tags : undefined,
+            context: { url: getXmlElement(noteXml, 'source-url')?.trim() || undefined },
+          },
+        });
+      });
+    }
+    return { records, errors };
+  },
+};
+
+registerImporter(markdownImporter);
+registerImporter(jsonImporter);
+registerImporter(csvImporter);
+registerImporter(enexImporter);
@@ -1,4 +1,21 @@
 export * from './types';
 export * from './db';
+export * from './migrations';
 export * from './ai';
-export * from './context';
\ No newline at end of file
+export * from './aiErrors';
+export * from './providers';
+export * from './fixtures';
+export * from './digest';
+export * from './digestSchedule';
+export * from './embeddings';
+export * from './assistantActions';
+export * from './context';
+export * from './diff';
+export * from './dueDate';
+export * from './recurrence';
+export * from './links';
+export * from './attachments';
+export * from './vault';
+export * from './importers';
+export * from './backup';
+export * from './encryption';
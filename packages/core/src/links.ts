@@ -0,0 +1,45 @@
+// [[目标]] 或 [[目标|显示文字]]，目标可以是笔记标题或ID
+const WIKI_LINK_PATTERN = /\[\[([^\[\]|\n]+)(?:\|([^\[\]\n]*))?\]\]/g;
+
+/**
+ * 笔记标题：第一行非空文本，去掉Markdown标题符号
+ */
+export function getNoteTitle(text: string): string {
+  const firstLine = text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+  return firstLine.replace(/^#+\s*/, '').trim();
+}
+
+// 标题比较时忽略大小写和首尾空白
+export function normalizeLinkTarget(target: string): string {
+  return target.trim().toLowerCase();
+}
+
+/**
+ * 解析文本中的wiki链接目标，按出现顺序去重
+ */
+export function parseWikiLinks(text: string): string[] {
+  const targets: string[] = [];
+  const seen = new Set<string>();
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const target = match[1].trim();
+    const key = normalizeLinkTarget(target);
+    if (target && !seen.has(key)) {
+      seen.add(key);
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+/**
+ * 将指向 oldTarget 的链接改为指向 newTarget，保留显示文字
+ */
+export function renameWikiLinkTarget(text: string, oldTarget: string, newTarget: string): string {
+  const oldKey = normalizeLinkTarget(oldTarget);
+  return text.replace(WIKI_LINK_PATTERN, (whole, target: string, label?: string) => {
+    if (normalizeLinkTarget(target) !== oldKey) {
+      return whole;
+    }
+    return label !== undefined ? `[[${newTarget}|${label}]]` : `[[${newTarget}]]`;
+  });
+}
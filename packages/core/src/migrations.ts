@@ -0,0 +1,470 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getNoteTitle, normalizeLinkTarget, parseWikiLinks } from './links';
+
+// 迁移前备份的文件名前缀
+export const PRE_MIGRATION_BACKUP_PREFIX = 'pre-migration';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationOptions {
+  // 数据库文件路径，用于在迁移前备份
+  path: string;
+  // 迁移前备份的存放目录，默认与数据库文件放在一起
+  backupDir?: string;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  backupPath?: string;
+}
+
+// 迁移失败时抛出，携带失败的版本号和备份文件位置
+export class MigrationError extends Error {
+  version: number;
+  migrationName: string;
+  backupPath?: string;
+
+  constructor(migration: Migration, cause: unknown, backupPath?: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const backupHint = backupPath ? `，迁移前的数据库已备份到 ${backupPath}` : '';
+    super(`数据库迁移失败（v${migration.version} ${migration.name}）：${reason}${backupHint}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.backupPath = backupPath;
+  }
+}
+
+// 仅在列不存在时添加，替代以往吞掉异常的 ALTER TABLE
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
+}
+
+// 按版本号升序排列，已发布的迁移不可修改，只能追加新的迁移
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS notes (
+          id TEXT PRIMARY KEY,
+          text TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          app_name TEXT,
+          window_title TEXT,
+          url TEXT,
+          project_hint TEXT,
+          type_hint TEXT,
+          tags TEXT,
+          project_tag TEXT,
+          status TEXT DEFAULT 'new'
+        );
+      `);
+
+      // 早期版本的notes表缺少这些列
+      addColumnIfMissing(db, 'notes', 'tags', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'project_tag', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'status', "TEXT DEFAULT 'new'");
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS saved_digests (
+          id TEXT PRIMARY KEY,
+          date TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          saved_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS custom_tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          color TEXT,
+          created_at TEXT NOT NULL,
+          used_count INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_notes_project_hint ON notes(project_hint);
+        CREATE INDEX IF NOT EXISTS idx_notes_type_hint ON notes(type_hint);
+        CREATE INDEX IF NOT EXISTS idx_notes_app_name ON notes(app_name);
+        CREATE INDEX IF NOT EXISTS idx_notes_date_created ON notes(date(created_at));
+        CREATE INDEX IF NOT EXISTS idx_notes_composite ON notes(project_hint, created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_saved_digests_date ON saved_digests(date);
+        CREATE INDEX IF NOT EXISTS idx_saved_digests_saved_at ON saved_digests(saved_at DESC);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'notes_full_text_search',
+    up: (db) => {
+      // trigram分词器支持中文等无空格语言的子串匹配
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+          text,
+          window_title,
+          url,
+          tags,
+          content='notes',
+          content_rowid='rowid',
+          tokenize='trigram'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS notes_fts_ai AFTER INSERT ON notes BEGIN
+          INSERT INTO notes_fts(rowid, text, window_title, url, tags)
+          VALUES (new.rowid, new.text, new.window_title, new.url, new.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS notes_fts_ad AFTER DELETE ON notes BEGIN
+          INSERT INTO notes_fts(notes_fts, rowid, text, window_title, url, tags)
+          VALUES ('delete', old.rowid, old.text, old.window_title, old.url, old.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS notes_fts_au AFTER UPDATE ON notes BEGIN
+          INSERT INTO notes_fts(notes_fts, rowid, text, window_title, url, tags)
+          VALUES ('delete', old.rowid, old.text, old.window_title, old.url, old.tags);
+          INSERT INTO notes_fts(rowid, text, window_title, url, tags)
+          VALUES (new.rowid, new.text, new.window_title, new.url, new.tags);
+        END;
+
+        INSERT INTO notes_fts(notes_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'note_revisions',
+    up: (db) => {
+      // 每条修订保存被覆盖前的内容，以及是谁做的修改
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS note_revisions (
+          id TEXT PRIMARY KEY,
+          note_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          tags TEXT,
+          source TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_note_revisions_note ON note_revisions(note_id, created_at DESC);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'notes_soft_delete',
+    up: (db) => {
+      // deleted_at 非空表示笔记在回收站中
+      addColumnIfMissing(db, 'notes', 'deleted_at', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at);`);
+    },
+  },
+  {
+    version: 5,
+    name: 'todo_due_dates',
+    up: (db) => {
+      // reminded_at 记录提醒已发出的时间，避免重复通知
+      addColumnIfMissing(db, 'notes', 'due_at', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'priority', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'remind_at', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'reminded_at', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_notes_due_at ON notes(due_at);
+        CREATE INDEX IF NOT EXISTS idx_notes_remind_at ON notes(remind_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'recurring_todos',
+    up: (db) => {
+      // recurrence_parent_id 指向生成本条的上一次待办，用于避免重复生成下一次
+      addColumnIfMissing(db, 'notes', 'recurrence', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'recurrence_parent_id', 'TEXT');
+      addColumnIfMissing(db, 'notes', 'recurrence_index', 'INTEGER DEFAULT 0');
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_notes_recurrence_parent ON notes(recurrence_parent_id);`);
+    },
+  },
+  {
+    version: 7,
+    name: 'note_links',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS note_links (
+          source_id TEXT NOT NULL,
+          target_id TEXT,
+          target_text TEXT NOT NULL,
+          PRIMARY KEY (source_id, target_text)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(target_id);
+      `);
+
+      // 为已有笔记中的 [[链接]] 建立索引，同名标题指向最新的笔记
+      const notes = db.prepare(
+        'SELECT id, text FROM notes WHERE deleted_at IS NULL ORDER BY created_at ASC'
+      ).all() as { id: string; text: string }[];
+      const ids = new Set(notes.map(note => note.id));
+      const titles = new Map<string, string>();
+      for (const note of notes) {
+        titles.set(normalizeLinkTarget(getNoteTitle(note.text)), note.id);
+      }
+
+      const insert = db.prepare('INSERT OR IGNORE INTO note_links (source_id, target_id, target_text) VALUES (?, ?, ?)');
+      for (const note of notes) {
+        for (const target of parseWikiLinks(note.text)) {
+          const targetId = ids.has(target) ? target : titles.get(normalizeLinkTarget(target));
+          insert.run(note.id, targetId && targetId !== note.id ? targetId : null, target);
+        }
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'attachments',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS attachments (
+          id TEXT PRIMARY KEY,
+          note_id TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_attachments_note ON attachments(note_id);
+        CREATE INDEX IF NOT EXISTS idx_attachments_hash ON attachments(hash);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'vault_files',
+    up: (db) => {
+      // 记录每条笔记在Markdown目录中的文件名及上次同步时的内容哈希，用于判断哪一侧发生了修改
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS vault_files (
+          note_id TEXT PRIMARY KEY,
+          file_name TEXT NOT NULL,
+          synced_hash TEXT NOT NULL,
+          synced_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_vault_files_name ON vault_files(file_name);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'structured_digests',
+    up: (db) => {
+      // overview 为空表示早期只保存了Markdown的总结；position 保持模型输出的顺序
+      addColumnIfMissing(db, 'saved_digests', 'overview', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS digest_projects (
+          id TEXT PRIMARY KEY,
+          digest_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          progress TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS digest_project_items (
+          project_id TEXT NOT NULL,
+          kind TEXT NOT NULL CHECK (kind IN ('issue', 'idea')),
+          position INTEGER NOT NULL,
+          text TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS digest_todos (
+          digest_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          project TEXT,
+          priority TEXT,
+          note_id TEXT,
+          PRIMARY KEY (digest_id, position)
+        );
+
+        CREATE TABLE IF NOT EXISTS digest_reflections (
+          digest_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          PRIMARY KEY (digest_id, position)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_digest_projects_digest ON digest_projects(digest_id, position);
+        CREATE INDEX IF NOT EXISTS idx_digest_project_items_project ON digest_project_items(project_id, kind, position);
+        CREATE INDEX IF NOT EXISTS idx_digest_todos_note ON digest_todos(note_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'digest_periods',
+    up: (db) => {
+      // 已有的总结都是每日总结，范围即当天
+      addColumnIfMissing(db, 'saved_digests', 'granularity', "TEXT NOT NULL DEFAULT 'day'");
+      addColumnIfMissing(db, 'saved_digests', 'range_start', 'TEXT');
+      addColumnIfMissing(db, 'saved_digests', 'range_end', 'TEXT');
+      db.exec(`
+        UPDATE saved_digests SET range_start = date, range_end = date WHERE range_start IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_saved_digests_granularity ON saved_digests(granularity, date);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'note_embeddings',
+    up: (db) => {
+      // 每条笔记保存一个向量；content_hash 对应计算向量时的文本，文本变化或更换模型后重新计算
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS note_embeddings (
+          note_id TEXT PRIMARY KEY,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          vector BLOB NOT NULL,
+          content_hash TEXT NOT NULL,
+          embedded_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_note_embeddings_model ON note_embeddings(model);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'assistant_conversations',
+    up: (db) => {
+      // summary 是较早消息的摘要，覆盖按 position 排列的前 summarized_count 条消息；
+      // data 以JSON保存消息的引用、操作和执行结果等附加信息
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS assistant_conversations (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          summary TEXT,
+          summarized_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS assistant_messages (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          data TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_assistant_conversations_updated ON assistant_conversations(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_assistant_messages_conversation ON assistant_messages(conversation_id, position);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 获取数据库当前的schema版本，未记录过版本时为0
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version || 0;
+}
+
+// 依次执行尚未应用的迁移，每个迁移在独立事务中运行
+export function runMigrations(db: Database.Database, options: MigrationOptions): MigrationResult {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const fromVersion = getSchemaVersion(db);
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`数据库版本 v${fromVersion} 高于当前应用支持的 v${LATEST_SCHEMA_VERSION}，请升级 Flowpad 后再打开`);
+  }
+
+  const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  const backupPath = backupBeforeMigration(db, options, fromVersion);
+  const recordVersion = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+  const applied: string[] = [];
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      recordVersion.run(migration.version, migration.name, new Date().toISOString());
+    });
+
+    try {
+      apply();
+    } catch (error) {
+      throw new MigrationError(migration, error, backupPath);
+    }
+
+    applied.push(`v${migration.version} ${migration.name}`);
+    console.log(`数据库迁移完成：v${migration.version} ${migration.name}`);
+  }
+
+  return { fromVersion, toVersion: LATEST_SCHEMA_VERSION, applied, backupPath };
+}
+
+// 已有数据的数据库在迁移前先备份，全新数据库无需备份
+function backupBeforeMigration(db: Database.Database, options: MigrationOptions, fromVersion: number): string | undefined {
+  if (options.path === ':memory:' || db.memory) {
+    return undefined;
+  }
+
+  const hasUserTables = db.prepare(
+    "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_version') AND name NOT LIKE 'sqlite_%'"
+  ).get() as { count: number };
+  if (hasUserTables.count === 0) {
+    return undefined;
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  // 放在备份目录时使用与定期快照相同的命名，便于统一管理
+  const backupPath = options.backupDir
+    ? path.join(options.backupDir, `${PRE_MIGRATION_BACKUP_PREFIX}-v${fromVersion}-${timestamp}.db`)
+    : `${options.path}.v${fromVersion}-${timestamp}.bak`;
+
+  try {
+    if (options.backupDir) {
+      fs.mkdirSync(options.backupDir, { recursive: true });
+    }
+    // VACUUM INTO 同步生成一致的数据库副本
+    db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`迁移前备份数据库失败，已取消迁移：${reason}`);
+  }
+
+  console.log(`数据库迁移前已备份到: ${backupPath}`);
+  return backupPath;
+}
@@ -0,0 +1,775 @@
+import { AIConfig, AIProviderInfo, ChatRequest, EmbeddingRequest, ToolChatMessage, ToolChatRequest, ToolChatResponse, ToolDefinition } from './types';
+import { AICancelledError, AIErrorKind, AIRequestError } from './aiErrors';
+
+/**
+ * AI服务：声明信息加上对话接口的实现
+ *
+ * 新增服务时实现此接口并调用 registerAIProvider，AIService 和设置页不需要修改
+ */
+export interface AIProvider extends AIProviderInfo {
+  chat(request: ChatRequest, config: AIConfig): Promise<string>;
+  /**
+   * 流式对话，每收到一段增量文本调用一次 onDelta
+   * @returns 完整的响应文本；未实现时调用方退回 chat
+   */
+  stream?(request: ChatRequest, config: AIConfig, onDelta: (delta: string) => void): Promise<string>;
+  /**
+   * 计算一批文本的向量，返回顺序与 input 一致
+   * 仅 capabilities.embeddings 为 true 的服务实现
+   */
+  embed?(request: EmbeddingRequest, config: AIConfig): Promise<number[][]>;
+  /**
+   * 使用服务原生的工具调用接口对话，返回模型的回答或要调用的工具
+   * 未实现时调用方退回由提示词约束的JSON格式
+   */
+  chatWithTools?(request: ToolChatRequest, config: AIConfig): Promise<ToolChatResponse>;
+}
+
+const providers = new Map<string, AIProvider>();
+
+export function registerAIProvider(provider: AIProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getAIProvider(id: string): AIProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`不支持的AI服务：${id}`);
+  }
+  return provider;
+}
+
+export function getAIProviders(): AIProvider[] {
+  return Array.from(providers.values());
+}
+
+// 未声明上下文窗口时按较小的窗口估算，宁可多分段
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function getModelContextWindow(provider: AIProviderInfo, model: string): number {
+  return provider.models.find(item => item.id === model)?.contextWindow
+    ?? provider.contextWindow
+    ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// 只保留可序列化的声明信息，用于通过IPC传给界面
+export function getAIProviderInfo(provider: AIProvider): AIProviderInfo {
+  const { chat: _chat, stream: _stream, embed: _embed, chatWithTools: _chatWithTools, ...info } = provider;
+  return info;
+}
+
+// ==================== 通用工具 ====================
+
+/**
+ * 读取服务声明的配置项，未填写时使用默认值
+ * @throws 必填项为空时
+ */
+function getOption(provider: AIProviderInfo, config: AIConfig, key: string): string {
+  const field = provider.fields.find(item => item.key === key);
+  const value = (config.options?.[key] || field?.default || '').trim();
+  if (!value && field?.required) {
+    throw new Error(`${provider.name}缺少配置：${field.label}`);
+  }
+  return value;
+}
+
+function requireApiKey(provider: AIProviderInfo, config: AIConfig): string {
+  if (!config.api_key) {
+    throw new Error(`${provider.name}需要API密钥`);
+  }
+  return config.api_key;
+}
+
+// 发送请求时用到的超时、重试和取消设置，对话和向量请求共用
+type RequestOptions = Pick<ChatRequest, 'signal' | 'timeoutMs' | 'maxRetries'>;
+
+function joinUrl(baseUrl: string, pathName: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${pathName}`;
+}
+
+// 等待响应或两段流式数据之间的最长时间
+export const DEFAULT_AI_TIMEOUT_MS = 60 * 1000;
+// 限流、服务端错误和网络错误的默认重试次数
+export const DEFAULT_AI_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+// 超过此时间的 Retry-After 不再等待，直接报错
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+const MAX_ERROR_DETAIL_LENGTH = 200;
+
+/**
+ * 单次请求的超时控制：超过时限没有收到响应或新数据时中止，
+ * 调用方取消时也一并中止
+ */
+class RequestDeadline {
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onParentAbort = () => this.controller.abort();
+  readonly signal = this.controller.signal;
+  timedOut = false;
+
+  constructor(readonly timeoutMs: number, private parent?: AbortSignal) {
+    if (parent?.aborted) {
+      this.controller.abort();
+    }
+    parent?.addEventListener('abort', this.onParentAbort);
+    this.touch();
+  }
+
+  // 收到数据后重新计时，流式响应只要持续有输出就不会超时
+  touch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+}
+
+// 秒数或HTTP日期两种格式
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 各服务的错误响应格式不同，尽量取出其中的说明文字
+async function readErrorDetail(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  let detail = text;
+  try {
+    const data = JSON.parse(text);
+    detail = data.error?.message || data.message || (typeof data.error === 'string' ? data.error : '') || text;
+  } catch {
+    // 不是JSON时使用原文
+  }
+  return detail.trim().slice(0, MAX_ERROR_DETAIL_LENGTH);
+}
+
+async function createResponseError(response: Response, label: string): Promise<AIRequestError> {
+  const { status } = response;
+  const detail = await readErrorDetail(response) || response.statusText;
+  let kind: AIErrorKind;
+  if (status === 401 || status === 403) {
+    kind = 'auth';
+  } else if (status === 402 || (status === 429 && /quota|billing|balance|额度|欠费/i.test(detail))) {
+    kind = 'quota';
+  } else if (status === 429) {
+    kind = 'rate_limit';
+  } else if (status >= 500) {
+    kind = 'server';
+  } else {
+    kind = 'invalid_request';
+  }
+  return new AIRequestError(kind, label, { status, detail, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+}
+
+// fetch 的网络错误是 TypeError，中止则按取消或超时处理；其他错误（如服务返回的错误事件）原样抛出
+function toRequestError(error: unknown, deadline: RequestDeadline, request: RequestOptions, label: string): unknown {
+  if (request.signal?.aborted) {
+    return new AICancelledError();
+  }
+  if (deadline.timedOut) {
+    return new AIRequestError('timeout', label, { detail: `${Math.round(deadline.timeoutMs / 1000)}秒` });
+  }
+  if (error instanceof TypeError) {
+    const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+    return new AIRequestError('network', label, { detail: cause?.code || cause?.message || error.message });
+  }
+  return error;
+}
+
+/**
+ * 计算重试前的等待时间，不应重试时返回 null
+ *
+ * 优先遵循服务端的 Retry-After，否则按指数退避并加入随机抖动，避免多个请求同时重试
+ */
+function getRetryDelay(error: unknown, attempt: number): number | null {
+  if (!(error instanceof AIRequestError) || !error.retryable) {
+    return null;
+  }
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_DELAY_MS ? error.retryAfterMs : null;
+  }
+  const delay = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AICancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AICancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 发送POST请求并用 read 读取响应，带超时、取消和失败重试
+ *
+ * 开始读取响应后不再重试，避免流式输出重复
+ * @throws AIRequestError 请求失败时；AICancelledError 调用方取消时
+ */
+async function send<T>(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  request: RequestOptions,
+  read: (response: Response, deadline: RequestDeadline) => Promise<T>
+): Promise<T> {
+  const maxRetries = request.maxRetries ?? DEFAULT_AI_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const deadline = new RequestDeadline(request.timeoutMs ?? DEFAULT_AI_TIMEOUT_MS, request.signal);
+    let reading = false;
+    let retryDelay: number | null = null;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(body),
+          signal: deadline.signal,
+        });
+      } catch (error) {
+        throw toRequestError(error, deadline, request, label);
+      }
+
+      if (!response.ok) {
+        throw await createResponseError(response, label);
+      }
+
+      reading = true;
+      try {
+        return await read(response, deadline);
+      } catch (error) {
+        throw toRequestError(error, deadline, request, label);
+      }
+    } catch (error) {
+      retryDelay = !reading && attempt < maxRetries ? getRetryDelay(error, attempt) : null;
+      if (retryDelay === null) {
+        throw error;
+      }
+    } finally {
+      deadline.dispose();
+    }
+
+    await sleep(retryDelay, request.signal);
+  }
+}
+
+function postJson(url: string, headers: Record<string, string>, body: unknown, label: string, request: RequestOptions): Promise<any> {
+  return send(url, headers, body, label, request, response => response.json());
+}
+
+// 逐行读取响应体，最后一行没有换行符时也会处理
+async function readLines(response: Response, deadline: RequestDeadline, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      deadline.touch();
+      buffer += decoder.decode(value, { stream: true });
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        onLine(buffer.slice(0, index).replace(/\r$/, ''));
+        buffer = buffer.slice(index + 1);
+      }
+    }
+  } catch (error) {
+    // 解析出错时关闭连接，不再继续接收
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+  buffer += decoder.decode();
+  if (buffer) {
+    onLine(buffer.replace(/\r$/, ''));
+  }
+}
+
+// 解析 Server-Sent Events，每个事件回调一次 data 内容（多行 data 以换行拼接）
+async function readServerSentEvents(response: Response, deadline: RequestDeadline, onEvent: (data: string) => void): Promise<void> {
+  let dataLines: string[] = [];
+  const flush = () => {
+    if (dataLines.length > 0) {
+      onEvent(dataLines.join('\n'));
+      dataLines = [];
+    }
+  };
+
+  await readLines(response, deadline, line => {
+    if (line === '') {
+      flush();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+  flush();
+}
+
+function postServerSentEvents(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  request: ChatRequest,
+  onEvent: (data: string) => void
+): Promise<void> {
+  return send(url, headers, body, label, request, (response, deadline) => readServerSentEvents(response, deadline, onEvent));
+}
+
+// 累积增量文本并转发给 onDelta，返回完整文本
+async function collectDeltas(
+  read: (emit: (delta: string | undefined) => void) => Promise<void>,
+  onDelta: (delta: string) => void
+): Promise<string> {
+  let text = '';
+  await read(delta => {
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+  });
+  return text;
+}
+
+function buildChatCompletionsBody(request: ChatRequest): Record<string, unknown> {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 2000,
+    ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+  };
+}
+
+// OpenAI Chat Completions 格式，OpenAI、Azure和各类兼容服务共用
+async function callChatCompletions(
+  url: string,
+  headers: Record<string, string>,
+  request: ChatRequest,
+  label: string
+): Promise<string> {
+  const data = await postJson(url, headers, buildChatCompletionsBody(request), label, request);
+  return data.choices?.[0]?.message?.content || '';
+}
+
+async function streamChatCompletions(
+  url: string,
+  headers: Record<string, string>,
+  request: ChatRequest,
+  label: string,
+  onDelta: (delta: string) => void
+): Promise<string> {
+  const body = { ...buildChatCompletionsBody(request), stream: true };
+  return collectDeltas(emit => postServerSentEvents(url, headers, body, label, request, data => {
+    if (data === '[DONE]') {
+      return;
+    }
+    emit(JSON.parse(data).choices?.[0]?.delta?.content);
+  }), onDelta);
+}
+
+// 工具调用对话的消息转为 OpenAI 格式，千问的 function call 使用相同的格式
+function toOpenAIToolMessages(messages: ToolChatMessage[]): unknown[] {
+  return messages.map(message => {
+    if ('tool_calls' in message) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.tool_calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return message;
+  });
+}
+
+function toOpenAITools(tools: ToolDefinition[]): unknown[] {
+  return tools.map(tool => ({ type: 'function', function: tool }));
+}
+
+// 解析 OpenAI 格式的回复消息，没有返回调用ID时按顺序补上
+function parseOpenAIToolMessage(message: any): ToolChatResponse {
+  const calls: any[] = Array.isArray(message?.tool_calls) ? message.tool_calls : [];
+  return {
+    content: message?.content || '',
+    tool_calls: calls.map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name || '',
+      arguments: typeof call.function?.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function?.arguments ?? {}),
+    })),
+  };
+}
+
+async function callChatCompletionsWithTools(
+  url: string,
+  headers: Record<string, string>,
+  request: ToolChatRequest,
+  label: string
+): Promise<ToolChatResponse> {
+  const body = {
+    model: request.model,
+    messages: toOpenAIToolMessages(request.messages),
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 2000,
+    ...(request.tools.length > 0 ? { tools: toOpenAITools(request.tools) } : {}),
+  };
+  const data = await postJson(url, headers, body, label, request);
+  return parseOpenAIToolMessage(data.choices?.[0]?.message);
+}
+
+// OpenAI Embeddings 格式，按 index 排序后返回向量
+async function callEmbeddings(
+  url: string,
+  headers: Record<string, string>,
+  request: EmbeddingRequest,
+  label: string
+): Promise<number[][]> {
+  const data = await postJson(url, headers, { model: request.model, input: request.input }, label, request);
+  return [...(data.data || [])]
+    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+    .map((item: { embedding: number[] }) => item.embedding);
+}
+
+// ==================== 内置服务 ====================
+
+const QWEN_GENERATION_URL = 'https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation';
+
+function buildQwenBody(request: ChatRequest) {
+  return {
+    model: request.model,
+    input: { messages: request.messages },
+    parameters: {
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      result_format: 'message',
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    } as Record<string, unknown>,
+  };
+}
+
+// 千问的 function call 只支持 result_format 为 message 的非流式调用
+function buildQwenToolBody(request: ToolChatRequest) {
+  return {
+    model: request.model,
+    input: { messages: toOpenAIToolMessages(request.messages) },
+    parameters: {
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      result_format: 'message',
+      ...(request.tools.length > 0 ? { tools: toOpenAITools(request.tools) } : {}),
+    },
+  };
+}
+
+// Messages API 的系统提示单独传递
+function buildAnthropicBody(request: ChatRequest): Record<string, unknown> {
+  const system = request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+  const messages = request.messages.filter(message => message.role !== 'system');
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens ?? 2000,
+    temperature: request.temperature ?? 0.7,
+    ...(system ? { system } : {}),
+    messages,
+  };
+}
+
+function buildOllamaBody(request: ChatRequest, stream: boolean): Record<string, unknown> {
+  return {
+    model: request.model,
+    messages: request.messages,
+    stream,
+    ...(request.jsonMode ? { format: 'json' } : {}),
+    options: {
+      temperature: request.temperature ?? 0.7,
+      num_predict: request.maxTokens ?? 2000,
+    },
+  };
+}
+
+registerAIProvider({
+  id: 'qwen',
+  name: '阿里千问',
+  description: '强大功能，中文优化',
+  apiKey: 'required',
+  apiKeyPlaceholder: '请输入阿里云API密钥',
+  apiKeyEnv: 'QWEN_API_KEY',
+  defaultModel: 'qwen-max',
+  models: [
+    { id: 'qwen-max', name: 'Qwen Max', contextWindow: 32768 },
+    { id: 'qwen-plus', name: 'Qwen Plus', contextWindow: 131072 },
+    { id: 'qwen-turbo', name: 'Qwen Turbo', contextWindow: 1000000 },
+  ],
+  contextWindow: 32768,
+  fields: [],
+  capabilities: { streaming: true, jsonMode: true, toolCalling: true, embeddings: true },
+  defaultEmbeddingModel: 'text-embedding-v3',
+  async chat(request, config) {
+    const data = await postJson(QWEN_GENERATION_URL, {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+      'X-DashScope-SSE': 'disable',
+    }, buildQwenBody(request), 'Qwen', request);
+    return data.output?.choices?.[0]?.message?.content || '';
+  },
+  async stream(request, config, onDelta) {
+    // incremental_output 让每个事件只包含新增内容
+    const body = buildQwenBody(request);
+    const headers = {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+      'X-DashScope-SSE': 'enable',
+    };
+    const streamBody = { ...body, parameters: { ...body.parameters, incremental_output: true } };
+    return collectDeltas(emit => postServerSentEvents(QWEN_GENERATION_URL, headers, streamBody, 'Qwen', request, data => {
+      emit(JSON.parse(data).output?.choices?.[0]?.message?.content);
+    }), onDelta);
+  },
+  async chatWithTools(request, config) {
+    const data = await postJson(QWEN_GENERATION_URL, {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+      'X-DashScope-SSE': 'disable',
+    }, buildQwenToolBody(request), 'Qwen', request);
+    return parseOpenAIToolMessage(data.output?.choices?.[0]?.message);
+  },
+  async embed(request, config) {
+    // 向量接口使用DashScope的OpenAI兼容模式
+    return callEmbeddings('https://dashscope.aliyuncs.com/compatible-mode/v1/embeddings', {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+    }, request, 'Qwen');
+  },
+});
+
+registerAIProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  description: '功能强大，英文优先',
+  apiKey: 'required',
+  apiKeyPlaceholder: '请输入OpenAI API密钥',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  defaultModel: 'gpt-4',
+  models: [
+    { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000 },
+    { id: 'gpt-4o-mini', name: 'GPT-4o mini', contextWindow: 128000 },
+    { id: 'gpt-4', name: 'GPT-4', contextWindow: 8192 },
+  ],
+  contextWindow: 128000,
+  fields: [],
+  capabilities: { streaming: true, jsonMode: true, toolCalling: true, embeddings: true },
+  defaultEmbeddingModel: 'text-embedding-3-small',
+  async chat(request, config) {
+    return callChatCompletions('https://api.openai.com/v1/chat/completions', {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+    }, request, 'OpenAI');
+  },
+  async stream(request, config, onDelta) {
+    return streamChatCompletions('https://api.openai.com/v1/chat/completions', {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+    }, request, 'OpenAI', onDelta);
+  },
+  async chatWithTools(request, config) {
+    return callChatCompletionsWithTools('https://api.openai.com/v1/chat/completions', {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+    }, request, 'OpenAI');
+  },
+  async embed(request, config) {
+    return callEmbeddings('https://api.openai.com/v1/embeddings', {
+      'Authorization': `Bearer ${requireApiKey(this, config)}`,
+    }, request, 'OpenAI');
+  },
+});
+
+registerAIProvider({
+  id: 'anthropic',
+  name: 'Anthropic',
+  description: 'Claude系列模型，擅长长文本',
+  apiKey: 'required',
+  apiKeyPlaceholder: '请输入Anthropic API密钥',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  defaultModel: 'claude-sonnet-4-5',
+  models: [
+    { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5' },
+    { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5' },
+    { id: 'claude-opus-4-1', name: 'Claude Opus 4.1' },
+  ],
+  contextWindow: 200000,
+  fields: [],
+  capabilities: { streaming: true, jsonMode: false, toolCalling: false, embeddings: false },
+  async chat(request, config) {
+    const data = await postJson('https://api.anthropic.com/v1/messages', {
+      'x-api-key': requireApiKey(this, config),
+      'anthropic-version': '2023-06-01',
+    }, buildAnthropicBody(request), 'Anthropic', request);
+    return (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+  },
+  async stream(request, config, onDelta) {
+    const headers = {
+      'x-api-key': requireApiKey(this, config),
+      'anthropic-version': '2023-06-01',
+    };
+    const body = { ...buildAnthropicBody(request), stream: true };
+    return collectDeltas(emit => postServerSentEvents('https://api.anthropic.com/v1/messages', headers, body, 'Anthropic', request, data => {
+      const event = JSON.parse(data);
+      if (event.type === 'error') {
+        // 流式过程中的过载等错误以事件形式返回
+        throw new AIRequestError(event.error?.type === 'overloaded_error' ? 'server' : 'invalid_request', 'Anthropic', { detail: event.error?.message });
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        emit(event.delta.text);
+      }
+    }), onDelta);
+  },
+});
+
+// Azure 按部署名称路由，模型一栏填写部署名称
+function getAzureUrl(provider: AIProviderInfo, config: AIConfig, deployment: string, operation = 'chat/completions'): string {
+  const endpoint = getOption(provider, config, 'endpoint');
+  const apiVersion = getOption(provider, config, 'api_version');
+  return joinUrl(endpoint, `/openai/deployments/${encodeURIComponent(deployment)}/${operation}?api-version=${encodeURIComponent(apiVersion)}`);
+}
+
+registerAIProvider({
+  id: 'azure-openai',
+  name: 'Azure OpenAI',
+  description: '通过Azure部署的OpenAI模型',
+  apiKey: 'required',
+  apiKeyPlaceholder: '请输入Azure资源密钥',
+  defaultModel: 'gpt-4o',
+  models: [],
+  fields: [
+    { key: 'endpoint', label: '资源地址', type: 'url', required: true, placeholder: 'https://your-resource.openai.azure.com' },
+    { key: 'api_version', label: 'API版本', type: 'text', default: '2024-06-01' },
+  ],
+  capabilities: { streaming: true, jsonMode: true, toolCalling: true, embeddings: true },
+  defaultEmbeddingModel: 'text-embedding-3-small',
+  async chat(request, config) {
+    return callChatCompletions(getAzureUrl(this, config, request.model), { 'api-key': requireApiKey(this, config) }, request, 'Azure OpenAI');
+  },
+  async stream(request, config, onDelta) {
+    return streamChatCompletions(getAzureUrl(this, config, request.model), { 'api-key': requireApiKey(this, config) }, request, 'Azure OpenAI', onDelta);
+  },
+  async chatWithTools(request, config) {
+    return callChatCompletionsWithTools(getAzureUrl(this, config, request.model), { 'api-key': requireApiKey(this, config) }, request, 'Azure OpenAI');
+  },
+  async embed(request, config) {
+    // 向量模型同样按部署名称调用
+    return callEmbeddings(getAzureUrl(this, config, request.model, 'embeddings'), { 'api-key': requireApiKey(this, config) }, request, 'Azure OpenAI');
+  },
+});
+
+registerAIProvider({
+  id: 'openai-compatible',
+  name: 'OpenAI兼容接口',
+  description: 'LM Studio、vLLM等兼容OpenAI的服务',
+  apiKey: 'optional',
+  apiKeyPlaceholder: '服务需要时填写',
+  defaultModel: 'default',
+  models: [],
+  fields: [
+    {
+      key: 'base_url',
+      label: '接口地址',
+      type: 'url',
+      required: true,
+      placeholder: 'http://localhost:1234/v1',
+      description: '填写到 /v1 为止，会自动拼接 /chat/completions',
+    },
+  ],
+  capabilities: { streaming: true, jsonMode: false, toolCalling: false, embeddings: false },
+  async chat(request, config) {
+    const url = joinUrl(getOption(this, config, 'base_url'), '/chat/completions');
+    const headers: Record<string, string> = config.api_key ? { 'Authorization': `Bearer ${config.api_key}` } : {};
+    return callChatCompletions(url, headers, request, 'OpenAI-compatible');
+  },
+  async stream(request, config, onDelta) {
+    const url = joinUrl(getOption(this, config, 'base_url'), '/chat/completions');
+    const headers: Record<string, string> = config.api_key ? { 'Authorization': `Bearer ${config.api_key}` } : {};
+    return streamChatCompletions(url, headers, request, 'OpenAI-compatible', onDelta);
+  },
+});
+
+registerAIProvider({
+  id: 'ollama',
+  name: 'Ollama',
+  description: '本地运行的开源模型，数据不离开本机',
+  apiKey: 'none',
+  defaultModel: 'qwen2.5',
+  models: [
+    { id: 'qwen2.5', name: 'Qwen 2.5' },
+    { id: 'llama3.1', name: 'Llama 3.1' },
+    { id: 'mistral', name: 'Mistral' },
+  ],
+  // Ollama 默认只分配较小的上下文，与模型本身支持的长度无关
+  contextWindow: 4096,
+  fields: [
+    { key: 'base_url', label: '服务地址', type: 'url', default: 'http://localhost:11434', placeholder: 'http://localhost:11434' },
+  ],
+  capabilities: { streaming: true, jsonMode: true, toolCalling: false, embeddings: true },
+  // 多语言向量模型，需先 ollama pull bge-m3
+  defaultEmbeddingModel: 'bge-m3',
+  async chat(request, config) {
+    const url = joinUrl(getOption(this, config, 'base_url'), '/api/chat');
+    const data = await postJson(url, {}, buildOllamaBody(request, false), 'Ollama', request);
+    return data.message?.content || '';
+  },
+  async stream(request, config, onDelta) {
+    // Ollama 的流式响应是逐行JSON而不是SSE
+    const url = joinUrl(getOption(this, config, 'base_url'), '/api/chat');
+    return collectDeltas(emit => send(url, {}, buildOllamaBody(request, true), 'Ollama', request, (response, deadline) => readLines(response, deadline, line => {
+      if (!line.trim()) {
+        return;
+      }
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new AIRequestError('invalid_request', 'Ollama', { detail: chunk.error });
+      }
+      emit(chunk.message?.content);
+    })), onDelta);
+  },
+  async embed(request, config) {
+    const url = joinUrl(getOption(this, config, 'base_url'), '/api/embed');
+    const data = await postJson(url, {}, { model: request.model, input: request.input }, 'Ollama', request);
+    return data.embeddings || [];
+  },
+});
@@ -0,0 +1,270 @@
+import { RecurrenceFrequency, RecurrenceRule } from './types';
+
+// RRULE中的星期缩写，下标与 Date.getDay() 一致
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['日', '一', '二', '三', '四', '五', '六'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// 查找下一次重复时最多向后搜索的周期数，避免无效规则导致死循环
+const MAX_SEARCH_PERIODS = 500;
+
+// 重复规则格式不正确或使用了不支持的部分时抛出
+export class RecurrenceRuleError extends Error {
+  rule: string;
+
+  constructor(rule: string, reason: string) {
+    super(`无效的重复规则 "${rule}"：${reason}`);
+    this.name = 'RecurrenceRuleError';
+    this.rule = rule;
+  }
+}
+
+function parsePositiveInteger(value: string, rule: string, part: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new RecurrenceRuleError(rule, `${part} 必须是正整数`);
+  }
+  return parseInt(value, 10);
+}
+
+// 解析 UNTIL，支持 RFC 5545 的 20261231 / 20261231T235959Z 以及ISO格式
+function parseUntil(value: string, rule: string): string {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  let date: Date;
+  if (compact) {
+    const [, year, month, day, hour, minute, second, utc] = compact;
+    const parts = [
+      parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10),
+      hour ? parseInt(hour, 10) : 23, minute ? parseInt(minute, 10) : 59, second ? parseInt(second, 10) : 59,
+    ] as const;
+    date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  } else {
+    date = new Date(value);
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new RecurrenceRuleError(rule, 'UNTIL 不是有效的日期');
+  }
+  return date.toISOString();
+}
+
+/**
+ * 解析RFC 5545 RRULE的子集：FREQ、INTERVAL、BYDAY、BYMONTHDAY、COUNT、UNTIL
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const source = text.trim().replace(/^RRULE:/i, '');
+  if (!source) {
+    throw new RecurrenceRuleError(text, '规则为空');
+  }
+
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+  for (const segment of source.split(';').filter(Boolean)) {
+    const [rawKey, value] = segment.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    if (!key || value === undefined || value.trim() === '') {
+      throw new RecurrenceRuleError(text, `无法解析 "${segment}"`);
+    }
+    const normalized = value.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(normalized as RecurrenceFrequency)) {
+          throw new RecurrenceRuleError(text, `不支持的频率 ${normalized}`);
+        }
+        rule.freq = normalized as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInteger(normalized, text, 'INTERVAL');
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInteger(normalized, text, 'COUNT');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(normalized, text);
+        break;
+      case 'BYDAY':
+        rule.byDay = normalized.split(',').map(code => {
+          const index = WEEKDAY_CODES.indexOf(code.trim());
+          if (index === -1) {
+            // 不支持 1MO / -1FR 这类带序号的写法
+            throw new RecurrenceRuleError(text, `不支持的星期 ${code}`);
+          }
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = normalized.split(',').map(day => {
+          const value = parseInt(day, 10);
+          if (!/^-?\d+$/.test(day.trim()) || value === 0 || value < -31 || value > 31) {
+            throw new RecurrenceRuleError(text, `无效的日期 ${day}`);
+          }
+          return value;
+        });
+        break;
+      case 'WKST':
+        // 固定以周一为一周的开始，忽略该参数
+        break;
+      default:
+        throw new RecurrenceRuleError(text, `不支持的参数 ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new RecurrenceRuleError(text, '缺少 FREQ');
+  }
+  if (rule.count && rule.until) {
+    throw new RecurrenceRuleError(text, 'COUNT 和 UNTIL 不能同时使用');
+  }
+  if (rule.byDay && rule.freq !== 'WEEKLY') {
+    throw new RecurrenceRuleError(text, 'BYDAY 仅支持 FREQ=WEEKLY');
+  }
+  if (rule.byMonthDay && rule.freq !== 'MONTHLY') {
+    throw new RecurrenceRuleError(text, 'BYMONTHDAY 仅支持 FREQ=MONTHLY');
+  }
+
+  return rule as RecurrenceRule;
+}
+
+// 将规则序列化为规范的RRULE字符串
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+// 生成中文描述，如"每周一、三"、"每2周的周一、周三"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unitNames: Record<RecurrenceFrequency, string> = { DAILY: '天', WEEKLY: '周', MONTHLY: '月', YEARLY: '年' };
+  let text = rule.interval > 1 ? `每${rule.interval}${unitNames[rule.freq]}` : `每${unitNames[rule.freq]}`;
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const sorted = [...rule.byDay].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    const days = sorted.map(day => WEEKDAY_NAMES[day]);
+    // 每周一、四 / 每2周的周一、周四
+    text = rule.interval > 1
+      ? `${text}的${days.map(day => `周${day}`).join('、')}`
+      : `每周${days.join('、')}`;
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    text += rule.byMonthDay.map(day => (day < 0 ? (day === -1 ? '最后一天' : `倒数第${-day}天`) : `${day}日`)).join('、');
+  }
+  if (rule.count) {
+    text += `，共${rule.count}次`;
+  }
+  if (rule.until) {
+    const until = new Date(rule.until);
+    text += `，直到${until.getFullYear()}年${until.getMonth() + 1}月${until.getDate()}日`;
+  }
+  return text;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// 以周一为一周开始，该日期所在周的周一
+function startOfWeek(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function withTime(year: number, month: number, day: number, time: Date): Date {
+  return new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds());
+}
+
+function findNext(rule: RecurrenceRule, after: Date): Date | null {
+  const interval = rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return withTime(after.getFullYear(), after.getMonth(), after.getDate() + interval, after);
+
+    case 'WEEKLY': {
+      if (!rule.byDay || rule.byDay.length === 0) {
+        return withTime(after.getFullYear(), after.getMonth(), after.getDate() + 7 * interval, after);
+      }
+      const anchorWeek = startOfWeek(after).getTime();
+      for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = withTime(after.getFullYear(), after.getMonth(), after.getDate() + offset, after);
+        const weeks = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * 24 * 60 * 60 * 1000));
+        if (weeks % interval === 0 && rule.byDay.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+
+    case 'MONTHLY': {
+      const monthDays = rule.byMonthDay && rule.byMonthDay.length > 0 ? rule.byMonthDay : [after.getDate()];
+      for (let period = 0; period <= MAX_SEARCH_PERIODS; period += interval) {
+        const year = after.getFullYear();
+        const month = after.getMonth() + period;
+        const total = daysInMonth(year, month);
+        const candidates = monthDays
+          .map(day => (day < 0 ? total + day + 1 : day))
+          // 该月没有的日期（如2月30日）直接跳过
+          .filter(day => day >= 1 && day <= total)
+          .sort((a, b) => a - b)
+          .map(day => withTime(year, month, day, after))
+          .filter(candidate => candidate > after);
+        if (candidates.length > 0) {
+          return candidates[0];
+        }
+      }
+      return null;
+    }
+
+    case 'YEARLY': {
+      for (let period = interval; period <= MAX_SEARCH_PERIODS; period += interval) {
+        const year = after.getFullYear() + period;
+        // 2月29日只在闰年重复
+        if (after.getDate() <= daysInMonth(year, after.getMonth())) {
+          return withTime(year, after.getMonth(), after.getDate(), after);
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * 计算某次发生之后的下一次发生时间
+ * @param after 当前这次的时间，下一次会保留其时分秒
+ * @param occurrenceIndex 当前这次在整个序列中的序号（从0开始），用于 COUNT 限制
+ * @returns 超出 COUNT / UNTIL 限制时返回 null
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date, occurrenceIndex: number = 0): Date | null {
+  if (rule.count && occurrenceIndex + 1 >= rule.count) {
+    return null;
+  }
+
+  const next = findNext(rule, after);
+  if (!next || (rule.until && next > new Date(rule.until))) {
+    return null;
+  }
+  return next;
+}
+
+// 从起始时间（作为第一次）开始展开最多 limit 次发生时间
+export function expandRecurrence(rule: RecurrenceRule, start: Date, limit: number): Date[] {
+  const occurrences: Date[] = [];
+  let current: Date | null = start;
+  while (current && occurrences.length < limit) {
+    occurrences.push(current);
+    current = getNextOccurrence(rule, current, occurrences.length - 1);
+  }
+  return occurrences;
+}
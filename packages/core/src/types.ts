@@ -10,8 +10,22 @@ export interface Note {
   tags?: string[];
   project_tag?: string;
   status?: string;
+  deleted_at?: string;
+  due_at?: string;
+  priority?: NotePriority;
+  remind_at?: string;
+  reminded_at?: string;
+  // RRULE格式的重复规则，如 FREQ=WEEKLY;BYDAY=MO
+  recurrence?: string;
+  // 由哪条重复待办完成后生成
+  recurrence_parent_id?: string;
+  // 在重复序列中的序号，从0开始
+  recurrence_index?: number;
 }
 
+// 待办优先级
+export type NotePriority = 'high' | 'medium' | 'low';
+
 export interface Settings {
   key: string;
   value: string;
@@ -29,28 +43,448 @@ export interface CreateNoteInput {
   type_hint?: string;
   tags?: string[];
   project_tag?: string;
+  due_at?: string;
+  priority?: NotePriority;
+  remind_at?: string;
+  recurrence?: string;
+  // 导入已有内容时保留原创建时间和状态，默认为当前时间和 new
+  created_at?: string;
+  status?: string;
+}
+
+// 待办的截止/提醒设置，null 表示清除
+export interface NoteScheduleInput {
+  due_at?: string | null;
+  priority?: NotePriority | null;
+  remind_at?: string | null;
+  recurrence?: string | null;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// RFC 5545 RRULE 的子集
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // 星期几，0为周日，与 Date.getDay() 一致
+  byDay?: number[];
+  // 每月第几天，负数表示倒数
+  byMonthDay?: number[];
+  count?: number;
+  until?: string;
+}
+
+// 从自然语言中解析出的截止时间
+export interface ParsedDueDate {
+  due_at: string;
+  // 是否明确给出了具体时间（否则使用默认时间）
+  has_time: boolean;
+  matched_text: string;
+}
+
+// 修改来源：用户编辑、AI优化、AI助手操作、从历史版本恢复、被链接笔记改名后更新链接、Markdown目录中的外部编辑
+export type RevisionSource = 'user' | 'ai_optimize' | 'assistant' | 'restore' | 'link_update' | 'vault_sync';
+
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  text: string;
+  tags: string[];
+  source: RevisionSource;
+  created_at: string;
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface NoteRevisionDiff {
+  revision: NoteRevision;
+  // 该修订之后的内容（下一条修订或当前笔记）
+  after: string;
+  lines: DiffLine[];
+}
+
+// 笔记附件，文件按内容哈希存放，多条笔记可引用同一文件
+export interface Attachment {
+  id: string;
+  note_id: string;
+  hash: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+}
+
+// 添加附件：拖入的本地文件提供 path，粘贴的截图等提供 data
+export interface AttachmentInput {
+  file_name: string;
+  path?: string;
+  data?: Uint8Array;
+}
+
+// 笔记中的 [[wiki]] 链接，target_id 为空表示目标笔记不存在
+export interface NoteLink {
+  source_id: string;
+  target_id?: string;
+  target_text: string;
+}
+
+export interface NoteLinks {
+  outgoing: Array<{ target_text: string; note?: Note }>;
+  backlinks: Note[];
+}
+
+// Markdown文件头部的YAML元数据
+export interface VaultFrontMatter {
+  id?: string;
+  created_at?: string;
+  type_hint?: string;
+  tags?: string[];
+  project_tag?: string;
+  status?: string;
+  app_name?: string;
+  url?: string;
+}
+
+// 笔记与Markdown文件的同步记录
+export interface VaultFileState {
+  note_id: string;
+  file_name: string;
+  synced_hash: string;
+  synced_at: string;
+}
+
+// 双方都修改过时保留数据库版本，外部修改另存为冲突文件
+export interface VaultConflict {
+  note_id: string;
+  file_name: string;
+  conflict_file: string;
+  detected_at: string;
+}
+
+export interface VaultSyncResult {
+  exported: number;
+  imported: number;
+  created: number;
+  trashed: number;
+  removed: number;
+  conflicts: VaultConflict[];
+  errors: string[];
+}
+
+export type ImportFormat = 'markdown' | 'json' | 'csv' | 'enex';
+
+// 导入源中的一个文件
+export interface ImportFile {
+  name: string;
+  content: string;
+  modified_at?: string;
+}
+
+// CSV列映射：字段名 -> 表头名
+export interface CsvColumnMapping {
+  text: string;
+  title?: string;
+  created_at?: string;
+  tags?: string;
+  type_hint?: string;
+  project_tag?: string;
+  status?: string;
+  url?: string;
+}
+
+export interface ImportOptions {
+  csvMapping?: CsvColumnMapping;
+}
+
+// 导入中某条记录的错误，source 指出位置（如"notes.csv 第3行"）
+export interface ImportError {
+  source: string;
+  message: string;
+}
+
+export interface ImportRecord {
+  source: string;
+  input: CreateNoteInput;
+  // 与已有笔记或本次导入中前面的记录重复
+  duplicate?: boolean;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  records: ImportRecord[];
+  errors: ImportError[];
+  duplicateCount: number;
+  // CSV的表头，用于选择列映射
+  csvHeaders?: string[];
+  csvMapping?: CsvColumnMapping;
+}
+
+export interface ImportResult {
+  imported: number;
+  skippedDuplicates: number;
+  errors: ImportError[];
+}
+
+// 同步目录的配置与最近一次同步情况，path 为空表示未启用
+export interface VaultStatus {
+  path: string | null;
+  last_synced_at?: string;
+  last_result?: VaultSyncResult;
+  // 最近检测到的冲突，最新的在前
+  conflicts: VaultConflict[];
+}
+
+export interface NoteSearchFilters {
+  type_hint?: string;
+  tags?: string[];
+  project_tag?: string;
+  status?: string;
+  // 创建日期范围（YYYY-MM-DD，本地日期），两端都包含
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NoteSearchResult {
+  note: Note;
+  snippet: string;
+  rank: number;
+  // 混合搜索时的命中来源：关键词、语义或两者都有
+  match?: 'keyword' | 'semantic' | 'both';
+}
+
+// 语义搜索结果，score 为余弦相似度
+export interface SemanticSearchResult {
+  note: Note;
+  score: number;
+}
+
+// 计算笔记向量的方式：本机CPU模型、当前配置的AI服务，或关闭语义搜索
+export type EmbeddingSource = 'local' | 'ai' | 'off';
+
+export interface SemanticIndexStatus {
+  source: EmbeddingSource;
+  // 写入向量表的模型标识，关闭时为空
+  model?: string;
+  indexed: number;
+  total: number;
+  // 最近一次建立索引失败的原因
+  error?: string;
 }
 
 export interface AIConfig {
-  provider: 'openai' | 'qwen';
-  api_key: string;
+  // 已注册的AI服务ID，见 providers.ts
+  provider: string;
+  // 本地服务（如Ollama）不需要密钥
+  api_key?: string;
   model?: string;
+  // 服务声明的其他配置项，如接口地址
+  options?: Record<string, string>;
+  // 请求超时（秒）和失败重试次数，未设置时使用默认值
+  timeout_seconds?: number;
+  max_retries?: number;
+}
+
+// 返回给界面的AI配置，不包含密钥本身
+export interface AIConfigSummary {
+  provider: string;
+  model?: string;
+  options?: Record<string, string>;
+  has_api_key: boolean;
+  // 密钥末尾几位，用于界面提示已保存的是哪个密钥
+  api_key_hint?: string;
+  // 已保存密钥的AI服务，切换服务时用于提示是否需要重新填写
+  api_key_providers: string[];
+  // 系统凭据存储不可用时为 false，此时密钥明文保存在设置中
+  api_key_encrypted: boolean;
+  timeout_seconds?: number;
+  max_retries?: number;
+}
+
+// AI服务在设置页中需要填写的配置项
+export interface AIProviderField {
+  key: string;
+  label: string;
+  type: 'text' | 'url';
+  required?: boolean;
+  placeholder?: string;
+  default?: string;
+  description?: string;
+}
+
+export interface AIModelInfo {
+  id: string;
+  name: string;
+  // 上下文窗口大小（token），未填写时使用服务的默认值
+  contextWindow?: number;
+}
+
+// AI服务支持的能力，调用方据此决定可用的功能
+export interface AIProviderCapabilities {
+  streaming: boolean;
+  jsonMode: boolean;
+  toolCalling: boolean;
+  embeddings: boolean;
+}
+
+// AI服务的声明信息，可直接传给界面渲染配置表单
+export interface AIProviderInfo {
+  id: string;
+  name: string;
+  description: string;
+  // 本地服务不需要密钥，兼容接口的密钥可选
+  apiKey: 'required' | 'optional' | 'none';
+  apiKeyPlaceholder?: string;
+  // 开发时读取密钥的环境变量名
+  apiKeyEnv?: string;
+  defaultModel: string;
+  // 常用模型，界面中也允许输入列表外的模型
+  models: AIModelInfo[];
+  // 列表外模型的上下文窗口大小（token）
+  contextWindow?: number;
+  fields: AIProviderField[];
+  capabilities: AIProviderCapabilities;
+  // 支持向量接口时使用的默认模型
+  defaultEmbeddingModel?: string;
+  // 仅供开发调试，打包后的应用中不显示
+  developmentOnly?: boolean;
+}
+
+// 发送给模型的消息，区别于界面中的 ChatMessage
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface EmbeddingRequest {
+  input: string[];
+  model: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface ChatRequest {
+  messages: LLMMessage[];
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  // 中止请求，用于用户取消生成
+  signal?: AbortSignal;
+  // 要求模型只输出JSON，服务不支持时忽略，由提示词约束
+  jsonMode?: boolean;
+  // 等待响应或流式数据的超时时间，以及限流、服务端错误时的重试次数
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// 提供给模型调用的工具，parameters 为 JSON Schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// 模型请求的一次工具调用，arguments 是模型生成的JSON文本，未经校验
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// 工具调用对话中的消息：除普通消息外，还有模型发起调用的回复和返回给模型的工具结果
+export type ToolChatMessage =
+  | LLMMessage
+  | { role: 'assistant'; content: string; tool_calls: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; name: string; content: string };
+
+export interface ToolChatRequest extends Omit<ChatRequest, 'messages' | 'jsonMode'> {
+  messages: ToolChatMessage[];
+  // 为空时不提供工具，模型只能直接回答
+  tools: ToolDefinition[];
+}
+
+// tool_calls 为空时 content 是模型的最终回答
+export interface ToolChatResponse {
+  content: string;
+  tool_calls: ToolCall[];
+}
+
+// 分多次请求完成的AI任务的进度，如分段生成的每日总结
+export interface AIProgress {
+  // map：逐段生成局部结果；reduce：合并局部结果
+  stage: 'map' | 'reduce';
+  completed: number;
+  total: number;
+  // 当前处理的内容，如项目名称
+  label?: string;
+}
+
+// 流式生成的选项：onText 收到截至目前生成的完整文本
+export interface AIStreamOptions {
+  onText?: (text: string) => void;
+  onProgress?: (progress: AIProgress) => void;
+  signal?: AbortSignal;
+}
+
+// 主进程转发给界面的流式生成进度
+export interface AIStreamEvent {
+  requestId: string;
+  text: string;
+  progress?: AIProgress;
+}
+
+// 数据库加密状态，locked 表示已加密但尚未输入密码
+export interface DatabaseLockState {
+  encrypted: boolean;
+  locked: boolean;
 }
 
 export interface DailyDigest {
   date: string;
+  // 一两句话的概述
   summary: string;
   projects: ProjectSummary[];
-  todos: string[];
+  todos: DigestTodo[];
   reflections: string[];
 }
 
+// 总结覆盖的时间粒度，custom 为任意日期范围
+export type DigestGranularity = 'day' | 'week' | 'month' | 'custom';
+
+// 总结的时间范围，from 和 to 都是包含在内的日期（YYYY-MM-DD）
+export interface DigestPeriod {
+  granularity: DigestGranularity;
+  from: string;
+  to: string;
+}
+
+// 定时自动生成每日总结的设置
+export interface DigestSchedule {
+  enabled: boolean;
+  // 本地时间，HH:mm
+  time: string;
+  // 在星期几生成，与 Date.getDay() 一致，0 为周日
+  weekdays: number[];
+}
+
 export interface SavedDigest {
   id: string;
+  // 每日总结为对应日期，周期总结为范围的起始日期
   date: string;
+  // Markdown格式的总结全文
   summary: string;
   created_at: string;
   saved_at: string;
+  granularity: DigestGranularity;
+  range_start: string;
+  range_end: string;
+  // 结构化内容，早期版本保存的总结没有
+  digest?: DailyDigest;
 }
 
 export interface ProjectSummary {
@@ -60,27 +494,183 @@ export interface ProjectSummary {
   ideas: string[];
 }
 
+// 总结中提取的待办
+export interface DigestTodo {
+  text: string;
+  project?: string;
+  priority?: NotePriority;
+  // 已转为待办记录时对应的笔记ID
+  note_id?: string;
+}
+
 export type NoteType = 'todo' | 'issue' | 'idea' | 'note' | 'feeling';
 
 export interface DatabaseConfig {
   path: string;
+  // 迁移前备份的存放目录
+  backupDir?: string;
+  // 解密后的数据库内容，提供时在内存中打开，path 仅用于提示
+  data?: Buffer;
+}
+
+export type BackupKind = 'daily' | 'weekly' | 'manual' | 'pre-migration' | 'pre-restore';
+
+// 数据库快照，文件保存在备份目录中，清单记录在 manifest.json
+export interface BackupSnapshot {
+  id: string;
+  kind: BackupKind;
+  file_name: string;
+  created_at: string;
+  size: number;
+  schema_version: number;
+  note_count: number;
+}
+
+// 快照文件的校验结果
+export interface DatabaseValidation {
+  valid: boolean;
+  error?: string;
+  schema_version: number;
+  note_count: number;
 }
 
 // AI助手相关类型定义
 export interface AssistantResponse {
   message: string;
   actions: AssistantAction[];
+  // 回答引用的笔记，按在回答中标注的编号排列
+  citations?: AssistantCitation[];
+  // 回答前调用过的工具
+  tool_steps?: AssistantToolStep[];
 }
 
+export interface AssistantCitation {
+  note_id: string;
+  // 回答中的引用标记 [n] 对应的编号
+  index: number;
+  // 笔记的第一行，用于显示链接
+  title: string;
+}
+
+/**
+ * 助手回答问题时使用的笔记
+ */
+export interface AssistantContext {
+  // 按问题检索到的相关笔记，完整提供给模型
+  relevantNotes: Note[];
+  // 最近的笔记，用于"最近那条"之类的操作
+  recentNotes: Note[];
+  totalNotes: number;
+  // 同一对话中之前的轮次
+  history?: AssistantHistory;
+}
+
+// 发送给模型的对话历史：超出预算的较早消息合并为摘要
+export interface AssistantHistory {
+  summary?: string;
+  messages: LLMMessage[];
+}
+
+/**
+ * 助手可调用的工具及其执行，工具调用失败时抛出的错误信息会返回给模型
+ */
+export interface AssistantToolbox {
+  readonly definitions: ToolDefinition[];
+  // 界面中显示的调用说明，如"搜索记录：周报"
+  describe(name: string, args: unknown): string;
+  execute(name: string, args: unknown, signal?: AbortSignal): Promise<AssistantToolResult>;
+}
+
+export interface AssistantToolResult {
+  // 返回给模型的结果说明
+  content: string;
+  // 查到的笔记，编号后附在结果中，回答时可以引用
+  notes?: Note[];
+  // 修改笔记的操作，交给操作流程执行，删除和修改仍需用户确认
+  actions?: AssistantAction[];
+}
+
+export interface AssistantToolStep {
+  name: string;
+  description: string;
+  success: boolean;
+}
+
+export type AssistantActionType = 'create' | 'search' | 'delete' | 'update' | 'analyze';
+
+// 模型返回的操作，params 未经校验
 export interface AssistantAction {
-  type: 'create' | 'search' | 'delete' | 'update' | 'analyze';
+  type: AssistantActionType;
   params: any;
 }
 
+/**
+ * 执行前的操作预览，destructive 的操作需要用户确认后才执行
+ */
+export interface AssistantActionPreview {
+  index: number;
+  type: AssistantActionType;
+  description: string;
+  destructive: boolean;
+  // 受影响的笔记：删除、修改或分析的对象
+  notes: Note[];
+  // 修改操作的新内容，未列出的字段保持不变
+  changes?: { text?: string; tags?: string[]; status?: string; type_hint?: string };
+  // 参数无效时的原因，该操作不会执行
+  error?: string;
+}
+
+export interface AssistantActionPlan {
+  id: string;
+  previews: AssistantActionPreview[];
+  requires_confirmation: boolean;
+}
+
+export interface AssistantActionResult {
+  index: number;
+  type: AssistantActionType;
+  success: boolean;
+  message: string;
+  // 新建、修改或搜索到的笔记
+  notes?: Note[];
+  // 分析操作的结论
+  analysis?: string;
+}
+
+/**
+ * 一次确认执行的全部操作，undoable 表示其中有可撤销的修改
+ */
+export interface AssistantActionBatch {
+  id: string;
+  results: AssistantActionResult[];
+  undoable: boolean;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
   actions?: AssistantAction[];
-}
\ No newline at end of file
+  citations?: AssistantCitation[];
+  tool_steps?: AssistantToolStep[];
+  // 等待确认的操作及其处理状态
+  plan?: AssistantActionPlan;
+  plan_status?: 'pending' | 'executed' | 'cancelled';
+  // 操作的执行结果，撤销后 undone 为 true
+  batch?: AssistantActionBatch;
+  undone?: boolean;
+}
+
+/**
+ * 保存的助手对话，summary 在发送给模型时代替前 summarized_count 条消息
+ */
+export interface AssistantConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+  summary?: string;
+  summarized_count: number;
+}
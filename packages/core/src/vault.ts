@@ -0,0 +1,411 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FlowpadDB } from './db';
+import { getNoteTitle } from './links';
+import { Note, VaultConflict, VaultFileState, VaultFrontMatter, VaultSyncResult } from './types';
+
+// 冲突副本命名为 <原文件名>.conflict-<时间>.md，同步时忽略
+const CONFLICT_FILE_PATTERN = /\.conflict-[^.]+\.md$/i;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FRONT_MATTER_KEYS: Array<keyof VaultFrontMatter> = [
+  'id', 'created_at', 'type_hint', 'tags', 'project_tag', 'status', 'app_name', 'url',
+];
+// 文件名中标题部分的最大长度
+const MAX_SLUG_LENGTH = 40;
+
+// 含特殊字符的值用双引号包裹（JSON字符串同时也是合法的YAML双引号字符串）
+function formatYamlScalar(value: string): string {
+  if (value === '' || /^[\s"'[\]{}>|*&!%@`#,?-]|:\s|\s#|\s$|^(true|false|null|~)$/i.test(value) || /[\r\n]/.test(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function parseYamlScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  // 去掉行尾注释
+  return value.replace(/\s+#.*$/, '');
+}
+
+// 解析 [a, "b c"] 形式的行内列表
+function parseYamlFlowList(raw: string): string[] {
+  const inner = raw.trim().slice(1, -1);
+  const items = inner.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) || [];
+  return items.map(item => parseYamlScalar(item)).filter(item => item.length > 0);
+}
+
+/**
+ * 解析Markdown文件头部的YAML元数据，只支持 key: value 与字符串列表这一子集
+ */
+export function parseMarkdownNote(content: string): { frontMatter: VaultFrontMatter; body: string } {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { frontMatter: {}, body: stripTrailingNewline(content) };
+  }
+
+  const frontMatter: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const listItem = line.match(/^\s+-\s*(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (listItem && listKey) {
+      const value = parseYamlScalar(listItem[1]);
+      if (value) {
+        (frontMatter[listKey] as string[]).push(value);
+      }
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === '') {
+      // 值为空时后面可能跟着块列表
+      frontMatter[key] = [];
+      listKey = key;
+    } else if (rawValue.trim().startsWith('[') && rawValue.trim().endsWith(']')) {
+      frontMatter[key] = parseYamlFlowList(rawValue);
+      listKey = null;
+    } else {
+      frontMatter[key] = parseYamlScalar(rawValue);
+      listKey = null;
+    }
+  }
+
+  const result: VaultFrontMatter = {};
+  for (const key of FRONT_MATTER_KEYS) {
+    const value = frontMatter[key];
+    if (key === 'tags') {
+      if (value !== undefined) {
+        result.tags = Array.isArray(value) ? value : value.split(',').map(tag => tag.trim()).filter(Boolean);
+      }
+    } else if (typeof value === 'string' && value.length > 0) {
+      result[key] = value;
+    }
+  }
+
+  // 元数据与正文之间的空行不属于正文
+  const body = content.slice(match[0].length).replace(/^\r?\n/, '');
+  return { frontMatter: result, body: stripTrailingNewline(body) };
+}
+
+function stripTrailingNewline(text: string): string {
+  return text.replace(/\r?\n$/, '');
+}
+
+/**
+ * 将笔记序列化为带YAML元数据的Markdown
+ */
+export function serializeNoteToMarkdown(note: Note): string {
+  const lines = ['---', `id: ${note.id}`, `created_at: ${note.created_at}`];
+  if (note.type_hint) {
+    lines.push(`type_hint: ${formatYamlScalar(note.type_hint)}`);
+  }
+  if (note.tags && note.tags.length > 0) {
+    lines.push('tags:', ...note.tags.map(tag => `  - ${formatYamlScalar(tag)}`));
+  }
+  if (note.project_tag) {
+    lines.push(`project_tag: ${formatYamlScalar(note.project_tag)}`);
+  }
+  lines.push(`status: ${formatYamlScalar(note.status || 'new')}`);
+  if (note.app_name) {
+    lines.push(`app_name: ${formatYamlScalar(note.app_name)}`);
+  }
+  if (note.url) {
+    lines.push(`url: ${formatYamlScalar(note.url)}`);
+  }
+  lines.push('---', '', note.text);
+  return `${lines.join('\n')}\n`;
+}
+
+// 文件名为 标题-短ID.md，标题去掉文件系统不允许的字符
+export function getVaultFileName(note: Note): string {
+  const slug = Array.from(getNoteTitle(note.text).replace(/[\\/:*?"<>|#^[\]\x00-\x1f]/g, ' ').replace(/\s+/g, ' ').trim())
+    .slice(0, MAX_SLUG_LENGTH)
+    .join('')
+    .trim()
+    .replace(/^\.+/, '');
+  const shortId = note.id.slice(0, 8);
+  return slug ? `${slug}-${shortId}.md` : `${shortId}.md`;
+}
+
+export function hashVaultContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 笔记与Markdown目录的双向同步
+ *
+ * 每条笔记对应一个文件，vault_files 中记录上次同步时的内容哈希：
+ * 只有数据库变化时覆盖文件，只有文件变化时写回数据库，两边都变化时视为冲突
+ */
+export class VaultSync {
+  constructor(private db: FlowpadDB, private vaultDir: string) {
+    fs.mkdirSync(vaultDir, { recursive: true });
+  }
+
+  sync(): VaultSyncResult {
+    const result: VaultSyncResult = { exported: 0, imported: 0, created: 0, trashed: 0, removed: 0, conflicts: [], errors: [] };
+    const states = new Map(this.db.getVaultFileStates().map(state => [state.note_id, state]));
+    const usedFiles = new Set(Array.from(states.values()).map(state => state.file_name));
+    const handledFiles = new Set<string>();
+    const activeNotes = this.db.getNotes();
+    const activeIds = new Set(activeNotes.map(note => note.id));
+
+    for (const note of activeNotes) {
+      try {
+        const fileName = this.syncNote(note, states.get(note.id), usedFiles, result);
+        if (fileName) {
+          handledFiles.add(fileName);
+        }
+      } catch (error) {
+        result.errors.push(`${note.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // 已移入回收站或永久删除的笔记：文件在上次同步后未被修改时一并删除
+    for (const state of states.values()) {
+      if (activeIds.has(state.note_id)) {
+        continue;
+      }
+      const filePath = path.join(this.vaultDir, state.file_name);
+      if (fs.existsSync(filePath) && hashVaultContent(fs.readFileSync(filePath, 'utf8')) === state.synced_hash) {
+        fs.unlinkSync(filePath);
+        result.removed++;
+      }
+      handledFiles.add(state.file_name);
+      this.db.deleteVaultFileState(state.note_id);
+    }
+
+    for (const fileName of this.listMarkdownFiles()) {
+      if (handledFiles.has(fileName)) {
+        continue;
+      }
+      try {
+        this.importNewFile(fileName, activeIds, usedFiles, result);
+      } catch (error) {
+        result.errors.push(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return result;
+  }
+
+  // 同步单条笔记，返回其对应的文件名
+  private syncNote(note: Note, state: VaultFileState | undefined, usedFiles: Set<string>, result: VaultSyncResult): string | null {
+    const markdown = serializeNoteToMarkdown(note);
+    const dbHash = hashVaultContent(markdown);
+
+    if (!state) {
+      // 目录中可能已有该笔记的文件（如重新选择了之前用过的目录），交给导入阶段重新关联
+      const preferred = getVaultFileName(note);
+      const preferredPath = path.join(this.vaultDir, preferred);
+      if (fs.existsSync(preferredPath) && parseMarkdownNote(fs.readFileSync(preferredPath, 'utf8')).frontMatter.id === note.id) {
+        return null;
+      }
+      const fileName = this.allocateFileName(preferred, usedFiles);
+      this.writeFile(fileName, markdown);
+      this.db.setVaultFileState(note.id, fileName, dbHash);
+      result.exported++;
+      return fileName;
+    }
+
+    const filePath = path.join(this.vaultDir, state.file_name);
+    if (!fs.existsSync(filePath)) {
+      if (dbHash === state.synced_hash) {
+        // 文件被外部删除，笔记移入回收站
+        this.db.deleteNote(note.id);
+        this.db.deleteVaultFileState(note.id);
+        result.trashed++;
+      } else {
+        // 数据库这边还有新的修改，重新导出而不是删除
+        this.writeFile(state.file_name, markdown);
+        this.db.setVaultFileState(note.id, state.file_name, dbHash);
+        result.exported++;
+      }
+      return state.file_name;
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const fileHash = hashVaultContent(content);
+    const fileChanged = fileHash !== state.synced_hash;
+    const dbChanged = dbHash !== state.synced_hash;
+
+    if (!fileChanged && !dbChanged) {
+      return state.file_name;
+    }
+
+    if (!fileChanged) {
+      this.writeFile(state.file_name, markdown);
+      this.db.setVaultFileState(note.id, state.file_name, dbHash);
+      result.exported++;
+      return state.file_name;
+    }
+
+    const parsed = parseMarkdownNote(content);
+    if (dbChanged && !this.isSameContent(note, parsed.frontMatter, parsed.body)) {
+      this.recordConflict(note.id, state.file_name, content, result);
+      this.writeFile(state.file_name, markdown);
+      this.db.setVaultFileState(note.id, state.file_name, dbHash);
+      return state.file_name;
+    }
+
+    if (this.applyFileChanges(note, parsed.frontMatter, parsed.body)) {
+      result.imported++;
+    }
+    // 写回规范化后的内容，使下次同步时两边哈希一致
+    const updated = this.db.getNoteById(note.id);
+    const normalized = serializeNoteToMarkdown(updated || note);
+    if (normalized !== content) {
+      this.writeFile(state.file_name, normalized);
+    }
+    this.db.setVaultFileState(note.id, state.file_name, hashVaultContent(normalized));
+    return state.file_name;
+  }
+
+  // 处理没有同步记录的文件：新建的文件创建为笔记，已有笔记的文件重新关联
+  private importNewFile(fileName: string, activeIds: Set<string>, usedFiles: Set<string>, result: VaultSyncResult): void {
+    const content = fs.readFileSync(path.join(this.vaultDir, fileName), 'utf8');
+    const { frontMatter, body } = parseMarkdownNote(content);
+
+    if (frontMatter.id) {
+      const existing = this.db.getNoteById(frontMatter.id);
+      if (existing?.deleted_at) {
+        // 笔记在回收站中，保留文件等待用户处理
+        return;
+      }
+      if (existing && activeIds.has(existing.id)) {
+        const state = this.db.getVaultFileStates().find(item => item.note_id === existing.id);
+        if (state && state.file_name !== fileName) {
+          // 同一笔记的多余副本，忽略
+          return;
+        }
+        if (!this.isSameContent(existing, frontMatter, body)) {
+          this.recordConflict(existing.id, fileName, content, result);
+        }
+        const markdown = serializeNoteToMarkdown(existing);
+        this.writeFile(fileName, markdown);
+        this.db.setVaultFileState(existing.id, fileName, hashVaultContent(markdown));
+        usedFiles.add(fileName);
+        return;
+      }
+    }
+
+    if (!body.trim()) {
+      return;
+    }
+
+    const stat = fs.statSync(path.join(this.vaultDir, fileName));
+    const note = this.db.createNote({
+      text: body,
+      type_hint: frontMatter.type_hint,
+      tags: frontMatter.tags,
+      project_tag: frontMatter.project_tag,
+      context: { app_name: frontMatter.app_name, url: frontMatter.url },
+      created_at: this.parseDate(frontMatter.created_at) || stat.mtime.toISOString(),
+      status: frontMatter.status,
+    });
+
+    // 补上id等元数据，之后按普通文件同步
+    const markdown = serializeNoteToMarkdown(this.db.getNoteById(note.id) || note);
+    this.writeFile(fileName, markdown);
+    this.db.setVaultFileState(note.id, fileName, hashVaultContent(markdown));
+    usedFiles.add(fileName);
+    result.created++;
+  }
+
+  // 将文件中的修改写回数据库，返回是否有变化
+  private applyFileChanges(note: Note, frontMatter: VaultFrontMatter, body: string): boolean {
+    let changed = false;
+    const tags = frontMatter.tags || [];
+    if (body !== note.text || !this.sameTags(tags, note.tags || [])) {
+      this.db.updateNoteWithTags(note.id, body, tags, 'vault_sync');
+      changed = true;
+    }
+    if ((frontMatter.type_hint || undefined) !== (note.type_hint || undefined)
+      || (frontMatter.project_tag || undefined) !== (note.project_tag || undefined)) {
+      this.db.updateNoteClassification(note.id, frontMatter.type_hint, frontMatter.project_tag);
+      changed = true;
+    }
+    if (frontMatter.status && frontMatter.status !== (note.status || 'new')) {
+      this.db.updateNoteStatus(note.id, frontMatter.status);
+      changed = true;
+    }
+    return changed;
+  }
+
+  // 只比较可从文件写回的字段，忽略格式差异
+  private isSameContent(note: Note, frontMatter: VaultFrontMatter, body: string): boolean {
+    return body === note.text
+      && this.sameTags(frontMatter.tags || [], note.tags || [])
+      && (frontMatter.type_hint || undefined) === (note.type_hint || undefined)
+      && (frontMatter.project_tag || undefined) === (note.project_tag || undefined)
+      && (frontMatter.status || 'new') === (note.status || 'new');
+  }
+
+  private sameTags(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((tag, index) => tag === b[index]);
+  }
+
+  // 外部修改另存为冲突副本，数据库中的版本保留在原文件中
+  private recordConflict(noteId: string, fileName: string, content: string, result: VaultSyncResult): void {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const conflictFile = `${fileName.replace(/\.md$/i, '')}.conflict-${timestamp}.md`;
+    this.writeFile(conflictFile, content);
+    result.conflicts.push({
+      note_id: noteId,
+      file_name: fileName,
+      conflict_file: conflictFile,
+      detected_at: new Date().toISOString(),
+    });
+  }
+
+  private allocateFileName(preferred: string, usedFiles: Set<string>): string {
+    let fileName = preferred;
+    for (let index = 2; usedFiles.has(fileName) || fs.existsSync(path.join(this.vaultDir, fileName)); index++) {
+      fileName = preferred.replace(/\.md$/, `-${index}.md`);
+    }
+    usedFiles.add(fileName);
+    return fileName;
+  }
+
+  private listMarkdownFiles(): string[] {
+    return fs.readdirSync(this.vaultDir)
+      .filter(file => file.toLowerCase().endsWith('.md') && !CONFLICT_FILE_PATTERN.test(file))
+      .filter(file => fs.statSync(path.join(this.vaultDir, file)).isFile());
+  }
+
+  private parseDate(value?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  // 先写临时文件再重命名，避免编辑器或监听器读到写了一半的文件
+  private writeFile(fileName: string, content: string): void {
+    const filePath = path.join(this.vaultDir, fileName);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, content, 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+}
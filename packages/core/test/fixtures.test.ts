@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readFixture, recordFixtures } from '../src/fixtures';
+import { AIProvider, getAIProvider } from '../src/providers';
+import { AIConfig, ChatRequest, EmbeddingRequest, ToolChatRequest } from '../src/types';
+
+const chatRequest: ChatRequest = {
+  messages: [{ role: 'user', content: '你好' }],
+  model: 'test-model',
+  temperature: 0.7,
+  maxTokens: 100,
+};
+
+const toolRequest: ToolChatRequest = {
+  messages: [
+    { role: 'user', content: '找一下周报' },
+    { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', name: 'searchNotes', arguments: '{"query":"周报"}' }] },
+    { role: 'tool', tool_call_id: 'call_1', name: 'searchNotes', content: '找到0条记录' },
+  ],
+  tools: [{ name: 'searchNotes', description: '搜索笔记', parameters: { type: 'object' } }],
+  model: 'test-model',
+};
+
+const embedRequest: EmbeddingRequest = { input: ['第一条', '第二条'], model: 'test-embedding' };
+
+function createFakeProvider(): AIProvider {
+  return {
+    ...getAIProvider('openai'),
+    async chat() {
+      return '普通回复';
+    },
+    async stream(request, config, onDelta) {
+      onDelta('流式');
+      onDelta('回复');
+      return '流式回复';
+    },
+    async chatWithTools() {
+      return { content: '没有找到周报', tool_calls: [] };
+    },
+    async embed(request) {
+      return request.input.map((text, index) => [index, text.length]);
+    },
+  };
+}
+
+describe('录制模式', () => {
+  let dir: string;
+  let config: AIConfig;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowpad-fixtures-'));
+    config = { provider: 'mock', options: { fixtures_dir: dir } };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('录制对话、流式、工具调用和向量接口，并能离线回放', async () => {
+    const recorder = recordFixtures(createFakeProvider(), dir);
+    const deltas: string[] = [];
+
+    expect(await recorder.chat(chatRequest, config)).toBe('普通回复');
+    const streamRequest = { ...chatRequest, messages: [{ role: 'user' as const, content: '流式问题' }] };
+    expect(await recorder.stream!(streamRequest, config, delta => deltas.push(delta))).toBe('流式回复');
+    expect(deltas).toEqual(['流式', '回复']);
+    await recorder.chatWithTools!(toolRequest, config);
+    await recorder.embed!(embedRequest, config);
+
+    expect(fs.readdirSync(dir)).toHaveLength(4);
+    expect(readFixture(dir, chatRequest)).toMatchObject({ provider: 'openai', model: 'test-model', response: '普通回复' });
+
+    // 回放不区分模型，流式录制的结果按普通对话回放
+    const mock = getAIProvider('mock');
+    expect(await mock.chat({ ...chatRequest, model: 'mock' }, config)).toBe('普通回复');
+    expect(await mock.chat(streamRequest, config)).toBe('流式回复');
+    expect(await mock.chatWithTools!(toolRequest, config)).toEqual({ content: '没有找到周报', tool_calls: [] });
+    expect(await mock.embed!({ ...embedRequest, model: 'mock' }, config)).toEqual([[0, 3], [1, 3]]);
+  });
+
+  it('服务未实现的接口在录制时同样不提供', () => {
+    const { stream, chatWithTools, embed, ...chatOnly } = createFakeProvider();
+    const recorder = recordFixtures(chatOnly, dir);
+
+    expect(recorder.stream).toBeUndefined();
+    expect(recorder.chatWithTools).toBeUndefined();
+    expect(recorder.embed).toBeUndefined();
+  });
+
+  it('不同类型的录制不会相互匹配', async () => {
+    const recorder = recordFixtures(createFakeProvider(), dir);
+    await recorder.embed!({ input: ['你好'], model: 'test-embedding' }, config);
+
+    await expect(getAIProvider('mock').chat(chatRequest, config)).rejects.toThrow('没有找到匹配的录制结果');
+  });
+
+  it('采样参数不同的请求不会匹配', async () => {
+    const recorder = recordFixtures(createFakeProvider(), dir);
+    await recorder.chat(chatRequest, config);
+
+    await expect(getAIProvider('mock').chat({ ...chatRequest, temperature: 0 }, config)).rejects.toThrow('没有找到匹配的录制结果');
+  });
+});
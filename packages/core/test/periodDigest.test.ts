@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AIService } from '../src/ai';
+import { AIProvider, getAIProvider } from '../src/providers';
+import { Note, SavedDigest } from '../src/types';
+
+const EMPTY_DIGEST = JSON.stringify({ summary: '本周总结', projects: [], todos: [], reflections: [] });
+
+// 记录收到的提示词，回复固定为一份空的总结
+function createPromptRecorder(): { provider: AIProvider; prompts: string[] } {
+  const prompts: string[] = [];
+  const provider: AIProvider = {
+    ...getAIProvider('openai'),
+    stream: undefined,
+    async chat(request) {
+      prompts.push(request.messages.map(message => message.content).join('\n'));
+      return EMPTY_DIGEST;
+    },
+  };
+  return { provider, prompts };
+}
+
+function createDailyDigest(date: string): SavedDigest {
+  return {
+    id: `digest-${date}`,
+    date,
+    summary: `${date} 的总结`,
+    created_at: date,
+    saved_at: `${date}T23:00:00.000Z`,
+    granularity: 'day',
+    range_start: date,
+    range_end: date,
+  };
+}
+
+// created_at 保存的是UTC时间，在东八区跨过了本地日期的边界
+const NOTES: Note[] = [
+  { id: 'note-early', text: '周二凌晨的灵感', created_at: '2026-10-19T17:30:00.000Z' },
+  { id: 'note-late', text: '周一晚上的复盘', created_at: '2026-10-19T12:00:00.000Z' },
+];
+
+describe('周期总结', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Shanghai';
+  });
+
+  afterAll(() => {
+    if (originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTimeZone;
+    }
+  });
+
+  it('按本地日期判断笔记是否已有每日总结', async () => {
+    const { provider, prompts } = createPromptRecorder();
+    const service = new AIService({ provider: 'openai', api_key: 'test' }, provider);
+
+    await service.generatePeriodDigest(
+      { granularity: 'week', from: '2026-10-19', to: '2026-10-25' },
+      NOTES,
+      [createDailyDigest('2026-10-20')]
+    );
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('2026-10-20 的每日总结');
+    expect(prompts[0]).not.toContain('周二凌晨的灵感');
+    expect(prompts[0]).toContain('周一晚上的复盘');
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import '../src/fixtures';
+import { getAIProvider, getAIProviders } from '../src/providers';
+
+describe('AI服务注册表', () => {
+  // 界面和调用方按声明的能力选择调用方式，声明必须与实现一致
+  it.each(getAIProviders().map(provider => [provider.id]))('%s 声明的能力与实现一致', id => {
+    const provider = getAIProvider(id);
+
+    expect(provider.capabilities.streaming).toBe(Boolean(provider.stream));
+    expect(provider.capabilities.toolCalling).toBe(Boolean(provider.chatWithTools));
+    expect(provider.capabilities.embeddings).toBe(Boolean(provider.embed));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceRuleError, expandRecurrence, getNextOccurrence, parseRecurrenceRule } from '../src/recurrence';
+
+// 重复规则按本地时间计算，测试中的日期同样使用本地时间构造
+const local = (year: number, month: number, day: number, hour = 9, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseRecurrenceRule', () => {
+  it('解析基本参数，默认间隔为1', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY')).toEqual({ freq: 'DAILY', interval: 1 });
+    expect(parseRecurrenceRule('RRULE:freq=weekly;interval=2;byday=mo,fr')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [1, 5],
+    });
+  });
+
+  it('解析 COUNT 和 UNTIL', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3').count).toBe(3);
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261031').until).toBe(new Date(2026, 9, 31, 23, 59, 59).toISOString());
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261031T120000Z').until).toBe('2026-10-31T12:00:00.000Z');
+  });
+
+  it.each([
+    ['', '规则为空'],
+    ['INTERVAL=2', '缺少 FREQ'],
+    ['FREQ=HOURLY', '不支持的频率 HOURLY'],
+    ['FREQ=DAILY;INTERVAL=0', 'INTERVAL'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20261031', 'COUNT 和 UNTIL 不能同时使用'],
+    ['FREQ=DAILY;UNTIL=not-a-date', 'UNTIL 不是有效的日期'],
+    ['FREQ=DAILY;BYDAY=MO', 'BYDAY 仅支持 FREQ=WEEKLY'],
+    ['FREQ=WEEKLY;BYDAY=1MO', '不支持的星期 1MO'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY 仅支持 FREQ=MONTHLY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', '无效的日期 32'],
+    ['FREQ=DAILY;BYHOUR=9', '不支持的参数 BYHOUR'],
+    ['FREQ', '无法解析'],
+  ])('拒绝无效的规则 %j', (text, reason) => {
+    expect(() => parseRecurrenceRule(text)).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule(text)).toThrow(reason);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('DAILY 按间隔顺延并保留时间', () => {
+    expect(getNextOccurrence(parseRecurrenceRule('FREQ=DAILY'), local(2026, 10, 31, 8, 30))).toEqual(local(2026, 11, 1, 8, 30));
+    expect(getNextOccurrence(parseRecurrenceRule('FREQ=DAILY;INTERVAL=3'), local(2026, 12, 30))).toEqual(local(2027, 1, 2));
+  });
+
+  it('WEEKLY 按 BYDAY 找到下一个指定的星期', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE,FR');
+    // 2026-10-19 是周一
+    expect(expandRecurrence(rule, local(2026, 10, 19), 5)).toEqual([
+      local(2026, 10, 19),
+      local(2026, 10, 21),
+      local(2026, 10, 23),
+      local(2026, 10, 26),
+      local(2026, 10, 28),
+    ]);
+  });
+
+  it('WEEKLY 的间隔以周一开始的周计算', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU');
+    expect(expandRecurrence(rule, local(2026, 10, 19), 4)).toEqual([
+      local(2026, 10, 19),
+      local(2026, 10, 25),
+      local(2026, 11, 2),
+      local(2026, 11, 8),
+    ]);
+  });
+
+  it('MONTHLY 在31日重复时跳过没有31日的月份', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY');
+    expect(expandRecurrence(rule, local(2027, 1, 31), 4)).toEqual([
+      local(2027, 1, 31),
+      local(2027, 3, 31),
+      local(2027, 5, 31),
+      local(2027, 7, 31),
+    ]);
+    expect(getNextOccurrence(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31'), local(2027, 4, 10))).toEqual(local(2027, 5, 31));
+  });
+
+  it('MONTHLY 的 BYMONTHDAY=-1 表示每月最后一天', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+    expect(expandRecurrence(rule, local(2028, 1, 31), 3)).toEqual([
+      local(2028, 1, 31),
+      local(2028, 2, 29),
+      local(2028, 3, 31),
+    ]);
+  });
+
+  it('达到 COUNT 次数后不再重复', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;COUNT=3');
+    expect(getNextOccurrence(rule, local(2026, 10, 20), 1)).toEqual(local(2026, 10, 21));
+    expect(getNextOccurrence(rule, local(2026, 10, 21), 2)).toBeNull();
+    expect(expandRecurrence(rule, local(2026, 10, 19), 10)).toHaveLength(3);
+  });
+
+  it('超过 UNTIL 后不再重复，UNTIL 当天仍会发生', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20261102');
+    expect(getNextOccurrence(rule, local(2026, 10, 26, 18))).toEqual(local(2026, 11, 2, 18));
+    expect(getNextOccurrence(rule, local(2026, 11, 2, 18))).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AIService } from '../src/ai';
+import '../src/fixtures';
+import { getAIProvider } from '../src/providers';
+import { ASSISTANT_CONTEXT, FIXED_NOW, MOCK_CONFIG, RAW_CONTENT, SAMPLE_NOTES, createSampleToolbox } from './sampleData';
+
+// 通过离线回放服务重放 fixtures 目录中录制的响应，不访问网络
+describe('录制回放', () => {
+  const service = new AIService(MOCK_CONFIG);
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXED_NOW);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('生成每日总结', async () => {
+    const digest = await service.generateDailyDigest(SAMPLE_NOTES, '2026-10-19');
+
+    expect(digest.date).toBe('2026-10-19');
+    expect(digest.summary).toContain('1.2');
+    expect(digest.projects.map(project => project.name)).toEqual(['Flowpad']);
+    expect(digest.todos).toHaveLength(2);
+    expect(digest.todos[0]).toMatchObject({ text: '发布前完成安装包签名', priority: 'high' });
+    expect(digest.reflections).toHaveLength(1);
+  });
+
+  it('解析助手的JSON回复', async () => {
+    const response = await service.processAssistantChat('发布会议定了什么？', ASSISTANT_CONTEXT);
+
+    expect(response.message).toContain('周五发布');
+    expect(response.citations).toEqual([
+      expect.objectContaining({ note_id: 'note-release', index: 1 }),
+    ]);
+    expect(response.actions).toEqual([
+      { type: 'create', params: { text: '周四前完成安装包签名', type_hint: 'todo', tags: ['Flowpad'] } },
+    ]);
+  });
+
+  it('回放工具调用的每一轮', async () => {
+    const toolbox = createSampleToolbox();
+    const response = await service.processAssistantChat('签名证书什么时候到期？', ASSISTANT_CONTEXT, {}, toolbox);
+
+    expect(toolbox.calls).toEqual([{ query: '签名证书' }]);
+    expect(response.tool_steps).toEqual([{ name: 'searchNotes', description: '搜索记录：签名证书', success: true }]);
+    expect(response.citations?.map(citation => citation.note_id)).toEqual(['note-release', 'note-retro']);
+  });
+
+  it('优化内容并去掉标记符号', async () => {
+    const content = await service.optimizeContent(RAW_CONTENT);
+
+    expect(content).toContain('明天会议准备');
+    expect(content).toContain('准备PPT演示文稿');
+    expect(content).not.toMatch(/[#*]/);
+  });
+
+  it('没有匹配的录制时报错', async () => {
+    const provider = getAIProvider('mock');
+    const request = { messages: [{ role: 'user' as const, content: '没有录制过的问题' }], model: 'mock' };
+
+    await expect(provider.chat(request, MOCK_CONFIG)).rejects.toThrow('没有找到匹配的录制结果');
+  });
+});
@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { AIConfig, AssistantContext, AssistantToolbox, Note } from '../src/types';
+
+// 回放测试共用的输入，修改后需要重新录制 fixtures 目录下的录制文件
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+export const MOCK_CONFIG: AIConfig = {
+  provider: 'mock',
+  options: { fixtures_dir: FIXTURES_DIR },
+};
+
+// 助手的系统提示词包含当天日期，回放时固定为这一天的中午
+export const FIXED_NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+export const SAMPLE_NOTES: Note[] = [
+  {
+    id: 'note-release',
+    text: '发布会议：1.2 版本定在周五发布，需要先完成安装包签名',
+    created_at: '2026-10-19 09:30:00',
+    type_hint: 'todo',
+    project_tag: 'Flowpad',
+    status: 'new',
+  },
+  {
+    id: 'note-sync',
+    text: '同步冲突：两台电脑同时修改笔记时，后保存的会覆盖先保存的',
+    created_at: '2026-10-19 11:05:00',
+    type_hint: 'issue',
+    project_tag: 'Flowpad',
+    status: 'ongoing',
+  },
+  {
+    id: 'note-feeling',
+    text: '下午连续开了三个会，有点累，明天上午留出整块时间写代码',
+    created_at: '2026-10-19 17:40:00',
+    type_hint: 'feeling',
+  },
+];
+
+export const OLDER_NOTE: Note = {
+  id: 'note-retro',
+  text: '上周复盘：签名证书下周到期，续期需要三个工作日',
+  created_at: '2026-10-12 16:00:00',
+  type_hint: 'note',
+  project_tag: 'Flowpad',
+};
+
+export const ASSISTANT_CONTEXT: AssistantContext = {
+  relevantNotes: [SAMPLE_NOTES[0]],
+  recentNotes: SAMPLE_NOTES,
+  totalNotes: 4,
+};
+
+export const RAW_CONTENT = '明天要开会讨论项目进展，需要准备PPT，还要整理一下用户反馈的问题';
+
+// 只提供搜索工具的工具箱，搜索结果固定为上周的复盘记录
+export function createSampleToolbox(): AssistantToolbox & { calls: unknown[] } {
+  const calls: unknown[] = [];
+  return {
+    calls,
+    definitions: [{
+      name: 'searchNotes',
+      description: '按关键词搜索笔记',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: '搜索关键词' } },
+        required: ['query'],
+      },
+    }],
+    describe: (name, args) => `搜索记录：${(args as { query?: string } | undefined)?.query ?? ''}`,
+    async execute(name, args) {
+      calls.push(args);
+      return { content: '找到1条记录', notes: [OLDER_NOTE] };
+    },
+  };
+}
@@ -1,20 +1,49 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, FileText, Sparkles, Monitor, MonitorOff, FolderOpen, MessageCircle, RefreshCw, History } from 'lucide-react';
+import { Settings, FileText, Sparkles, Monitor, MonitorOff, FolderOpen, MessageCircle, RefreshCw, History, Trash2 } from 'lucide-react';
 import NotesList from './components/NotesList';
 import DailyDigest from './components/DailyDigest';
 import HistoryDigest from './components/HistoryDigest';
 import SettingsPanel from './components/SettingsPanel';
 import ProjectManagement from './components/ProjectManagement';
 import AIAssistant from './components/AIAssistant';
+import TrashBin from './components/TrashBin';
+import UnlockScreen from './components/UnlockScreen';
 
-type TabType = 'notes' | 'digest' | 'history' | 'projects' | 'assistant' | 'settings';
+type TabType = 'notes' | 'digest' | 'history' | 'projects' | 'assistant' | 'trash' | 'settings';
 
 function App() {
   const [activeTab, setActiveTab] = useState<TabType>('notes');
+  // 切换到记录列表时要选中的笔记
+  const [focusNoteId, setFocusNoteId] = useState<string | null>(null);
+  // 切换到历史总结时要选中的每日总结日期
+  const [focusDigestDate, setFocusDigestDate] = useState<string | null>(null);
   const [floatingWindowEnabled, setFloatingWindowEnabled] = useState(false);
   const [floatingToggling, setFloatingToggling] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  // 数据库是否等待解锁，null 表示尚未获取状态
+  const [databaseLocked, setDatabaseLocked] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const result = await window.electronAPI.getDatabaseLockState();
+        setDatabaseLocked(result.success && result.data ? result.data.locked : false);
+      } catch (error) {
+        console.error('Failed to load database lock state:', error);
+        setDatabaseLocked(false);
+      }
+    })();
+  }, []);
+
+  // 托盘菜单或总结通知要求打开今日总结，补生成的总结通知带有对应日期
+  useEffect(() => {
+    const handler = window.electronAPI.onNavigateToDigest((date) => {
+      setFocusDigestDate(date || null);
+      setActiveTab(date ? 'history' : 'digest');
+    });
+    return () => window.electronAPI.removeNavigateToDigestListener(handler);
+  }, []);
 
   // 加载浮窗状态
   useEffect(() => {
@@ -85,21 +114,30 @@ function App() {
     { id: 'history' as TabType, name: '历史总结', icon: History },
     { id: 'projects' as TabType, name: '项目管理', icon: FolderOpen },
     { id: 'assistant' as TabType, name: 'AI助手', icon: MessageCircle },
+    { id: 'trash' as TabType, name: '回收站', icon: Trash2 },
     { id: 'settings' as TabType, name: '设置', icon: Settings },
   ];
 
+  // 在记录列表中打开指定笔记
+  const openNote = (noteId: string) => {
+    setFocusNoteId(noteId);
+    setActiveTab('notes');
+  };
+
   const renderContent = () => {
     switch (activeTab) {
       case 'notes':
-        return <NotesList key={`notes-${refreshKey}`} />;
+        return <NotesList key={`notes-${refreshKey}`} initialNoteId={focusNoteId} />;
       case 'digest':
         return <DailyDigest key={`digest-${refreshKey}`} />;
       case 'history':
-        return <HistoryDigest key={`history-${refreshKey}`} refreshKey={refreshKey} />;
+        return <HistoryDigest key={`history-${refreshKey}`} refreshKey={refreshKey} initialDate={focusDigestDate} />;
       case 'projects':
         return <ProjectManagement key={`projects-${refreshKey}`} />;
       case 'assistant':
-        return <AIAssistant key={`assistant-${refreshKey}`} />;
+        return <AIAssistant key={`assistant-${refreshKey}`} onOpenNote={openNote} />;
+      case 'trash':
+        return <TrashBin key={`trash-${refreshKey}`} />;
       case 'settings':
         return <SettingsPanel key={`settings-${refreshKey}`} />;
       default:
@@ -107,6 +145,21 @@ function App() {
     }
   };
 
+  if (databaseLocked === null) {
+    return <div className="h-screen bg-gray-50" />;
+  }
+
+  if (databaseLocked) {
+    return (
+      <UnlockScreen
+        onUnlocked={() => {
+          setDatabaseLocked(false);
+          loadFloatingStatus();
+        }}
+      />
+    );
+  }
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* 侧边栏 */}
@@ -124,7 +177,11 @@ function App() {
             return (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
+                onClick={() => {
+                  setActiveTab(tab.id);
+                  setFocusNoteId(null);
+                  setFocusDigestDate(null);
+                }}
                 className={`w-full flex items-center px-4 py-3 mb-2 rounded-lg text-left transition-colors ${
                   activeTab === tab.id
                     ? 'bg-primary-50 text-primary-700 border border-primary-200'
@@ -1,22 +1,79 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
-import { ChatMessage } from '../../../core/src/types';
+import { Send, Bot, User, Loader2, Square, FileText, Undo2, Wrench } from 'lucide-react';
+import { ChatMessage, AssistantCitation, AssistantAction, AssistantActionPlan, AssistantActionBatch, AssistantConversation, Note } from '../../../core/src/types';
+import ActionPlanCard, { noteTitle } from './ActionPlanCard';
+import ConversationList from './ConversationList';
 
 interface AIAssistantProps {
-  // 可以接受外部传入的笔记数据等
+  // 打开回答中引用的笔记
+  onOpenNote?: (noteId: string) => void;
 }
 
-const AIAssistant: React.FC<AIAssistantProps> = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: '你好！我是你的AI笔记助手。我可以帮你管理笔记，包括：\n\n• 创建新笔记（待办、问题、想法、感受、普通笔记）\n• 搜索和查找笔记\n• 删除笔记\n• 分类和整理笔记\n• 总结和分析笔记内容\n\n请告诉我你需要什么帮助！',
-      timestamp: new Date().toISOString(),
+// 把回答中的 [n] 引用标记显示为可点击的链接，没有对应笔记的标记保持原样
+const renderMessageContent = (content: string, citations: AssistantCitation[] | undefined, onOpenNote?: (noteId: string) => void) => {
+  if (!citations || citations.length === 0) {
+    return content;
+  }
+  return content.split(/(\[\d+\])/g).map((part, index) => {
+    const citation = citations.find(item => `[${item.index}]` === part);
+    if (!citation) {
+      return part;
     }
-  ]);
+    return (
+      <button
+        key={index}
+        onClick={() => onOpenNote?.(citation.note_id)}
+        className="inline-block align-super text-xs text-primary-600 hover:text-primary-800 hover:underline px-0.5"
+        title={citation.title}
+      >
+        {part}
+      </button>
+    );
+  });
+};
+
+// 把操作结果整理成一条助手消息，涉及的笔记作为可打开的链接
+const describeBatch = (batch: AssistantActionBatch): Partial<ChatMessage> & { content: string } => {
+  const notes = new Map<string, Note>();
+  const lines = batch.results.map(result => {
+    result.notes?.forEach(note => notes.set(note.id, note));
+    const line = `${result.success ? '✓' : '✗'} ${result.message}`;
+    return result.analysis ? `${line}\n\n${result.analysis}` : line;
+  });
+  const citations: AssistantCitation[] = Array.from(notes.values()).map((note, index) => ({
+    note_id: note.id,
+    index: index + 1,
+    title: noteTitle(note),
+  }));
+  return { content: lines.join('\n'), citations, batch };
+};
+
+// 开场白只显示在界面中，不保存到对话
+const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  role: 'assistant',
+  content: '你好！我是你的AI笔记助手。我可以帮你管理笔记，包括：\n\n• 创建新笔记（待办、问题、想法、感受、普通笔记）\n• 搜索和查找笔记\n• 删除笔记\n• 分类和整理笔记\n• 总结和分析笔记内容\n• 根据你的记录回答问题，并标出引用的记录\n\n请告诉我你需要什么帮助！',
+  timestamp: new Date().toISOString(),
+};
+
+// 用第一条消息的第一行作为对话名称
+const toConversationTitle = (text: string) => {
+  const line = text.split('\n').map(item => item.trim()).find(Boolean) || '新对话';
+  return line.length > 30 ? `${line.slice(0, 30)}…` : line;
+};
+
+const AIAssistant: React.FC<AIAssistantProps> = ({ onOpenNote }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
+  const [conversations, setConversations] = useState<AssistantConversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // 已保存到对话中的消息，对象变化时重新保存
+  const savedMessagesRef = useRef(new Map<string, ChatMessage>());
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // 正在生成的回复，随流式进度更新
+  const [streamingText, setStreamingText] = useState('');
+  const requestIdRef = useRef<string | null>(null);
+  const streamingTextRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // 自动滚动到底部
@@ -26,13 +83,129 @@ const AIAssistant: React.FC<AIAssistantProps> = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // 打开时继续最近的对话
+  useEffect(() => {
+    loadConversations().then(list => {
+      if (list.length > 0) {
+        openConversation(list[0].id);
+      }
+    });
+  }, []);
+
+  // 新消息和消息状态的变化（确认、撤销等）写入当前对话
+  useEffect(() => {
+    if (!conversationId) return;
+    messages.forEach(message => {
+      if (message.id === WELCOME_MESSAGE.id || savedMessagesRef.current.get(message.id) === message) return;
+      savedMessagesRef.current.set(message.id, message);
+      window.electronAPI.saveAssistantMessage(conversationId, message).then(result => {
+        if (!result.success) {
+          console.error('Failed to save assistant message:', result.error);
+        }
+      });
+    });
+  }, [messages, conversationId]);
+
+  useEffect(() => {
+    const handler = window.electronAPI.onAIStream((event) => {
+      if (event.requestId === requestIdRef.current) {
+        streamingTextRef.current = event.text;
+        setStreamingText(event.text);
+      }
+    });
+    return () => window.electronAPI.removeAIStreamListener(handler);
+  }, []);
+
+  const loadConversations = async (): Promise<AssistantConversation[]> => {
+    try {
+      const result = await window.electronAPI.getAssistantConversations();
+      if (result.success && result.data) {
+        setConversations(result.data);
+        return result.data;
+      }
+    } catch (error) {
+      console.error('Failed to load assistant conversations:', error);
+    }
+    return [];
+  };
+
+  const openConversation = async (id: string) => {
+    try {
+      const result = await window.electronAPI.getAssistantMessages(id);
+      if (!result.success || !result.data) {
+        alert('打开对话失败：' + result.error);
+        return;
+      }
+      savedMessagesRef.current = new Map(result.data.map(message => [message.id, message]));
+      setConversationId(id);
+      setMessages([WELCOME_MESSAGE, ...result.data]);
+    } catch (error) {
+      console.error('Failed to open assistant conversation:', error);
+      alert('打开对话失败，请重试');
+    }
+  };
+
+  const startNewConversation = () => {
+    savedMessagesRef.current = new Map();
+    setConversationId(null);
+    setMessages([WELCOME_MESSAGE]);
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const result = await window.electronAPI.renameAssistantConversation(id, title);
+      if (result.success) {
+        setConversations(prev => prev.map(item => (item.id === id ? { ...item, title } : item)));
+      } else {
+        alert('重命名失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to rename assistant conversation:', error);
+      alert('重命名失败，请重试');
+    }
+  };
+
+  const deleteConversation = async (conversation: AssistantConversation) => {
+    if (!confirm(`确定要删除对话"${conversation.title}"吗？删除后无法恢复。`)) return;
+    try {
+      const result = await window.electronAPI.deleteAssistantConversation(conversation.id);
+      if (!result.success) {
+        alert('删除失败：' + result.error);
+        return;
+      }
+      setConversations(prev => prev.filter(item => item.id !== conversation.id));
+      if (conversation.id === conversationId) {
+        startNewConversation();
+      }
+    } catch (error) {
+      console.error('Failed to delete assistant conversation:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  // 第一条消息发送时创建对话
+  const ensureConversation = async (text: string): Promise<string | null> => {
+    if (conversationId) {
+      return conversationId;
+    }
+    const result = await window.electronAPI.createAssistantConversation(toConversationTitle(text));
+    if (!result.success || !result.data) {
+      console.error('Failed to create assistant conversation:', result.error);
+      return null;
+    }
+    const conversation = result.data;
+    setConversations(prev => [conversation, ...prev]);
+    setConversationId(conversation.id);
+    return conversation.id;
+  };
 
   const handleSendMessage = async () => {
     if (!inputText.trim() || isLoading) return;
 
     const userMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       role: 'user',
       content: inputText.trim(),
       timestamp: new Date().toISOString(),
@@ -42,31 +215,49 @@ const AIAssistant: React.FC<AIAssistantProps> = () => {
     setMessages(prev => [...prev, userMessage]);
     setInputText('');
     setIsLoading(true);
+    const requestId = crypto.randomUUID();
+    requestIdRef.current = requestId;
+    streamingTextRef.current = '';
+    setStreamingText('');
 
     try {
-      // 调用AI助手API
-      const response = await (window as any).electronAPI.processAssistantChat(inputText.trim());
+      // 对话无法保存时仍然回答，只是不带历史
+      const currentConversationId = await ensureConversation(userMessage.content);
+      // 调用AI助手API，对话中之前的消息由主进程读取
+      const response = await window.electronAPI.processAssistantChat(userMessage.content, requestId, currentConversationId || undefined, userMessage.id);
 
-      if (response.success) {
+      if (response.cancelled) {
+        // 停止生成时保留已生成的部分
+        const partialText = streamingTextRef.current;
+        if (partialText) {
+          setMessages(prev => [...prev, {
+            id: crypto.randomUUID(),
+            role: 'assistant',
+            content: `${partialText}\n\n（已停止生成）`,
+            timestamp: new Date().toISOString(),
+          }]);
+        }
+      } else if (response.success && response.data) {
         const assistantMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
+          id: crypto.randomUUID(),
           role: 'assistant',
           content: response.data.message,
           timestamp: new Date().toISOString(),
           actions: response.data.actions,
+          citations: response.data.citations,
+          tool_steps: response.data.tool_steps,
         };
 
         setMessages(prev => [...prev, assistantMessage]);
 
-        // 如果有操作需要执行，可以在这里处理
+        // 校验并预览AI返回的操作，删除和修改等待用户确认
         if (response.data.actions && response.data.actions.length > 0) {
-          // 处理AI返回的操作指令
-          await handleAssistantActions(response.data.actions);
+          await handleAssistantActions(assistantMessage.id, response.data.actions);
         }
       } else {
         // 错误处理
         const errorMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
+          id: crypto.randomUUID(),
           role: 'assistant',
           content: `抱歉，处理您的请求时出现了问题：${response.error}`,
           timestamp: new Date().toISOString(),
@@ -76,45 +267,108 @@ const AIAssistant: React.FC<AIAssistantProps> = () => {
     } catch (error) {
       console.error('AI chat error:', error);
       const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
         role: 'assistant',
         content: '抱歉，我现在无法处理您的请求，请稍后再试。',
         timestamp: new Date().toISOString(),
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      requestIdRef.current = null;
+      setStreamingText('');
       setIsLoading(false);
+      loadConversations();
     }
   };
 
-  const handleAssistantActions = async (actions: any[]) => {
-    // 执行AI助手返回的操作
-    for (const action of actions) {
-      try {
-        switch (action.type) {
-          case 'create':
-            await (window as any).electronAPI.createNote({
-              text: action.params.text,
-              type_hint: action.params.type_hint,
-              tags: action.params.tags,
-            });
-            break;
-          case 'search':
-            // 搜索操作可以显示搜索结果
-            break;
-          case 'delete':
-            // 删除操作
-            break;
-          case 'update':
-            // 更新操作
-            break;
-          case 'analyze':
-            // 分析操作
-            break;
-        }
-      } catch (error) {
-        console.error('Failed to execute action:', action, error);
+  const handleCancel = async () => {
+    if (requestIdRef.current) {
+      await window.electronAPI.cancelAIRequest(requestIdRef.current);
+    }
+  };
+
+  const updateMessage = (id: string, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...patch } : message)));
+  };
+
+  const appendAssistantMessage = (patch: Partial<ChatMessage> & { content: string }) => {
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      timestamp: new Date().toISOString(),
+      ...patch,
+    }]);
+  };
+
+  const handleAssistantActions = async (messageId: string, actions: AssistantAction[]) => {
+    try {
+      const result = await window.electronAPI.prepareAssistantActions(actions);
+      if (!result.success || !result.data) {
+        appendAssistantMessage({ content: `操作无法执行：${result.error}` });
+        return;
+      }
+      const plan = result.data;
+      if (plan.previews.length === 0) {
+        return;
       }
+      if (plan.requires_confirmation) {
+        updateMessage(messageId, { plan, plan_status: 'pending' });
+        return;
+      }
+      updateMessage(messageId, { plan, plan_status: 'executed' });
+      await executePlan(plan);
+    } catch (error) {
+      console.error('Failed to prepare assistant actions:', error);
+      appendAssistantMessage({ content: '操作无法执行，请重试' });
+    }
+  };
+
+  // 执行操作，结果作为一条新消息显示在对话中
+  const executePlan = async (plan: AssistantActionPlan) => {
+    if (!plan.previews.some(preview => !preview.error)) {
+      return;
+    }
+    const result = await window.electronAPI.executeAssistantActions(plan.id);
+    if (!result.success || !result.data) {
+      appendAssistantMessage({ content: `操作执行失败：${result.error}` });
+      return;
+    }
+    appendAssistantMessage(describeBatch(result.data));
+  };
+
+  const confirmPlan = async (message: ChatMessage) => {
+    if (!message.plan) return;
+    updateMessage(message.id, { plan_status: 'executed' });
+    try {
+      await executePlan(message.plan);
+    } catch (error) {
+      console.error('Failed to execute assistant actions:', error);
+      appendAssistantMessage({ content: '操作执行失败，请重试' });
+    }
+  };
+
+  const cancelPlan = async (message: ChatMessage) => {
+    if (!message.plan) return;
+    updateMessage(message.id, { plan_status: 'cancelled' });
+    try {
+      await window.electronAPI.cancelAssistantActions(message.plan.id);
+    } catch (error) {
+      console.error('Failed to cancel assistant actions:', error);
+    }
+  };
+
+  const undoBatch = async (message: ChatMessage) => {
+    if (!message.batch) return;
+    try {
+      const result = await window.electronAPI.undoAssistantActions(message.batch.id);
+      if (result.success) {
+        updateMessage(message.id, { undone: true });
+      } else {
+        alert('撤销失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to undo assistant actions:', error);
+      alert('撤销失败，请重试');
     }
   };
 
@@ -134,131 +388,214 @@ const AIAssistant: React.FC<AIAssistantProps> = () => {
   };
 
   return (
-    <div className="h-full flex flex-col bg-gray-50">
-      {/* 聊天消息区域 */}
-      <div className="flex-1 overflow-y-auto p-6">
-        <div className="max-w-4xl mx-auto space-y-6">
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
+    <div className="h-full flex bg-gray-50">
+      <ConversationList
+        conversations={conversations}
+        activeId={conversationId}
+        disabled={isLoading}
+        onSelect={openConversation}
+        onNew={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+      />
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* 聊天消息区域 */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {messages.map((message) => (
               <div
-                className={`flex max-w-[80%] ${
-                  message.role === 'user'
-                    ? 'flex-row-reverse'
-                    : 'flex-row'
-                }`}
+                key={message.id}
+                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                {/* 头像 */}
-                <div className={`flex-shrink-0 ${
-                  message.role === 'user'
-                    ? 'ml-3'
-                    : 'mr-3'
-                }`}>
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                <div
+                  className={`flex max-w-[80%] ${
                     message.role === 'user'
-                      ? 'bg-primary-500 text-white'
-                      : 'bg-gray-200 text-gray-600'
-                  }`}>
-                    {message.role === 'user' ? (
-                      <User className="w-4 h-4" />
-                    ) : (
-                      <Bot className="w-4 h-4" />
-                    )}
-                  </div>
-                </div>
-
-                {/* 消息内容 */}
-                <div className={`${
-                  message.role === 'user'
-                    ? 'text-right'
-                    : 'text-left'
-                }`}>
-                  <div className={`inline-block p-4 rounded-lg ${
+                      ? 'flex-row-reverse'
+                      : 'flex-row'
+                  }`}
+                >
+                  {/* 头像 */}
+                  <div className={`flex-shrink-0 ${
                     message.role === 'user'
-                      ? 'bg-primary-500 text-white'
-                      : 'bg-white text-gray-900 border border-gray-200'
+                      ? 'ml-3'
+                      : 'mr-3'
                   }`}>
-                    <div className="whitespace-pre-wrap">{message.content}</div>
+                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                      message.role === 'user'
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-gray-200 text-gray-600'
+                    }`}>
+                      {message.role === 'user' ? (
+                        <User className="w-4 h-4" />
+                      ) : (
+                        <Bot className="w-4 h-4" />
+                      )}
+                    </div>
                   </div>
-                  <div className={`text-xs text-gray-500 mt-1 ${
+
+                  {/* 消息内容 */}
+                  <div className={`${
                     message.role === 'user'
                       ? 'text-right'
                       : 'text-left'
                   }`}>
-                    {formatTimestamp(message.timestamp)}
+                    <div className={`inline-block p-4 rounded-lg ${
+                      message.role === 'user'
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-white text-gray-900 border border-gray-200'
+                    }`}>
+                      {message.tool_steps && message.tool_steps.length > 0 && (
+                        <div className="mb-3 pb-3 border-b border-gray-100 space-y-1">
+                          {message.tool_steps.map((step, index) => (
+                            <div
+                              key={index}
+                              className={`flex items-center space-x-1.5 text-xs ${step.success ? 'text-gray-500' : 'text-red-500'}`}
+                            >
+                              <Wrench className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{step.description}{step.success ? '' : '（失败）'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="whitespace-pre-wrap">
+                        {renderMessageContent(message.content, message.citations, onOpenNote)}
+                      </div>
+                      {message.citations && message.citations.length > 0 && (
+                        <div className="mt-3 pt-3 border-t border-gray-100 space-y-1">
+                          <p className="text-xs text-gray-500">{message.batch ? '相关记录' : '引用的记录'}</p>
+                          {message.citations.map(citation => (
+                            <button
+                              key={citation.note_id}
+                              onClick={() => onOpenNote?.(citation.note_id)}
+                              className="flex items-center space-x-1.5 max-w-full text-xs text-primary-600 hover:text-primary-800 hover:underline"
+                              title="在记录列表中打开"
+                            >
+                              <span className="flex-shrink-0">[{citation.index}]</span>
+                              <FileText className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{citation.title || '（无标题）'}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {message.plan && (
+                        <ActionPlanCard
+                          plan={message.plan}
+                          status={message.plan_status}
+                          onConfirm={() => confirmPlan(message)}
+                          onCancel={() => cancelPlan(message)}
+                          onOpenNote={onOpenNote}
+                        />
+                      )}
+                      {message.batch?.undoable && (
+                        <div className="mt-3">
+                          {message.undone ? (
+                            <span className="text-xs text-gray-500">已撤销</span>
+                          ) : (
+                            <button
+                              onClick={() => undoBatch(message)}
+                              className="flex items-center space-x-1 text-xs text-gray-600 hover:text-primary-600"
+                            >
+                              <Undo2 className="w-3 h-3" />
+                              <span>撤销这些操作</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className={`text-xs text-gray-500 mt-1 ${
+                      message.role === 'user'
+                        ? 'text-right'
+                        : 'text-left'
+                    }`}>
+                      {formatTimestamp(message.timestamp)}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
-
-          {/* 加载指示器 */}
-          {isLoading && (
-            <div className="flex justify-start">
-              <div className="flex flex-row">
-                <div className="flex-shrink-0 mr-3">
-                  <div className="w-8 h-8 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center">
-                    <Bot className="w-4 h-4" />
+            ))}
+
+            {/* 加载指示器 */}
+            {isLoading && (
+              <div className="flex justify-start">
+                <div className="flex flex-row">
+                  <div className="flex-shrink-0 mr-3">
+                    <div className="w-8 h-8 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center">
+                      <Bot className="w-4 h-4" />
+                    </div>
                   </div>
-                </div>
-                <div className="inline-block p-4 rounded-lg bg-white border border-gray-200">
-                  <div className="flex items-center space-x-2 text-gray-500">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span>思考中...</span>
+                  <div className="inline-block p-4 rounded-lg bg-white border border-gray-200">
+                    {streamingText ? (
+                      <div className="whitespace-pre-wrap text-gray-900">{streamingText}</div>
+                    ) : (
+                      <div className="flex items-center space-x-2 text-gray-500">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span>思考中...</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      {/* 输入区域 */}
-      <div className="bg-white border-t border-gray-200 p-4">
-        <div className="max-w-4xl mx-auto">
-          <div className="flex items-end space-x-4">
-            <div className="flex-1">
-              <textarea
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="输入你的消息... (Shift + Enter 换行，Enter 发送)"
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                rows={1}
-                style={{
-                  minHeight: '48px',
-                  maxHeight: '120px',
-                  resize: 'none',
-                }}
-                onInput={(e) => {
-                  const target = e.target as HTMLTextAreaElement;
-                  target.style.height = 'auto';
-                  target.style.height = `${Math.min(target.scrollHeight, 120)}px`;
-                }}
-              />
+        {/* 输入区域 */}
+        <div className="bg-white border-t border-gray-200 p-4">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex items-end space-x-4">
+              <div className="flex-1">
+                <textarea
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  placeholder="输入你的消息... (Shift + Enter 换行，Enter 发送)"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  rows={1}
+                  style={{
+                    minHeight: '48px',
+                    maxHeight: '120px',
+                    resize: 'none',
+                  }}
+                  onInput={(e) => {
+                    const target = e.target as HTMLTextAreaElement;
+                    target.style.height = 'auto';
+                    target.style.height = `${Math.min(target.scrollHeight, 120)}px`;
+                  }}
+                />
+              </div>
+              {isLoading ? (
+                <button
+                  onClick={handleCancel}
+                  className="bg-gray-200 text-gray-700 p-3 rounded-lg hover:bg-gray-300 transition-colors"
+                  title="停止生成"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!inputText.trim()}
+                  className="bg-primary-500 text-white p-3 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="发送消息"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
-            <button
-              onClick={handleSendMessage}
-              disabled={!inputText.trim() || isLoading}
-              className="bg-primary-500 text-white p-3 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              title="发送消息"
-            >
-              <Send className="w-5 h-5" />
-            </button>
-          </div>
 
-          {/* 快捷操作提示 */}
-          <div className="mt-3 text-xs text-gray-500">
-            <p>你可以说：</p>
-            <div className="flex flex-wrap gap-2 mt-1">
-              <span className="bg-gray-100 px-2 py-1 rounded">"添加待办：完成项目文档"</span>
-              <span className="bg-gray-100 px-2 py-1 rounded">"搜索关于会议的笔记"</span>
-              <span className="bg-gray-100 px-2 py-1 rounded">"删除最近的那条笔记"</span>
-              <span className="bg-gray-100 px-2 py-1 rounded">"总结今天的工作"</span>
+            {/* 快捷操作提示 */}
+            <div className="mt-3 text-xs text-gray-500">
+              <p>你可以说：</p>
+              <div className="flex flex-wrap gap-2 mt-1">
+                <span className="bg-gray-100 px-2 py-1 rounded">"添加待办：完成项目文档"</span>
+                <span className="bg-gray-100 px-2 py-1 rounded">"搜索关于会议的笔记"</span>
+                <span className="bg-gray-100 px-2 py-1 rounded">"删除最近的那条笔记"</span>
+                <span className="bg-gray-100 px-2 py-1 rounded">"总结今天的工作"</span>
+                <span className="bg-gray-100 px-2 py-1 rounded">"上个月登录问题是怎么解决的？"</span>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { AlertTriangle, Check, X, FileText } from 'lucide-react';
+import { AssistantActionPlan, Note } from '../../../core/src/types';
+
+const TYPE_NAMES: Record<string, string> = { todo: '待办', issue: '问题', idea: '想法', feeling: '感受', note: '笔记' };
+const STATUS_NAMES: Record<string, string> = { new: '新增', ongoing: '进行中', closed: '已完成' };
+
+// 笔记的第一行，用于链接和预览
+export const noteTitle = (note: Note) => {
+  return note.text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '（无标题）';
+};
+
+interface ActionPlanCardProps {
+  plan: AssistantActionPlan;
+  status?: 'pending' | 'executed' | 'cancelled';
+  onConfirm: () => void;
+  onCancel: () => void;
+  onOpenNote?: (noteId: string) => void;
+}
+
+// AI助手将要执行的操作，删除和修改需要用户确认
+const ActionPlanCard: React.FC<ActionPlanCardProps> = ({ plan, status, onConfirm, onCancel, onOpenNote }) => {
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+      {plan.previews.map(preview => (
+        <div
+          key={preview.index}
+          className={`rounded-md border p-3 text-sm ${
+            preview.error
+              ? 'border-gray-200 bg-gray-50 text-gray-500'
+              : preview.destructive
+                ? 'border-orange-200 bg-orange-50'
+                : 'border-gray-200 bg-white'
+          }`}
+        >
+          <div className="flex items-center space-x-1.5 font-medium">
+            {preview.destructive && !preview.error && <AlertTriangle className="w-4 h-4 text-orange-500 flex-shrink-0" />}
+            <span>{preview.description}</span>
+          </div>
+          {preview.error && <p className="text-xs text-red-600 mt-1">{preview.error}</p>}
+
+          {preview.notes.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {preview.notes.map(note => (
+                <button
+                  key={note.id}
+                  onClick={() => onOpenNote?.(note.id)}
+                  className="flex items-center space-x-1.5 max-w-full text-xs text-gray-700 hover:text-primary-600 hover:underline"
+                  title="在记录列表中打开"
+                >
+                  <FileText className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{noteTitle(note)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {preview.changes && (
+            <div className="mt-2 space-y-1 text-xs text-gray-700">
+              {preview.changes.text !== undefined && (
+                <div>
+                  <span className="text-gray-500">新内容：</span>
+                  <span className="whitespace-pre-wrap">{preview.changes.text}</span>
+                </div>
+              )}
+              {preview.changes.tags !== undefined && (
+                <div>
+                  <span className="text-gray-500">标签：</span>
+                  {preview.changes.tags.length > 0 ? preview.changes.tags.join('、') : '（清空）'}
+                </div>
+              )}
+              {preview.changes.status !== undefined && (
+                <div>
+                  <span className="text-gray-500">状态：</span>
+                  {STATUS_NAMES[preview.changes.status] || preview.changes.status}
+                </div>
+              )}
+              {preview.changes.type_hint !== undefined && (
+                <div>
+                  <span className="text-gray-500">分类：</span>
+                  {TYPE_NAMES[preview.changes.type_hint] || preview.changes.type_hint}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {plan.requires_confirmation && (
+        status === 'pending' ? (
+          <div className="flex items-center space-x-2">
+            <button onClick={onConfirm} className="btn-primary flex items-center space-x-1 text-sm">
+              <Check className="w-4 h-4" />
+              <span>确认执行</span>
+            </button>
+            <button onClick={onCancel} className="btn-secondary flex items-center space-x-1 text-sm">
+              <X className="w-4 h-4" />
+              <span>取消</span>
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">{status === 'cancelled' ? '已取消' : '已确认执行'}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ActionPlanCard;
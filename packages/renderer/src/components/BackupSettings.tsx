@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Database, FolderOpen, RotateCcw, Trash2 } from 'lucide-react';
+import { BackupKind, BackupSnapshot } from '../../../core/src/index';
+import { formatFileSize } from './NoteAttachments';
+
+const kindLabels: Record<BackupKind, { label: string; color: string }> = {
+  daily: { label: '每日', color: 'bg-blue-100 text-blue-700' },
+  weekly: { label: '每周', color: 'bg-purple-100 text-purple-700' },
+  manual: { label: '手动', color: 'bg-green-100 text-green-700' },
+  'pre-migration': { label: '升级前', color: 'bg-amber-100 text-amber-700' },
+  'pre-restore': { label: '恢复前', color: 'bg-gray-100 text-gray-700' },
+};
+
+// 设置页中的数据库快照列表，可手动备份和从快照恢复
+const BackupSettings: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const loadSnapshots = async () => {
+    try {
+      const result = await window.electronAPI.getBackups();
+      if (result.success && result.data) {
+        setSnapshots(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setBusy(true);
+      const result = await window.electronAPI.createBackup();
+      if (result.success) {
+        await loadSnapshots();
+      } else {
+        alert('备份失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      alert('备份失败，请重试');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: BackupSnapshot) => {
+    const time = format(new Date(snapshot.created_at), 'yyyy年MM月dd日 HH:mm', { locale: zhCN });
+    if (!confirm(`确定要恢复到 ${time} 的快照吗？\n\n当前数据会先自动备份（"恢复前"快照），之后的修改将被替换。`)) return;
+
+    try {
+      setBusy(true);
+      const result = await window.electronAPI.restoreBackup(snapshot.id);
+      // 恢复成功后主进程会重新加载界面
+      if (!result.success) {
+        alert('恢复失败：' + result.error);
+        await loadSnapshots();
+      }
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      alert('恢复失败，请重试');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: BackupSnapshot) => {
+    if (!confirm('确定要删除这个快照吗？')) return;
+
+    try {
+      const result = await window.electronAPI.deleteBackup(snapshot.id);
+      if (result.success) {
+        setSnapshots(prev => prev.filter(item => item.id !== snapshot.id));
+      } else {
+        alert('删除失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to delete backup:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Database className="w-5 h-5 text-blue-600" />
+          <h4 className="text-lg font-semibold text-gray-900">数据备份</h4>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => window.electronAPI.openBackupFolder()}
+            className="text-gray-400 hover:text-gray-600 p-1"
+            title="打开备份目录"
+          >
+            <FolderOpen className="w-4 h-4" />
+          </button>
+          <button onClick={handleCreate} disabled={busy} className="btn-secondary text-sm disabled:opacity-50">
+            {busy ? '处理中...' : '立即备份'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-3">
+        每天和每周自动生成数据库快照，应用升级前也会自动备份；保留最近7个每日快照和4个每周快照
+      </p>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-400">暂无快照</p>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="group flex items-center justify-between px-3 py-2">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${kindLabels[snapshot.kind].color}`}>
+                  {kindLabels[snapshot.kind].label}
+                </span>
+                <span className="text-sm text-gray-800">
+                  {format(new Date(snapshot.created_at), 'yyyy-MM-dd HH:mm', { locale: zhCN })}
+                </span>
+                <span className="text-xs text-gray-400 truncate">
+                  {snapshot.note_count} 条记录 · {formatFileSize(snapshot.size)}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={busy}
+                  className="flex items-center space-x-1 text-xs text-gray-500 hover:text-primary-600 px-2 py-1 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  <span>恢复</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(snapshot)}
+                  disabled={busy}
+                  className="hidden group-hover:block text-gray-400 hover:text-red-600 p-1"
+                  title="删除快照"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import { AssistantConversation } from '../../../core/src/types';
+
+interface ConversationListProps {
+  conversations: AssistantConversation[];
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversation: AssistantConversation) => void;
+}
+
+const formatUpdatedAt = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' });
+};
+
+// AI助手中保存的对话列表，可以继续、重命名和删除
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeId, disabled, onSelect, onNew, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (conversation: AssistantConversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-60 flex-shrink-0 flex flex-col bg-white border-r border-gray-200">
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="btn-secondary w-full flex items-center justify-center space-x-1 text-sm disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          <span>新对话</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-gray-400 text-center mt-4">还没有保存的对话</p>
+        )}
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center rounded-md px-2 py-2 text-sm ${
+              conversation.id === activeId ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="input-primary flex-1 py-1 text-sm"
+                autoFocus
+              />
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 flex items-center space-x-2 text-left disabled:cursor-not-allowed"
+                  title={conversation.title}
+                >
+                  <MessageSquare className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                  <span className="truncate flex-1">{conversation.title}</span>
+                  <span className="text-xs text-gray-400 flex-shrink-0 group-hover:hidden">{formatUpdatedAt(conversation.updated_at)}</span>
+                </button>
+                <div className="hidden group-hover:flex items-center space-x-1 ml-1">
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1 text-gray-400 hover:text-primary-600"
+                    title="重命名"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(conversation)}
+                    disabled={disabled}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="删除对话"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationList;
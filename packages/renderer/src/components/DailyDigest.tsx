@@ -1,19 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
-import { Sparkles, Calendar, RefreshCw, FileText, Archive } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { Note } from '../../../core/src/index';
+import { Sparkles, Calendar, RefreshCw, FileText, Archive, Square } from 'lucide-react';
+import { Note, AIProgress, DailyDigest as DailyDigestData, DigestTodo } from '../../../core/src/index';
+import DigestView, { formatProgress } from './DigestView';
 
 const DailyDigest: React.FC = () => {
   const [todayNotes, setTodayNotes] = useState<Note[]>([]);
-  const [digest, setDigest] = useState<string>('');
+  const [digest, setDigest] = useState<DailyDigestData | null>(null);
+  // 生成过程中收到的原始JSON，只用来显示进度
+  const [streamedText, setStreamedText] = useState('');
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [saving, setSaving] = useState(false);
+  // 已保存到历史的总结ID，转为待办时一并记录到历史中
+  const [savedDigestId, setSavedDigestId] = useState<string | null>(null);
+  const [convertingTodo, setConvertingTodo] = useState<number | null>(null);
+  // 记录较多时分段生成，显示当前阶段
+  const [progress, setProgress] = useState<AIProgress | null>(null);
+  // 当前生成请求的ID，只显示这次请求的流式进度
+  const requestIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     loadTodayNotes();
+    loadSavedDigest();
+  }, []);
+
+  useEffect(() => {
+    const handler = window.electronAPI.onAIStream((event) => {
+      if (event.requestId === requestIdRef.current) {
+        setStreamedText(event.text);
+        setProgress(event.progress || null);
+      }
+    });
+    return () => window.electronAPI.removeAIStreamListener(handler);
   }, []);
 
   const loadTodayNotes = async () => {
@@ -30,25 +50,55 @@ const DailyDigest: React.FC = () => {
     }
   };
 
+  // 今天已保存（包括定时自动生成）的总结直接显示
+  const loadSavedDigest = async () => {
+    try {
+      const result = await window.electronAPI.getSavedDigestByDate(format(new Date(), 'yyyy-MM-dd'));
+      if (result.success && result.data?.digest) {
+        const saved = result.data;
+        setDigest(current => current || saved.digest || null);
+        setSavedDigestId(current => current || saved.id);
+      }
+    } catch (error) {
+      console.error('Failed to load saved digest:', error);
+    }
+  };
+
   const generateDigest = async () => {
     if (todayNotes.length === 0) {
       alert('今日暂无记录，无法生成总结');
       return;
     }
 
+    const requestId = crypto.randomUUID();
     try {
+      requestIdRef.current = requestId;
       setGenerating(true);
-      const result = await window.electronAPI.generateDailyDigest();
+      setDigest(null);
+      setStreamedText('');
+      setSavedDigestId(null);
+      setProgress(null);
+      const result = await window.electronAPI.generateDailyDigest(requestId);
       if (result.success && result.data) {
         setDigest(result.data);
-      } else {
+      } else if (!result.cancelled) {
         alert('生成总结失败：' + result.error);
       }
     } catch (error) {
       console.error('Failed to generate digest:', error);
       alert('生成总结失败，请重试');
     } finally {
+      requestIdRef.current = null;
       setGenerating(false);
+      setStreamedText('');
+      setProgress(null);
+    }
+  };
+
+  // 停止生成
+  const cancelDigest = async () => {
+    if (requestIdRef.current) {
+      await window.electronAPI.cancelAIRequest(requestIdRef.current);
     }
   };
 
@@ -63,8 +113,9 @@ const DailyDigest: React.FC = () => {
       // 使用ISO日期格式 (YYYY-MM-DD) 保存
       const today = new Date();
       const isoDate = format(today, 'yyyy-MM-dd');
-      const result = await (window as any).electronAPI.saveDigestToHistory(isoDate, digest);
-      if (result.success) {
+      const result = await window.electronAPI.saveDigestToHistory(isoDate, digest);
+      if (result.success && result.data) {
+        setSavedDigestId(result.data.id);
         alert('总结已保存到历史记录');
       } else {
         alert('保存失败：' + result.error);
@@ -77,6 +128,32 @@ const DailyDigest: React.FC = () => {
     }
   };
 
+  const convertTodo = async (todo: DigestTodo, index: number) => {
+    if (!digest) {
+      return;
+    }
+
+    try {
+      setConvertingTodo(index);
+      const result = await window.electronAPI.createDigestTodo(todo, savedDigestId || undefined, index);
+      if (result.success && result.data) {
+        const noteId = result.data.id;
+        setDigest(prev => prev && {
+          ...prev,
+          todos: prev.todos.map((item, i) => (i === index ? { ...item, note_id: noteId } : item)),
+        });
+        setTodayNotes(prev => [result.data as Note, ...prev]);
+      } else {
+        alert('创建待办失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to create todo from digest:', error);
+      alert('创建待办失败，请重试');
+    } finally {
+      setConvertingTodo(null);
+    }
+  };
+
   const today = new Date();
   const todayStr = format(today, 'yyyy年MM月dd日', { locale: zhCN });
 
@@ -109,10 +186,21 @@ const DailyDigest: React.FC = () => {
               <span>{generating ? '生成中...' : '生成今日总结'}</span>
             </button>
 
-            {digest && (
+            {generating && (
+              <button
+                onClick={cancelDigest}
+                className="btn-secondary flex items-center space-x-2"
+                title="停止生成"
+              >
+                <Square className="w-4 h-4" />
+                <span>停止</span>
+              </button>
+            )}
+
+            {digest && !generating && (
               <button
                 onClick={saveDigestToHistory}
-                disabled={saving}
+                disabled={saving || savedDigestId !== null}
                 className="flex items-center space-x-2 px-4 py-2 bg-green-50 text-green-700 border border-green-200 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 title="保存当前总结到历史记录"
               >
@@ -121,7 +209,7 @@ const DailyDigest: React.FC = () => {
                 ) : (
                   <Archive className="w-4 h-4" />
                 )}
-                <span>{saving ? '保存中...' : '保存到历史'}</span>
+                <span>{saving ? '保存中...' : savedDigestId ? '已保存' : '保存到历史'}</span>
               </button>
             )}
           </div>
@@ -191,8 +279,17 @@ const DailyDigest: React.FC = () => {
 
           <div className="flex-1 overflow-y-auto p-6">
             {digest ? (
-              <div className="prose prose-sm max-w-none">
-                <ReactMarkdown>{digest}</ReactMarkdown>
+              <DigestView
+                digest={digest}
+                convertingTodo={convertingTodo}
+                onConvertTodo={convertTodo}
+              />
+            ) : generating ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="flex items-center space-x-2 text-gray-500">
+                  <div className="w-4 h-4 border-2 border-gray-300 border-t-primary-600 rounded-full animate-spin"></div>
+                  <span className="text-sm">{formatProgress(progress, streamedText)}</span>
+                </div>
               </div>
             ) : (
               <div className="flex-1 flex items-center justify-center text-gray-500">
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { DigestSchedule } from '../../../core/src/index';
+
+// 按周一到周日显示，值与 Date.getDay() 一致
+const WEEKDAYS = [
+  { value: 1, label: '一' },
+  { value: 2, label: '二' },
+  { value: 3, label: '三' },
+  { value: 4, label: '四' },
+  { value: 5, label: '五' },
+  { value: 6, label: '六' },
+  { value: 0, label: '日' },
+];
+
+// 设置页中的定时自动总结配置，修改后立即生效
+const DigestScheduleSettings: React.FC = () => {
+  const [schedule, setSchedule] = useState<DigestSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const loadSchedule = async () => {
+    try {
+      const result = await window.electronAPI.getDigestSchedule();
+      if (result.success && result.data) {
+        setSchedule(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load digest schedule:', error);
+    }
+  };
+
+  const saveSchedule = async (next: DigestSchedule) => {
+    const previous = schedule;
+    setSchedule(next);
+    try {
+      setSaving(true);
+      const result = await window.electronAPI.setDigestSchedule(next);
+      if (result.success && result.data) {
+        setSchedule(result.data);
+      } else {
+        setSchedule(previous);
+        alert('保存失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to save digest schedule:', error);
+      setSchedule(previous);
+      alert('保存失败，请重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!schedule) return;
+    const weekdays = schedule.weekdays.includes(day)
+      ? schedule.weekdays.filter(item => item !== day)
+      : [...schedule.weekdays, day];
+    saveSchedule({ ...schedule, weekdays });
+  };
+
+  if (!schedule) {
+    return null;
+  }
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Clock className="w-5 h-5 text-primary-600" />
+          <h4 className="text-lg font-semibold text-gray-900">自动总结</h4>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={schedule.enabled}
+            disabled={saving}
+            onChange={(e) => saveSchedule({ ...schedule, enabled: e.target.checked })}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>启用</span>
+        </label>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        到点自动生成当天的总结并保存到历史记录，完成后发送通知；应用未运行时错过的总结会在下次启动时补做（最多7天）
+      </p>
+
+      <div className={`space-y-4 ${schedule.enabled ? '' : 'opacity-50'}`}>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-700 w-16">生成时间</span>
+          <input
+            type="time"
+            value={schedule.time}
+            disabled={!schedule.enabled || saving}
+            onChange={(e) => e.target.value && saveSchedule({ ...schedule, time: e.target.value })}
+            className="input-primary w-32"
+          />
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-700 w-16">重复</span>
+          <div className="flex space-x-1">
+            {WEEKDAYS.map(day => (
+              <button
+                key={day.value}
+                onClick={() => toggleWeekday(day.value)}
+                disabled={!schedule.enabled || saving}
+                className={`w-8 h-8 rounded-full text-sm transition-colors disabled:cursor-not-allowed ${
+                  schedule.weekdays.includes(day.value)
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DigestScheduleSettings;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { RefreshCw, FolderOpen, AlertTriangle, Lightbulb, ListTodo, Plus, Check, MessageCircle } from 'lucide-react';
+import { AIProgress, DailyDigest, DigestTodo } from '../../../core/src/index';
+
+interface DigestViewProps {
+  digest: DailyDigest;
+  convertingTodo: number | null;
+  onConvertTodo: (todo: DigestTodo, index: number) => void;
+  // 标题中的时间范围，如"今日"、"本周"
+  scope?: string;
+}
+
+// 结构化总结：项目概览、待办清单和复盘反思
+const DigestView: React.FC<DigestViewProps> = ({ digest, convertingTodo, onConvertTodo, scope = '今日' }) => (
+  <div className="space-y-6">
+    {digest.summary && (
+      <p className="text-gray-800 leading-relaxed">{digest.summary}</p>
+    )}
+
+    {digest.projects.length > 0 && (
+      <section>
+        <h5 className="flex items-center space-x-2 font-semibold text-gray-900 mb-3">
+          <FolderOpen className="w-4 h-4 text-primary-600" />
+          <span>{scope}项目概览</span>
+        </h5>
+        <div className="space-y-3">
+          {digest.projects.map((project, index) => (
+            <div key={index} className="card p-4">
+              <h6 className="font-medium text-gray-900 mb-2">{project.name}</h6>
+              {project.progress && (
+                <p className="text-sm text-gray-700">{project.progress}</p>
+              )}
+              {project.issues.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {project.issues.map((issue, i) => (
+                    <li key={i} className="flex items-start space-x-2 text-sm text-red-700">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{issue}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {project.ideas.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {project.ideas.map((idea, i) => (
+                    <li key={i} className="flex items-start space-x-2 text-sm text-yellow-800">
+                      <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>{idea}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    )}
+
+    {digest.todos.length > 0 && (
+      <section>
+        <h5 className="flex items-center space-x-2 font-semibold text-gray-900 mb-3">
+          <ListTodo className="w-4 h-4 text-blue-600" />
+          <span>待办清单</span>
+        </h5>
+        <ul className="space-y-2">
+          {digest.todos.map((todo, index) => (
+            <li key={index} className="flex items-center justify-between bg-white rounded-lg border border-gray-200 px-3 py-2">
+              <div className="flex items-center space-x-2 min-w-0">
+                {todo.priority && (
+                  <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${getPriorityColor(todo.priority)}`}>
+                    {getPriorityName(todo.priority)}
+                  </span>
+                )}
+                {todo.project && (
+                  <span className="text-xs text-gray-500 flex-shrink-0">[{todo.project}]</span>
+                )}
+                <span className="text-sm text-gray-800">{todo.text}</span>
+              </div>
+              {todo.note_id ? (
+                <span className="flex items-center space-x-1 text-xs text-green-700 flex-shrink-0 ml-3">
+                  <Check className="w-3.5 h-3.5" />
+                  <span>已添加</span>
+                </span>
+              ) : (
+                <button
+                  onClick={() => onConvertTodo(todo, index)}
+                  disabled={convertingTodo !== null}
+                  className="flex items-center space-x-1 text-xs text-primary-600 hover:bg-primary-50 px-2 py-1 rounded-md transition-colors flex-shrink-0 ml-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="转为待办记录"
+                >
+                  {convertingTodo === index ? (
+                    <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <Plus className="w-3.5 h-3.5" />
+                  )}
+                  <span>转为待办</span>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+    )}
+
+    {digest.reflections.length > 0 && (
+      <section>
+        <h5 className="flex items-center space-x-2 font-semibold text-gray-900 mb-3">
+          <MessageCircle className="w-4 h-4 text-purple-600" />
+          <span>{scope}复盘</span>
+        </h5>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+          {digest.reflections.map((reflection, index) => (
+            <li key={index}>{reflection}</li>
+          ))}
+        </ul>
+      </section>
+    )}
+  </div>
+);
+
+// 生成过程中的进度说明
+export const formatProgress = (progress: AIProgress | null, streamedText: string) => {
+  if (!progress) {
+    return streamedText ? `正在生成总结（已生成 ${streamedText.length} 字）...` : '正在生成总结...';
+  }
+  if (progress.stage === 'map') {
+    const label = progress.label ? `：${progress.label}` : '';
+    return `记录较多，正在分段整理（${progress.completed + 1}/${progress.total}）${label}`;
+  }
+  if (progress.total > 1) {
+    return `正在合并各部分总结（${progress.completed + 1}/${progress.total}）...`;
+  }
+  return '正在合并各部分总结，生成最终总结...';
+};
+
+// 辅助函数
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return 'bg-red-100 text-red-800';
+    case 'medium': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const getPriorityName = (priority: string) => {
+  switch (priority) {
+    case 'high': return '高';
+    case 'medium': return '中';
+    default: return '低';
+  }
+};
+
+export default DigestView;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, AlertTriangle } from 'lucide-react';
+
+// 密码最少长度，与主进程的校验一致
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+// 设置页中的数据库加密：启用、更换密码和关闭
+const EncryptionSettings: React.FC = () => {
+  const [encrypted, setEncrypted] = useState(false);
+  const [action, setAction] = useState<EncryptionAction | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadState();
+  }, []);
+
+  const loadState = async () => {
+    try {
+      const result = await window.electronAPI.getDatabaseLockState();
+      if (result.success && result.data) {
+        setEncrypted(result.data.encrypted);
+      }
+    } catch (error) {
+      console.error('Failed to load encryption state:', error);
+    }
+  };
+
+  const openAction = (next: EncryptionAction | null) => {
+    setAction(next);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action !== 'disable') {
+      if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        alert(`密码至少需要${MIN_PASSPHRASE_LENGTH}个字符`);
+        return;
+      }
+      if (newPassphrase !== confirmPassphrase) {
+        alert('两次输入的密码不一致');
+        return;
+      }
+    }
+
+    try {
+      setBusy(true);
+      const result = action === 'enable'
+        ? await window.electronAPI.enableDatabaseEncryption(newPassphrase)
+        : action === 'change'
+          ? await window.electronAPI.changeDatabasePassphrase(currentPassphrase, newPassphrase)
+          : await window.electronAPI.disableDatabaseEncryption(currentPassphrase);
+
+      if (result.success) {
+        openAction(null);
+        await loadState();
+      } else {
+        alert('操作失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to update database encryption:', error);
+      alert('操作失败，请重试');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          {encrypted ? <Lock className="w-5 h-5 text-green-600" /> : <Unlock className="w-5 h-5 text-gray-500" />}
+          <h4 className="text-lg font-semibold text-gray-900">数据加密</h4>
+        </div>
+        <span className={`text-xs px-2 py-0.5 rounded ${encrypted ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+          {encrypted ? '已加密' : '未加密'}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        启用后数据库和备份快照都用密码加密保存，每次启动需要输入密码解锁；API密钥单独保存在系统钥匙串中
+      </p>
+
+      {!action && (
+        <div className="flex items-center space-x-2">
+          {encrypted ? (
+            <>
+              <button onClick={() => openAction('change')} className="btn-secondary text-sm">更换密码</button>
+              <button onClick={() => openAction('disable')} className="text-sm text-gray-500 hover:text-red-600 px-2">
+                关闭加密
+              </button>
+            </>
+          ) : (
+            <button onClick={() => openAction('enable')} className="btn-primary text-sm">启用加密</button>
+          )}
+        </div>
+      )}
+
+      {action && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {action !== 'enable' && (
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder="当前密码"
+              autoFocus
+              className="input-primary w-full"
+            />
+          )}
+          {action !== 'disable' && (
+            <>
+              <input
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                placeholder={`新密码（至少${MIN_PASSPHRASE_LENGTH}个字符）`}
+                autoFocus={action === 'enable'}
+                className="input-primary w-full"
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="再次输入新密码"
+                className="input-primary w-full"
+              />
+            </>
+          )}
+
+          {action === 'enable' && (
+            <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>密码无法找回，忘记密码将无法打开数据库和加密的快照。笔记附件和Markdown同步目录中的文件仍以明文保存，不会加密。</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => openAction(null)} className="btn-secondary text-sm">取消</button>
+            <button
+              type="submit"
+              disabled={busy || (action !== 'enable' && !currentPassphrase)}
+              className="btn-primary text-sm disabled:opacity-50"
+            >
+              {busy ? '处理中...' : action === 'enable' ? '启用' : action === 'change' ? '更换' : '关闭加密'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
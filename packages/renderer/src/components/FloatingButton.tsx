@@ -1,5 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
-import { MessageCircle, Send, Minimize2, Trash2, ListChecks, AlertCircle, Lightbulb, Heart, FileText, X } from 'lucide-react';
+import { MessageCircle, Send, Minimize2, Trash2, ListChecks, AlertCircle, Lightbulb, Heart, FileText, X, Square } from 'lucide-react';
+import { Note, ParsedDueDate } from '../../../core/src/index';
+import { toAttachmentInputs, formatFileSize } from './NoteAttachments';
 
 interface FloatingButtonProps {
   onPositionChange?: (x: number, y: number) => void;
@@ -13,20 +15,26 @@ interface Message {
   timestamp: Date;
 }
 
+const GREETING_MESSAGE: Message = {
+  id: 'greeting',
+  text: 'Hello! 我是您的AI助手，有什么可以帮助您的吗？',
+  isUser: false,
+  timestamp: new Date()
+};
+
+// 浮窗当前对话的ID，浮窗对话同样保存，可在主窗口的AI助手中查看和继续
+const FLOATING_CONVERSATION_KEY = 'flowpad-floating-conversation';
+
 const FloatingButton: React.FC<FloatingButtonProps> = () => {
   // 根据窗口大小判断初始展开状态，实现状态持久化
   const [isExpanded, setIsExpanded] = useState(() => {
     const isLargeWindow = window.innerWidth > 100 && window.innerHeight > 100;
     return isLargeWindow;
   });
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: 'Hello! 我是您的AI助手，有什么可以帮助您的吗？',
-      isUser: false,
-      timestamp: new Date()
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([GREETING_MESSAGE]);
+  const conversationIdRef = useRef<string | null>(localStorage.getItem(FLOATING_CONVERSATION_KEY));
+  // 依次保存消息，保证第一条消息创建对话后再保存后面的消息
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
@@ -35,6 +43,13 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
   const [availableProjects, setAvailableProjects] = useState<string[]>([]);
   const [isCreatingProject, setIsCreatingProject] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
+  const [parsedDue, setParsedDue] = useState<ParsedDueDate | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // 正在生成的回答，随流式进度更新
+  const [streamingText, setStreamingText] = useState('');
+  const requestIdRef = useRef<string | null>(null);
+  const streamingTextRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -58,6 +73,22 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
     }
   }, [inputText]);
 
+  // 恢复上次的浮窗对话
+  useEffect(() => {
+    const conversationId = conversationIdRef.current;
+    if (!conversationId) return;
+    (window as any).electronAPI?.getAssistantMessages?.(conversationId).then((result: any) => {
+      if (result?.success && result.data?.length > 0) {
+        setMessages([GREETING_MESSAGE, ...result.data.map((message: any) => ({
+          id: message.id,
+          text: message.content,
+          isUser: message.role === 'user',
+          timestamp: new Date(message.timestamp)
+        }))]);
+      }
+    });
+  }, []);
+
   // 加载可用的项目标签 - 从自定义标签中获取
   useEffect(() => {
     const loadAvailableProjects = async () => {
@@ -130,7 +161,20 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
 
     const rafId = requestAnimationFrame(scrollToBottom);
     return () => cancelAnimationFrame(rafId);
-  }, [messages.length]); // 只依赖消息数量，而非整个 messages 数组
+  }, [messages.length, streamingText]); // 只依赖消息数量和生成进度，而非整个 messages 数组
+
+  // 接收当前问答请求的流式生成进度
+  useEffect(() => {
+    const handler = (window as any).electronAPI?.onAIStream?.((event: { requestId: string; text: string }) => {
+      if (event.requestId === requestIdRef.current) {
+        streamingTextRef.current = event.text;
+        setStreamingText(event.text);
+      }
+    });
+    return () => {
+      (window as any).electronAPI?.removeAIStreamListener?.(handler);
+    };
+  }, []);
 
   // 监听主进程发来的展开事件，快捷键 Option+N 直接进入聊天模式
   useEffect(() => {
@@ -153,6 +197,25 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // 待办分类下实时解析输入中的截止时间，如"明天下午3点"
+  useEffect(() => {
+    if (selectedCategory !== 'todo' || !inputText.trim()) {
+      setParsedDue(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await (window as any).electronAPI?.parseDueDate(inputText);
+        setParsedDue(result?.success ? result.data || null : null);
+      } catch (error) {
+        console.error('FloatingButton: 解析截止时间失败', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [inputText, selectedCategory]);
+
   // 窗口大小检查已移至 useState 初始化器中，避免额外的 effect
 
   // 检测消息类型
@@ -229,20 +292,56 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
     return tags;
   };
 
-  // 清除聊天记录
+  // 清除聊天记录，之后的消息保存为新对话，之前的对话仍可在AI助手中查看
   const clearChatHistory = () => {
     if (confirm('确定要清除所有聊天记录吗？')) {
-      setMessages([{
-        id: '1',
-        text: 'Hello! 我是您的AI助手，有什么可以帮助您的吗？',
-        isUser: false,
-        timestamp: new Date()
-      }]);
+      setMessages([GREETING_MESSAGE]);
+      conversationIdRef.current = null;
+      localStorage.removeItem(FLOATING_CONVERSATION_KEY);
+    }
+  };
+
+  const createConversation = async (text: string): Promise<string | null> => {
+    const title = text.split('\n')[0].trim().slice(0, 30) || '浮窗对话';
+    const result = await (window as any).electronAPI?.createAssistantConversation?.(title);
+    if (!result?.success || !result.data) {
+      return null;
+    }
+    conversationIdRef.current = result.data.id;
+    localStorage.setItem(FLOATING_CONVERSATION_KEY, result.data.id);
+    return result.data.id;
+  };
+
+  // 保存消息到浮窗对话，对话已在AI助手中删除时重新创建
+  const saveMessage = (message: Message) => {
+    saveQueueRef.current = saveQueueRef.current.then(() => persistMessage(message));
+  };
+
+  const persistMessage = async (message: Message) => {
+    try {
+      const api = (window as any).electronAPI;
+      const chatMessage = {
+        id: message.id,
+        role: message.isUser ? 'user' : 'assistant',
+        content: message.text,
+        timestamp: message.timestamp.toISOString()
+      };
+      const conversationId = conversationIdRef.current || await createConversation(message.text);
+      if (!conversationId) return;
+      const result = await api?.saveAssistantMessage?.(conversationId, chatMessage);
+      if (!result?.success) {
+        const newId = await createConversation(message.text);
+        if (newId) {
+          await api?.saveAssistantMessage?.(newId, chatMessage);
+        }
+      }
+    } catch (error) {
+      console.error('保存浮窗对话失败:', error);
     }
   };
 
   // 自动创建记录到主应用
-  const createNoteFromChat = async (content: string) => {
+  const createNoteFromChat = async (content: string): Promise<Note | null> => {
     try {
       // 智能标签识别
       const smartTags = parseSmartTags(content);
@@ -259,21 +358,68 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
       // 使用用户选择的分类作为类型提示
       const type_hint = selectedCategory || undefined;
 
+      // 待办解析截止时间，给出了具体时间时在截止时提醒
+      const dueResult = selectedCategory === 'todo'
+        ? await (window as any).electronAPI?.parseDueDate(content)
+        : null;
+      const due: ParsedDueDate | null = dueResult?.success ? dueResult.data || null : null;
+
       const result = await (window as any).electronAPI?.createNote({
         text: content,
         type_hint,
         tags: allTags.length > 0 ? allTags : undefined,
-        project_tag: selectedProject || undefined  // 保持向后兼容
+        project_tag: selectedProject || undefined,  // 保持向后兼容
+        due_at: due?.due_at,
+        remind_at: due?.has_time ? due.due_at : undefined
       });
 
       if (result?.success) {
         console.log('FloatingButton: 自动创建记录成功', result.data);
-        return true;
+        return result.data as Note;
       }
     } catch (error) {
       console.error('FloatingButton: 自动创建记录失败', error);
     }
-    return false;
+    return null;
+  };
+
+  // 为新建的记录保存附件，返回用于回复的说明
+  const addAttachmentsToNote = async (noteId: string, files: File[]): Promise<string> => {
+    try {
+      const result = await (window as any).electronAPI?.addAttachments(noteId, await toAttachmentInputs(files));
+      const added = result?.data?.length || 0;
+      if (added < files.length) {
+        return `，${added} 个附件已添加，${files.length - added} 个添加失败`;
+      }
+      return `，并添加了 ${added} 个附件`;
+    } catch (error) {
+      console.error('FloatingButton: 添加附件失败', error);
+      return '，但附件添加失败';
+    }
+  };
+
+  // 拖入或粘贴的文件先暂存，发送消息时添加到新建的记录
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      setPendingAttachments(prev => [...prev, ...files]);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      setPendingAttachments(prev => [...prev, ...files]);
+    }
+  };
+
+  // 格式化截止时间，如"10月20日 15:00"
+  const formatDueDate = (dueAt: string) => {
+    const date = new Date(dueAt);
+    return `${date.getMonth() + 1}月${date.getDate()}日 ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
   };
 
   // 处理问答类请求
@@ -302,7 +448,16 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
 
 直接输出答案，不要包含任何前缀说明。`;
 
-      const result = await (window as any).electronAPI?.optimizeContent?.(promptForAI);
+      const requestId = crypto.randomUUID();
+      requestIdRef.current = requestId;
+      streamingTextRef.current = '';
+      const result = await (window as any).electronAPI?.optimizeContent?.(promptForAI, requestId);
+
+      if (result?.cancelled) {
+        // 停止生成时保留已生成的部分
+        const partialText = streamingTextRef.current.trim();
+        return partialText ? `${partialText}\n\n（已停止生成）` : '已停止生成。';
+      }
 
       if (result?.success && result?.data) {
         // 清理可能的格式化标记和无用前缀
@@ -332,25 +487,40 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
         return answer.trim();
       }
 
+      // 密钥无效、超时等明确的错误直接告诉用户原因
+      if (result?.errorKind) {
+        return `⚠️ ${result.error}`;
+      }
+
       return '抱歉，我现在无法回答这个问题。您可以尝试在主应用中查找相关信息。';
     } catch (error) {
       console.error('处理问答请求失败:', error);
       return '处理问题时出现错误，请稍后重试。';
+    } finally {
+      requestIdRef.current = null;
+      setStreamingText('');
     }
   };
 
+  const handleCancelAnswer = useCallback(() => {
+    if (requestIdRef.current) {
+      (window as any).electronAPI?.cancelAIRequest?.(requestIdRef.current);
+    }
+  }, []);
+
   // 发送消息 - 使用 useCallback 优化性能
   const handleSendMessage = useCallback(async () => {
     if (!inputText.trim()) return;
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       text: inputText.trim(),
       isUser: true,
       timestamp: new Date()
     };
 
     setMessages(prev => [...prev, userMessage]);
+    saveMessage(userMessage);
     const currentInput = inputText.trim();
     setInputText('');
     setIsTyping(true);
@@ -361,10 +531,12 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
       setIsFocused(false);
     }
 
-    // 检查是否需要创建记录 - 只有选择了"待办"分类才创建记录
-    const shouldCreateRecord = selectedCategory === 'todo';
+    // 检查是否需要创建记录 - 选择了"待办"分类或带有附件时创建记录
+    const attachmentsToAdd = pendingAttachments;
+    setPendingAttachments([]);
+    const shouldCreateRecord = selectedCategory === 'todo' || attachmentsToAdd.length > 0;
     let responseText = '';
-    let recordCreated = false;
+    let createdNote: Note | null = null;
 
     // 如果要创建记录且选择了项目标签，在回复中明确说明
     const selectedProjectInfo = selectedProject ? `【项目：${selectedProject}】` : '';
@@ -372,9 +544,14 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
     try {
       if (shouldCreateRecord) {
         // 用户选择了待办分类 - 创建记录
-        recordCreated = await createNoteFromChat(currentInput);
-        if (recordCreated) {
-          responseText = `✅ 我已为您创建了这个待办记录${selectedProjectInfo}，您可以在"我的记录"中查看和管理。`;
+        createdNote = await createNoteFromChat(currentInput);
+        if (createdNote) {
+          const recordType = selectedCategory === 'todo' ? '待办记录' : '记录';
+          const dueInfo = createdNote.due_at ? `，截止时间 ${formatDueDate(createdNote.due_at)}` : '';
+          const attachmentInfo = attachmentsToAdd.length > 0
+            ? await addAttachmentsToNote(createdNote.id, attachmentsToAdd)
+            : '';
+          responseText = `✅ 我已为您创建了这个${recordType}${selectedProjectInfo}${dueInfo}${attachmentInfo}，您可以在"我的记录"中查看和管理。`;
         } else {
           responseText = '⚠️ 创建待办记录时遇到问题，请您手动在主应用中添加。';
         }
@@ -390,25 +567,27 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
       }
 
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
         text: responseText,
         isUser: false,
         timestamp: new Date()
       };
       setMessages(prev => [...prev, aiMessage]);
+      saveMessage(aiMessage);
     } catch (error) {
       console.error('处理消息失败:', error);
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: crypto.randomUUID(),
         text: '抱歉，处理您的消息时出现了错误，请稍后重试。',
         isUser: false,
         timestamp: new Date()
       };
       setMessages(prev => [...prev, errorMessage]);
+      saveMessage(errorMessage);
     } finally {
       setIsTyping(false);
     }
-  }, [inputText]); // useCallback 依赖项
+  }, [inputText, pendingAttachments]); // useCallback 依赖项
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -452,6 +631,16 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
         className="floating-button"
         data-floating-button="expanded"
         data-expanded={true}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDraggingFile(true);
+        }}
+        onDragLeave={(e) => {
+          if (e.currentTarget === e.target) {
+            setIsDraggingFile(false);
+          }
+        }}
+        onDrop={handleFileDrop}
         style={{
           width: '100%',
           height: '100%',
@@ -620,7 +809,30 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
             </div>
           ))}
 
-          {isTyping && (
+          {isTyping && streamingText && (
+            <div style={{
+              display: 'flex',
+              justifyContent: 'flex-start'
+            }}>
+              <div style={{
+                maxWidth: '80%',
+                padding: '12px 16px',
+                borderRadius: '18px 18px 18px 12px',
+                background: 'white',
+                color: '#1F2937',
+                fontSize: '14px',
+                lineHeight: '1.5',
+                wordWrap: 'break-word',
+                whiteSpace: 'pre-wrap',
+                boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+                border: '1px solid #E5E7EB'
+              }}>
+                {streamingText}
+              </div>
+            </div>
+          )}
+
+          {isTyping && !streamingText && (
             <div style={{
               display: 'flex',
               justifyContent: 'flex-start'
@@ -820,6 +1032,67 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
             )}
           </div>
 
+          {/* 待添加的附件 */}
+          {(pendingAttachments.length > 0 || isDraggingFile) && (
+            <div style={{
+              fontSize: '9px',
+              color: '#1D4ED8',
+              marginBottom: '6px',
+              padding: '4px 8px',
+              backgroundColor: '#EFF6FF',
+              borderRadius: '6px',
+              border: isDraggingFile ? '1px dashed #60A5FA' : '1px solid #BFDBFE',
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '4px',
+              alignItems: 'center'
+            }}>
+              <span style={{ fontWeight: '500' }}>
+                {isDraggingFile ? '松开以添加附件' : '📎 附件：'}
+              </span>
+              {pendingAttachments.map((file, index) => (
+                <span
+                  key={`${file.name}-${index}`}
+                  style={{
+                    backgroundColor: 'white',
+                    border: '1px solid #BFDBFE',
+                    padding: '1px 4px',
+                    borderRadius: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '2px'
+                  }}
+                >
+                  {file.name || '粘贴的图片'} ({formatFileSize(file.size)})
+                  <X
+                    size={10}
+                    style={{ cursor: 'pointer' }}
+                    onClick={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                  />
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* 截止时间预览 */}
+          {parsedDue && (
+            <div style={{
+              fontSize: '9px',
+              color: '#B45309',
+              marginBottom: '6px',
+              padding: '4px 8px',
+              backgroundColor: '#FFFBEB',
+              borderRadius: '6px',
+              border: '1px solid #FDE68A'
+            }}>
+              <span style={{ fontWeight: '500', marginRight: '4px' }}>
+                ⏰ 截止时间：
+              </span>
+              {formatDueDate(parsedDue.due_at)}
+              {parsedDue.has_time && <span style={{ marginLeft: '4px', color: '#6B7280' }}>（到时提醒）</span>}
+            </div>
+          )}
+
           {/* 标签预览 */}
           {(selectedProject || parseSmartTags(inputText).length > 0) && (
             <div style={{
@@ -876,6 +1149,7 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               onFocus={() => setIsFocused(true)}
               onBlur={() => setIsFocused(false)}
               placeholder="输入消息... (Enter发送，Shift+Enter换行)"
@@ -904,6 +1178,28 @@ const FloatingButton: React.FC<FloatingButtonProps> = () => {
                   '0 1px 3px rgba(0, 0, 0, 0.05)'
               }}
             />
+            {isTyping && (
+              <button
+                onClick={handleCancelAnswer}
+                title="停止生成"
+                style={{
+                  background: '#F3F4F6',
+                  color: '#4B5563',
+                  border: '1px solid #E5E7EB',
+                  borderRadius: '14px',
+                  width: '44px',
+                  height: '44px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s',
+                  flexShrink: 0
+                }}
+              >
+                <Square size={14} />
+              </button>
+            )}
             <button
               onClick={handleSendMessage}
               disabled={!inputText.trim() || isTyping}
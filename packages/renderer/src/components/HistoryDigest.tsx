@@ -1,34 +1,82 @@
-import React, { useState, useEffect } from 'react';
-import { format } from 'date-fns';
+import React, { useState, useEffect, useRef } from 'react';
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
-import { History, Calendar, Search, RefreshCw, Trash2, FileText } from 'lucide-react';
+import { History, Calendar, Search, RefreshCw, Trash2, FileText, Sparkles, Square } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { SavedDigest } from '../../../core/src/index';
+import { SavedDigest, DigestGranularity, DigestPeriod, DigestTodo, AIProgress } from '../../../core/src/index';
+import DigestView, { formatProgress } from './DigestView';
+
+// 历史总结按时间粒度分页，scope 用于总结中的标题
+const PERIOD_TABS: { key: DigestGranularity; label: string; scope: string; action: string }[] = [
+  { key: 'day', label: '每日', scope: '今日', action: '' },
+  { key: 'week', label: '每周', scope: '本周', action: '生成周总结' },
+  { key: 'month', label: '每月', scope: '本月', action: '生成月总结' },
+  { key: 'custom', label: '自定义', scope: '本期', action: '生成总结' },
+];
 
 interface HistoryDigestProps {
   refreshKey?: number;
+  // 打开时要选中的每日总结日期
+  initialDate?: string | null;
 }
 
-const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
+const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey, initialDate }) => {
   const [savedDigests, setSavedDigests] = useState<SavedDigest[]>([]);
   const [selectedDigest, setSelectedDigest] = useState<SavedDigest | null>(null);
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeTab, setActiveTab] = useState<DigestGranularity>('day');
+  // 周总结以所选日期所在的周（周一开始）为范围
+  const [weekDate, setWeekDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [month, setMonth] = useState(() => format(new Date(), 'yyyy-MM'));
+  const [customFrom, setCustomFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [customTo, setCustomTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [generating, setGenerating] = useState(false);
+  const [streamedText, setStreamedText] = useState('');
+  const [progress, setProgress] = useState<AIProgress | null>(null);
+  const [convertingTodo, setConvertingTodo] = useState<number | null>(null);
+  // 当前生成请求的ID，只显示这次请求的流式进度
+  const requestIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     loadSavedDigests();
   }, [refreshKey]);
 
+  useEffect(() => {
+    if (!initialDate) return;
+    (async () => {
+      try {
+        const result = await window.electronAPI.getSavedDigestByDate(initialDate);
+        if (result.success && result.data) {
+          setActiveTab('day');
+          setSelectedDigest(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to load digest by date:', error);
+      }
+    })();
+  }, [initialDate]);
+
+  useEffect(() => {
+    const handler = window.electronAPI.onAIStream((event) => {
+      if (event.requestId === requestIdRef.current) {
+        setStreamedText(event.text);
+        setProgress(event.progress || null);
+      }
+    });
+    return () => window.electronAPI.removeAIStreamListener(handler);
+  }, []);
+
   const loadSavedDigests = async () => {
     try {
       setLoading(true);
-      const result = await (window as any).electronAPI.getSavedDigests();
+      const result = await window.electronAPI.getSavedDigests();
       if (result.success && result.data) {
         setSavedDigests(result.data);
-        // 如果没有选中的总结，默认选择第一个
-        if (!selectedDigest && result.data.length > 0) {
-          setSelectedDigest(result.data[0]);
+        // 如果没有选中的总结，默认选择当前分页的第一个；指定了日期时由上面按日期选中
+        if (!selectedDigest && !initialDate) {
+          setSelectedDigest(result.data.find(digest => digest.granularity === activeTab) || null);
         }
       }
     } catch (error) {
@@ -45,7 +93,7 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
 
     try {
       setDeleting(id);
-      const result = await (window as any).electronAPI.deleteSavedDigest(id);
+      const result = await window.electronAPI.deleteSavedDigest(id);
       if (result.success) {
         setSavedDigests(prev => prev.filter(digest => digest.id !== id));
         // 如果删除的是当前选中的总结，清空选中状态
@@ -63,8 +111,118 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
     }
   };
 
+  const switchTab = (tab: DigestGranularity) => {
+    setActiveTab(tab);
+    setSelectedDigest(savedDigests.find(digest => digest.granularity === tab) || null);
+  };
+
+  // 当前分页和所选日期对应的总结范围
+  const getSelectedPeriod = (): DigestPeriod => {
+    switch (activeTab) {
+      case 'week': {
+        const date = new Date(`${weekDate}T00:00:00`);
+        return {
+          granularity: 'week',
+          from: format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+          to: format(endOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+        };
+      }
+      case 'month': {
+        const date = new Date(`${month}-01T00:00:00`);
+        return {
+          granularity: 'month',
+          from: format(startOfMonth(date), 'yyyy-MM-dd'),
+          to: format(endOfMonth(date), 'yyyy-MM-dd'),
+        };
+      }
+      default:
+        return { granularity: 'custom', from: customFrom, to: customTo };
+    }
+  };
+
+  // 生成周期总结并直接保存到历史
+  const generatePeriodDigest = async () => {
+    const period = getSelectedPeriod();
+    if (period.from > period.to) {
+      alert('开始日期不能晚于结束日期');
+      return;
+    }
+
+    const requestId = crypto.randomUUID();
+    try {
+      requestIdRef.current = requestId;
+      setGenerating(true);
+      setStreamedText('');
+      setProgress(null);
+      const result = await window.electronAPI.generateDigest(period, requestId);
+      if (!result.success || !result.data) {
+        if (!result.cancelled) {
+          alert('生成总结失败：' + result.error);
+        }
+        return;
+      }
+
+      const saved = await window.electronAPI.saveDigestToHistory(period.from, result.data, period);
+      if (saved.success && saved.data) {
+        const savedDigest = saved.data;
+        setSavedDigests(prev => [savedDigest, ...prev]);
+        setSelectedDigest(savedDigest);
+      } else {
+        alert('保存失败：' + saved.error);
+      }
+    } catch (error) {
+      console.error('Failed to generate period digest:', error);
+      alert('生成总结失败，请重试');
+    } finally {
+      requestIdRef.current = null;
+      setGenerating(false);
+      setStreamedText('');
+      setProgress(null);
+    }
+  };
+
+  const cancelGeneration = async () => {
+    if (requestIdRef.current) {
+      await window.electronAPI.cancelAIRequest(requestIdRef.current);
+    }
+  };
+
+  const convertTodo = async (todo: DigestTodo, index: number) => {
+    if (!selectedDigest) {
+      return;
+    }
+
+    const digestId = selectedDigest.id;
+    try {
+      setConvertingTodo(index);
+      const result = await window.electronAPI.createDigestTodo(todo, digestId, index);
+      if (result.success && result.data) {
+        const noteId = result.data.id;
+        const update = (saved: SavedDigest): SavedDigest => saved.id !== digestId || !saved.digest ? saved : {
+          ...saved,
+          digest: {
+            ...saved.digest,
+            todos: saved.digest.todos.map((item, i) => (i === index ? { ...item, note_id: noteId } : item)),
+          },
+        };
+        setSavedDigests(prev => prev.map(update));
+        setSelectedDigest(prev => prev && update(prev));
+      } else {
+        alert('创建待办失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to create todo from digest:', error);
+      alert('创建待办失败，请重试');
+    } finally {
+      setConvertingTodo(null);
+    }
+  };
+
+  const activeTabInfo = PERIOD_TABS.find(tab => tab.key === activeTab) || PERIOD_TABS[0];
+
   // 过滤总结
   const filteredDigests = savedDigests.filter(digest => {
+    if (digest.granularity !== activeTab) return false;
     if (!searchQuery) return true;
     const searchLower = searchQuery.toLowerCase();
     return (
@@ -82,6 +240,23 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
     }
   };
 
+  // 周期总结显示范围，月总结只显示月份
+  const formatPeriod = (digest: SavedDigest) => {
+    if (digest.granularity === 'day' || digest.range_start === digest.range_end) {
+      return formatDate(digest.date);
+    }
+    try {
+      const from = new Date(`${digest.range_start}T00:00:00`);
+      if (digest.granularity === 'month') {
+        return format(from, 'yyyy年MM月', { locale: zhCN });
+      }
+      const to = new Date(`${digest.range_end}T00:00:00`);
+      return `${format(from, 'yyyy年MM月dd日', { locale: zhCN })} - ${format(to, 'MM月dd日', { locale: zhCN })}`;
+    } catch (error) {
+      return `${digest.range_start} - ${digest.range_end}`;
+    }
+  };
+
   const formatSavedTime = (savedAtStr: string) => {
     try {
       const date = new Date(savedAtStr);
@@ -120,6 +295,92 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
       <div className="flex-1 flex min-h-0">
         {/* 总结列表 */}
         <div className="w-1/3 border-r border-gray-200 flex flex-col">
+          {/* 时间粒度 */}
+          <div className="flex border-b border-gray-200">
+            {PERIOD_TABS.map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => switchTab(tab.key)}
+                disabled={generating}
+                className={`flex-1 py-2 text-sm font-medium border-b-2 transition-colors disabled:cursor-not-allowed ${
+                  activeTab === tab.key
+                    ? 'border-indigo-600 text-indigo-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {/* 生成周期总结 */}
+          {activeTab !== 'day' && (
+            <div className="p-4 border-b border-gray-200 space-y-3">
+              {activeTab === 'week' && (
+                <input
+                  type="date"
+                  value={weekDate}
+                  onChange={(e) => setWeekDate(e.target.value)}
+                  className="input-primary"
+                  title="选择这一周中的任意一天"
+                />
+              )}
+              {activeTab === 'month' && (
+                <input
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="input-primary"
+                />
+              )}
+              {activeTab === 'custom' && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    value={customFrom}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                    className="input-primary"
+                  />
+                  <span className="text-gray-500">至</span>
+                  <input
+                    type="date"
+                    value={customTo}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                    className="input-primary"
+                  />
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={generatePeriodDigest}
+                  disabled={generating}
+                  className="btn-primary flex-1 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {generating ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-4 h-4" />
+                  )}
+                  <span>{generating ? '生成中...' : activeTabInfo.action}</span>
+                </button>
+                {generating && (
+                  <button
+                    onClick={cancelGeneration}
+                    className="btn-secondary flex items-center space-x-2"
+                    title="停止生成"
+                  >
+                    <Square className="w-4 h-4" />
+                    <span>停止</span>
+                  </button>
+                )}
+              </div>
+              {generating && (
+                <p className="text-xs text-gray-500">{formatProgress(progress, streamedText)}</p>
+              )}
+              <p className="text-xs text-gray-400">已保存每日总结的日期会直接汇总每日总结，其余日期使用原始记录</p>
+            </div>
+          )}
+
           {/* 搜索栏 */}
           <div className="p-4 border-b border-gray-200">
             <div className="relative">
@@ -166,7 +427,7 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
                       <div className="flex items-center space-x-2">
                         <Calendar className="w-4 h-4 text-indigo-600" />
                         <span className="font-medium text-gray-900">
-                          {formatDate(digest.date)}
+                          {formatPeriod(digest)}
                         </span>
                       </div>
                       <button
@@ -203,7 +464,7 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
           <div className="p-4 border-b border-gray-200">
             <h4 className="font-medium text-gray-900">
               {selectedDigest
-                ? `${formatDate(selectedDigest.date)} 的总结`
+                ? `${formatPeriod(selectedDigest)} 的总结`
                 : '选择一个总结查看详细内容'
               }
             </h4>
@@ -215,7 +476,14 @@ const HistoryDigest: React.FC<HistoryDigestProps> = ({ refreshKey }) => {
           </div>
 
           <div className="flex-1 overflow-y-auto p-6">
-            {selectedDigest ? (
+            {selectedDigest?.digest ? (
+              <DigestView
+                digest={selectedDigest.digest}
+                convertingTodo={convertingTodo}
+                onConvertTodo={convertTodo}
+                scope={PERIOD_TABS.find(tab => tab.key === selectedDigest.granularity)?.scope}
+              />
+            ) : selectedDigest ? (
               <div className="prose prose-sm max-w-none">
                 <ReactMarkdown>{selectedDigest.summary}</ReactMarkdown>
               </div>
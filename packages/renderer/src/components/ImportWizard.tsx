@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Download, FileText, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { ImportFormat, ImportPreview, ImportResult, CsvColumnMapping } from '../../../core/src/index';
+
+interface ImporterInfo {
+  format: ImportFormat;
+  name: string;
+  extensions: string[];
+  directory: boolean;
+}
+
+// 预览中最多显示的记录数
+const PREVIEW_LIMIT = 20;
+
+// CSV中可映射的字段
+const CSV_FIELDS: Array<{ key: keyof CsvColumnMapping; label: string }> = [
+  { key: 'text', label: '内容' },
+  { key: 'title', label: '标题' },
+  { key: 'created_at', label: '创建时间' },
+  { key: 'tags', label: '标签' },
+  { key: 'type_hint', label: '类型' },
+  { key: 'project_tag', label: '项目' },
+  { key: 'status', label: '状态' },
+  { key: 'url', label: '链接' },
+];
+
+// 设置页中的导入向导：选择格式和来源 -> 预览 -> 导入
+const ImportWizard: React.FC = () => {
+  const [importers, setImporters] = useState<ImporterInfo[]>([]);
+  const [selectedFormat, setSelectedFormat] = useState<ImportFormat | null>(null);
+  const [sourcePath, setSourcePath] = useState<string | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | undefined>(undefined);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await window.electronAPI.getImporters();
+        if (response.success && response.data) {
+          setImporters(response.data);
+        }
+      } catch (error) {
+        console.error('Failed to load importers:', error);
+      }
+    })();
+  }, []);
+
+  const reset = () => {
+    setSelectedFormat(null);
+    setSourcePath(null);
+    setCsvMapping(undefined);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const loadPreview = async (formatId: ImportFormat, path: string, mapping?: CsvColumnMapping) => {
+    try {
+      setLoading(true);
+      const response = await window.electronAPI.previewImport(formatId, path, { csvMapping: mapping });
+      if (response.success && response.data) {
+        setPreview(response.data);
+        setCsvMapping(response.data.csvMapping);
+      } else {
+        alert('读取失败：' + response.error);
+      }
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      alert('读取失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectSource = async (formatId: ImportFormat) => {
+    const response = await window.electronAPI.selectImportSource(formatId);
+    if (!response.success) {
+      alert('选择失败：' + response.error);
+      return;
+    }
+    if (!response.data) return;
+
+    setSelectedFormat(formatId);
+    setSourcePath(response.data);
+    setResult(null);
+    setCsvMapping(undefined);
+    await loadPreview(formatId, response.data);
+  };
+
+  const handleMappingChange = (key: keyof CsvColumnMapping, header: string) => {
+    if (!selectedFormat || !sourcePath) return;
+    const nextMapping = { ...(csvMapping || { text: '' }), [key]: header || undefined } as CsvColumnMapping;
+    setCsvMapping(nextMapping);
+    if (nextMapping.text) {
+      loadPreview(selectedFormat, sourcePath, nextMapping);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!selectedFormat || !sourcePath || !preview) return;
+
+    try {
+      setLoading(true);
+      const response = await window.electronAPI.runImport(selectedFormat, sourcePath, { csvMapping });
+      if (response.success && response.data) {
+        setResult(response.data);
+        setPreview(null);
+      } else {
+        alert('导入失败：' + response.error);
+      }
+    } catch (error) {
+      console.error('Failed to import notes:', error);
+      alert('导入失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importableCount = preview ? preview.records.length - preview.duplicateCount : 0;
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Download className="w-5 h-5 text-indigo-600" />
+          <h4 className="text-lg font-semibold text-gray-900">导入笔记</h4>
+        </div>
+        {(preview || result) && (
+          <button onClick={reset} className="text-gray-400 hover:text-gray-600" title="重新选择">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!preview && !result && (
+        <div>
+          <p className="text-sm text-gray-500 mb-3">从其他笔记工具导入，保留原来的创建时间；与已有记录重复的内容会自动跳过</p>
+          <div className="grid grid-cols-2 gap-2">
+            {importers.map((importer) => (
+              <button
+                key={importer.format}
+                onClick={() => handleSelectSource(importer.format)}
+                disabled={loading}
+                className="flex items-center space-x-2 p-3 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 text-left transition-colors disabled:opacity-50"
+              >
+                <FileText className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-800">{importer.name}</span>
+                  <span className="block text-xs text-gray-400">
+                    {importer.directory ? '选择文件夹' : importer.extensions.join(' / ')}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+          {loading && <p className="text-xs text-gray-500 mt-2">正在读取...</p>}
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-4">
+          <p className="text-xs text-gray-500 truncate" title={sourcePath || ''}>来源：{sourcePath}</p>
+
+          {preview.csvHeaders && (
+            <div className="grid grid-cols-2 gap-2">
+              {CSV_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex items-center text-sm text-gray-700">
+                  <span className="w-16 flex-shrink-0">{label}{key === 'text' && <span className="text-red-500">*</span>}</span>
+                  <select
+                    value={csvMapping?.[key] || ''}
+                    onChange={(e) => handleMappingChange(key, e.target.value)}
+                    className="input-primary flex-1 py-1 text-sm"
+                  >
+                    <option value="">不导入</option>
+                    {preview.csvHeaders!.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-4 text-sm">
+            <span className="text-gray-700">共 {preview.records.length} 条</span>
+            {preview.duplicateCount > 0 && <span className="text-amber-600">重复 {preview.duplicateCount} 条（将跳过）</span>}
+            {preview.errors.length > 0 && <span className="text-red-600">无法导入 {preview.errors.length} 条</span>}
+          </div>
+
+          {preview.records.length > 0 && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {preview.records.slice(0, PREVIEW_LIMIT).map((record, index) => (
+                <div key={index} className={`px-3 py-2 text-sm ${record.duplicate ? 'opacity-50' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-800 truncate mr-2">{record.input.text.split('\n')[0]}</span>
+                    <span className="text-xs text-gray-400 flex-shrink-0">
+                      {record.duplicate
+                        ? '重复'
+                        : record.input.created_at
+                          ? format(new Date(record.input.created_at), 'yyyy-MM-dd HH:mm', { locale: zhCN })
+                          : ''}
+                    </span>
+                  </div>
+                  {record.input.tags && record.input.tags.length > 0 && (
+                    <div className="text-xs text-gray-500 mt-0.5">{record.input.tags.map(tag => `#${tag}`).join(' ')}</div>
+                  )}
+                </div>
+              ))}
+              {preview.records.length > PREVIEW_LIMIT && (
+                <div className="px-3 py-2 text-xs text-gray-400">还有 {preview.records.length - PREVIEW_LIMIT} 条未显示</div>
+              )}
+            </div>
+          )}
+
+          {preview.errors.length > 0 && <ImportErrorList errors={preview.errors} />}
+
+          <div className="flex justify-end space-x-2">
+            <button onClick={reset} className="btn-secondary text-sm">取消</button>
+            <button
+              onClick={handleImport}
+              disabled={loading || importableCount === 0}
+              className="btn-primary text-sm disabled:opacity-50"
+            >
+              {loading ? '导入中...' : `导入 ${importableCount} 条`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 p-3 rounded-lg bg-green-50 text-green-800 text-sm">
+            <CheckCircle className="w-4 h-4" />
+            <span>
+              已导入 {result.imported} 条
+              {result.skippedDuplicates > 0 && `，跳过重复 ${result.skippedDuplicates} 条`}
+              {result.errors.length > 0 && `，${result.errors.length} 条失败`}
+            </span>
+          </div>
+          {result.errors.length > 0 && <ImportErrorList errors={result.errors} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ImportErrorList: React.FC<{ errors: ImportResult['errors'] }> = ({ errors }) => (
+  <div className="p-3 bg-red-50 border border-red-200 rounded-lg max-h-40 overflow-y-auto">
+    {errors.map((error, index) => (
+      <div key={index} className="flex items-start text-xs text-red-700 mb-1 last:mb-0">
+        <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+        <span><span className="font-medium">{error.source}</span>：{error.message}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export default ImportWizard;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Paperclip, FileText, X, Upload } from 'lucide-react';
+import { Note, Attachment, AttachmentInput } from '../../../core/src/index';
+
+interface NoteAttachmentsProps {
+  note: Note;
+}
+
+// 将拖入或选择的文件转换为附件输入：本地文件传路径，粘贴的截图等没有路径时传内容
+export const toAttachmentInputs = async (files: File[]): Promise<AttachmentInput[]> => {
+  return Promise.all(files.map(async (file) => {
+    const filePath = (file as any).path as string | undefined;
+    if (filePath) {
+      return { file_name: file.name, path: filePath };
+    }
+    return { file_name: file.name || 'image.png', data: new Uint8Array(await file.arrayBuffer()) };
+  }));
+};
+
+export const formatFileSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const NoteAttachments: React.FC<NoteAttachmentsProps> = ({ note }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // 已请求过缩略图的附件，避免重复请求
+  const requestedPreviews = useRef<Set<string>>(new Set());
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getAttachments(note.id);
+      if (result.success && result.data) {
+        setAttachments(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load attachments:', error);
+    }
+  }, [note.id]);
+
+  useEffect(() => {
+    setPreviews({});
+    requestedPreviews.current = new Set();
+    loadAttachments();
+  }, [loadAttachments]);
+
+  // 为图片附件加载缩略图
+  useEffect(() => {
+    attachments
+      .filter(attachment => attachment.mime_type.startsWith('image/') && !requestedPreviews.current.has(attachment.id))
+      .forEach(async (attachment) => {
+        requestedPreviews.current.add(attachment.id);
+        try {
+          const result = await window.electronAPI.getAttachmentPreview(attachment.id);
+          if (result.success && result.data) {
+            setPreviews(prev => ({ ...prev, [attachment.id]: result.data as string }));
+          }
+        } catch (error) {
+          console.error('Failed to load attachment preview:', error);
+        }
+      });
+  }, [attachments]);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    try {
+      setUploading(true);
+      const result = await window.electronAPI.addAttachments(note.id, await toAttachmentInputs(files));
+      if (result.success && result.data) {
+        setAttachments(prev => [...prev, ...result.data!]);
+      }
+      if (result.error) {
+        alert('部分附件添加失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to add attachments:', error);
+      alert('添加附件失败，请重试');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`确定要删除附件"${attachment.file_name}"吗？`)) return;
+
+    try {
+      const result = await window.electronAPI.deleteAttachment(attachment.id);
+      if (result.success) {
+        setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+      } else {
+        alert('删除失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to delete attachment:', error);
+      alert('删除失败，请重试');
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    const result = await window.electronAPI.openAttachment(attachment.id);
+    if (!result.success) {
+      alert('无法打开附件：' + result.error);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`rounded-lg p-4 mb-4 border transition-colors ${
+        isDragging ? 'bg-blue-50 border-blue-300 border-dashed' : 'bg-white border-gray-200'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-900 flex items-center">
+          <Paperclip className="w-4 h-4 mr-2 text-gray-500" />
+          附件
+          {attachments.length > 0 && <span className="ml-2 text-xs text-gray-500">{attachments.length}</span>}
+        </h4>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center space-x-1 text-xs text-gray-500 hover:text-primary-600 transition-colors disabled:opacity-50"
+        >
+          <Upload className="w-3 h-3" />
+          <span>{uploading ? '添加中...' : '添加文件'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-xs text-gray-400">拖放截图、日志或PDF到这里添加附件</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="group relative">
+              {previews[attachment.id] ? (
+                <button
+                  onClick={() => handleOpen(attachment)}
+                  className="block w-24 h-24 rounded border border-gray-200 overflow-hidden bg-gray-50 hover:border-gray-300"
+                  title={`${attachment.file_name}（${formatFileSize(attachment.size)}）`}
+                >
+                  <img src={previews[attachment.id]} alt={attachment.file_name} className="w-full h-full object-cover" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleOpen(attachment)}
+                  className="flex items-center space-x-2 max-w-xs px-3 py-2 rounded border border-gray-200 bg-gray-50 hover:border-gray-300 text-left"
+                  title="用默认程序打开"
+                >
+                  <FileText className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block text-xs text-gray-800 truncate">{attachment.file_name}</span>
+                    <span className="block text-xs text-gray-400">{formatFileSize(attachment.size)}</span>
+                  </span>
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(attachment)}
+                className="absolute -top-1.5 -right-1.5 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-gray-700 text-white hover:bg-red-600"
+                title="删除附件"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteAttachments;
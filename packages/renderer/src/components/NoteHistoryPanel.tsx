@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { History, RotateCcw, User, Sparkles, Bot, Link2, FolderSync } from 'lucide-react';
+import { Note, NoteRevision, NoteRevisionDiff, RevisionSource } from '../../../core/src/index';
+
+interface NoteHistoryPanelProps {
+  note: Note;
+  onRestored: (note: Note) => void;
+}
+
+const sourceInfo: Record<RevisionSource, { label: string; icon: React.ComponentType<{ className?: string }>; color: string }> = {
+  user: { label: '手动编辑', icon: User, color: 'bg-blue-100 text-blue-700' },
+  ai_optimize: { label: 'AI优化', icon: Sparkles, color: 'bg-purple-100 text-purple-700' },
+  assistant: { label: 'AI助手', icon: Bot, color: 'bg-green-100 text-green-700' },
+  restore: { label: '恢复版本', icon: RotateCcw, color: 'bg-gray-100 text-gray-700' },
+  link_update: { label: '链接更新', icon: Link2, color: 'bg-amber-100 text-amber-700' },
+  vault_sync: { label: '外部编辑', icon: FolderSync, color: 'bg-teal-100 text-teal-700' },
+};
+
+const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({ note, onRestored }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<NoteRevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await window.electronAPI.getNoteRevisions(note.id);
+      if (result.success && result.data) {
+        setRevisions(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load note revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [note.id]);
+
+  // 笔记内容变化后重新加载（新的修改会产生新的修订）
+  useEffect(() => {
+    loadRevisions();
+    setSelectedRevisionId(null);
+    setDiff(null);
+  }, [loadRevisions, note.text]);
+
+  const handleSelectRevision = useCallback(async (revisionId: string) => {
+    if (selectedRevisionId === revisionId) {
+      setSelectedRevisionId(null);
+      setDiff(null);
+      return;
+    }
+
+    setSelectedRevisionId(revisionId);
+    try {
+      const result = await window.electronAPI.getNoteRevisionDiff(revisionId);
+      if (result.success) {
+        setDiff(result.data || null);
+      }
+    } catch (error) {
+      console.error('Failed to load revision diff:', error);
+    }
+  }, [selectedRevisionId]);
+
+  const handleRestore = useCallback(async (revisionId: string) => {
+    if (!confirm('确定要恢复到这个版本吗？当前内容会保存为一条新的历史记录。')) return;
+
+    try {
+      setRestoring(true);
+      const result = await window.electronAPI.restoreNoteRevision(revisionId);
+      if (result.success && result.data) {
+        onRestored(result.data);
+      } else {
+        alert('恢复失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert('恢复失败，请重试');
+    } finally {
+      setRestoring(false);
+    }
+  }, [onRestored]);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 mt-4">
+      <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+        <History className="w-4 h-4 mr-2 text-gray-500" />
+        修改历史
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center space-x-2 text-gray-500 text-sm">
+          <div className="w-4 h-4 border-2 border-gray-300 border-t-primary-600 rounded-full animate-spin"></div>
+          <span>加载中...</span>
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无修改记录</p>
+      ) : (
+        <div className="space-y-2">
+          {revisions.map((revision) => {
+            const info = sourceInfo[revision.source] || sourceInfo.user;
+            const IconComponent = info.icon;
+            const isSelected = selectedRevisionId === revision.id;
+
+            return (
+              <div
+                key={revision.id}
+                className={`bg-white rounded border p-3 transition-colors ${
+                  isSelected ? 'border-primary-300' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div
+                  className="flex items-center justify-between cursor-pointer"
+                  onClick={() => handleSelectRevision(revision.id)}
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className={`flex items-center space-x-1 px-1.5 py-0.5 rounded text-xs ${info.color}`}>
+                      <IconComponent className="w-3 h-3" />
+                      <span>{info.label}</span>
+                    </span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {format(new Date(revision.created_at), 'MM月dd日 HH:mm', { locale: zhCN })}
+                    </span>
+                    <span className="text-xs text-gray-600 truncate">{revision.text}</span>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(revision.id);
+                    }}
+                    disabled={restoring}
+                    className="ml-2 flex items-center space-x-1 text-xs text-gray-500 hover:text-primary-600 transition-colors disabled:opacity-50 flex-shrink-0"
+                    title="恢复到修改前的内容"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>恢复</span>
+                  </button>
+                </div>
+
+                {isSelected && diff && diff.revision.id === revision.id && (
+                  <div className="mt-3 border-t border-gray-100 pt-2 font-mono text-xs max-h-64 overflow-y-auto">
+                    {diff.lines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={`whitespace-pre-wrap break-words px-2 ${
+                          line.type === 'added'
+                            ? 'bg-green-50 text-green-800'
+                            : line.type === 'removed'
+                              ? 'bg-red-50 text-red-800 line-through'
+                              : 'text-gray-600'
+                        }`}
+                      >
+                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteHistoryPanel;
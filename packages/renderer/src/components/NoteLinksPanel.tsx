@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Link2, CornerUpLeft } from 'lucide-react';
+import { Note, NoteLinks } from '../../../core/src/index';
+
+interface NoteLinksPanelProps {
+  note: Note;
+  onOpenNote: (note: Note) => void;
+}
+
+// 列表中显示笔记的第一行
+const getPreview = (note: Note) => {
+  const firstLine = note.text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+  return firstLine.replace(/^#+\s*/, '');
+};
+
+const NoteLinksPanel: React.FC<NoteLinksPanelProps> = ({ note, onOpenNote }) => {
+  const [links, setLinks] = useState<NoteLinks>({ outgoing: [], backlinks: [] });
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getNoteLinks(note.id);
+      if (result.success && result.data) {
+        setLinks(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load note links:', error);
+    }
+  }, [note.id]);
+
+  // 笔记内容变化后链接可能变化
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks, note.text]);
+
+  if (links.outgoing.length === 0 && links.backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 mb-4">
+      {links.outgoing.length > 0 && (
+        <div className="mb-3 last:mb-0">
+          <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+            <Link2 className="w-4 h-4 mr-2 text-gray-500" />
+            链接到
+          </h4>
+          <div className="flex flex-wrap gap-1">
+            {links.outgoing.map(({ target_text, note: target }) => (
+              target ? (
+                <button
+                  key={target_text}
+                  onClick={() => onOpenNote(target)}
+                  className="text-xs px-2 py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors max-w-xs truncate"
+                  title={target.text}
+                >
+                  {getPreview(target)}
+                </button>
+              ) : (
+                <span
+                  key={target_text}
+                  className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-400 line-through"
+                  title="没有找到这条笔记"
+                >
+                  {target_text}
+                </span>
+              )
+            ))}
+          </div>
+        </div>
+      )}
+
+      {links.backlinks.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+            <CornerUpLeft className="w-4 h-4 mr-2 text-gray-500" />
+            反向链接
+            <span className="ml-2 text-xs text-gray-500">{links.backlinks.length}</span>
+          </h4>
+          <div className="space-y-1">
+            {links.backlinks.map((source) => (
+              <button
+                key={source.id}
+                onClick={() => onOpenNote(source)}
+                className="w-full text-left bg-white rounded border border-gray-200 hover:border-gray-300 px-3 py-2 transition-colors"
+              >
+                <p className="text-sm text-gray-800 truncate">{getPreview(source)}</p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {format(new Date(source.created_at), 'MM月dd日 HH:mm', { locale: zhCN })}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteLinksPanel;
@@ -1,12 +1,43 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { format } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
-import { Trash2, Monitor, Clock, Tag, FileText, Edit3, Save, X, ListChecks, AlertCircle, Lightbulb, Heart, Filter, Plus, Send, FolderOpen, Copy, Sparkles, Settings, Hash } from 'lucide-react';
-import { Note } from '../../../core/src/index';
+import { Trash2, Monitor, Clock, Tag, FileText, Edit3, Save, X, ListChecks, AlertCircle, Lightbulb, Heart, Filter, Plus, Send, FolderOpen, Copy, Sparkles, Settings, Hash, Search, History, CalendarClock, Brain } from 'lucide-react';
+import { Note, NoteSearchResult } from '../../../core/src/index';
+import NoteHistoryPanel from './NoteHistoryPanel';
+import TodoSchedulePanel, { priorityInfo } from './TodoSchedulePanel';
+import NoteLinksPanel from './NoteLinksPanel';
+import NoteAttachments from './NoteAttachments';
+
+type SortMode = 'created' | 'due' | 'priority';
+
+const sortOptions: Array<{ id: SortMode; name: string }> = [
+  { id: 'created', name: '记录时间' },
+  { id: 'due', name: '截止时间' },
+  { id: 'priority', name: '优先级' },
+];
+
+const priorityRank = (note: Note) => (note.priority ? ['high', 'medium', 'low'].indexOf(note.priority) : 3);
+
+// 将搜索片段中的<mark>高亮标记渲染为React元素
+const renderHighlightedSnippet = (snippet: string) => {
+  return snippet.split(/(<mark>[\s\S]*?<\/mark>)/g).map((part, index) => {
+    if (part.startsWith('<mark>') && part.endsWith('</mark>')) {
+      return (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      );
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+};
 
 // 优化的笔记项组件
 interface NoteItemProps {
   note: Note;
+  snippet?: string;
+  // 只被语义搜索命中（不含关键词）的结果
+  semanticMatch?: boolean;
   isSelected: boolean;
   onSelect: (note: Note) => void;
   onDelete: (id: string) => void;
@@ -16,14 +47,14 @@ interface NoteItemProps {
   getStatusInfo: (status?: string) => { status: string; color: string };
 }
 
-const NoteItem = React.memo<NoteItemProps>(({ note, isSelected, onSelect, onDelete, onStatusChange, getTypeColor, getTypeName, getStatusInfo }) => {
+const NoteItem = React.memo<NoteItemProps>(({ note, snippet, semanticMatch, isSelected, onSelect, onDelete, onStatusChange, getTypeColor, getTypeName, getStatusInfo }) => {
   const handleClick = useCallback(() => {
     onSelect(note);
   }, [note, onSelect]);
 
   const handleDelete = useCallback((e: React.MouseEvent) => {
     e.stopPropagation(); // 阻止选择事件
-    if (confirm('确定要删除这条记录吗？')) {
+    if (confirm('确定要将这条记录移入回收站吗？')) {
       onDelete(note.id);
     }
   }, [note.id, onDelete]);
@@ -48,6 +79,8 @@ const NoteItem = React.memo<NoteItemProps>(({ note, isSelected, onSelect, onDele
     return format(new Date(note.created_at), 'HH:mm', { locale: zhCN });
   }, [note.created_at]);
 
+  const isOverdue = !!note.due_at && note.status !== 'closed' && new Date(note.due_at) < new Date();
+
   return (
     <div
       onClick={handleClick}
@@ -73,6 +106,27 @@ const NoteItem = React.memo<NoteItemProps>(({ note, isSelected, onSelect, onDele
               {getStatusInfo(note.status).status}
             </button>
           )}
+          {note.priority && (
+            <span className={`text-xs px-2 py-1 rounded-full font-medium ${priorityInfo[note.priority].color}`}>
+              {priorityInfo[note.priority].label}
+            </span>
+          )}
+          {note.due_at && (
+            <span
+              className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full font-medium ${
+                isOverdue ? 'bg-red-100 text-red-700' : 'bg-orange-50 text-orange-700'
+              }`}
+              title={isOverdue ? '已逾期' : '截止时间'}
+            >
+              <CalendarClock className="w-3 h-3" />
+              <span>{format(new Date(note.due_at), 'MM/dd HH:mm', { locale: zhCN })}</span>
+            </span>
+          )}
+          {semanticMatch && (
+            <span className="text-xs px-2 py-1 rounded-full font-medium bg-indigo-50 text-indigo-700" title="内容相关，但不包含搜索的关键词">
+              语义
+            </span>
+          )}
         </div>
         <div className="flex items-center space-x-2 text-gray-400">
           <div className="flex items-center space-x-1">
@@ -92,7 +146,7 @@ const NoteItem = React.memo<NoteItemProps>(({ note, isSelected, onSelect, onDele
       {/* 内容区域 */}
       <div className="mb-3">
         <p className="text-sm text-gray-900 line-clamp-2 leading-relaxed">
-          {note.text}
+          {snippet ? renderHighlightedSnippet(snippet) : note.text}
         </p>
       </div>
 
@@ -133,7 +187,12 @@ const NoteItem = React.memo<NoteItemProps>(({ note, isSelected, onSelect, onDele
 
 NoteItem.displayName = 'NoteItem';
 
-const NotesList: React.FC = () => {
+interface NotesListProps {
+  // 打开列表时选中的笔记，如从AI助手的引用跳转过来
+  initialNoteId?: string | null;
+}
+
+const NotesList: React.FC<NotesListProps> = ({ initialNoteId }) => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
@@ -144,8 +203,16 @@ const NotesList: React.FC = () => {
   const [editingCustomTag, setEditingCustomTag] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [selectedTag, setSelectedTag] = useState<string>('');
+  const [sortMode, setSortMode] = useState<SortMode>('created');
   const [showFilters, setShowFilters] = useState(false);
 
+  // 全文搜索相关状态
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<NoteSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  // 混合搜索：同时按语义查找用词不同但内容相关的记录
+  const [hybridSearch, setHybridSearch] = useState(false);
+
   // 快速记录相关状态
   const [showQuickNote, setShowQuickNote] = useState(false);
   const [quickNoteText, setQuickNoteText] = useState('');
@@ -157,6 +224,7 @@ const NotesList: React.FC = () => {
   const [copyFeedback, setCopyFeedback] = useState<string>('');
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [isDetailOptimizing, setIsDetailOptimizing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // 自定义标签管理状态
   const [showTagManager, setShowTagManager] = useState(false);
@@ -182,6 +250,42 @@ const NotesList: React.FC = () => {
     };
   }, []);
 
+  // Markdown目录中的外部修改同步回来后刷新列表和当前选中的笔记
+  useEffect(() => {
+    const handler = (window as any).electronAPI?.onVaultSynced?.(async () => {
+      const result = await window.electronAPI.getNotes(100);
+      if (result.success && result.data) {
+        const refreshed = result.data;
+        setNotes(refreshed);
+        setSelectedNote(prev => (prev ? refreshed.find(note => note.id === prev.id) || null : prev));
+      }
+    });
+
+    return () => {
+      (window as any).electronAPI?.removeVaultSyncedListener?.(handler);
+    };
+  }, []);
+
+  // 选中指定的笔记，不在已加载的列表中时单独获取
+  useEffect(() => {
+    if (!initialNoteId) return;
+    (async () => {
+      try {
+        const result = await window.electronAPI.getNote(initialNoteId);
+        if (!result.success) return;
+        if (!result.data) {
+          alert('这条记录已被永久删除');
+        } else if (result.data.deleted_at) {
+          alert('这条记录已移入回收站');
+        } else {
+          setSelectedNote(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to open note:', error);
+      }
+    })();
+  }, [initialNoteId]);
+
   const loadNotes = useCallback(async () => {
     try {
       setLoading(true);
@@ -249,6 +353,7 @@ const NotesList: React.FC = () => {
       const result = await window.electronAPI.deleteNote(id);
       if (result.success) {
         setNotes(prevNotes => prevNotes.filter(note => note.id !== id));
+        setSearchResults(prevResults => prevResults && prevResults.filter(result => result.note.id !== id));
         setSelectedNote(prevSelected => prevSelected?.id === id ? null : prevSelected);
       } else {
         alert('删除失败：' + result.error);
@@ -300,7 +405,8 @@ const NotesList: React.FC = () => {
   const handleStatusChange = useCallback(async (id: string, newStatus: string) => {
     try {
       // 找到当前笔记
-      const currentNote = notes.find(note => note.id === id);
+      const currentNote = notes.find(note => note.id === id)
+        || searchResults?.find(result => result.note.id === id)?.note;
       if (!currentNote) return;
 
       // 使用新的updateNoteStatus API更新状态
@@ -314,6 +420,9 @@ const NotesList: React.FC = () => {
             note.id === id ? updatedNote : note
           )
         );
+        setSearchResults(prevResults => prevResults && prevResults.map(result =>
+          result.note.id === id ? { ...result, note: updatedNote } : result
+        ));
 
         // 如果是当前选中的笔记，也要更新选中状态
         if (selectedNote?.id === id) {
@@ -326,7 +435,7 @@ const NotesList: React.FC = () => {
       console.error('Failed to update note status:', error);
       alert('状态更新失败，请重试');
     }
-  }, [notes, selectedNote]);
+  }, [notes, searchResults, selectedNote]);
 
   // 简化的智能标签识别函数
   const parseSmartTags = useCallback((text: string) => {
@@ -378,7 +487,7 @@ const NotesList: React.FC = () => {
       const result = await window.electronAPI.optimizeContent(selectedNote.text.trim());
       if (result.success && result.data) {
         // 直接更新笔记内容
-        const updateResult = await window.electronAPI.updateNote(selectedNote.id, result.data);
+        const updateResult = await window.electronAPI.updateNote(selectedNote.id, result.data, 'ai_optimize');
         if (updateResult.success) {
           const updatedNote = { ...selectedNote, text: result.data };
           setNotes(prevNotes =>
@@ -404,6 +513,20 @@ const NotesList: React.FC = () => {
   const handleSelectNote = useCallback((note: Note) => {
     setSelectedNote(note);
     setIsEditing(false); // 重置编辑状态
+    setShowHistory(false);
+  }, []);
+
+  // 从修改历史恢复后同步本地状态
+  const handleNoteUpdated = useCallback((restoredNote: Note) => {
+    setNotes(prevNotes =>
+      prevNotes.map(note =>
+        note.id === restoredNote.id ? restoredNote : note
+      )
+    );
+    setSearchResults(prevResults => prevResults && prevResults.map(result =>
+      result.note.id === restoredNote.id ? { ...result, note: restoredNote } : result
+    ));
+    setSelectedNote(restoredNote);
   }, []);
 
   const handleEditNote = useCallback(() => {
@@ -543,9 +666,63 @@ const NotesList: React.FC = () => {
     return Array.from(tags).sort();
   }, [notes]);
 
+  // 搜索整个笔记库（防抖），分类和标签过滤交给数据库处理
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const filters = {
+          type_hint: selectedCategory || undefined,
+          tags: selectedTag ? [selectedTag] : undefined,
+          limit: 100,
+        };
+        const result = hybridSearch
+          ? await window.electronAPI.hybridSearch(query, filters)
+          : await window.electronAPI.searchNotes(query, filters);
+        if (!cancelled && result.success && result.data) {
+          setSearchResults(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to search notes:', error);
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, selectedCategory, selectedTag, hybridSearch]);
+
+  // 搜索结果的高亮片段，语义命中的结果没有片段，显示原文
+  const searchSnippets = useMemo(() => {
+    const snippets = new Map<string, string>();
+    searchResults?.forEach(result => snippets.set(result.note.id, result.snippet));
+    return snippets;
+  }, [searchResults]);
+
+  const semanticMatches = useMemo(() => {
+    return new Set(searchResults?.filter(result => result.match === 'semantic').map(result => result.note.id));
+  }, [searchResults]);
+
   // 过滤笔记
   const filteredNotes = useMemo(() => {
-    return notes.filter(note => {
+    if (searchResults) {
+      return searchResults.map(result => result.note);
+    }
+
+    const filtered = notes.filter(note => {
       // 按分类过滤
       if (selectedCategory && note.type_hint !== selectedCategory) {
         return false;
@@ -556,7 +733,21 @@ const NotesList: React.FC = () => {
       }
       return true;
     });
-  }, [notes, selectedCategory, selectedTag]);
+
+    // 未设置截止时间的排在最后，其余保持记录时间倒序
+    if (sortMode === 'due') {
+      return [...filtered].sort((a, b) => {
+        if (a.due_at && b.due_at) return a.due_at.localeCompare(b.due_at);
+        if (a.due_at) return -1;
+        if (b.due_at) return 1;
+        return 0;
+      });
+    }
+    if (sortMode === 'priority') {
+      return [...filtered].sort((a, b) => priorityRank(a) - priorityRank(b));
+    }
+    return filtered;
+  }, [notes, searchResults, selectedCategory, selectedTag, sortMode]);
 
   if (loading) {
     return (
@@ -605,6 +796,38 @@ const NotesList: React.FC = () => {
             </div>
           </div>
 
+          {/* 搜索框 */}
+          <div className="relative mb-3">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder={hybridSearch ? '按关键词和语义搜索...' : '搜索全部记录...'}
+              className="w-full pl-9 pr-14 py-1.5 text-sm border border-gray-200 rounded-lg outline-none placeholder-gray-400 focus:border-blue-400"
+            />
+            {isSearching ? (
+              <div className="absolute right-8 top-1/2 transform -translate-y-1/2 w-3 h-3 border border-gray-400 border-t-transparent rounded-full animate-spin" />
+            ) : searchQuery && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-7 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 p-0.5"
+                title="清除搜索"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              onClick={() => setHybridSearch(!hybridSearch)}
+              className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-0.5 rounded transition-colors ${
+                hybridSearch ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:text-gray-600'
+              }`}
+              title={hybridSearch ? '混合搜索：关键词 + 语义（点击切换为仅关键词）' : '仅关键词搜索（点击开启语义搜索）'}
+            >
+              <Brain className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
           {/* 快速记录界面 */}
           {showQuickNote && (
             <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -824,6 +1047,26 @@ const NotesList: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {/* 排序方式 */}
+              <div>
+                <label className="text-xs text-gray-600 mb-1 block">排序</label>
+                <div className="flex flex-wrap gap-1">
+                  {sortOptions.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => setSortMode(option.id)}
+                      className={`text-xs px-2 py-1 rounded-full transition-colors ${
+                        sortMode === option.id
+                          ? 'bg-orange-100 text-orange-700'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           )}
         </div>
@@ -832,11 +1075,11 @@ const NotesList: React.FC = () => {
           {filteredNotes.length === 0 ? (
             <div className="p-8 text-center text-gray-500">
               <FileText className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-              <p>{notes.length === 0 ? '暂无记录' : '没有匹配的记录'}</p>
+              <p>{notes.length === 0 && !searchResults ? '暂无记录' : '没有匹配的记录'}</p>
               <p className="text-sm mt-2">
-                {notes.length === 0
+                {notes.length === 0 && !searchResults
                   ? '按 ⌥N 开始记录你的第一个想法'
-                  : '尝试调整过滤条件'
+                  : searchResults ? '尝试更换搜索关键词' : '尝试调整过滤条件'
                 }
               </p>
             </div>
@@ -846,6 +1089,8 @@ const NotesList: React.FC = () => {
                 <NoteItem
                   key={note.id}
                   note={note}
+                  snippet={searchSnippets.get(note.id)}
+                  semanticMatch={semanticMatches.has(note.id)}
                   isSelected={selectedNote?.id === note.id}
                   onSelect={handleSelectNote}
                   onDelete={handleDeleteNote}
@@ -909,6 +1154,13 @@ const NotesList: React.FC = () => {
                   </p>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className={`transition-colors p-1 ${showHistory ? 'text-primary-600' : 'text-gray-500 hover:text-gray-700'}`}
+                    title="修改历史"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
                   <button
                     onClick={handleEditNote}
                     className="text-blue-500 hover:text-blue-700 transition-colors p-1"
@@ -919,7 +1171,7 @@ const NotesList: React.FC = () => {
                   <button
                     onClick={() => handleDeleteNote(selectedNote.id)}
                     className="text-red-500 hover:text-red-700 transition-colors p-1"
-                    title="删除记录"
+                    title="移入回收站"
                   >
                     <Trash2 className="w-4 h-4" />
                   </button>
@@ -986,7 +1238,7 @@ const NotesList: React.FC = () => {
                     value={editingText}
                     onChange={(e) => setEditingText(e.target.value)}
                     className="w-full h-32 p-3 border border-gray-300 rounded-md resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="输入记录内容..."
+                    placeholder="输入记录内容...（用 [[笔记标题]] 链接其他记录）"
                     autoFocus
                   />
                 ) : (
@@ -1084,6 +1336,22 @@ const NotesList: React.FC = () => {
                 </div>
               )}
 
+              {!isEditing && (
+                <NoteAttachments note={selectedNote} />
+              )}
+
+              {!isEditing && (
+                <NoteLinksPanel note={selectedNote} onOpenNote={handleSelectNote} />
+              )}
+
+              {selectedNote.type_hint === 'todo' && !isEditing && (
+                <TodoSchedulePanel key={selectedNote.id} note={selectedNote} onUpdated={handleNoteUpdated} />
+              )}
+
+              {showHistory && !isEditing && (
+                <NoteHistoryPanel note={selectedNote} onRestored={handleNoteUpdated} />
+              )}
+
               {(selectedNote.app_name || selectedNote.window_title || selectedNote.url) && (
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h4 className="font-medium text-gray-900 mb-3">上下文信息</h4>
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, RefreshCw } from 'lucide-react';
+import { EmbeddingSource, SemanticIndexStatus } from '../../../core/src/index';
+
+const SOURCE_OPTIONS: Array<{ value: EmbeddingSource; label: string; description: string }> = [
+  { value: 'local', label: '本地模型', description: '在本机计算，首次使用时下载约120MB的模型文件，记录不会发送到外部' },
+  { value: 'ai', label: 'AI服务', description: '使用当前AI服务的向量接口，记录内容会发送给服务商' },
+  { value: 'off', label: '关闭', description: '只使用关键词搜索' },
+];
+
+// 设置页中的语义搜索配置：选择向量的计算方式并显示索引进度
+const SemanticSearchSettings: React.FC = () => {
+  const [status, setStatus] = useState<SemanticIndexStatus | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const result = await window.electronAPI.getSemanticIndexStatus();
+      if (result.success && result.data) {
+        setStatus(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load semantic index status:', error);
+    }
+  };
+
+  const changeSource = async (source: EmbeddingSource) => {
+    try {
+      setSaving(true);
+      const result = await window.electronAPI.setEmbeddingSource(source);
+      if (result.success && result.data) {
+        setStatus(result.data);
+      } else {
+        alert('保存失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to set embedding source:', error);
+      alert('保存失败，请重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  const selected = SOURCE_OPTIONS.find(option => option.value === status.source);
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Brain className="w-5 h-5 text-primary-600" />
+          <h4 className="text-lg font-semibold text-gray-900">语义搜索</h4>
+        </div>
+        <button
+          onClick={loadStatus}
+          className="p-1.5 text-gray-500 hover:text-primary-600 hover:bg-primary-50 rounded-md transition-colors"
+          title="刷新索引进度"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        为每条记录计算语义向量，在记录列表中开启混合搜索后，用词不同但内容相关的记录也能搜到
+      </p>
+
+      <div className="flex items-center space-x-3">
+        <span className="text-sm text-gray-700 w-16">计算方式</span>
+        <select
+          value={status.source}
+          disabled={saving}
+          onChange={(e) => changeSource(e.target.value as EmbeddingSource)}
+          className="input-primary w-40"
+        >
+          {SOURCE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {selected && <p className="text-xs text-gray-500 mt-2 ml-[76px]">{selected.description}</p>}
+
+      {status.source !== 'off' && (
+        <div className="mt-4 text-sm">
+          {status.model && (
+            <p className="text-gray-600">
+              已索引 <span className="font-medium text-primary-600">{status.indexed}</span> / {status.total} 条记录
+            </p>
+          )}
+          {status.error && (
+            <p className="text-red-600 mt-1">{status.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SemanticSearchSettings;
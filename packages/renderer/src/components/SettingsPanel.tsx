@@ -1,13 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { Save, Key, Zap, Shield, CheckCircle, AlertCircle, Monitor, Keyboard } from 'lucide-react';
-import { AIConfig } from '../../../core/src/index';
+import { AIConfig, AIConfigSummary, AIProviderInfo } from '../../../core/src/index';
+import VaultSettings from './VaultSettings';
+import ImportWizard from './ImportWizard';
+import BackupSettings from './BackupSettings';
+import DigestScheduleSettings from './DigestScheduleSettings';
+import SemanticSearchSettings from './SemanticSearchSettings';
+import EncryptionSettings from './EncryptionSettings';
+
+// 设置页中展示的AI服务能力
+const CAPABILITY_LABELS: Array<{ key: keyof AIProviderInfo['capabilities']; label: string }> = [
+  { key: 'streaming', label: '流式输出' },
+  { key: 'jsonMode', label: 'JSON输出' },
+  { key: 'toolCalling', label: '工具调用' },
+  { key: 'embeddings', label: '向量检索' },
+];
 
 const SettingsPanel: React.FC = () => {
-  const [aiConfig, setAIConfig] = useState<AIConfig | null>(null);
+  const [aiConfig, setAIConfig] = useState<AIConfigSummary | null>(null);
+  const [providers, setProviders] = useState<AIProviderInfo[]>([]);
   const [formData, setFormData] = useState({
-    provider: 'qwen' as 'openai' | 'qwen',
+    provider: 'qwen',
     api_key: '',
     model: '',
+    options: {} as Record<string, string>,
+    // 留空使用默认值
+    timeout_seconds: '',
+    max_retries: '',
   });
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
@@ -16,6 +35,7 @@ const SettingsPanel: React.FC = () => {
   const [floatingSaving, setFloatingSaving] = useState(false);
 
   useEffect(() => {
+    loadAIProviders();
     loadAIConfig();
     loadFloatingSettings();
 
@@ -30,6 +50,17 @@ const SettingsPanel: React.FC = () => {
     };
   }, []);
 
+  const loadAIProviders = async () => {
+    try {
+      const result = await window.electronAPI.getAIProviders();
+      if (result.success && result.data) {
+        setProviders(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load AI providers:', error);
+    }
+  };
+
   const loadAIConfig = async () => {
     try {
       const result = await window.electronAPI.getAIConfig();
@@ -37,8 +68,12 @@ const SettingsPanel: React.FC = () => {
         setAIConfig(result.data);
         setFormData({
           provider: result.data.provider,
-          api_key: result.data.api_key,
+          // 已保存的密钥不会返回，留空表示沿用
+          api_key: '',
           model: result.data.model || '',
+          options: result.data.options || {},
+          timeout_seconds: result.data.timeout_seconds?.toString() || '',
+          max_retries: result.data.max_retries?.toString() || '',
         });
       }
     } catch (error) {
@@ -76,11 +111,33 @@ const SettingsPanel: React.FC = () => {
     }
   };
 
+  const currentProvider = providers.find(p => p.id === formData.provider);
+  // 当前选择的服务是否已保存过密钥
+  const hasSavedApiKey = !!aiConfig?.api_key_providers.includes(formData.provider);
+
+  const handleProviderChange = (provider: AIProviderInfo) => {
+    // 切回已保存的服务时恢复原来的配置
+    const isSaved = aiConfig?.provider === provider.id;
+    setFormData({
+      ...formData,
+      provider: provider.id,
+      api_key: '',
+      model: isSaved ? aiConfig?.model || '' : '',
+      options: isSaved ? aiConfig?.options || {} : {},
+    });
+    setTestResult(null);
+  };
+
   const handleSave = async () => {
-    if (!formData.api_key.trim()) {
+    if (currentProvider?.apiKey === 'required' && !formData.api_key.trim() && !hasSavedApiKey) {
       alert('请输入API密钥');
       return;
     }
+    const missingField = currentProvider?.fields.find(field => field.required && !formData.options[field.key]?.trim());
+    if (missingField) {
+      alert(`请填写${missingField.label}`);
+      return;
+    }
 
     try {
       setSaving(true);
@@ -88,17 +145,29 @@ const SettingsPanel: React.FC = () => {
 
       const config: AIConfig = {
         provider: formData.provider,
-        api_key: formData.api_key.trim(),
+        api_key: formData.api_key.trim() || undefined,
         model: formData.model.trim() || undefined,
+        options: Object.fromEntries(
+          Object.entries(formData.options).map(([key, value]) => [key, value.trim()]).filter(([, value]) => value)
+        ),
+        timeout_seconds: formData.timeout_seconds.trim() ? Number(formData.timeout_seconds) : undefined,
+        max_retries: formData.max_retries.trim() ? Number(formData.max_retries) : undefined,
       };
 
       const result = await window.electronAPI.setAIConfig(config);
 
       if (result.success) {
-        setAIConfig(config);
+        await loadAIConfig();
+        setTestResult({
+          success: result.data !== false,
+          message: result.data !== false ? '设置已保存并验证通过' : '设置已保存，但测试请求没有得到预期的回复'
+        });
+      } else if (result.errorKind) {
+        // 设置已经保存，只是连接测试失败
+        await loadAIConfig();
         setTestResult({
-          success: true,
-          message: '设置已保存并验证通过'
+          success: false,
+          message: '设置已保存，但连接测试失败：' + result.error
         });
       } else {
         setTestResult({
@@ -117,25 +186,6 @@ const SettingsPanel: React.FC = () => {
     }
   };
 
-  const providers = [
-    {
-      id: 'qwen' as const,
-      name: '阿里千问',
-      description: '强大功能，中文优化',
-      defaultModel: 'qwen-max',
-      placeholder: '请输入阿里云API密钥'
-    },
-    {
-      id: 'openai' as const,
-      name: 'OpenAI',
-      description: '功能强大，英文优先',
-      defaultModel: 'gpt-4',
-      placeholder: '请输入OpenAI API密钥'
-    }
-  ];
-
-  const currentProvider = providers.find(p => p.id === formData.provider);
-
   return (
     <div className="flex-1 overflow-y-auto p-6">
       <div className="max-w-4xl w-full">
@@ -157,7 +207,7 @@ const SettingsPanel: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 AI供应商
               </label>
-              <div className="space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                 {providers.map((provider) => (
                   <label
                     key={provider.id}
@@ -171,18 +221,15 @@ const SettingsPanel: React.FC = () => {
                       type="radio"
                       value={provider.id}
                       checked={formData.provider === provider.id}
-                      onChange={(e) => {
-                        setFormData({
-                          ...formData,
-                          provider: e.target.value as 'openai' | 'qwen',
-                          model: provider.defaultModel,
-                        });
-                      }}
+                      onChange={() => handleProviderChange(provider)}
                       className="sr-only"
                     />
                     <div className="flex-1">
                       <div className="font-medium text-gray-900">{provider.name}</div>
                       <div className="text-sm text-gray-500">{provider.description}</div>
+                      <div className="text-xs text-gray-400 mt-0.5">
+                        {CAPABILITY_LABELS.filter(({ key }) => provider.capabilities[key]).map(({ label }) => label).join(' · ')}
+                      </div>
                     </div>
                     {formData.provider === provider.id && (
                       <CheckCircle className="w-5 h-5 text-primary-600" />
@@ -192,28 +239,59 @@ const SettingsPanel: React.FC = () => {
               </div>
             </div>
 
-            {/* API密钥 */}
-            <div>
-              <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-2">
-                API密钥
-              </label>
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center">
-                  <Key className="w-4 h-4 text-gray-400" />
+            {/* API密钥，本地服务不需要 */}
+            {currentProvider && currentProvider.apiKey !== 'none' && (
+              <div>
+                <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-2">
+                  API密钥{currentProvider.apiKey === 'optional' && '（可选）'}
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center">
+                    <Key className="w-4 h-4 text-gray-400" />
+                  </div>
+                  <input
+                    id="api-key"
+                    type="password"
+                    value={formData.api_key}
+                    onChange={(e) => setFormData({ ...formData, api_key: e.target.value })}
+                    placeholder={hasSavedApiKey
+                      ? `已保存${aiConfig?.provider === formData.provider && aiConfig.api_key_hint ? `（末尾 ${aiConfig.api_key_hint}）` : ''}，留空保持不变`
+                      : currentProvider.apiKeyPlaceholder}
+                    className="input-primary pl-10 w-full"
+                  />
                 </div>
+                {aiConfig && !aiConfig.api_key_encrypted ? (
+                  <p className="flex items-start space-x-1 text-xs text-amber-700 mt-1">
+                    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+                    <span>系统钥匙串不可用，API密钥暂时以明文保存在本地设置中，钥匙串可用后重启应用会自动转为加密保存</span>
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    API密钥通过系统钥匙串加密保存在本地，不会上传到任何服务器
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* 服务声明的其他配置项 */}
+            {currentProvider?.fields.map((field) => (
+              <div key={field.key}>
+                <label htmlFor={`ai-option-${field.key}`} className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label}{field.required && <span className="text-red-500">*</span>}
+                </label>
                 <input
-                  id="api-key"
-                  type="password"
-                  value={formData.api_key}
-                  onChange={(e) => setFormData({ ...formData, api_key: e.target.value })}
-                  placeholder={currentProvider?.placeholder}
-                  className="input-primary pl-10 w-full"
+                  id={`ai-option-${field.key}`}
+                  type={field.type}
+                  value={formData.options[field.key] || ''}
+                  onChange={(e) => setFormData({ ...formData, options: { ...formData.options, [field.key]: e.target.value } })}
+                  placeholder={field.default ? `默认: ${field.default}` : field.placeholder}
+                  className="input-primary w-full"
                 />
+                {field.description && (
+                  <p className="text-xs text-gray-500 mt-1">{field.description}</p>
+                )}
               </div>
-              <p className="text-xs text-gray-500 mt-1">
-                API密钥仅存储在本地，不会上传到任何服务器
-              </p>
-            </div>
+            ))}
 
             {/* 模型选择 */}
             <div>
@@ -223,16 +301,61 @@ const SettingsPanel: React.FC = () => {
               <input
                 id="model"
                 type="text"
+                list="ai-models"
                 value={formData.model}
                 onChange={(e) => setFormData({ ...formData, model: e.target.value })}
-                placeholder={`默认: ${currentProvider?.defaultModel}`}
+                placeholder={`默认: ${currentProvider?.defaultModel || ''}`}
                 className="input-primary w-full"
               />
+              <datalist id="ai-models">
+                {currentProvider?.models.map((model) => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
+              </datalist>
               <p className="text-xs text-gray-500 mt-1">
-                留空将使用默认模型
+                留空将使用默认模型，也可以填写列表之外的模型名称
               </p>
             </div>
 
+            {/* 请求超时和重试 */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="ai-timeout" className="block text-sm font-medium text-gray-700 mb-2">
+                  请求超时（秒）
+                </label>
+                <input
+                  id="ai-timeout"
+                  type="number"
+                  min={5}
+                  value={formData.timeout_seconds}
+                  onChange={(e) => setFormData({ ...formData, timeout_seconds: e.target.value })}
+                  placeholder="默认: 60"
+                  className="input-primary w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  超过这段时间没有收到响应或新的输出时中止请求
+                </p>
+              </div>
+              <div>
+                <label htmlFor="ai-retries" className="block text-sm font-medium text-gray-700 mb-2">
+                  失败重试次数
+                </label>
+                <input
+                  id="ai-retries"
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={formData.max_retries}
+                  onChange={(e) => setFormData({ ...formData, max_retries: e.target.value })}
+                  placeholder="默认: 2"
+                  className="input-primary w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  请求过于频繁或服务暂时不可用时自动重试
+                </p>
+              </div>
+            </div>
+
             {/* 保存按钮 */}
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 pt-4">
               <div className="flex items-center space-x-2">
@@ -252,7 +375,7 @@ const SettingsPanel: React.FC = () => {
 
               <button
                 onClick={handleSave}
-                disabled={saving || !formData.api_key.trim()}
+                disabled={saving || !currentProvider || (currentProvider.apiKey === 'required' && !formData.api_key.trim() && !hasSavedApiKey)}
                 className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed sm:self-end"
               >
                 {saving ? (
@@ -318,6 +441,24 @@ const SettingsPanel: React.FC = () => {
           </div>
         </div>
 
+        {/* 定时自动总结 */}
+        <DigestScheduleSettings />
+
+        {/* 语义搜索 */}
+        <SemanticSearchSettings />
+
+        {/* Markdown目录同步 */}
+        <VaultSettings />
+
+        {/* 导入 */}
+        <ImportWizard />
+
+        {/* 数据加密 */}
+        <EncryptionSettings />
+
+        {/* 数据备份 */}
+        <BackupSettings />
+
         {/* 快捷键列表 */}
         <div className="card p-6">
           <div className="flex items-center space-x-2 mb-4">
@@ -391,7 +532,7 @@ const SettingsPanel: React.FC = () => {
             </div>
             <div className="flex items-start space-x-2">
               <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
-              <p>API密钥安全保存在本地，不会上传到任何服务器</p>
+              <p>API密钥保存在系统钥匙串中，不会上传到任何服务器</p>
             </div>
             <div className="flex items-start space-x-2">
               <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Bell, Flag, Repeat } from 'lucide-react';
+import { Note, NotePriority, NoteScheduleInput } from '../../../core/src/index';
+
+interface TodoSchedulePanelProps {
+  note: Note;
+  onUpdated: (note: Note) => void;
+}
+
+export const priorityInfo: Record<NotePriority, { label: string; color: string }> = {
+  high: { label: '高', color: 'bg-red-100 text-red-700' },
+  medium: { label: '中', color: 'bg-yellow-100 text-yellow-700' },
+  low: { label: '低', color: 'bg-gray-100 text-gray-600' },
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['日', '一', '二', '三', '四', '五', '六'];
+const CUSTOM_RECURRENCE = 'custom';
+
+// 常用重复规则，其他规则通过自定义RRULE输入
+const getRecurrencePresets = (note: Note) => {
+  const weekday = (note.due_at ? new Date(note.due_at) : new Date()).getDay();
+  return [
+    { value: '', label: '不重复' },
+    { value: 'FREQ=DAILY', label: '每天' },
+    { value: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', label: '每个工作日' },
+    { value: `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[weekday]}`, label: `每周${WEEKDAY_NAMES[weekday]}` },
+    { value: 'FREQ=MONTHLY', label: '每月' },
+  ];
+};
+
+// ISO时间与datetime-local输入框的本地时间格式互转
+const toLocalInputValue = (iso?: string) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+const fromLocalInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const TodoSchedulePanel: React.FC<TodoSchedulePanelProps> = ({ note, onUpdated }) => {
+  const [saving, setSaving] = useState(false);
+  const [customRule, setCustomRule] = useState<string | null>(null);
+
+  const recurrencePresets = getRecurrencePresets(note);
+  const isPresetRecurrence = recurrencePresets.some(preset => preset.value === (note.recurrence || ''));
+  const showCustomRule = customRule !== null || !isPresetRecurrence;
+
+  const handleChange = async (schedule: NoteScheduleInput) => {
+    try {
+      setSaving(true);
+      const result = await window.electronAPI.updateNoteSchedule(note.id, schedule);
+      if (result.success && result.data) {
+        onUpdated(result.data);
+        if (schedule.recurrence !== undefined) {
+          setCustomRule(null);
+        }
+      } else {
+        alert('保存失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to update note schedule:', error);
+      alert('保存失败，请重试');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isOverdue = !!note.due_at && note.status !== 'closed' && new Date(note.due_at) < new Date();
+
+  return (
+    <div className="bg-white rounded-lg p-4 border border-gray-200 mb-4">
+      <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+        <CalendarClock className="w-4 h-4 mr-2 text-gray-500" />
+        待办设置
+        {isOverdue && <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-red-100 text-red-700">已逾期</span>}
+      </h4>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center">
+          <Flag className="w-4 h-4 mr-2 text-gray-400" />
+          <span className="w-16 text-gray-600">优先级</span>
+          <div className="flex gap-1">
+            {(Object.keys(priorityInfo) as NotePriority[]).map((priority) => (
+              <button
+                key={priority}
+                onClick={() => handleChange({ priority: note.priority === priority ? null : priority })}
+                disabled={saving}
+                className={`text-xs px-2 py-1 rounded-full transition-colors disabled:opacity-50 ${
+                  note.priority === priority
+                    ? priorityInfo[priority].color
+                    : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {priorityInfo[priority].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center">
+          <CalendarClock className="w-4 h-4 mr-2 text-gray-400" />
+          <span className="w-16 text-gray-600">截止时间</span>
+          <input
+            type="datetime-local"
+            value={toLocalInputValue(note.due_at)}
+            onChange={(e) => handleChange({ due_at: fromLocalInputValue(e.target.value) })}
+            disabled={saving}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50"
+          />
+        </div>
+
+        <div className="flex items-center">
+          <Bell className="w-4 h-4 mr-2 text-gray-400" />
+          <span className="w-16 text-gray-600">提醒时间</span>
+          <input
+            type="datetime-local"
+            value={toLocalInputValue(note.remind_at)}
+            onChange={(e) => handleChange({ remind_at: fromLocalInputValue(e.target.value) })}
+            disabled={saving}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50"
+          />
+          {note.due_at && !note.remind_at && (
+            <button
+              onClick={() => handleChange({ remind_at: note.due_at })}
+              disabled={saving}
+              className="ml-2 text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
+            >
+              截止时提醒
+            </button>
+          )}
+          {note.reminded_at && (
+            <span className="ml-2 text-xs text-gray-400">已提醒</span>
+          )}
+        </div>
+
+        <div className="flex items-center">
+          <Repeat className="w-4 h-4 mr-2 text-gray-400" />
+          <span className="w-16 text-gray-600">重复</span>
+          <select
+            value={showCustomRule ? CUSTOM_RECURRENCE : note.recurrence || ''}
+            onChange={(e) => {
+              if (e.target.value === CUSTOM_RECURRENCE) {
+                setCustomRule(note.recurrence || '');
+              } else {
+                handleChange({ recurrence: e.target.value || null });
+              }
+            }}
+            disabled={saving}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50"
+          >
+            {recurrencePresets.map(preset => (
+              <option key={preset.value} value={preset.value}>{preset.label}</option>
+            ))}
+            <option value={CUSTOM_RECURRENCE}>自定义规则...</option>
+          </select>
+        </div>
+
+        {showCustomRule && (
+          <div className="flex items-center pl-6">
+            <input
+              type="text"
+              value={customRule ?? note.recurrence ?? ''}
+              onChange={(e) => setCustomRule(e.target.value)}
+              placeholder="如 FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm font-mono focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => handleChange({ recurrence: (customRule ?? note.recurrence ?? '').trim() || null })}
+              disabled={saving || customRule === null}
+              className="ml-2 text-xs px-2 py-1 rounded bg-primary-50 text-primary-700 hover:bg-primary-100 disabled:opacity-50"
+            >
+              应用
+            </button>
+          </div>
+        )}
+
+        {note.recurrence && (
+          <p className="pl-6 text-xs text-gray-500">完成后会自动生成下一次待办</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TodoSchedulePanel;
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { Trash2, RotateCcw, RefreshCw, Clock } from 'lucide-react';
+import { Note } from '../../../core/src/index';
+
+const retentionOptions = [7, 14, 30, 60, 90];
+
+const TrashBin: React.FC = () => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [savingRetention, setSavingRetention] = useState(false);
+
+  const loadTrashedNotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await window.electronAPI.getTrashedNotes();
+      if (result.success && result.data) {
+        setNotes(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load trashed notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRetentionDays = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.getTrashRetentionDays();
+      if (result.success && result.data) {
+        setRetentionDays(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load trash retention days:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrashedNotes();
+    loadRetentionDays();
+  }, [loadTrashedNotes, loadRetentionDays]);
+
+  const handleRestore = async (id: string) => {
+    try {
+      setProcessingId(id);
+      const result = await window.electronAPI.restoreNote(id);
+      if (result.success) {
+        setNotes(prev => prev.filter(note => note.id !== id));
+      } else {
+        alert('恢复失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to restore note:', error);
+      alert('恢复失败，请重试');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (id: string) => {
+    if (!confirm('永久删除后无法恢复，确定要删除这条记录吗？')) return;
+
+    try {
+      setProcessingId(id);
+      const result = await window.electronAPI.permanentlyDeleteNote(id);
+      if (result.success) {
+        setNotes(prev => prev.filter(note => note.id !== id));
+      } else {
+        alert('删除失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to permanently delete note:', error);
+      alert('删除失败，请重试');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (notes.length === 0) return;
+    if (!confirm(`确定要永久删除回收站中的 ${notes.length} 条记录吗？此操作无法撤销。`)) return;
+
+    try {
+      setLoading(true);
+      const result = await window.electronAPI.emptyTrash();
+      if (result.success) {
+        setNotes([]);
+      } else {
+        alert('清空回收站失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      alert('清空回收站失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      setSavingRetention(true);
+      const result = await window.electronAPI.setTrashRetentionDays(days);
+      if (result.success) {
+        setRetentionDays(days);
+      } else {
+        alert('设置失败：' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to set trash retention days:', error);
+      alert('设置失败，请重试');
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  // 距离自动永久删除的剩余天数
+  const getDaysLeft = (deletedAt?: string) => {
+    if (!deletedAt) return retentionDays;
+    return Math.max(0, retentionDays - differenceInCalendarDays(new Date(), new Date(deletedAt)));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full">
+      {/* 头部信息 */}
+      <div className="p-6 bg-gradient-to-r from-gray-50 to-red-50 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <Trash2 className="w-5 h-5 text-red-600" />
+              <h3 className="text-lg font-semibold text-gray-900">回收站</h3>
+            </div>
+            <div className="flex items-center space-x-2 text-gray-600 text-sm">
+              <span>
+                共 <span className="font-medium text-red-600">{notes.length}</span> 条记录，超过
+              </span>
+              <select
+                value={retentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                disabled={savingRetention}
+                className="px-2 py-0.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50"
+              >
+                {retentionOptions.map(days => (
+                  <option key={days} value={days}>{days} 天</option>
+                ))}
+              </select>
+              <span>后自动永久删除</span>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={loadTrashedNotes}
+              disabled={loading}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>刷新</span>
+            </button>
+            <button
+              onClick={handleEmptyTrash}
+              disabled={loading || notes.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>清空回收站</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {loading && notes.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="flex items-center space-x-2 text-gray-500">
+              <div className="w-4 h-4 border-2 border-gray-300 border-t-red-600 rounded-full animate-spin"></div>
+              <span className="text-sm">加载中...</span>
+            </div>
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Trash2 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+            <p>回收站是空的</p>
+          </div>
+        ) : (
+          <div className="max-w-4xl mx-auto space-y-3">
+            {notes.map((note) => (
+              <div key={note.id} className="bg-white rounded-lg border border-gray-200 p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0 mr-4">
+                    <p className="text-sm text-gray-900 line-clamp-3 whitespace-pre-wrap">{note.text}</p>
+                    <div className="flex items-center space-x-3 mt-2 text-xs text-gray-500">
+                      <span>创建于 {format(new Date(note.created_at), 'yyyy年MM月dd日 HH:mm', { locale: zhCN })}</span>
+                      {note.deleted_at && (
+                        <span>删除于 {format(new Date(note.deleted_at), 'MM月dd日 HH:mm', { locale: zhCN })}</span>
+                      )}
+                      <span className="flex items-center space-x-1 text-orange-600">
+                        <Clock className="w-3 h-3" />
+                        <span>{getDaysLeft(note.deleted_at)} 天后永久删除</span>
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleRestore(note.id)}
+                      disabled={processingId === note.id}
+                      className="flex items-center space-x-1 text-sm px-3 py-1.5 rounded-lg text-blue-600 bg-blue-50 hover:bg-blue-100 transition-colors disabled:opacity-50"
+                      title="恢复记录"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>恢复</span>
+                    </button>
+                    <button
+                      onClick={() => handlePermanentDelete(note.id)}
+                      disabled={processingId === note.id}
+                      className="flex items-center space-x-1 text-sm px-3 py-1.5 rounded-lg text-red-600 bg-red-50 hover:bg-red-100 transition-colors disabled:opacity-50"
+                      title="永久删除"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>永久删除</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+
+interface UnlockScreenProps {
+  onUnlocked: () => void;
+}
+
+// 数据库加密后启动时显示，输入密码解锁
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    try {
+      setUnlocking(true);
+      setError(null);
+      const result = await window.electronAPI.unlockDatabase(passphrase);
+      if (result.success) {
+        onUnlocked();
+      } else {
+        setError(result.error || '解锁失败');
+        setPassphrase('');
+      }
+    } catch (error) {
+      console.error('Failed to unlock database:', error);
+      setError('解锁失败，请重试');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-50">
+      <form onSubmit={handleSubmit} className="card p-8 w-full max-w-sm">
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-12 h-12 rounded-full bg-primary-50 flex items-center justify-center mb-3">
+            <Lock className="w-6 h-6 text-primary-600" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">Flowpad 已加密</h1>
+          <p className="text-sm text-gray-500 mt-1">请输入密码解锁数据</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="密码"
+          autoFocus
+          className="input-primary w-full mb-3"
+        />
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600 mb-3">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={unlocking || !passphrase}
+          className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {unlocking ? '解锁中...' : '解锁'}
+        </button>
+
+        <p className="text-xs text-gray-400 mt-4 text-center">忘记密码将无法恢复加密的数据</p>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockScreen;
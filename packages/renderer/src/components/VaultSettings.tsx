@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { FolderSync, FolderOpen, RefreshCw, AlertTriangle } from 'lucide-react';
+import { VaultStatus } from '../../../core/src/index';
+
+// 设置页中的Markdown目录同步配置
+const VaultSettings: React.FC = () => {
+  const [status, setStatus] = useState<VaultStatus>({ path: null, conflicts: [] });
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+
+    // 后台同步完成后刷新状态
+    const handler = (window as any).electronAPI?.onVaultSynced?.(() => {
+      loadStatus();
+    });
+    return () => {
+      (window as any).electronAPI?.removeVaultSyncedListener?.(handler);
+    };
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const result = await window.electronAPI.getVaultStatus();
+      if (result.success && result.data) {
+        setStatus(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load vault status:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ success: boolean; data?: VaultStatus; error?: string }>, failMessage: string) => {
+    try {
+      setBusy(true);
+      const result = await action();
+      if (result.success && result.data) {
+        setStatus(result.data);
+      } else if (!result.success) {
+        alert(failMessage + '：' + result.error);
+      }
+    } catch (error) {
+      console.error(failMessage, error);
+      alert(failMessage + '，请重试');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = () => {
+    if (!confirm('停用后不再同步，目录中已导出的文件会保留。确定停用吗？')) return;
+    runAction(() => window.electronAPI.disableVault(), '停用失败');
+  };
+
+  const lastResult = status.last_result;
+
+  return (
+    <div className="card p-6 mb-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <FolderSync className="w-5 h-5 text-teal-600" />
+        <h4 className="text-lg font-semibold text-gray-900">Markdown目录同步</h4>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">
+          每条笔记保存为一个带元数据的 .md 文件，可以用其他编辑器修改或纳入版本管理，外部修改会自动同步回来
+        </p>
+
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0 mr-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">同步目录</label>
+            {status.path ? (
+              <button
+                onClick={() => window.electronAPI.openVaultFolder()}
+                className="text-sm text-primary-600 hover:underline truncate max-w-full block text-left"
+                title="在文件管理器中打开"
+              >
+                {status.path}
+              </button>
+            ) : (
+              <p className="text-sm text-gray-400">未启用</p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+              onClick={() => runAction(() => window.electronAPI.selectVaultFolder(), '设置同步目录失败')}
+              disabled={busy}
+              className="btn-secondary flex items-center space-x-1 text-sm"
+            >
+              <FolderOpen className="w-4 h-4" />
+              <span>{status.path ? '更换目录' : '选择目录'}</span>
+            </button>
+            {status.path && (
+              <>
+                <button
+                  onClick={() => runAction(() => window.electronAPI.syncVaultNow(), '同步失败')}
+                  disabled={busy}
+                  className="btn-secondary flex items-center space-x-1 text-sm"
+                >
+                  <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+                  <span>立即同步</span>
+                </button>
+                <button
+                  onClick={handleDisable}
+                  disabled={busy}
+                  className="text-sm text-gray-500 hover:text-red-600 px-2"
+                >
+                  停用
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {status.path && status.last_synced_at && (
+          <p className="text-xs text-gray-500">
+            上次同步：{format(new Date(status.last_synced_at), 'MM月dd日 HH:mm:ss', { locale: zhCN })}
+            {lastResult && (
+              <span>
+                （导出 {lastResult.exported}，导入 {lastResult.imported}，新建 {lastResult.created}，
+                移入回收站 {lastResult.trashed}）
+              </span>
+            )}
+          </p>
+        )}
+
+        {lastResult && lastResult.errors.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700 space-y-1">
+            {lastResult.errors.map((error, index) => (
+              <div key={index}>{error}</div>
+            ))}
+          </div>
+        )}
+
+        {status.conflicts.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="flex items-center text-sm font-medium text-amber-800 mb-2">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              同步冲突
+            </div>
+            <p className="text-xs text-amber-700 mb-2">
+              以下笔记在应用和外部编辑器中都被修改过，已保留应用中的版本，外部修改另存为冲突文件，请手动合并
+            </p>
+            <div className="space-y-1">
+              {status.conflicts.map((conflict) => (
+                <div key={conflict.conflict_file} className="text-xs text-amber-800 flex justify-between">
+                  <span className="truncate mr-2" title={conflict.conflict_file}>{conflict.conflict_file}</span>
+                  <span className="flex-shrink-0 text-amber-600">
+                    {format(new Date(conflict.detected_at), 'MM-dd HH:mm', { locale: zhCN })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettings;
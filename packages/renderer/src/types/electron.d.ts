@@ -1,18 +1,87 @@
-import { CreateNoteInput, Note, AIConfig } from '../../../core/dist/index';
+import { CreateNoteInput, Note, AIConfig, NoteSearchFilters, NoteSearchResult, NoteRevision, NoteRevisionDiff, RevisionSource, NoteScheduleInput, ParsedDueDate, NoteLinks, Attachment, AttachmentInput, VaultStatus, ImportFormat, ImportOptions, ImportPreview, ImportResult, BackupSnapshot, AIConfigSummary, AIProviderInfo, DatabaseLockState, AIStreamEvent, AssistantResponse, AIErrorKind, DailyDigest, SavedDigest, DigestTodo, DigestPeriod, DigestSchedule, SemanticSearchResult, SemanticIndexStatus, EmbeddingSource, AssistantAction, AssistantActionPlan, AssistantActionBatch, AssistantConversation, ChatMessage } from '../../../core/dist/index';
 
 declare global {
   interface Window {
     electronAPI: {
       createNote: (input: CreateNoteInput) => Promise<{success: boolean; data?: Note; error?: string}>;
       getNotes: (limit?: number, offset?: number) => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      getNote: (id: string) => Promise<{success: boolean; data?: Note | null; error?: string}>;
       getTodayNotes: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      searchNotes: (query: string, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: NoteSearchResult[]; error?: string}>;
+      semanticSearch: (query: string, k?: number, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: SemanticSearchResult[]; error?: string}>;
+      hybridSearch: (query: string, filters?: NoteSearchFilters) => Promise<{success: boolean; data?: NoteSearchResult[]; error?: string}>;
+      getSemanticIndexStatus: () => Promise<{success: boolean; data?: SemanticIndexStatus; error?: string}>;
+      setEmbeddingSource: (source: EmbeddingSource) => Promise<{success: boolean; data?: SemanticIndexStatus; error?: string}>;
       deleteNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      updateNote: (id: string, text: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      updateNote: (id: string, text: string, source?: RevisionSource) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      updateNoteSchedule: (id: string, schedule: NoteScheduleInput) => Promise<{success: boolean; data?: Note | null; error?: string}>;
+      getOverdueTodos: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      getUpcomingTodos: (days?: number) => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      parseDueDate: (text: string) => Promise<{success: boolean; data?: ParsedDueDate | null; error?: string}>;
+      getTrashedNotes: () => Promise<{success: boolean; data?: Note[]; error?: string}>;
+      restoreNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      permanentlyDeleteNote: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      emptyTrash: () => Promise<{success: boolean; data?: number; error?: string}>;
+      getTrashRetentionDays: () => Promise<{success: boolean; data?: number; error?: string}>;
+      setTrashRetentionDays: (days: number) => Promise<{success: boolean; data?: number; error?: string}>;
+      getNoteLinks: (noteId: string) => Promise<{success: boolean; data?: NoteLinks; error?: string}>;
+      addAttachments: (noteId: string, inputs: AttachmentInput[]) => Promise<{success: boolean; data?: Attachment[]; error?: string}>;
+      getAttachments: (noteId: string) => Promise<{success: boolean; data?: Attachment[]; error?: string}>;
+      deleteAttachment: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      openAttachment: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getAttachmentPreview: (id: string) => Promise<{success: boolean; data?: string | null; error?: string}>;
+      getVaultStatus: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      selectVaultFolder: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      disableVault: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      syncVaultNow: () => Promise<{success: boolean; data?: VaultStatus; error?: string}>;
+      openVaultFolder: () => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getImporters: () => Promise<{success: boolean; data?: Array<{format: ImportFormat; name: string; extensions: string[]; directory: boolean}>; error?: string}>;
+      selectImportSource: (format: ImportFormat) => Promise<{success: boolean; data?: string | null; error?: string}>;
+      previewImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => Promise<{success: boolean; data?: ImportPreview; error?: string}>;
+      runImport: (format: ImportFormat, sourcePath: string, options?: ImportOptions) => Promise<{success: boolean; data?: ImportResult; error?: string}>;
+      getBackups: () => Promise<{success: boolean; data?: BackupSnapshot[]; error?: string}>;
+      createBackup: () => Promise<{success: boolean; data?: BackupSnapshot; error?: string}>;
+      deleteBackup: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      restoreBackup: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      openBackupFolder: () => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getDatabaseLockState: () => Promise<{success: boolean; data?: DatabaseLockState; error?: string}>;
+      unlockDatabase: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      enableDatabaseEncryption: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      disableDatabaseEncryption: (passphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      changeDatabasePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      getNoteRevisions: (noteId: string) => Promise<{success: boolean; data?: NoteRevision[]; error?: string}>;
+      getNoteRevisionDiff: (revisionId: string) => Promise<{success: boolean; data?: NoteRevisionDiff | null; error?: string}>;
+      restoreNoteRevision: (revisionId: string) => Promise<{success: boolean; data?: Note; error?: string}>;
       updateNoteTags: (id: string, tags: string[]) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      optimizeContent: (rawContent: string) => Promise<{success: boolean; data?: string; error?: string}>;
-      generateDailyDigest: () => Promise<{success: boolean; data?: string; error?: string}>;
-      setAIConfig: (config: AIConfig) => Promise<{success: boolean; data?: boolean; error?: string}>;
-      getAIConfig: () => Promise<{success: boolean; data?: AIConfig | null; error?: string}>;
+      optimizeContent: (rawContent: string, requestId?: string) => Promise<{success: boolean; data?: string; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      generateDailyDigest: (requestId?: string) => Promise<{success: boolean; data?: DailyDigest; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      generateDigest: (period: DigestPeriod, requestId?: string) => Promise<{success: boolean; data?: DailyDigest; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      saveDigestToHistory: (date: string, digest: DailyDigest, period?: DigestPeriod) => Promise<{success: boolean; data?: SavedDigest; error?: string}>;
+      getSavedDigestByDate: (date: string) => Promise<{success: boolean; data?: SavedDigest | null; error?: string}>;
+      getDigestSchedule: () => Promise<{success: boolean; data?: DigestSchedule; error?: string}>;
+      setDigestSchedule: (schedule: DigestSchedule) => Promise<{success: boolean; data?: DigestSchedule; error?: string}>;
+      getSavedDigests: () => Promise<{success: boolean; data?: SavedDigest[]; error?: string}>;
+      deleteSavedDigest: (id: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      createDigestTodo: (todo: DigestTodo, digestId?: string, position?: number) => Promise<{success: boolean; data?: Note; error?: string}>;
+      processAssistantChat: (userInput: string, requestId?: string, conversationId?: string, messageId?: string) => Promise<{success: boolean; data?: AssistantResponse; error?: string; errorKind?: AIErrorKind; cancelled?: boolean}>;
+      prepareAssistantActions: (actions: AssistantAction[]) => Promise<{success: boolean; data?: AssistantActionPlan; error?: string}>;
+      executeAssistantActions: (planId: string) => Promise<{success: boolean; data?: AssistantActionBatch; error?: string}>;
+      cancelAssistantActions: (planId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      undoAssistantActions: (batchId: string) => Promise<{success: boolean; data?: number; error?: string}>;
+      getAssistantConversations: () => Promise<{success: boolean; data?: AssistantConversation[]; error?: string}>;
+      getAssistantMessages: (conversationId: string) => Promise<{success: boolean; data?: ChatMessage[]; error?: string}>;
+      createAssistantConversation: (title: string) => Promise<{success: boolean; data?: AssistantConversation; error?: string}>;
+      saveAssistantMessage: (conversationId: string, message: ChatMessage) => Promise<{success: boolean; error?: string}>;
+      renameAssistantConversation: (conversationId: string, title: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      deleteAssistantConversation: (conversationId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      cancelAIRequest: (requestId: string) => Promise<{success: boolean; data?: boolean; error?: string}>;
+      onNavigateToDigest: (callback: (date?: string) => void) => any;
+      removeNavigateToDigestListener: (handler?: any) => void;
+      onAIStream: (callback: (event: AIStreamEvent) => void) => any;
+      removeAIStreamListener: (handler?: any) => void;
+      setAIConfig: (config: AIConfig) => Promise<{success: boolean; data?: boolean; error?: string; errorKind?: AIErrorKind}>;
+      getAIConfig: () => Promise<{success: boolean; data?: AIConfigSummary | null; error?: string}>;
+      getAIProviders: () => Promise<{success: boolean; data?: AIProviderInfo[]; error?: string}>;
       hideFloatingWindow: () => Promise<void>;
       showMainWindow: () => Promise<void>;
       getFloatingWindowEnabled: () => Promise<{success: boolean; data?: boolean; error?: string}>;